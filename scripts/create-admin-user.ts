@@ -0,0 +1,114 @@
+/**
+ * Create Admin User Script
+ *
+ * Creates a named admin account and prints its personal API token once.
+ * Only a SHA-256 hash of the token is stored; if the token is lost, run the
+ * script again with --rotate to issue a new one.
+ *
+ * Usage:
+ *   npm run create-admin -- --name "Jane Doe" --email jane@beanumber.org --role reviewer
+ *
+ * Roles: owner, reviewer, field_coordinator, finance, read_only
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { createHash, randomBytes } from 'crypto';
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const ROLES = ['owner', 'reviewer', 'field_coordinator', 'finance', 'read_only'];
+
+interface AdminUserInput {
+  name: string;
+  email: string;
+  role: string;
+  rotate: boolean;
+}
+
+async function createAdminUser(input: AdminUserInput) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('Supabase credentials not configured. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  if (!ROLES.includes(input.role)) {
+    throw new Error(`Invalid role "${input.role}". Must be one of: ${ROLES.join(', ')}`);
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+
+  const token = randomBytes(32).toString('hex');
+  const tokenHash = createHash('sha256').update(token, 'utf8').digest('hex');
+
+  const { data, error } = await supabase
+    .from('admin_users')
+    .upsert(
+      {
+        name: input.name,
+        email: input.email.toLowerCase(),
+        role: input.role,
+        token_hash: tokenHash,
+        active: true,
+      },
+      { onConflict: 'email', ignoreDuplicates: !input.rotate }
+    )
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (!data) {
+    throw new Error(`Admin user ${input.email} already exists. Pass --rotate to issue a new token.`);
+  }
+
+  return { id: data.id as string, token };
+}
+
+// Run if called directly
+if (require.main === module) {
+  const args = process.argv.slice(2);
+
+  const input: AdminUserInput = { name: '', email: '', role: '', rotate: false };
+
+  // Parse command line arguments
+  for (let i = 0; i < args.length; i++) {
+    const key = args[i]?.replace('--', '');
+
+    if (key === 'rotate') {
+      input.rotate = true;
+      continue;
+    }
+
+    const value = args[++i];
+    if (key === 'name') input.name = value;
+    if (key === 'email') input.email = value;
+    if (key === 'role') input.role = value;
+  }
+
+  if (!input.name || !input.email || !input.role) {
+    console.error('Usage: npm run create-admin -- --name "Jane Doe" --email jane@beanumber.org --role reviewer [--rotate]');
+    process.exit(1);
+  }
+
+  createAdminUser(input)
+    .then((result) => {
+      console.log('\n✅ Admin user saved');
+      console.log(`   Name: ${input.name}`);
+      console.log(`   Email: ${input.email}`);
+      console.log(`   Role: ${input.role}`);
+      console.log(`   Record ID: ${result.id}`);
+      console.log('\n🔑 API token (shown once - share it securely):');
+      console.log(`   ${result.token}\n`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\n❌ Failed to create admin user:', error.message);
+      process.exit(1);
+    });
+}
+
+export { createAdminUser };
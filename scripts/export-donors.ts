@@ -1,7 +1,8 @@
 /**
  * Monthly Donor Export Script
  * 
- * Exports all donations from Stripe to a CSV file
+ * Exports all donations from Stripe to a CSV file, plus offline gifts
+ * (checks, cash, bank transfers) entered by admins in Airtable
  * 
  * Usage:
  *   npm run export-donors
@@ -13,11 +14,22 @@
 import Stripe from 'stripe';
 import fs from 'fs';
 import path from 'path';
+import type {
+  AirtableDonationRecord,
+  AirtableDonorRecord,
+  AirtableListResponse,
+} from '../src/lib/types/airtable';
+import { fromMinorUnits } from '../src/lib/currency';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-12-15.clover',
 });
 
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const AIRTABLE_DONORS_TABLE = process.env.AIRTABLE_DONORS_TABLE || 'Donors';
+const AIRTABLE_DONATIONS_TABLE = process.env.AIRTABLE_DONATIONS_TABLE || 'Donations';
+
 interface DonorExportRow {
   date: string;
   email: string;
@@ -34,6 +46,95 @@ interface DonorExportRow {
   country: string;
   paymentIntentId: string;
   subscriptionId: string;
+  tributeType: string;
+  honoreeName: string;
+  tributeNotifyName: string;
+  tributeNotifyEmail: string;
+  tributeMessage: string;
+  paymentMethod: string;
+  referenceNumber: string;
+  depositBatch: string;
+}
+
+async function airtableGet<T>(table: string, query: string): Promise<T> {
+  const response = await fetch(`https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${table}${query}`, {
+    headers: { Authorization: `Bearer ${AIRTABLE_API_KEY}` },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Airtable API error: ${await response.text()}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Offline gifts never pass through Stripe, so read them from Airtable
+ */
+async function fetchOfflineGifts(startDate?: string, endDate?: string): Promise<DonorExportRow[]> {
+  if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+    console.warn('⚠️  Airtable credentials not set; offline gifts are not included');
+    return [];
+  }
+
+  const records: AirtableDonationRecord[] = [];
+  let offset: string | undefined;
+
+  do {
+    const formula = encodeURIComponent(`{Donation Source} = "Manual Entry"`);
+    const data = await airtableGet<AirtableListResponse<AirtableDonationRecord>>(
+      AIRTABLE_DONATIONS_TABLE,
+      `?filterByFormula=${formula}&pageSize=100${offset ? `&offset=${offset}` : ''}`
+    );
+    records.push(...data.records);
+    offset = data.offset;
+  } while (offset);
+
+  const gifts = records.filter((record) => {
+    const date = String(record.fields['Donation Date'] || '').slice(0, 10);
+    if (startDate && date < startDate) return false;
+    if (endDate && date > endDate) return false;
+    return true;
+  });
+
+  // Names live on the donor record
+  const donorNames = new Map<string, string>();
+  for (const gift of gifts) {
+    const donorId = gift.fields['Donor']?.[0];
+    if (donorId && !donorNames.has(donorId)) {
+      const donor = await airtableGet<AirtableDonorRecord>(AIRTABLE_DONORS_TABLE, `/${donorId}`);
+      donorNames.set(donorId, donor.fields['Donor Name'] || '');
+    }
+  }
+
+  return gifts.map((gift) => {
+    const fields = gift.fields;
+    return {
+      date: String(fields['Donation Date'] || '').slice(0, 10),
+      email: fields['Donor Email at Donation'] || '',
+      name: donorNames.get(fields['Donor']?.[0] || '') || 'Anonymous',
+      organization: fields['Organization Name'] || '',
+      amount: Number(fields['Donation Amount'] || 0),
+      currency: (fields['Currency'] || 'USD').toUpperCase(),
+      type: 'offline',
+      isRecurring: false,
+      address: fields['Address Line 1'] || '',
+      city: fields['City'] || '',
+      state: fields['State'] || '',
+      postalCode: fields['Postal Code'] || '',
+      country: fields['Country'] || '',
+      paymentIntentId: '',
+      subscriptionId: '',
+      tributeType: fields['Tribute Type'] || '',
+      honoreeName: fields['Honoree Name'] || '',
+      tributeNotifyName: fields['Tribute Notify Name'] || '',
+      tributeNotifyEmail: fields['Tribute Notify Email'] || '',
+      tributeMessage: fields['Tribute Message'] || '',
+      paymentMethod: fields['Payment Method'] || '',
+      referenceNumber: fields['Reference Number'] || '',
+      depositBatch: fields['Deposit Batch'] || '',
+    };
+  });
 }
 
 async function exportDonors(startDate?: string, endDate?: string) {
@@ -128,7 +229,7 @@ async function exportDonors(startDate?: string, endDate?: string) {
         name: fullSession.customer_details?.name || fullSession.metadata?.donor_name || 'Anonymous',
         organization:
           fullSession.custom_fields?.find((f) => f.key === 'organization')?.text?.value || '',
-        amount: fullSession.amount_total ? fullSession.amount_total / 100 : 0,
+        amount: fullSession.amount_total ? fromMinorUnits(fullSession.amount_total, fullSession.currency || 'usd') : 0,
         currency: (fullSession.currency || 'usd').toUpperCase(),
         type: fullSession.metadata?.donation_type || (fullSession.mode === 'subscription' ? 'monthly' : 'one-time'),
         isRecurring: fullSession.mode === 'subscription',
@@ -139,6 +240,14 @@ async function exportDonors(startDate?: string, endDate?: string) {
         country: address.country || '',
         paymentIntentId: (fullSession.payment_intent as string) || '',
         subscriptionId: (fullSession.subscription as string) || '',
+        tributeType: fullSession.metadata?.tribute_type || '',
+        honoreeName: fullSession.metadata?.tribute_honoree || '',
+        tributeNotifyName: fullSession.metadata?.tribute_notify_name || '',
+        tributeNotifyEmail: fullSession.metadata?.tribute_notify_email || '',
+        tributeMessage: fullSession.metadata?.tribute_message || '',
+        paymentMethod: 'Card',
+        referenceNumber: '',
+        depositBatch: '',
       };
 
       exportData.push(row);
@@ -147,6 +256,10 @@ async function exportDonors(startDate?: string, endDate?: string) {
     }
   }
 
+  const offlineGifts = await fetchOfflineGifts(startDate, endDate);
+  console.log(`Found ${offlineGifts.length} offline gifts`);
+  exportData.push(...offlineGifts);
+
   // Generate CSV
   const headers = [
     'Date',
@@ -164,6 +277,14 @@ async function exportDonors(startDate?: string, endDate?: string) {
     'Country',
     'Payment Intent ID',
     'Subscription ID',
+    'Tribute Type',
+    'Honoree Name',
+    'Tribute Notify Name',
+    'Tribute Notify Email',
+    'Tribute Message',
+    'Payment Method',
+    'Reference Number',
+    'Deposit Batch',
   ];
 
   const csvRows = [
@@ -185,6 +306,15 @@ async function exportDonors(startDate?: string, endDate?: string) {
         `"${row.country}"`,
         row.paymentIntentId,
         row.subscriptionId,
+        row.tributeType,
+        `"${row.honoreeName.replace(/"/g, '""')}"`,
+        `"${row.tributeNotifyName.replace(/"/g, '""')}"`,
+        `"${row.tributeNotifyEmail}"`,
+        // Free text from the donor: double any quotes so the row stays intact
+        `"${row.tributeMessage.replace(/"/g, '""')}"`,
+        row.paymentMethod,
+        `"${row.referenceNumber.replace(/"/g, '""')}"`,
+        `"${row.depositBatch.replace(/"/g, '""')}"`,
       ].join(',')
     ),
   ];
@@ -0,0 +1,241 @@
+/**
+ * Sync Donations to Supabase Script
+ *
+ * Copies the donors and donations recorded in Airtable into the Supabase
+ * donors and donations tables that tax statements, the fund ledger,
+ * accounting exports, the donor portal and analytics read. New gifts are
+ * copied as they are recorded; run this once to bring over the gifts
+ * recorded before that, e.g. ahead of sending year-end statements.
+ *
+ * Safe to run again: donors are matched to the ones already copied,
+ * existing donations are kept, and each donor's recurring status and each
+ * donation's payment status and refund date are brought up to date with
+ * Airtable.
+ *
+ * The first gift of a monthly donation used to be left Pending (it is
+ * recorded under the checkout session, which has no payment intent). Each
+ * one is checked with Stripe and marked Succeeded, in Airtable too, if its
+ * checkout was paid.
+ *
+ * Usage:
+ *   npm run sync-donations
+ *
+ * Or only gifts from a date on:
+ *   npm run sync-donations -- --since 2025-01-01
+ */
+
+import Stripe from 'stripe';
+import type {
+  AirtableDonationRecord,
+  AirtableDonorRecord,
+  AirtableListResponse,
+} from '../src/lib/types/airtable';
+import {
+  syncDonorRecord,
+  syncDonorRecurringStatus,
+  syncDonationRecord,
+  syncDonationStatus,
+} from '../src/lib/donation-records';
+import { toDonationFund } from '../src/lib/funds';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2025-12-15.clover',
+});
+
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const AIRTABLE_DONORS_TABLE = process.env.AIRTABLE_DONORS_TABLE || 'Donors';
+const AIRTABLE_DONATIONS_TABLE = process.env.AIRTABLE_DONATIONS_TABLE || 'Donations';
+
+async function airtableGet<T>(table: string, query: string): Promise<T> {
+  const response = await fetch(`https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${table}${query}`, {
+    headers: { Authorization: `Bearer ${AIRTABLE_API_KEY}` },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Airtable API error: ${await response.text()}`);
+  }
+
+  return response.json();
+}
+
+async function airtablePatch(table: string, recordId: string, fields: Record<string, unknown>): Promise<void> {
+  const response = await fetch(`https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${table}/${recordId}`, {
+    method: 'PATCH',
+    headers: { Authorization: `Bearer ${AIRTABLE_API_KEY}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fields }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Airtable API error: ${await response.text()}`);
+  }
+}
+
+/**
+ * The payment status a donation should have: a Pending first monthly gift
+ * whose checkout session was paid is Succeeded
+ */
+async function currentPaymentStatus(donation: AirtableDonationRecord): Promise<string> {
+  const fields = donation.fields;
+  const reference = fields['Stripe Payment Intent ID'];
+
+  if (fields['Payment Status'] !== 'Pending' || !reference.startsWith('cs_')) {
+    return fields['Payment Status'];
+  }
+
+  const session = await stripe.checkout.sessions.retrieve(reference);
+  if (session.payment_status !== 'paid') {
+    return fields['Payment Status'];
+  }
+
+  await airtablePatch(AIRTABLE_DONATIONS_TABLE, donation.id, { 'Payment Status': 'Succeeded' });
+  console.log(`Marked first monthly gift ${donation.id} Succeeded`);
+  return 'Succeeded';
+}
+
+async function fetchAll<T>(table: string, formula?: string): Promise<T[]> {
+  const records: T[] = [];
+  let offset: string | undefined;
+
+  do {
+    const filter = formula ? `&filterByFormula=${encodeURIComponent(formula)}` : '';
+    const data = await airtableGet<AirtableListResponse<T>>(
+      table,
+      `?pageSize=100${filter}${offset ? `&offset=${offset}` : ''}`
+    );
+    records.push(...data.records);
+    offset = data.offset;
+  } while (offset);
+
+  return records;
+}
+
+async function syncDonations(since?: string) {
+  if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+    throw new Error('Airtable credentials not configured. Set AIRTABLE_API_KEY and AIRTABLE_BASE_ID');
+  }
+
+  console.log('Starting donation sync...');
+
+  const donors = await fetchAll<AirtableDonorRecord>(AIRTABLE_DONORS_TABLE);
+  console.log(`Found ${donors.length} donors`);
+
+  // Airtable donor record ID → Supabase donor ID (the survivor, if merged)
+  const donorIds = new Map<string, string>();
+  for (const donor of donors) {
+    const fields = donor.fields;
+    const donorId = await syncDonorRecord({
+      airtableRecordId: donor.id,
+      name: fields['Donor Name'] || 'Anonymous',
+      email: fields['Email Address'] || null,
+      organization: fields['Organization Name'],
+      phone: fields['Phone Number'],
+      mailingAddress: fields['Mailing Address'],
+      stripeCustomerId: fields['Stripe Customer ID'] || null,
+    });
+    donorIds.set(donor.id, donorId);
+
+    if (fields['Stripe Customer ID'] && fields['Recurring Status']) {
+      await syncDonorRecurringStatus(fields['Stripe Customer ID'], fields['Recurring Status']);
+    }
+  }
+
+  const donations = await fetchAll<AirtableDonationRecord>(
+    AIRTABLE_DONATIONS_TABLE,
+    since ? `IS_AFTER({Donation Date}, DATEADD("${since}", -1, "days"))` : undefined
+  );
+  console.log(`Found ${donations.length} donations`);
+
+  let synced = 0;
+  let skipped = 0;
+
+  for (const donation of donations) {
+    const fields = donation.fields;
+    const reference = fields['Stripe Payment Intent ID'];
+
+    if (!reference || !fields['Donation Date']) {
+      console.warn(`⚠️  Skipping donation ${donation.id}: no payment reference or date`);
+      skipped++;
+      continue;
+    }
+
+    try {
+      const status = await currentPaymentStatus(donation);
+
+      await syncDonationRecord({
+        reference,
+        sessionId: fields['Stripe Checkout Session ID'] || null,
+        customerId: fields['Stripe Customer ID'] || null,
+        donorId: donorIds.get(fields['Donor']?.[0] || '') || null,
+        amount: Number(fields['Donation Amount'] || 0),
+        currency: fields['Currency'] || 'usd',
+        donationDate: fields['Donation Date'],
+        status,
+        isRecurring: Boolean(fields['Recurring Donation']),
+        subscriptionId: fields['Subscription ID'] || null,
+        email: fields['Donor Email at Donation'] || '',
+        source: fields['Donation Source'] || '',
+        fund: toDonationFund(fields['Fund']),
+        campaign: fields['Campaign'],
+        tribute: fields['Tribute Type'] && fields['Honoree Name']
+          ? {
+              type: fields['Tribute Type'],
+              honoreeName: fields['Honoree Name'],
+              notifyName: fields['Tribute Notify Name'],
+              notifyEmail: fields['Tribute Notify Email'],
+              message: fields['Tribute Message'],
+            }
+          : undefined,
+        coveredFee: fields['Covered Fee'],
+        exchangeRate: fields['Exchange Rate'] ?? null,
+        stripeFee: fields['Stripe Fee'] ?? null,
+        paymentMethod: fields['Payment Method'],
+        referenceNumber: fields['Reference Number'],
+        depositBatch: fields['Deposit Batch'],
+        address: {
+          line1: fields['Address Line 1'],
+          city: fields['City'],
+          state: fields['State'],
+          postal_code: fields['Postal Code'],
+          country: fields['Country'],
+        },
+      });
+
+      // A donation copied earlier may have been refunded or disputed since
+      await syncDonationStatus(reference, {
+        status,
+        refundedOn: fields['Refund Date'],
+        stripeFee: fields['Stripe Fee'] ?? null,
+        exchangeRate: fields['Exchange Rate'] ?? null,
+      });
+
+      synced++;
+    } catch (error) {
+      console.error(`Error syncing donation ${donation.id}:`, error);
+      skipped++;
+    }
+  }
+
+  console.log(`\n✅ Sync complete!`);
+  console.log(`👤 Donors: ${donorIds.size}`);
+  console.log(`📊 Donations synced: ${synced}`);
+  if (skipped > 0) {
+    console.log(`⚠️  Donations skipped: ${skipped}`);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const sinceIndex = args.indexOf('--since');
+  const since = sinceIndex >= 0 ? args[sinceIndex + 1] : undefined;
+
+  syncDonations(since)
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Sync failed:', error);
+      process.exit(1);
+    });
+}
+
+export { syncDonations };
@@ -17,9 +17,24 @@ interface PendingUpdate {
   requestedAt?: string;
   submittedBy?: string;
   submittedAt?: string;
+  intakeSource?: string;
+  correctionNotes?: string;
   createdTime: string;
 }
 
+interface SafeguardingFlag {
+  field: string;
+  ruleId: string;
+  label: string;
+  category: string;
+  match: string;
+}
+
+interface SafeguardingDecision {
+  redact?: boolean;
+  overrideReason?: string;
+}
+
 interface OverdueChild {
   sponsorCode: string;
   childName: string;
@@ -41,6 +56,9 @@ export default function AdminDashboard() {
   const [isLoadingOverdue, setIsLoadingOverdue] = useState(false);
   const [error, setError] = useState('');
   const [publishingId, setPublishingId] = useState<string | null>(null);
+  const [flaggedUpdates, setFlaggedUpdates] = useState<
+    Record<string, { flags: SafeguardingFlag[]; sendNotification: boolean }>
+  >({});
   const [successMessage, setSuccessMessage] = useState('');
   const [activeTab, setActiveTab] = useState<'pending' | 'overdue'>('pending');
 
@@ -97,9 +115,14 @@ export default function AdminDashboard() {
     }
   };
 
-  const handlePublish = async (updateId: string, title: string, sendNotification: boolean = false) => {
+  const handlePublish = async (
+    updateId: string,
+    title: string,
+    sendNotification: boolean = false,
+    safeguarding?: SafeguardingDecision
+  ) => {
     const action = sendNotification ? 'publish and notify sponsor about' : 'publish';
-    if (!confirm(`Are you sure you want to ${action} "${title}"?`)) {
+    if (!safeguarding && !confirm(`Are you sure you want to ${action} "${title}"?`)) {
       return;
     }
 
@@ -115,17 +138,27 @@ export default function AdminDashboard() {
           'Content-Type': 'application/json',
           'X-Admin-Token': adminToken,
         },
-        body: JSON.stringify({ updateId }),
+        body: JSON.stringify({ updateId, safeguarding }),
       });
 
       const publishData = await publishResponse.json();
 
+      // Flagged by the safeguarding check: show the flags so they can be resolved
+      if (publishResponse.status === 409 && publishData.flags) {
+        setFlaggedUpdates({ ...flaggedUpdates, [updateId]: { flags: publishData.flags, sendNotification } });
+        setError(`"${title}": ${publishData.message}`);
+        return;
+      }
+
       if (!publishResponse.ok) {
         throw new Error(publishData.message || 'Failed to publish update');
       }
 
       // Remove from list
       setUpdates(updates.filter((u) => u.id !== updateId));
+      const remainingFlags = { ...flaggedUpdates };
+      delete remainingFlags[updateId];
+      setFlaggedUpdates(remainingFlags);
 
       // Step 2: Optionally send notification
       if (sendNotification && publishData.data.sponsorNotificationReady) {
@@ -163,6 +196,57 @@ export default function AdminDashboard() {
     }
   };
 
+  const handleOverrideSafeguarding = (updateId: string, title: string) => {
+    const overrideReason = prompt(
+      `Why should "${title}" be published with the flagged details? The reason is recorded in the audit log.`
+    );
+    if (!overrideReason || !overrideReason.trim()) {
+      return;
+    }
+
+    handlePublish(updateId, title, flaggedUpdates[updateId]?.sendNotification, { overrideReason });
+  };
+
+  const handleRequestCorrection = async (updateId: string, title: string) => {
+    const notes = prompt(`What needs correcting in "${title}"? These notes are emailed to the submitter with a link to resubmit.`);
+    if (!notes || !notes.trim()) {
+      return;
+    }
+
+    setPublishingId(updateId);
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      const response = await fetch('/api/admin/child-updates/status', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Admin-Token': adminToken,
+        },
+        body: JSON.stringify({ updateRecordId: updateId, status: 'Needs Correction', notes }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to request correction');
+      }
+
+      // Remove from list until it is resubmitted
+      setUpdates(updates.filter((u) => u.id !== updateId));
+      setSuccessMessage(
+        data.data.correctionEmailSent
+          ? `"${title}" sent back for correction`
+          : `"${title}" sent back for correction, but the email to the submitter failed`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request correction');
+    } finally {
+      setPublishingId(null);
+    }
+  };
+
   const formatDate = (dateString: string | undefined) => {
     if (!dateString) return 'N/A';
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -245,6 +329,12 @@ export default function AdminDashboard() {
               >
                 Submit Update
               </Link>
+              <Link
+                href="/admin/updates/versions"
+                className="text-gray-600 hover:text-gray-900 text-sm"
+              >
+                Correct Published
+              </Link>
               <button
                 onClick={() => {
                   setIsAuthenticated(false);
@@ -354,9 +444,59 @@ export default function AdminDashboard() {
                           {publishingId === update.id ? 'Publishing...' : 'Publish & Notify'}
                         </button>
                       )}
+                      {update.intakeSource && (
+                        <button
+                          onClick={() => handleRequestCorrection(update.id, update.title)}
+                          disabled={publishingId === update.id}
+                          className="px-4 py-2 bg-yellow-500 text-white rounded-md hover:bg-yellow-600 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Request Correction
+                        </button>
+                      )}
                     </div>
                   </div>
 
+                  {flaggedUpdates[update.id] && (
+                    <div className="bg-red-50 border border-red-200 rounded-md px-4 py-3 mb-4 text-sm">
+                      <p className="font-medium text-red-800 mb-2">
+                        Safeguarding check: details that may identify or locate the child
+                      </p>
+                      <ul className="space-y-1 mb-3">
+                        {flaggedUpdates[update.id].flags.map((flag, index) => (
+                          <li key={index} className="text-red-900">
+                            <span className="font-mono bg-red-100 px-1 rounded">{flag.match}</span>
+                            {' '}in {flag.field} ({flag.label})
+                          </li>
+                        ))}
+                      </ul>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() =>
+                            handlePublish(update.id, update.title, flaggedUpdates[update.id].sendNotification, { redact: true })
+                          }
+                          disabled={publishingId === update.id}
+                          className="px-3 py-1.5 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Redact & Publish
+                        </button>
+                        <button
+                          onClick={() => handleOverrideSafeguarding(update.id, update.title)}
+                          disabled={publishingId === update.id}
+                          className="px-3 py-1.5 border border-red-300 text-red-700 rounded-md hover:bg-red-100 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Override with Reason
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {update.correctionNotes && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-md px-4 py-3 mb-4 text-sm">
+                      <span className="font-medium text-yellow-800">Resubmitted after correction: </span>
+                      <span className="text-yellow-900 whitespace-pre-wrap">{update.correctionNotes}</span>
+                    </div>
+                  )}
+
                   <div className="bg-gray-50 rounded-md p-4 mb-4">
                     <p className="text-gray-700 whitespace-pre-wrap">
                       {update.content}
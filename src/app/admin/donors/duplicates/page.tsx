@@ -0,0 +1,274 @@
+'use client';
+
+import { useState } from 'react';
+import { Logo } from '@/components/Logo';
+import Link from 'next/link';
+import type { DonorMerge, DonorProfile, DuplicateDonorCandidate } from '@/lib/donor-merge';
+
+function formatTotals(totals: DonorProfile['totals']): string {
+  if (totals.length === 0) return 'No gifts';
+  return totals
+    .map(({ currency, amount }) =>
+      new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(amount)
+    )
+    .join(' + ');
+}
+
+export default function DuplicateDonorsPage() {
+  const [adminToken, setAdminToken] = useState('');
+  const [candidates, setCandidates] = useState<DuplicateDonorCandidate[] | null>(null);
+  const [merges, setMerges] = useState<DonorMerge[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const adminFetch = async (url: string, body?: object) => {
+    const response = await fetch(url, {
+      method: body ? 'POST' : 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Admin-Token': adminToken,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || 'Request failed');
+    }
+
+    return data.data;
+  };
+
+  const loadAll = async () => {
+    const [duplicates, history] = await Promise.all([
+      adminFetch('/api/admin/donors/duplicates'),
+      adminFetch('/api/admin/donors/merges'),
+    ]);
+    setCandidates(duplicates.candidates);
+    setMerges(history.merges);
+  };
+
+  const handleLoad = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      await loadAll();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load duplicates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMerge = async (candidate: DuplicateDonorCandidate, keep: DonorProfile, drop: DonorProfile) => {
+    if (!confirm(`Merge ${drop.name} into ${keep.name}? ${drop.giftCount} gift(s) will move.`)) return;
+
+    setBusyId(drop.id);
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      const { merge } = await adminFetch('/api/admin/donors/merge', {
+        survivorId: keep.id,
+        mergedId: drop.id,
+        score: candidate.score,
+      });
+      setSuccessMessage(`Merged ${drop.name} into ${keep.name} (${merge.movedDonationIds.length} donation(s) moved).`);
+      await loadAll();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge donors');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  const handleUndo = async (merge: DonorMerge) => {
+    if (!confirm('Undo this merge? Its donations will move back to the duplicate record.')) return;
+
+    setBusyId(merge.id);
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      await adminFetch('/api/admin/donors/merge/undo', { mergeId: merge.id });
+      setSuccessMessage('Merge undone.');
+      await loadAll();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo merge');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-gray-900 focus:border-transparent';
+
+  const renderDonor = (candidate: DuplicateDonorCandidate, keep: DonorProfile, drop: DonorProfile) => (
+    <div className="flex-1 border border-gray-200 rounded-md p-4 text-sm">
+      <p className="font-semibold text-gray-900">{keep.name}</p>
+      <dl className="mt-2 space-y-1 text-gray-600">
+        <div><dt className="inline text-gray-500">Email: </dt><dd className="inline">{keep.email || '—'}</dd></div>
+        <div><dt className="inline text-gray-500">Phone: </dt><dd className="inline">{keep.phone || '—'}</dd></div>
+        <div><dt className="inline text-gray-500">Address: </dt><dd className="inline">{keep.mailingAddress || '—'}</dd></div>
+        {keep.organization && (
+          <div><dt className="inline text-gray-500">Organization: </dt><dd className="inline">{keep.organization}</dd></div>
+        )}
+        <div>
+          <dt className="inline text-gray-500">Giving: </dt>
+          <dd className="inline">
+            {keep.giftCount} gift(s), {formatTotals(keep.totals)}
+            {keep.lastGiftDate && `, last ${keep.lastGiftDate}`}
+          </dd>
+        </div>
+        {keep.recurringStatus && (
+          <div><dt className="inline text-gray-500">Monthly: </dt><dd className="inline">{keep.recurringStatus}</dd></div>
+        )}
+        <div><dt className="inline text-gray-500">Created: </dt><dd className="inline">{keep.createdAt.slice(0, 10)}</dd></div>
+      </dl>
+      <p className="mt-2 font-mono text-xs text-gray-400">{keep.id}</p>
+      <button
+        type="button"
+        onClick={() => handleMerge(candidate, keep, drop)}
+        disabled={busyId !== ''}
+        className="mt-4 w-full px-4 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {busyId === drop.id ? 'Merging...' : 'Keep this record'}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation */}
+      <nav className="bg-white border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-4">
+          <Link href="/" className="flex items-center gap-3">
+            <Logo className="h-8 w-8 text-gray-900" />
+            <span className="text-xl font-semibold text-gray-900">Be A Number</span>
+          </Link>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto px-6 py-12 space-y-8">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Duplicate Donors</h1>
+          <p className="text-gray-600 mb-8">
+            Review donor records that look like the same person and merge them. Pick the record to keep; the other
+            record&apos;s gifts move to it. Merges can be undone below.
+          </p>
+
+          {successMessage && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md mb-6">
+              {successMessage}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleLoad} className="flex gap-4 items-end">
+            <div className="flex-1">
+              <label htmlFor="adminToken" className="block text-sm font-medium text-gray-700 mb-2">
+                Admin Token <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="password"
+                id="adminToken"
+                value={adminToken}
+                onChange={(e) => setAdminToken(e.target.value)}
+                required
+                className={inputClass}
+                placeholder="Finance admin token"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-6 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Loading...' : 'Find Duplicates'}
+            </button>
+          </form>
+        </div>
+
+        {candidates && (
+          <div className="space-y-4">
+            {candidates.length === 0 && (
+              <div className="bg-white rounded-lg shadow-lg p-8 text-gray-600">No likely duplicates found.</div>
+            )}
+            {candidates.map((candidate) => {
+              const [older, newer] = candidate.donors;
+              return (
+                <div key={`${older.id}:${newer.id}`} className="bg-white rounded-lg shadow-lg p-6">
+                  <div className="flex justify-between items-center mb-4">
+                    <p className="text-sm text-gray-600">{candidate.reasons.join(' · ')}</p>
+                    <span className="text-sm font-semibold text-gray-900">
+                      {Math.round(candidate.score * 100)}% match
+                    </span>
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-4">
+                    {renderDonor(candidate, older, newer)}
+                    {renderDonor(candidate, newer, older)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {candidates && merges.length > 0 && (
+          <div className="bg-white rounded-lg shadow-lg p-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Recent Merges</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2">Merged</th>
+                  <th className="py-2">Kept</th>
+                  <th className="py-2">Duplicate</th>
+                  <th className="py-2">Donations</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {merges.map((merge) => (
+                  <tr key={merge.id} className="border-b border-gray-100">
+                    <td className="py-2">
+                      {merge.mergedAt.slice(0, 10)}
+                      <span className="block text-xs text-gray-400">{merge.mergedBy}</span>
+                    </td>
+                    <td className="py-2 font-mono text-xs">{merge.survivorDonorId}</td>
+                    <td className="py-2 font-mono text-xs">{merge.mergedDonorId}</td>
+                    <td className="py-2">{merge.movedDonationIds.length}</td>
+                    <td className="py-2 text-right">
+                      {merge.undoneAt ? (
+                        <span className="text-gray-400">Undone {merge.undoneAt.slice(0, 10)}</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => handleUndo(merge)}
+                          disabled={busyId !== ''}
+                          className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          {busyId === merge.id ? 'Undoing...' : 'Undo'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
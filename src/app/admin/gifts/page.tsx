@@ -0,0 +1,332 @@
+'use client';
+
+import { useState } from 'react';
+import { Logo } from '@/components/Logo';
+import Link from 'next/link';
+import { DONATION_FUNDS, DONATION_FUND_LABELS, OFFLINE_PAYMENT_METHODS } from '@/lib/constants';
+
+const EMPTY_GIFT = {
+  donorId: '',
+  donorName: '',
+  donorEmail: '',
+  donorOrganization: '',
+  donorAddress: '',
+  amount: '',
+  giftDate: '',
+  paymentMethod: OFFLINE_PAYMENT_METHODS.CHECK as string,
+  referenceNumber: '',
+  depositBatch: '',
+  fund: DONATION_FUNDS.GENERAL as string,
+  campaign: '',
+  sendReceipt: true,
+};
+
+export default function OfflineGiftPage() {
+  const [adminToken, setAdminToken] = useState('');
+  const [donorMode, setDonorMode] = useState<'new' | 'existing'>('new');
+  const [formData, setFormData] = useState(EMPTY_GIFT);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      const response = await fetch('/api/admin/gifts/offline', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Admin-Token': adminToken,
+        },
+        body: JSON.stringify({
+          ...(donorMode === 'existing'
+            ? { donorId: formData.donorId.trim() }
+            : {
+                donor: {
+                  name: formData.donorName,
+                  email: formData.donorEmail || undefined,
+                  organization: formData.donorOrganization || undefined,
+                  address: formData.donorAddress || undefined,
+                },
+              }),
+          amount: parseFloat(formData.amount),
+          giftDate: formData.giftDate || undefined,
+          paymentMethod: formData.paymentMethod,
+          referenceNumber: formData.referenceNumber || undefined,
+          depositBatch: formData.depositBatch || undefined,
+          fund: formData.fund,
+          campaign: formData.campaign || undefined,
+          sendReceipt: formData.sendReceipt,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to record gift');
+      }
+
+      const receiptNote = data.data.receiptSent
+        ? 'Receipt emailed.'
+        : `No receipt sent (${data.data.receiptSkipReason}).`;
+      setSuccessMessage(
+        data.data.created
+          ? `Gift recorded (donation ${data.data.donationId}). ${receiptNote}`
+          : `This gift was already recorded (donation ${data.data.donationId}). No receipt sent.`
+      );
+
+      // Keep the batch, date and method for the next check in the same deposit
+      setFormData({
+        ...EMPTY_GIFT,
+        giftDate: formData.giftDate,
+        paymentMethod: formData.paymentMethod,
+        depositBatch: formData.depositBatch,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record gift');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-gray-900 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation */}
+      <nav className="bg-white border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-4">
+          <Link href="/" className="flex items-center gap-3">
+            <Logo className="h-8 w-8 text-gray-900" />
+            <span className="text-xl font-semibold text-gray-900">Be A Number</span>
+          </Link>
+        </div>
+      </nav>
+
+      <div className="max-w-3xl mx-auto px-6 py-12">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Record Offline Gift</h1>
+          <p className="text-gray-600 mb-8">
+            Enter checks, cash and bank transfers so they appear with website donations
+          </p>
+
+          {successMessage && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md mb-6">
+              {successMessage}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Donor */}
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">Donor</span>
+              <div className="flex gap-4 mb-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={donorMode === 'new'}
+                    onChange={() => setDonorMode('new')}
+                  />
+                  Find by email or create
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={donorMode === 'existing'}
+                    onChange={() => setDonorMode('existing')}
+                  />
+                  Existing donor record
+                </label>
+              </div>
+
+              {donorMode === 'existing' ? (
+                <input
+                  type="text"
+                  value={formData.donorId}
+                  onChange={(e) => setFormData({ ...formData, donorId: e.target.value })}
+                  required
+                  className={`${inputClass} font-mono`}
+                  placeholder="Airtable donor record ID (rec...)"
+                />
+              ) : (
+                <div className="space-y-3">
+                  <input
+                    type="text"
+                    value={formData.donorName}
+                    onChange={(e) => setFormData({ ...formData, donorName: e.target.value })}
+                    required
+                    className={inputClass}
+                    placeholder="Donor name *"
+                  />
+                  <input
+                    type="email"
+                    value={formData.donorEmail}
+                    onChange={(e) => setFormData({ ...formData, donorEmail: e.target.value })}
+                    className={inputClass}
+                    placeholder="Email (matches an existing donor; needed for the receipt)"
+                  />
+                  <input
+                    type="text"
+                    value={formData.donorOrganization}
+                    onChange={(e) => setFormData({ ...formData, donorOrganization: e.target.value })}
+                    className={inputClass}
+                    placeholder="Organization (optional)"
+                  />
+                  <input
+                    type="text"
+                    value={formData.donorAddress}
+                    onChange={(e) => setFormData({ ...formData, donorAddress: e.target.value })}
+                    className={inputClass}
+                    placeholder="Mailing address (optional)"
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Gift */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="amount" className="block text-sm font-medium text-gray-700 mb-2">
+                  Amount (USD) <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  id="amount"
+                  min="1"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  required
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="giftDate" className="block text-sm font-medium text-gray-700 mb-2">
+                  Gift Date
+                </label>
+                <input
+                  type="date"
+                  id="giftDate"
+                  value={formData.giftDate}
+                  onChange={(e) => setFormData({ ...formData, giftDate: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="paymentMethod" className="block text-sm font-medium text-gray-700 mb-2">
+                  Payment Method <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="paymentMethod"
+                  value={formData.paymentMethod}
+                  onChange={(e) => setFormData({ ...formData, paymentMethod: e.target.value })}
+                  className={inputClass}
+                >
+                  {Object.values(OFFLINE_PAYMENT_METHODS).map((value) => (
+                    <option key={value} value={value}>{value}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="referenceNumber" className="block text-sm font-medium text-gray-700 mb-2">
+                  Check No. / Reference
+                </label>
+                <input
+                  type="text"
+                  id="referenceNumber"
+                  value={formData.referenceNumber}
+                  onChange={(e) => setFormData({ ...formData, referenceNumber: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="depositBatch" className="block text-sm font-medium text-gray-700 mb-2">
+                  Deposit Batch
+                </label>
+                <input
+                  type="text"
+                  id="depositBatch"
+                  value={formData.depositBatch}
+                  onChange={(e) => setFormData({ ...formData, depositBatch: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., 2026-10-16-A"
+                />
+              </div>
+              <div>
+                <label htmlFor="fund" className="block text-sm font-medium text-gray-700 mb-2">
+                  Fund
+                </label>
+                <select
+                  id="fund"
+                  value={formData.fund}
+                  onChange={(e) => setFormData({ ...formData, fund: e.target.value })}
+                  className={inputClass}
+                >
+                  {Object.values(DONATION_FUNDS).map((value) => (
+                    <option key={value} value={value}>{DONATION_FUND_LABELS[value]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="sm:col-span-2">
+                <label htmlFor="campaign" className="block text-sm font-medium text-gray-700 mb-2">
+                  Campaign (optional)
+                </label>
+                <input
+                  type="text"
+                  id="campaign"
+                  value={formData.campaign}
+                  onChange={(e) => setFormData({ ...formData, campaign: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                  placeholder="campaign slug, e.g. giving-tuesday-2026"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.sendReceipt}
+                onChange={(e) => setFormData({ ...formData, sendReceipt: e.target.checked })}
+              />
+              Email the donor a receipt
+            </label>
+
+            <div>
+              <label htmlFor="adminToken" className="block text-sm font-medium text-gray-700 mb-2">
+                Admin Token <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="password"
+                id="adminToken"
+                value={adminToken}
+                onChange={(e) => setAdminToken(e.target.value)}
+                required
+                className={inputClass}
+                placeholder="Finance admin token"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full px-6 py-3 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Recording...' : 'Record Gift'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,515 @@
+'use client';
+
+import { useState } from 'react';
+import { Logo } from '@/components/Logo';
+import Link from 'next/link';
+import type { UpdateVersion, UpdateVersionChange } from '@/lib/update-versions';
+import type { StoredUpdatePayload } from '@/lib/types/child-update';
+import type { SafeguardingDecision, SafeguardingFlag } from '@/lib/safeguarding';
+
+interface PublishedUpdate {
+  id: string;
+  childId: string;
+  updateType: string;
+  title: string;
+  content: string;
+  photos?: Array<{ url: string; filename: string }>;
+  publishedAt?: string;
+  supersedesUpdateId?: string;
+  reviewedAt?: string;
+  payload?: StoredUpdatePayload;
+}
+
+interface Draft {
+  title: string;
+  content: string;
+  photos: Array<{ url: string; filename: string; keep: boolean }>;
+  fields: Record<string, string>;
+}
+
+type VersionWithChanges = UpdateVersion & { changes: UpdateVersionChange[] };
+
+const formatDate = (dateString?: string | null) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+    : '—';
+
+function toDraft(update: PublishedUpdate): Draft {
+  return {
+    title: update.title,
+    content: update.content,
+    photos: (update.photos || []).map((photo) => ({ ...photo, keep: true })),
+    fields: Object.fromEntries(
+      Object.entries(update.payload?.fields || {}).map(([key, value]) => [key, value === undefined ? '' : String(value)])
+    ),
+  };
+}
+
+export default function UpdateVersionsPage() {
+  const [adminToken, setAdminToken] = useState('');
+  const [childId, setChildId] = useState('');
+  const [updates, setUpdates] = useState<PublishedUpdate[] | null>(null);
+  const [editing, setEditing] = useState<{ update: PublishedUpdate; draft: Draft } | null>(null);
+  const [history, setHistory] = useState<{ updateId: string; versions: VersionWithChanges[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [error, setError] = useState('');
+  const [flagged, setFlagged] = useState<{ body: Record<string, unknown>; flags: SafeguardingFlag[] } | null>(null);
+
+  const adminFetch = async (url: string, body?: object) => {
+    const response = await fetch(url, {
+      method: body ? 'POST' : 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Admin-Token': adminToken,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || 'Request failed');
+    }
+
+    return data.data;
+  };
+
+  const loadUpdates = async () => {
+    const data = await adminFetch(`/api/admin/updates/published?childId=${encodeURIComponent(childId.trim())}`);
+    setUpdates(data.updates);
+  };
+
+  const handleLoad = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setSuccessMessage('');
+    setEditing(null);
+    setFlagged(null);
+    setHistory(null);
+
+    try {
+      await loadUpdates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load updates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleHistory = async (updateId: string) => {
+    setBusyId(updateId);
+    setError('');
+
+    try {
+      const data = await adminFetch(`/api/admin/updates/versions?updateId=${encodeURIComponent(updateId)}`);
+      setHistory({ updateId, versions: data.versions });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  // Flags belong to the text that was checked, so any edit clears them
+  const setDraft = (change: Partial<Draft>) => {
+    setFlagged(null);
+    setEditing((current) => (current ? { ...current, draft: { ...current.draft, ...change } } : current));
+  };
+
+  const handlePublishCorrection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const { update, draft } = editing;
+    if (!confirm(`Publish a corrected version of "${update.title}"? The sponsor will see it in place of the original.`)) {
+      return;
+    }
+
+    // Only send what changed; the rest carries over from the current version
+    const original = toDraft(update);
+    const body: Record<string, unknown> = { updateId: update.id };
+    if (draft.title !== original.title) body.title = draft.title;
+    if (draft.content !== original.content) body.content = draft.content;
+    if (JSON.stringify(draft.photos) !== JSON.stringify(original.photos)) {
+      body.photos = draft.photos.filter((photo) => photo.keep).map(({ url, filename }) => ({ url, filename }));
+    }
+    if (update.payload && JSON.stringify(draft.fields) !== JSON.stringify(original.fields)) {
+      body.fields = draft.fields;
+    }
+
+    await publishCorrection(update, body);
+  };
+
+  const publishCorrection = async (
+    update: PublishedUpdate,
+    body: Record<string, unknown>,
+    safeguarding?: SafeguardingDecision
+  ) => {
+    setBusyId(update.id);
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      const response = await fetch('/api/admin/updates/correct', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Admin-Token': adminToken,
+        },
+        body: JSON.stringify({ ...body, safeguarding }),
+      });
+
+      const data = await response.json();
+
+      // Flagged by the safeguarding check: show the flags so they can be resolved
+      if (response.status === 409 && data.flags) {
+        setFlagged({ body, flags: data.flags });
+        setError(data.message);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Request failed');
+      }
+
+      setSuccessMessage(`Corrected version of "${update.title}" published.`);
+      setFlagged(null);
+      setEditing(null);
+      setHistory(null);
+      await loadUpdates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish corrected version');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  const handleOverrideSafeguarding = (update: PublishedUpdate) => {
+    if (!flagged) return;
+
+    const overrideReason = prompt(
+      'Why should this correction be published with the flagged details? The reason is recorded in the audit log.'
+    );
+    if (!overrideReason || !overrideReason.trim()) {
+      return;
+    }
+
+    publishCorrection(update, flagged.body, { overrideReason });
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-gray-900 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation */}
+      <nav className="bg-white border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-4">
+          <Link href="/" className="flex items-center gap-3">
+            <Logo className="h-8 w-8 text-gray-900" />
+            <span className="text-xl font-semibold text-gray-900">Be A Number</span>
+          </Link>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto px-6 py-12 space-y-8">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Correct Published Updates</h1>
+          <p className="text-gray-600 mb-8">
+            Published updates are never edited in place. Publishing a correction creates a new version that replaces
+            the original for the sponsor, marked &ldquo;updated on&rdquo;; every version stays in the history below.
+          </p>
+
+          {successMessage && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md mb-6">
+              {successMessage}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleLoad} className="flex flex-col sm:flex-row gap-4 sm:items-end">
+            <div className="flex-1">
+              <label htmlFor="adminToken" className="block text-sm font-medium text-gray-700 mb-2">
+                Admin Token <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="password"
+                id="adminToken"
+                value={adminToken}
+                onChange={(e) => setAdminToken(e.target.value)}
+                required
+                className={inputClass}
+                placeholder="Reviewer admin token"
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="childId" className="block text-sm font-medium text-gray-700 mb-2">
+                Child ID <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                id="childId"
+                value={childId}
+                onChange={(e) => setChildId(e.target.value)}
+                required
+                className={inputClass}
+                placeholder="e.g., CHILD-001"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-6 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Loading...' : 'Load Updates'}
+            </button>
+          </form>
+        </div>
+
+        {updates && updates.length === 0 && (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-gray-600">No published updates for this child.</div>
+        )}
+
+        {updates?.map((update) => (
+          <div key={update.id} className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <span className="inline-block px-3 py-1 bg-gray-100 text-gray-700 text-sm font-medium rounded-full mb-2">
+                  {update.updateType}
+                </span>
+                <h2 className="text-xl font-semibold text-gray-900">{update.title}</h2>
+                <p className="text-sm text-gray-500">
+                  Published {formatDate(update.publishedAt)}
+                  {update.supersedesUpdateId && ` · Updated on ${formatDate(update.reviewedAt)}`}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setFlagged(null);
+                    setEditing({ update, draft: toDraft(update) });
+                  }}
+                  disabled={busyId !== ''}
+                  className="px-4 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50"
+                >
+                  Correct
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleHistory(update.id)}
+                  disabled={busyId !== ''}
+                  className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {busyId === update.id && !editing ? 'Loading...' : 'Versions'}
+                </button>
+              </div>
+            </div>
+
+            {editing?.update.id === update.id && (
+              <form onSubmit={handlePublishCorrection} className="mt-6 space-y-4 border-t border-gray-200 pt-6">
+                <div>
+                  <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
+                    Title
+                  </label>
+                  <input
+                    type="text"
+                    id="title"
+                    value={editing.draft.title}
+                    onChange={(e) => setDraft({ title: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+
+                {update.payload && (
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-2">
+                      Form answers (the content is rebuilt from these unless you edit it below)
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      {Object.keys(editing.draft.fields).map((key) => (
+                        <div key={key}>
+                          <label htmlFor={`field-${key}`} className="block text-xs text-gray-500 mb-1">
+                            {key}
+                          </label>
+                          <input
+                            type="text"
+                            id={`field-${key}`}
+                            value={editing.draft.fields[key]}
+                            onChange={(e) =>
+                              setDraft({ fields: { ...editing.draft.fields, [key]: e.target.value } })
+                            }
+                            className={inputClass}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-2">
+                    Content
+                  </label>
+                  <textarea
+                    id="content"
+                    value={editing.draft.content}
+                    onChange={(e) => setDraft({ content: e.target.value })}
+                    rows={8}
+                    className={inputClass}
+                  />
+                </div>
+
+                {editing.draft.photos.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-2">Photos</p>
+                    <div className="space-y-2">
+                      {editing.draft.photos.map((photo, idx) => (
+                        <div key={photo.url} className="flex items-center gap-3">
+                          <input
+                            type="checkbox"
+                            checked={photo.keep}
+                            onChange={(e) =>
+                              setDraft({
+                                photos: editing.draft.photos.map((p, i) =>
+                                  i === idx ? { ...p, keep: e.target.checked } : p
+                                ),
+                              })
+                            }
+                            aria-label={`Keep photo ${idx + 1}`}
+                          />
+                          <a href={photo.url} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 underline shrink-0">
+                            Photo {idx + 1}
+                          </a>
+                          <input
+                            type="text"
+                            value={photo.filename}
+                            onChange={(e) =>
+                              setDraft({
+                                photos: editing.draft.photos.map((p, i) =>
+                                  i === idx ? { ...p, filename: e.target.value } : p
+                                ),
+                              })
+                            }
+                            className={inputClass}
+                            aria-label={`Label for photo ${idx + 1}`}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {flagged && (
+                  <div className="bg-red-50 border border-red-200 rounded-md px-4 py-3 text-sm">
+                    <p className="font-medium text-red-800 mb-2">
+                      Safeguarding check: details that may identify or locate the child
+                    </p>
+                    <ul className="space-y-1 mb-3">
+                      {flagged.flags.map((flag, index) => (
+                        <li key={index} className="text-red-900">
+                          <span className="font-mono bg-red-100 px-1 rounded">{flag.match}</span>
+                          {' '}in {flag.field} ({flag.label})
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => publishCorrection(update, flagged.body, { redact: true })}
+                        disabled={busyId !== ''}
+                        className="px-3 py-1.5 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Redact & Publish
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleOverrideSafeguarding(update)}
+                        disabled={busyId !== ''}
+                        className="px-3 py-1.5 border border-red-300 text-red-700 rounded-md hover:bg-red-100 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Override with Reason
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex gap-3">
+                  <button
+                    type="submit"
+                    disabled={busyId !== ''}
+                    className="px-6 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {busyId === update.id ? 'Publishing...' : 'Publish Corrected Version'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setFlagged(null);
+                      setEditing(null);
+                    }}
+                    className="px-6 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {history?.updateId === update.id && (
+              <div className="mt-6 border-t border-gray-200 pt-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Versions</h3>
+                <ol className="space-y-4">
+                  {history.versions.map((version, index) => (
+                    <li key={version.id} className="border-l-2 border-gray-200 pl-4">
+                      <p className="text-sm text-gray-700">
+                        <span className="font-medium">Version {index + 1}</span>
+                        {index === 0
+                          ? ` · published ${formatDate(version.publishedAt)}`
+                          : ` · corrected ${formatDate(version.reviewedAt)}`}
+                        {version.reviewedBy && ` by ${version.reviewedBy}`}
+                        {!version.supersededById && ' · current'}
+                      </p>
+                      {version.changes.length > 0 && (
+                        <table className="w-full text-sm mt-2">
+                          <thead>
+                            <tr className="text-left text-gray-500 border-b border-gray-200">
+                              <th className="py-1 pr-2 w-32">Field</th>
+                              <th className="py-1 pr-2">Before</th>
+                              <th className="py-1">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {version.changes.map((change) => (
+                              <tr key={change.field} className="border-b border-gray-100 align-top">
+                                <td className="py-1 pr-2 text-gray-600">{change.field}</td>
+                                <td className="py-1 pr-2 bg-red-50 text-red-800 whitespace-pre-wrap">
+                                  {change.before || '—'}
+                                </td>
+                                <td className="py-1 bg-green-50 text-green-800 whitespace-pre-wrap">
+                                  {change.after || '—'}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * Admin Accounting Export API
+ * Downloads donations as journal entries for the accounting system
+ * (REQUIRES ADMIN AUTH)
+ *
+ * GET /api/admin/accounting-export?format=quickbooks_iif&from=2026-01-01&to=2026-03-31&fund=medical_outreach
+ *
+ * format: journal, quickbooks_iif, quickbooks_csv or xero. Both dates are
+ * required and inclusive; fund is optional.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { withErrorHandling, ValidationError } from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { exportAccountingTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/admin/accounting-export';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.FINANCE, ADMIN_ROLES.READ_ONLY]);
+
+  const { searchParams } = new URL(request.url);
+
+  // Use the WAT tool to build the export
+  const result = await exportAccountingTool({
+    format: searchParams.get('format') || undefined,
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    fund: searchParams.get('fund') || undefined,
+  });
+
+  if (!result.success) {
+    if (result.error?.startsWith('Invalid input')) {
+      throw new ValidationError(result.error);
+    }
+    throw new Error(result.error || 'Failed to build accounting export');
+  }
+
+  logger.info('Accounting export downloaded', {
+    filename: result.data!.filename,
+    entries: result.data!.entryCount,
+    admin: admin.email,
+  });
+
+  logger.apiResponse(method, path, 200);
+
+  return new NextResponse(result.data!.content, {
+    status: 200,
+    headers: {
+      'Content-Type': result.data!.contentType,
+      'Content-Disposition': `attachment; filename="${result.data!.filename}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/admin/accounting-export');
@@ -0,0 +1,78 @@
+/**
+ * Admin Donor Analytics API
+ * Donor retention, cohorts, lapsed donors, average gift, lifetime value and
+ * monthly-donor churn, in the base currency (REQUIRES ADMIN AUTH)
+ *
+ * GET /api/admin/analytics/donors?asOf=2026-12-31&years=5
+ * GET /api/admin/analytics/donors?table=retention
+ *
+ * All parameters are optional. Without table the full report is returned as
+ * JSON; with table (retention, cohorts or lapsed) that table is downloaded
+ * as CSV.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { createSuccessResponse, withErrorHandling, ValidationError } from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { exportDonorAnalyticsTool, getDonorAnalyticsTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/admin/analytics/donors';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.FINANCE, ADMIN_ROLES.READ_ONLY]);
+
+  const { searchParams } = new URL(request.url);
+  const years = searchParams.get('years');
+  const options = {
+    asOf: searchParams.get('asOf') || undefined,
+    years: years ? Number(years) : undefined,
+  };
+  const table = searchParams.get('table');
+
+  if (!table) {
+    // Use the WAT tool to build the report
+    const result = await getDonorAnalyticsTool(options);
+
+    if (!result.success) {
+      if (result.error?.startsWith('Invalid input')) {
+        throw new ValidationError(result.error);
+      }
+      throw new Error(result.error || 'Failed to build donor analytics');
+    }
+
+    logger.apiResponse(method, path, 200);
+
+    return createSuccessResponse(result.data);
+  }
+
+  // Use the WAT tool to render the table
+  const result = await exportDonorAnalyticsTool({ ...options, table });
+
+  if (!result.success) {
+    if (result.error?.startsWith('Invalid input')) {
+      throw new ValidationError(result.error);
+    }
+    throw new Error(result.error || 'Failed to export donor analytics');
+  }
+
+  logger.info('Donor analytics downloaded', { filename: result.data!.filename, admin: admin.email });
+
+  logger.apiResponse(method, path, 200);
+
+  return new NextResponse(result.data!.content, {
+    status: 200,
+    headers: {
+      'Content-Type': result.data!.contentType,
+      'Content-Disposition': `attachment; filename="${result.data!.filename}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/admin/analytics/donors');
@@ -0,0 +1,76 @@
+/**
+ * Admin Audit Log API
+ * Queries the append-only audit log (REQUIRES ADMIN AUTH)
+ *
+ * GET /api/admin/audit?childId=&sponsorCode=&actor=&from=&to=&limit=
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { findAuditEvents } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
+
+/**
+ * Parse an optional ISO date/datetime query parameter
+ */
+function parseDateParam(value: string | null, name: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${name} must be a valid ISO date`);
+  }
+
+  return date.toISOString();
+}
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/admin/audit';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  await requireAdminAuth(request, [ADMIN_ROLES.READ_ONLY]);
+
+  const { searchParams } = new URL(request.url);
+  const from = parseDateParam(searchParams.get('from'), 'from');
+  const to = parseDateParam(searchParams.get('to'), 'to');
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+  if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+    throw new ValidationError('limit must be a positive number');
+  }
+
+  if (from && to && from > to) {
+    throw new ValidationError('from must be before to');
+  }
+
+  const events = await findAuditEvents({
+    childId: searchParams.get('childId') || undefined,
+    sponsorCode: searchParams.get('sponsorCode') || undefined,
+    actor: searchParams.get('actor') || undefined,
+    from,
+    to,
+    limit,
+  });
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse({
+    count: events.length,
+    events,
+  });
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/admin/audit');
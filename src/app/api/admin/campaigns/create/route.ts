@@ -0,0 +1,64 @@
+/**
+ * Admin Create Campaign API
+ * Creates a fundraising campaign (REQUIRES ADMIN AUTH)
+ *
+ * POST /api/admin/campaigns/create
+ * Body: {
+ *   "slug": "giving-tuesday-2026",
+ *   "title": "Giving Tuesday 2026",
+ *   "description": "Optional text for the landing page",
+ *   "goalAmount": 25000,
+ *   "startsOn": "2026-12-01",
+ *   "endsOn": "2026-12-01",
+ *   "matchAmount": 10000,
+ *   "matchSponsor": "The Smith Family Foundation"
+ * }
+ *
+ * The landing page is then live at /campaigns/<slug>.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { parseRequestBody } from '@/lib/validation';
+import { createCampaignTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/admin/campaigns/create';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.FINANCE]);
+
+  // Parse request body
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  // Use the WAT tool to create the campaign
+  const result = await createCampaignTool(bodyResult.data, {
+    actor: admin.email,
+    actorRole: admin.role,
+    requestId: getRequestId(request),
+  });
+
+  if (!result.success) {
+    throw new ValidationError(result.error!);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data, 'Campaign created');
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/admin/campaigns/create');
@@ -0,0 +1,39 @@
+/**
+ * Admin Campaigns API
+ * Lists every fundraising campaign with its progress (REQUIRES ADMIN AUTH)
+ *
+ * GET /api/admin/campaigns
+ *
+ * Campaigns are created via POST /api/admin/campaigns/create and edited via
+ * POST /api/admin/campaigns/update.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { createSuccessResponse, withErrorHandling } from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { listCampaignsTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/admin/campaigns';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  await requireAdminAuth(request, [ADMIN_ROLES.FINANCE, ADMIN_ROLES.READ_ONLY]);
+
+  // Use the WAT tool to list campaigns
+  const result = await listCampaignsTool();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to list campaigns');
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data);
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/admin/campaigns');
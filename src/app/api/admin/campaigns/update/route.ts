@@ -0,0 +1,60 @@
+/**
+ * Admin Update Campaign API
+ * Edits a fundraising campaign (REQUIRES ADMIN AUTH)
+ *
+ * POST /api/admin/campaigns/update
+ * Body: { "slug": "giving-tuesday-2026", "goalAmount": 30000, "endsOn": "2026-12-02" }
+ *
+ * Only the fields present are changed. The slug identifies the campaign and
+ * cannot be changed, since gifts are tagged with it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { parseRequestBody } from '@/lib/validation';
+import { updateCampaignTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/admin/campaigns/update';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.FINANCE]);
+
+  // Parse request body
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  // Use the WAT tool to save the changes
+  const result = await updateCampaignTool(bodyResult.data, {
+    actor: admin.email,
+    actorRole: admin.role,
+    requestId: getRequestId(request),
+  });
+
+  if (!result.success) {
+    if (result.error === 'Campaign not found') {
+      throw new NotFoundError(result.error);
+    }
+    throw new ValidationError(result.error!);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data, 'Campaign updated');
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/admin/campaigns/update');
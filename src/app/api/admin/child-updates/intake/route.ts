@@ -6,14 +6,20 @@
  *
  * POST /api/admin/child-updates/intake
  *
- * This route is admin-protected and validates the submitter email
- * against approved role emails.
+ * Requests must be HMAC-signed by the submitting form's Apps Script with
+ * that form's own secret (see verifyIntakeRequest). The submitter email is
+ * also validated against approved role emails.
+ *
+ * Photos are processed before storage (metadata and GPS stripped, web and
+ * thumbnail sizes); files that are not readable images are rejected and
+ * listed in the response as rejectedPhotos.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/lib/logger';
-import { getAdminToken, isAdminAuthConfigured } from '@/lib/env';
-import { ADMIN, ROLE_EMAILS, SOURCE_TYPE } from '@/lib/constants';
+import { verifyIntakeRequest } from '@/lib/auth';
+import { AuthenticationError } from '@/lib/errors';
+import { INTAKE_SIGNATURE, ROLE_EMAILS, SOURCE_TYPE } from '@/lib/constants';
 import {
   getChildByChildIdTool,
   findChildUpdateTool,
@@ -21,7 +27,7 @@ import {
   ensurePeriodFolderTool,
   uploadToDriveTool,
 } from '@/lib/tools';
-import type { SourceType } from '@/lib/types/child-update';
+import type { SourceType, IntakeUpdateFields, CreateChildUpdateInput } from '@/lib/types/child-update';
 
 // ============================================================================
 // TYPES
@@ -32,25 +38,7 @@ interface IntakeRequest {
   sourceType: SourceType;
   periodOrTerm: string;
   submittedBy: string;
-  fields: {
-    // Field update fields
-    physicalWellbeing?: string;
-    physicalNotes?: string;
-    emotionalWellbeing?: string;
-    emotionalNotes?: string;
-    schoolEngagement?: string;
-    engagementNotes?: string;
-    sponsorNarrative?: string;
-    positiveHighlight?: string;
-    challenge?: string;
-    // Academic update fields
-    attendancePercent?: number;
-    englishGrade?: number;
-    mathGrade?: number;
-    scienceGrade?: number;
-    socialStudiesGrade?: number;
-    teacherComment?: string;
-  };
+  fields: IntakeUpdateFields;
   photos?: Array<{
     key: string;
     fileName: string;
@@ -59,46 +47,20 @@ interface IntakeRequest {
   }>;
 }
 
-// ============================================================================
-// AUTHENTICATION
-// ============================================================================
-
-function validateAdminAuth(request: NextRequest): boolean {
-  if (!isAdminAuthConfigured()) {
-    logger.warn('Admin auth not configured');
-    return false;
-  }
-
-  const token = request.headers.get(ADMIN.AUTH_HEADER);
-  if (!token) {
-    return false;
-  }
-
-  try {
-    const adminToken = getAdminToken();
-    return token === adminToken;
-  } catch {
-    return false;
-  }
-}
-
 // ============================================================================
 // ROUTE HANDLER
 // ============================================================================
 
 export async function POST(request: NextRequest) {
-  logger.info('Child update intake: Request received', {});
-
-  // Authenticate
-  if (!validateAdminAuth(request)) {
-    return NextResponse.json(
-      { success: false, error: 'Unauthorized' },
-      { status: 401 }
-    );
-  }
+  logger.info('Child update intake: Request received', {
+    intakeSource: request.headers.get(INTAKE_SIGNATURE.SOURCE_HEADER) || undefined,
+  });
 
   try {
-    const body: IntakeRequest = await request.json();
+    // Authenticate: verify the form's signature before trusting the body
+    const rawBody = await request.text();
+    const intake = await verifyIntakeRequest(request, rawBody);
+    const body: IntakeRequest = JSON.parse(rawBody);
 
     // =========================================================================
     // VALIDATION
@@ -119,6 +81,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Each form's credential may only submit its own source type
+    if (body.sourceType !== intake.sourceType) {
+      logger.warn('Child update intake: Source type does not match intake source', {
+        intakeSource: intake.source,
+        sourceType: body.sourceType,
+      });
+
+      return NextResponse.json(
+        { success: false, error: `Intake source ${intake.source} cannot submit ${body.sourceType} updates` },
+        { status: 403 }
+      );
+    }
+
     if (!body.periodOrTerm) {
       return NextResponse.json(
         { success: false, error: 'periodOrTerm is required' },
@@ -208,6 +183,8 @@ export async function POST(request: NextRequest) {
     // =========================================================================
 
     const driveRefs: Record<string, string> = {};
+    const storedPhotos: NonNullable<CreateChildUpdateInput['photos']> = [];
+    const rejectedPhotos: Array<{ key: string; fileName: string; error: string }> = [];
 
     if (body.photos && body.photos.length > 0) {
       // Ensure period folder exists
@@ -223,8 +200,14 @@ export async function POST(request: NextRequest) {
         // Upload each photo
         for (const photo of body.photos) {
           try {
+            if (typeof photo.mimeType !== 'string' || !photo.mimeType.startsWith('image/')) {
+              rejectedPhotos.push({ key: photo.key, fileName: photo.fileName, error: 'Not an image file' });
+              continue;
+            }
+
             const buffer = Buffer.from(photo.base64Content, 'base64');
 
+            // Processed by the tool: metadata stripped, web size plus thumbnail
             const uploadResult = await uploadToDriveTool({
               childId: body.childId,
               fileName: photo.fileName,
@@ -234,13 +217,36 @@ export async function POST(request: NextRequest) {
             });
 
             if (uploadResult.success && uploadResult.data) {
-              driveRefs[`${photo.key}FileId`] = uploadResult.data.fileId;
+              const uploaded = uploadResult.data;
+              driveRefs[`${photo.key}FileId`] = uploaded.fileId;
+              storedPhotos.push({
+                id: uploaded.fileId,
+                url: uploaded.webContentLink || uploaded.webViewLink || '',
+                filename: uploaded.fileName,
+                size: uploaded.size,
+                type: uploaded.mimeType,
+                width: uploaded.width,
+                height: uploaded.height,
+                thumbnail: uploaded.thumbnail && {
+                  id: uploaded.thumbnail.fileId,
+                  url: uploaded.thumbnail.webContentLink || '',
+                  width: uploaded.thumbnail.width,
+                  height: uploaded.thumbnail.height,
+                },
+              });
+            } else {
+              rejectedPhotos.push({
+                key: photo.key,
+                fileName: photo.fileName,
+                error: uploadResult.error || 'Upload failed',
+              });
             }
           } catch (uploadError) {
             logger.error('Child update intake: Photo upload failed', uploadError, {
               childId: body.childId,
               photoKey: photo.key,
             });
+            rejectedPhotos.push({ key: photo.key, fileName: photo.fileName, error: 'Upload failed' });
             // Continue with other photos
           }
         }
@@ -265,6 +271,8 @@ export async function POST(request: NextRequest) {
       status: 'Pending Review',
       fields: fieldsTyped,
       drive: driveRefs.folderId ? driveRefs : undefined,
+      photos: storedPhotos,
+      intakeSource: intake.source,
     });
 
     if (!createResult.success) {
@@ -284,8 +292,10 @@ export async function POST(request: NextRequest) {
       updateRecordId: createResult.data.updateRecordId,
       updateId: createResult.data.updateId,
       sourceType: body.sourceType,
+      intakeSource: intake.source,
       periodOrTerm: body.periodOrTerm,
       photosUploaded: Object.keys(driveRefs).filter(k => k.endsWith('FileId')).length,
+      photosRejected: rejectedPhotos.length,
     });
 
     return NextResponse.json({
@@ -295,9 +305,17 @@ export async function POST(request: NextRequest) {
         updateId: createResult.data.updateId,
         status: createResult.data.status,
         driveFolder: driveRefs.folderId,
+        rejectedPhotos,
       },
     });
   } catch (error: unknown) {
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const err = error as { message?: string };
 
     logger.error('Child update intake: Unexpected error', error, {});
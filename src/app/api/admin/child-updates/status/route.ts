@@ -0,0 +1,103 @@
+/**
+ * API Route: Child Update Status
+ *
+ * Moves a child update through the review workflow (REQUIRES ADMIN AUTH).
+ * Setting Needs Correction requires notes and emails the submitting role a
+ * single-use link to correct and resubmit the update. Publishing is blocked
+ * with a 409 and the flags when the safeguarding check finds identifying
+ * details, until the request redacts them or overrides with a reason.
+ *
+ * POST /api/admin/child-updates/status
+ * Body: { updateRecordId, status, notes?, safeguarding?: { redact?, overrideReason? } }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+  AuthorizationError,
+  NotFoundError,
+  SafeguardingError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { parseRequestBody } from '@/lib/validation';
+import { parseSafeguardingDecision } from '@/lib/safeguarding';
+import type { SafeguardingFlag } from '@/lib/safeguarding';
+import { updateChildUpdateStatusTool } from '@/lib/tools';
+import type { ChildUpdateStatus } from '@/lib/types/child-update';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/admin/child-updates/status';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.REVIEWER]);
+
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  const { updateRecordId, status, notes, safeguarding } = bodyResult.data as {
+    updateRecordId: string;
+    status: ChildUpdateStatus;
+    notes?: string;
+    safeguarding?: unknown;
+  };
+
+  const decision = parseSafeguardingDecision(safeguarding);
+  if (!decision.success) {
+    throw new ValidationError(decision.error!);
+  }
+
+  const result = await updateChildUpdateStatusTool({
+    updateRecordId,
+    nextStatus: status,
+    actorEmail: admin.email,
+    actorRole: admin.role,
+    requestId: getRequestId(request),
+    notes: typeof notes === 'string' ? notes : undefined,
+    safeguarding: decision.data,
+  });
+
+  if (!result.success) {
+    switch (result.error.code) {
+      case 'forbidden':
+        throw new AuthorizationError(result.error.message);
+      case 'not_found':
+        throw new NotFoundError(result.error.message);
+      case 'safeguarding_flagged':
+        throw new SafeguardingError(result.error.message, result.error.details as SafeguardingFlag[]);
+      case 'airtable_error':
+        throw new Error(result.error.message);
+      default:
+        throw new ValidationError(result.error.message);
+    }
+  }
+
+  logger.info('Child update status changed by admin', {
+    updateRecordId: result.data.updateRecordId,
+    previousStatus: result.data.previousStatus,
+    status: result.data.status,
+    changedBy: admin.email,
+    correctionEmailSent: result.data.correctionEmailSent,
+    safeguardingOutcome: result.data.safeguardingOutcome,
+  });
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(
+    result.data,
+    result.data.correctionEmailSent === false
+      ? 'Status updated, but the correction email could not be sent'
+      : 'Status updated successfully'
+  );
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/admin/child-updates/status');
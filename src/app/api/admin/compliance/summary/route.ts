@@ -10,37 +10,14 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/lib/logger';
-import { getAdminToken, isAdminAuthConfigured } from '@/lib/env';
-import { ADMIN, SOURCE_TYPE } from '@/lib/constants';
+import { getAdminUser, hasAdminRole } from '@/lib/auth';
+import { ADMIN_ROLES, SOURCE_TYPE } from '@/lib/constants';
 import {
   generateComplianceSummaryTool,
   detectMissingUpdatesTool,
 } from '@/lib/tools';
 import type { SourceType } from '@/lib/types/child-update';
 
-// ============================================================================
-// AUTHENTICATION
-// ============================================================================
-
-function validateAdminAuth(request: NextRequest): boolean {
-  if (!isAdminAuthConfigured()) {
-    logger.warn('Admin auth not configured');
-    return false;
-  }
-
-  const token = request.headers.get(ADMIN.AUTH_HEADER);
-  if (!token) {
-    return false;
-  }
-
-  try {
-    const adminToken = getAdminToken();
-    return token === adminToken;
-  } catch {
-    return false;
-  }
-}
-
 // ============================================================================
 // ROUTE HANDLER
 // ============================================================================
@@ -49,13 +26,21 @@ export async function GET(request: NextRequest) {
   logger.info('Compliance summary: Request received', {});
 
   // Authenticate
-  if (!validateAdminAuth(request)) {
+  const admin = await getAdminUser(request);
+  if (!admin) {
     return NextResponse.json(
       { success: false, error: 'Unauthorized' },
       { status: 401 }
     );
   }
 
+  if (!hasAdminRole(admin, [ADMIN_ROLES.REVIEWER, ADMIN_ROLES.FIELD_COORDINATOR, ADMIN_ROLES.READ_ONLY])) {
+    return NextResponse.json(
+      { success: false, error: 'Forbidden' },
+      { status: 403 }
+    );
+  }
+
   try {
     const url = new URL(request.url);
     const period = url.searchParams.get('period');
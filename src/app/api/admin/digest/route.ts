@@ -13,6 +13,7 @@ import {
   ValidationError,
 } from '@/lib/errors';
 import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
 import { parseRequestBody } from '@/lib/validation';
 import { sendAdminDigestTool } from '@/lib/tools';
 
@@ -23,7 +24,7 @@ async function handler(request: NextRequest): Promise<NextResponse> {
   logger.apiRequest(method, path);
 
   // CRITICAL: Require admin authentication
-  requireAdminAuth(request);
+  await requireAdminAuth(request, [ADMIN_ROLES.REVIEWER]);
 
   // Parse request body
   const bodyResult = await parseRequestBody(request);
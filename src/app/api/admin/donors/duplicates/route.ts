@@ -0,0 +1,49 @@
+/**
+ * Admin Duplicate Donors API
+ * Lists pairs of donor records that look like the same person, side by side
+ * with each record's giving (REQUIRES ADMIN AUTH)
+ *
+ * GET /api/admin/donors/duplicates?minScore=0.6&limit=50
+ *
+ * Pairs are merged via POST /api/admin/donors/merge.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { createSuccessResponse, withErrorHandling, ValidationError } from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { findDuplicateDonorsTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/admin/donors/duplicates';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  await requireAdminAuth(request, [ADMIN_ROLES.FINANCE, ADMIN_ROLES.READ_ONLY]);
+
+  const { searchParams } = new URL(request.url);
+  const minScore = searchParams.get('minScore');
+  const limit = searchParams.get('limit');
+
+  // Use the WAT tool to find candidate pairs
+  const result = await findDuplicateDonorsTool({
+    minScore: minScore ? Number(minScore) : undefined,
+    limit: limit ? Number(limit) : undefined,
+  });
+
+  if (!result.success) {
+    if (result.error?.startsWith('Invalid input')) {
+      throw new ValidationError(result.error);
+    }
+    throw new Error(result.error || 'Failed to find duplicate donors');
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data);
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/admin/donors/duplicates');
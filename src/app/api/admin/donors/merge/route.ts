@@ -0,0 +1,64 @@
+/**
+ * Admin Merge Donors API
+ * Folds a duplicate donor record into the record to keep (REQUIRES ADMIN AUTH)
+ *
+ * POST /api/admin/donors/merge
+ * Body: { "survivorId": "<donor id to keep>", "mergedId": "<duplicate donor id>", "score": 0.92 }
+ *
+ * The duplicate's donations move to the kept record, and any contact details
+ * the kept record is missing are copied over. The duplicate is kept, marked
+ * as merged, so the merge can be undone via POST /api/admin/donors/merge/undo.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { parseRequestBody } from '@/lib/validation';
+import { mergeDonorsTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/admin/donors/merge';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.FINANCE]);
+
+  // Parse request body
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  // Use the WAT tool to merge
+  const result = await mergeDonorsTool(bodyResult.data, {
+    actor: admin.email,
+    actorRole: admin.role,
+    requestId: getRequestId(request),
+  });
+
+  if (!result.success) {
+    if (result.error === 'Donor not found') {
+      throw new NotFoundError(result.error);
+    }
+    if (result.error?.startsWith('Invalid input')) {
+      throw new ValidationError(result.error);
+    }
+    throw new Error(result.error || 'Failed to merge donors');
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data, 'Donors merged');
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/admin/donors/merge');
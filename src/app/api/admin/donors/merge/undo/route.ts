@@ -0,0 +1,64 @@
+/**
+ * Admin Undo Donor Merge API
+ * Reverses a donor merge (REQUIRES ADMIN AUTH)
+ *
+ * POST /api/admin/donors/merge/undo
+ * Body: { "mergeId": "<merge id>" }
+ *
+ * Donations moved by the merge go back to the duplicate, contact details
+ * copied by the merge are cleared again unless edited since, and the
+ * duplicate becomes an active donor record again.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { parseRequestBody } from '@/lib/validation';
+import { undoDonorMergeTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/admin/donors/merge/undo';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.FINANCE]);
+
+  // Parse request body
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  // Use the WAT tool to undo the merge
+  const result = await undoDonorMergeTool(bodyResult.data, {
+    actor: admin.email,
+    actorRole: admin.role,
+    requestId: getRequestId(request),
+  });
+
+  if (!result.success) {
+    if (result.error === 'Merge not found') {
+      throw new NotFoundError(result.error);
+    }
+    if (result.error?.startsWith('Invalid input')) {
+      throw new ValidationError(result.error);
+    }
+    throw new Error(result.error || 'Failed to undo donor merge');
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data, 'Donor merge undone');
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/admin/donors/merge/undo');
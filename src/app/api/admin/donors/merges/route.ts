@@ -0,0 +1,39 @@
+/**
+ * Admin Donor Merges API
+ * Lists recent donor merges, newest first (REQUIRES ADMIN AUTH)
+ *
+ * GET /api/admin/donors/merges
+ *
+ * A merge that has not been undone can be reversed via
+ * POST /api/admin/donors/merge/undo.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { createSuccessResponse, withErrorHandling } from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { listDonorMergesTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/admin/donors/merges';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  await requireAdminAuth(request, [ADMIN_ROLES.FINANCE, ADMIN_ROLES.READ_ONLY]);
+
+  // Use the WAT tool to list merges
+  const result = await listDonorMergesTool();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to list donor merges');
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data);
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/admin/donors/merges');
@@ -0,0 +1,63 @@
+/**
+ * Admin Fund Allocation API
+ * Records money spent or committed from a designated fund
+ * (REQUIRES ADMIN AUTH)
+ *
+ * POST /api/admin/funds/allocations
+ * Body: {
+ *   "fund": "medical_outreach",
+ *   "amount": 1200,
+ *   "currency": "usd",
+ *   "allocatedOn": "2025-03-14",
+ *   "description": "March medical camp supplies"
+ * }
+ *
+ * Allocations cannot be edited or deleted; record a negative amount to
+ * reverse one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { parseRequestBody } from '@/lib/validation';
+import { recordFundAllocationTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/admin/funds/allocations';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.FINANCE]);
+
+  // Parse request body
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  // Use the WAT tool to record the allocation
+  const result = await recordFundAllocationTool(bodyResult.data, {
+    actor: admin.email,
+    actorRole: admin.role,
+    requestId: getRequestId(request),
+  });
+
+  if (!result.success) {
+    throw new ValidationError(result.error!);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data, 'Fund allocation recorded');
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/admin/funds/allocations');
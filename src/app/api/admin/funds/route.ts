@@ -0,0 +1,50 @@
+/**
+ * Admin Fund Ledger API
+ * Reports received vs. allocated amounts per designated fund
+ * (REQUIRES ADMIN AUTH)
+ *
+ * GET /api/admin/funds?from=2025-01-01&to=2025-12-31&allocations=true
+ *
+ * Both dates are optional and inclusive; omit them for all-time balances.
+ * Allocations are recorded via POST /api/admin/funds/allocations.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { getFundLedgerTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/admin/funds';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  await requireAdminAuth(request, [ADMIN_ROLES.FINANCE, ADMIN_ROLES.READ_ONLY]);
+
+  const { searchParams } = new URL(request.url);
+
+  // Use the WAT tool to build the ledger
+  const result = await getFundLedgerTool({
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    includeAllocations: searchParams.get('allocations') === 'true',
+  });
+
+  if (!result.success) {
+    throw new ValidationError(result.error!);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data);
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/admin/funds');
@@ -0,0 +1,72 @@
+/**
+ * Admin Offline Gift API
+ * Records a check, cash or bank transfer gift and emails the receipt
+ * (REQUIRES ADMIN AUTH)
+ *
+ * POST /api/admin/gifts/offline
+ * Body: {
+ *   "donor": { "name": "Jane Doe", "email": "jane@example.com" },
+ *   "amount": 250,
+ *   "giftDate": "2026-10-14",
+ *   "paymentMethod": "Check",
+ *   "referenceNumber": "10482",
+ *   "depositBatch": "2026-10-16-A"
+ * }
+ *
+ * Send "donorId" instead of "donor" to record the gift against an existing
+ * donor record. Re-entering a gift with the same payment method, reference
+ * number and donor does not create a second donation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { parseRequestBody } from '@/lib/validation';
+import { recordOfflineGiftTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/admin/gifts/offline';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.FINANCE]);
+
+  // Parse request body
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  // Use the WAT tool to record the gift and send the receipt
+  const result = await recordOfflineGiftTool(bodyResult.data, {
+    actor: admin.email,
+    actorRole: admin.role,
+    requestId: getRequestId(request),
+  });
+
+  if (!result.success) {
+    if (result.error === 'Donor not found') {
+      throw new NotFoundError(result.error);
+    }
+    if (result.error?.startsWith('Invalid input')) {
+      throw new ValidationError(result.error);
+    }
+    throw new Error(result.error || 'Failed to record offline gift');
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data, 'Offline gift recorded');
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/admin/gifts/offline');
@@ -11,6 +11,7 @@ import {
   ValidationError,
 } from '@/lib/errors';
 import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
 import { reconcileSubscriptionsTool } from '@/lib/tools';
 
 async function handler(request: NextRequest): Promise<NextResponse> {
@@ -20,7 +21,7 @@ async function handler(request: NextRequest): Promise<NextResponse> {
   logger.apiRequest(method, path);
 
   // CRITICAL: Require admin authentication
-  requireAdminAuth(request);
+  await requireAdminAuth(request, [ADMIN_ROLES.FINANCE, ADMIN_ROLES.READ_ONLY]);
 
   // Parse query params
   const { searchParams } = new URL(request.url);
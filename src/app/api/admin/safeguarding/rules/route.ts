@@ -0,0 +1,38 @@
+/**
+ * Admin Safeguarding Rules API
+ * Lists the rules the pre-publish safeguarding check applies (REQUIRES ADMIN AUTH)
+ *
+ * GET /api/admin/safeguarding/rules
+ *
+ * Configured rules are created and edited via POST /api/admin/safeguarding/rules/save.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { createSuccessResponse, withErrorHandling } from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { listSafeguardingRulesTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/admin/safeguarding/rules';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  await requireAdminAuth(request, [ADMIN_ROLES.REVIEWER, ADMIN_ROLES.READ_ONLY]);
+
+  // Use the WAT tool to list rules
+  const result = await listSafeguardingRulesTool();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to list safeguarding rules');
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data);
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/admin/safeguarding/rules');
@@ -0,0 +1,60 @@
+/**
+ * Admin Save Safeguarding Rule API
+ * Creates or edits a safeguarding rule (REQUIRES ADMIN AUTH)
+ *
+ * POST /api/admin/safeguarding/rules/save
+ * Body: { "label": "Village: Kasana", "category": "village", "pattern": "Kasana" }
+ *
+ * Include "id" to edit an existing rule, "isRegex": true for a regular
+ * expression, and "active": false to stop applying a rule.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { parseRequestBody } from '@/lib/validation';
+import { saveSafeguardingRuleTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/admin/safeguarding/rules/save';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.REVIEWER]);
+
+  // Parse request body
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  // Use the WAT tool to save the rule
+  const result = await saveSafeguardingRuleTool(bodyResult.data, {
+    actor: admin.email,
+    actorRole: admin.role,
+    requestId: getRequestId(request),
+  });
+
+  if (!result.success) {
+    if (result.error === 'Safeguarding rule not found') {
+      throw new NotFoundError(result.error);
+    }
+    throw new ValidationError(result.error!);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data, 'Safeguarding rule saved');
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/admin/safeguarding/rules/save');
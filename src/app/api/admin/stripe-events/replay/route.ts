@@ -0,0 +1,93 @@
+/**
+ * Admin Stripe Event Replay API
+ * Re-runs a failed webhook event from its stored payload (REQUIRES ADMIN AUTH)
+ *
+ * POST /api/admin/stripe-events/replay
+ * Body: { "eventId": "evt_..." }
+ *
+ * Only failed events (or events stuck in processing) can be replayed;
+ * processed events are never applied twice.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+  NotFoundError,
+  ExternalServiceError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import {
+  claimStripeEventForReplay,
+  completeStripeEvent,
+  failStripeEvent,
+  findStripeEventById,
+} from '@/lib/stripe-events';
+import { handleStripeEvent } from '@/lib/stripe-webhook';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { parseRequestBody } from '@/lib/validation';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/admin/stripe-events/replay';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.FINANCE]);
+
+  // Parse request body
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  const { eventId } = bodyResult.data as { eventId?: string };
+  if (!eventId) {
+    throw new ValidationError('eventId is required');
+  }
+
+  const existing = await findStripeEventById(eventId);
+  if (!existing) {
+    throw new NotFoundError(`Stripe event ${eventId} not found`);
+  }
+
+  const event = await claimStripeEventForReplay(eventId);
+  if (!event) {
+    throw new ValidationError(
+      `Stripe event ${eventId} cannot be replayed while its status is ${existing.status}`
+    );
+  }
+
+  logger.info('Replaying Stripe event', {
+    eventId,
+    type: event.type,
+    admin: admin.email,
+    previousAttempts: existing.attempts,
+  });
+
+  try {
+    await handleStripeEvent(event, {
+      actor: admin.email,
+      actorRole: admin.role,
+      requestId: getRequestId(request),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Replay failed';
+    await failStripeEvent(eventId, message);
+
+    logger.error('Stripe event replay failed', error, { eventId });
+    throw new ExternalServiceError('Stripe event replay', `Replay failed: ${message}`);
+  }
+
+  await completeStripeEvent(eventId);
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse({ eventId, status: 'processed' }, 'Stripe event replayed successfully');
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/admin/stripe-events/replay');
@@ -0,0 +1,63 @@
+/**
+ * Admin Stripe Events API
+ * Lists webhook events recorded in the Stripe event ledger (REQUIRES ADMIN AUTH)
+ *
+ * GET /api/admin/stripe-events?status=failed&type=&limit=
+ *
+ * Defaults to failed events, which can be re-run via
+ * POST /api/admin/stripe-events/replay.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { findStripeEvents, STRIPE_EVENT_STATUS } from '@/lib/stripe-events';
+import type { StripeEventStatus } from '@/lib/stripe-events';
+import { ADMIN_ROLES } from '@/lib/constants';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/admin/stripe-events';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  await requireAdminAuth(request, [ADMIN_ROLES.FINANCE, ADMIN_ROLES.READ_ONLY]);
+
+  const { searchParams } = new URL(request.url);
+  const status = (searchParams.get('status') || STRIPE_EVENT_STATUS.FAILED) as StripeEventStatus;
+
+  if (!Object.values(STRIPE_EVENT_STATUS).includes(status)) {
+    throw new ValidationError(
+      `status must be one of: ${Object.values(STRIPE_EVENT_STATUS).join(', ')}`
+    );
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+  if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+    throw new ValidationError('limit must be a positive number');
+  }
+
+  const events = await findStripeEvents({
+    status,
+    type: searchParams.get('type') || undefined,
+    limit,
+  });
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse({
+    status,
+    count: events.length,
+    events,
+  });
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/admin/stripe-events');
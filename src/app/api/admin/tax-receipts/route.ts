@@ -0,0 +1,74 @@
+/**
+ * Year-End Tax Receipts API
+ * Sends each donor a consolidated PDF giving statement for a tax year
+ * (REQUIRES ADMIN AUTH)
+ *
+ * POST /api/admin/tax-receipts
+ * Body: { "taxYear": 2025, "dryRun": true, "donorEmail": "optional@example.com" }
+ *
+ * A dry run lists who would receive a statement and the totals without
+ * sending anything; read_only admins may dry-run, only finance may send.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+  AuthorizationError,
+} from '@/lib/errors';
+import { requireAdminAuth, hasAdminRole } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { parseRequestBody } from '@/lib/validation';
+import { sendYearEndStatementsTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/admin/tax-receipts';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.FINANCE, ADMIN_ROLES.READ_ONLY]);
+
+  // Parse request body
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  const { taxYear, dryRun, donorEmail } = bodyResult.data as {
+    taxYear?: unknown;
+    dryRun?: unknown;
+    donorEmail?: unknown;
+  };
+
+  if (dryRun !== true && !hasAdminRole(admin, [ADMIN_ROLES.FINANCE])) {
+    throw new AuthorizationError('Only finance admins can send tax receipts; use dryRun to preview');
+  }
+
+  logger.info('Year-end statements requested', {
+    taxYear,
+    dryRun: dryRun === true,
+    admin: admin.email,
+  });
+
+  // Use the WAT tool to aggregate and send statements
+  const result = await sendYearEndStatementsTool({ taxYear, dryRun, donorEmail });
+
+  if (!result.success) {
+    throw new ValidationError(result.error!);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(
+    result.data,
+    result.data?.dryRun
+      ? `${result.data.donorCount} donors would receive a ${result.data.taxYear} statement`
+      : `Sent ${result.data?.sent} of ${result.data?.donorCount} year-end statements`
+  );
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/admin/tax-receipts');
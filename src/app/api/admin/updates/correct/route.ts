@@ -0,0 +1,65 @@
+/**
+ * Admin Correct Update API
+ * Publishes a corrected version of a published update (REQUIRES ADMIN AUTH).
+ * The corrected version replaces the original for the sponsor; the original
+ * is kept unchanged in the version history. Safeguarding flags block the
+ * correction with a 409 until they are redacted or overridden.
+ *
+ * POST /api/admin/updates/correct
+ * Body: { updateId, title?, content?, photos?, fields?, safeguarding? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+  SafeguardingError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { parseRequestBody } from '@/lib/validation';
+import { publishUpdateVersionTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/admin/updates/correct';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.REVIEWER]);
+
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  const result = await publishUpdateVersionTool(bodyResult.data, {
+    actor: admin.email,
+    actorRole: admin.role,
+    requestId: getRequestId(request),
+  });
+
+  if (!result.success) {
+    if (result.safeguardingFlags) {
+      throw new SafeguardingError(result.error!, result.safeguardingFlags);
+    }
+    throw new ValidationError(result.error!);
+  }
+
+  logger.info('Corrected update version published by admin', {
+    updateId: result.data?.updateId,
+    supersedesUpdateId: result.data?.supersedesUpdateId,
+    childId: result.data?.childId,
+    updatedBy: admin.email,
+  });
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data, 'Corrected version published successfully');
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/admin/updates/correct');
@@ -11,6 +11,7 @@ import {
   withErrorHandling,
 } from '@/lib/errors';
 import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
 
 async function handler(request: NextRequest): Promise<NextResponse> {
   const method = 'GET';
@@ -19,7 +20,7 @@ async function handler(request: NextRequest): Promise<NextResponse> {
   logger.apiRequest(method, path);
 
   // CRITICAL: Require admin authentication
-  requireAdminAuth(request);
+  await requireAdminAuth(request, [ADMIN_ROLES.REVIEWER, ADMIN_ROLES.READ_ONLY]);
 
   // Get pending updates from Airtable
   const pendingUpdates = await findPendingUpdates();
@@ -41,6 +42,9 @@ async function handler(request: NextRequest): Promise<NextResponse> {
     requestedAt: record.fields.RequestedAt,
     submittedBy: record.fields.SubmittedBy,
     submittedAt: record.fields.SubmittedAt,
+    // Form submissions can be sent back for correction
+    intakeSource: record.fields.IntakeSource,
+    correctionNotes: record.fields.CorrectionNotes,
     createdTime: record.createdTime,
   }));
 
@@ -11,6 +11,7 @@ import {
   ValidationError,
 } from '@/lib/errors';
 import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
 import { parseRequestBody } from '@/lib/validation';
 import { sendUpdateNotificationTool } from '@/lib/tools';
 import { getUpdateById, findSponsorshipBySponsorCode } from '@/lib/database';
@@ -22,7 +23,7 @@ async function handler(request: NextRequest): Promise<NextResponse> {
   logger.apiRequest(method, path);
 
   // CRITICAL: Require admin authentication
-  requireAdminAuth(request);
+  await requireAdminAuth(request, [ADMIN_ROLES.REVIEWER]);
 
   // Parse request body
   const bodyResult = await parseRequestBody(request);
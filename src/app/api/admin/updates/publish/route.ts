@@ -9,8 +9,11 @@ import {
   createSuccessResponse,
   withErrorHandling,
   ValidationError,
+  SafeguardingError,
 } from '@/lib/errors';
 import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
 import { parseRequestBody } from '@/lib/validation';
 import { publishUpdateTool } from '@/lib/tools';
 
@@ -21,7 +24,7 @@ async function handler(request: NextRequest): Promise<NextResponse> {
   logger.apiRequest(method, path);
 
   // CRITICAL: Require admin authentication
-  requireAdminAuth(request);
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.REVIEWER]);
 
   // Parse request body
   const bodyResult = await parseRequestBody(request);
@@ -29,16 +32,22 @@ async function handler(request: NextRequest): Promise<NextResponse> {
     throw new ValidationError(bodyResult.error!);
   }
 
-  const { updateId } = bodyResult.data as { updateId: string };
+  const { updateId, safeguarding } = bodyResult.data as { updateId: string; safeguarding?: unknown };
 
   if (!updateId) {
     throw new ValidationError('updateId is required');
   }
 
   // Use the WAT tool to publish the update
-  const result = await publishUpdateTool({ updateId });
+  const result = await publishUpdateTool(
+    { updateId, safeguarding },
+    { actor: admin.email, actorRole: admin.role, requestId: getRequestId(request) }
+  );
 
   if (!result.success) {
+    if (result.safeguardingFlags) {
+      throw new SafeguardingError(result.error!, result.safeguardingFlags);
+    }
     throw new ValidationError(result.error!);
   }
 
@@ -46,6 +55,7 @@ async function handler(request: NextRequest): Promise<NextResponse> {
     updateId: result.data?.updateId,
     childId: result.data?.childId,
     title: result.data?.title,
+    publishedBy: admin.email,
   });
 
   logger.apiResponse(method, path, 200);
@@ -55,6 +65,8 @@ async function handler(request: NextRequest): Promise<NextResponse> {
     childId: result.data?.childId,
     title: result.data?.title,
     publishedAt: result.data?.publishedAt,
+    publishedBy: result.data?.publishedBy,
+    safeguardingOutcome: result.data?.safeguardingOutcome,
     sponsorNotificationReady: !!result.data?.sponsorEmail,
     sponsor: result.data?.sponsorEmail ? {
       email: result.data.sponsorEmail,
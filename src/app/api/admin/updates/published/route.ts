@@ -0,0 +1,67 @@
+/**
+ * Admin Published Updates API
+ * Lists a child's published updates as sponsors see them, newest version of
+ * each only, so one can be picked for correction (REQUIRES ADMIN AUTH)
+ *
+ * GET /api/admin/updates/published?childId=...
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findUpdatesForChild } from '@/lib/database';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/admin/updates/published';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  await requireAdminAuth(request, [ADMIN_ROLES.REVIEWER, ADMIN_ROLES.READ_ONLY]);
+
+  const childId = request.nextUrl.searchParams.get('childId')?.trim();
+  if (!childId) {
+    throw new ValidationError('childId is required');
+  }
+
+  const publishedUpdates = await findUpdatesForChild(childId);
+
+  const updates = publishedUpdates.map((record) => ({
+    id: record.id,
+    childId: record.fields.ChildID,
+    updateType: record.fields.UpdateType,
+    title: record.fields.Title,
+    content: record.fields.Content,
+    photos: record.fields.Photos?.map((photo) => ({
+      url: photo.url,
+      filename: photo.filename,
+    })),
+    publishedAt: record.fields.PublishedAt,
+    // Set when this is a corrected version
+    supersedesUpdateId: record.fields.SupersedesUpdate,
+    reviewedAt: record.fields.ReviewedAt,
+    // Form answers can be corrected field by field
+    payload: record.fields.Payload,
+  }));
+
+  logger.info('Listed published updates for admin', {
+    childId,
+    count: updates.length,
+  });
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse({
+    updates,
+    count: updates.length,
+  });
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/admin/updates/published');
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { timingSafeEqual } from 'crypto';
-import { verifyAdminToken } from '@/lib/auth';
+import { authenticateAdminToken, getAdminUser, hasAdminRole } from '@/lib/auth';
 import { checkUpdateSubmissionRateLimit } from '@/lib/rate-limit';
 import { 
   validateSponsorCode, 
@@ -10,38 +9,13 @@ import {
   sanitizeString,
   escapeForAirtable 
 } from '@/lib/validation';
-import { ERROR_MESSAGES } from '@/lib/constants';
+import { ADMIN_ROLES, ERROR_MESSAGES } from '@/lib/constants';
 
 const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
 const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
 const AIRTABLE_SPONSORSHIPS_TABLE = process.env.AIRTABLE_SPONSORSHIPS_TABLE || 'Sponsorships';
 const AIRTABLE_UPDATES_TABLE = process.env.AIRTABLE_UPDATES_TABLE || 'Updates';
 
-/**
- * Verify form-submitted token using timing-safe comparison
- */
-function verifyFormToken(token: string | null): boolean {
-  if (!token) return false;
-  
-  const expectedToken = process.env.ADMIN_API_TOKEN;
-  if (!expectedToken) return false;
-  
-  try {
-    const tokenBuffer = Buffer.from(token, 'utf8');
-    const expectedBuffer = Buffer.from(expectedToken, 'utf8');
-    
-    if (tokenBuffer.length !== expectedBuffer.length) {
-      // Do a comparison anyway to maintain constant time
-      timingSafeEqual(tokenBuffer, tokenBuffer);
-      return false;
-    }
-    
-    return timingSafeEqual(tokenBuffer, expectedBuffer);
-  } catch {
-    return false;
-  }
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Check rate limit first
@@ -60,17 +34,26 @@ export async function POST(request: NextRequest) {
 
     const formData = await request.formData();
     
-    // Authentication check using timing-safe comparison
+    // Authentication check - the form's admin password field is the admin's personal token
     const adminPassword = formData.get('adminPassword') as string;
     
     // Verify token - try both header and form-based auth
-    if (!verifyAdminToken(request) && !verifyFormToken(adminPassword)) {
+    const admin = (await getAdminUser(request)) || (await authenticateAdminToken(adminPassword || null));
+    if (!admin) {
       console.warn('[Admin Submit] Unauthorized access attempt');
       return NextResponse.json(
         { error: 'Unauthorized - Invalid admin password' },
         { status: 401 }
       );
     }
+
+    if (!hasAdminRole(admin, [ADMIN_ROLES.FIELD_COORDINATOR, ADMIN_ROLES.REVIEWER])) {
+      console.warn('[Admin Submit] Role not permitted:', admin.role);
+      return NextResponse.json(
+        { error: 'Forbidden - Your admin role cannot submit updates' },
+        { status: 403 }
+      );
+    }
     
     // Extract and validate form fields
     const sponsorCodeRaw = formData.get('sponsorCode') as string;
@@ -0,0 +1,45 @@
+/**
+ * Admin Update Versions API
+ * Lists every version of an update with the changes between consecutive
+ * versions (REQUIRES ADMIN AUTH)
+ *
+ * GET /api/admin/updates/versions?updateId=...
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { requireAdminAuth } from '@/lib/auth';
+import { ADMIN_ROLES } from '@/lib/constants';
+import { getUpdateVersionsTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/admin/updates/versions';
+
+  logger.apiRequest(method, path);
+
+  // CRITICAL: Require admin authentication
+  await requireAdminAuth(request, [ADMIN_ROLES.REVIEWER, ADMIN_ROLES.READ_ONLY]);
+
+  const updateId = request.nextUrl.searchParams.get('updateId');
+  if (!updateId) {
+    throw new ValidationError('updateId is required');
+  }
+
+  const result = await getUpdateVersionsTool({ updateId });
+
+  if (!result.success) {
+    throw new ValidationError(result.error!);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data);
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/admin/updates/versions');
@@ -0,0 +1,56 @@
+/**
+ * Billing Portal Redirect API
+ * Opens a Stripe billing portal session from the link in a payment-failed
+ * email, so the sponsor can update their card.
+ *
+ * GET /api/billing-portal?token=<signed link token>
+ *
+ * Stripe portal URLs are short-lived, so the email carries a signed link to
+ * this route instead and a fresh portal session is created on each visit.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { withErrorHandling, AuthenticationError, ExternalServiceError } from '@/lib/errors';
+import { verifyBillingPortalToken } from '@/lib/auth';
+import { findDunningCaseById } from '@/lib/dunning';
+import { getStripe } from '@/lib/stripe-webhook';
+import { DUNNING, ERROR_MESSAGES } from '@/lib/constants';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/billing-portal';
+
+  logger.apiRequest(method, path);
+
+  const token = request.nextUrl.searchParams.get('token');
+  const dunningCaseId = token ? verifyBillingPortalToken(token) : null;
+  if (!dunningCaseId) {
+    throw new AuthenticationError(ERROR_MESSAGES.BILLING_PORTAL_LINK_INVALID);
+  }
+
+  const dunningCase = await findDunningCaseById(dunningCaseId);
+  const maxAgeMs = DUNNING.LINK_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+  if (!dunningCase || Date.now() - new Date(dunningCase.startedAt).getTime() > maxAgeMs) {
+    throw new AuthenticationError(ERROR_MESSAGES.BILLING_PORTAL_LINK_INVALID);
+  }
+
+  let portalUrl: string;
+  try {
+    const stripe = await getStripe();
+    const session = await stripe.billingPortal.sessions.create({
+      customer: dunningCase.customerId,
+      return_url: process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org',
+    });
+    portalUrl = session.url;
+  } catch (error) {
+    logger.error('Failed to create billing portal session', error, { dunningCaseId });
+    throw new ExternalServiceError('Stripe', 'Could not open the billing portal. Please try again later.');
+  }
+
+  logger.apiResponse(method, path, 303);
+
+  return NextResponse.redirect(portalUrl, 303);
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/billing-portal');
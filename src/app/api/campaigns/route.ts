@@ -0,0 +1,45 @@
+/**
+ * Campaign Progress API
+ * Returns a campaign and its live progress toward the goal
+ * (PUBLIC - no auth required)
+ *
+ * GET /api/campaigns?slug=giving-tuesday-2026
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import { getCampaignProgressTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/campaigns';
+
+  logger.apiRequest(method, path);
+
+  const { searchParams } = new URL(request.url);
+
+  // Use the WAT tool to total the campaign's gifts
+  const result = await getCampaignProgressTool({ slug: searchParams.get('slug') || undefined });
+
+  if (!result.success) {
+    if (result.error === 'Campaign not found') {
+      throw new NotFoundError(result.error);
+    }
+    if (result.error?.startsWith('Invalid input')) {
+      throw new ValidationError(result.error);
+    }
+    throw new Error(result.error || 'Failed to load campaign');
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data);
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/campaigns');
@@ -0,0 +1,52 @@
+/**
+ * Child Update Correction API
+ * Returns the reviewer's notes and the submission to prefill on the
+ * /updates/resubmit page linked from a correction request email.
+ *
+ * GET /api/child-updates/correction?token=<token>
+ *
+ * Does not use up the single-use token; POST /api/child-updates/resubmit does.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  AuthenticationError,
+  ValidationError,
+} from '@/lib/errors';
+import { checkLoginRateLimit } from '@/lib/rate-limit';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { getUpdateCorrectionTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/child-updates/correction';
+
+  logger.apiRequest(method, path);
+
+  const rateLimitError = checkLoginRateLimit(request);
+  if (rateLimitError) {
+    throw rateLimitError;
+  }
+
+  const token = request.nextUrl.searchParams.get('token')?.trim();
+  if (!token) {
+    throw new ValidationError(ERROR_MESSAGES.MISSING_REQUIRED_FIELD('Token'));
+  }
+
+  const result = await getUpdateCorrectionTool({ token });
+  if (!result.success) {
+    if (result.error.code === 'invalid_link') {
+      throw new AuthenticationError(ERROR_MESSAGES.RESUBMISSION_LINK_INVALID);
+    }
+    throw new Error(result.error.message);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data);
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/child-updates/correction');
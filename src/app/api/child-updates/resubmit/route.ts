@@ -0,0 +1,73 @@
+/**
+ * Child Update Resubmission API
+ * Resubmits an update that a reviewer sent back for correction, from the
+ * /updates/resubmit page linked from the correction request email.
+ *
+ * POST /api/child-updates/resubmit
+ * Body: { token, fields }
+ *
+ * The single-use token is the only credential; it names one correction
+ * request, so it can only ever change that one update.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  AuthenticationError,
+  ValidationError,
+} from '@/lib/errors';
+import { checkLoginRateLimit } from '@/lib/rate-limit';
+import { parseRequestBody } from '@/lib/validation';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import { resubmitChildUpdateTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/child-updates/resubmit';
+
+  logger.apiRequest(method, path);
+
+  const rateLimitError = checkLoginRateLimit(request);
+  if (rateLimitError) {
+    throw rateLimitError;
+  }
+
+  const bodyResult = await parseRequestBody<{ token?: unknown; fields?: unknown }>(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  const { token, fields } = bodyResult.data!;
+  if (typeof token !== 'string' || token.trim().length === 0) {
+    throw new ValidationError(ERROR_MESSAGES.MISSING_REQUIRED_FIELD('Token'));
+  }
+
+  const result = await resubmitChildUpdateTool({
+    token: token.trim(),
+    fields: fields as Record<string, unknown>,
+  });
+
+  if (!result.success) {
+    switch (result.error.code) {
+      case 'invalid_link':
+        throw new AuthenticationError(ERROR_MESSAGES.RESUBMISSION_LINK_INVALID);
+      case 'invalid_args':
+        throw new ValidationError(result.error.message);
+      default:
+        throw new Error(result.error.message);
+    }
+  }
+
+  logger.info('Child update resubmitted after correction', {
+    updateRecordId: result.data.updateRecordId,
+    childId: result.data.childId,
+  });
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data, SUCCESS_MESSAGES.UPDATE_SUBMITTED);
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/child-updates/resubmit');
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import type Stripe from 'stripe';
 import { checkCheckoutRateLimit } from '@/lib/rate-limit';
-import { validateDonationAmount, validateEmail, sanitizeString } from '@/lib/validation';
-import { ERROR_MESSAGES } from '@/lib/constants';
+import { validateDonationAmount, validateEmail, validateEnum, validateTribute, sanitizeString } from '@/lib/validation';
+import type { TributeRequest } from '@/lib/validation';
+import { ERROR_MESSAGES, DONATION_CURRENCIES, DONATION_FUNDS, DONATION_FUND_LABELS, STRIPE } from '@/lib/constants';
+import { findCampaignBySlug, getCampaignStatus } from '@/lib/campaigns';
+import { calculateCoveredFeeMinorUnits } from '@/lib/fee-coverage';
+import { formatCurrencyAmount, fromMinorUnits } from '@/lib/currency';
+import type { DonationCurrency } from '@/lib/currency';
 
 // Initialize Stripe lazily using dynamic import to avoid issues during build
 async function getStripe() {
@@ -56,16 +61,29 @@ export async function POST(request: NextRequest) {
     const stripe = await getStripe();
     const body = await request.json();
 
-    // Validate amount - the validation function returns cents
-    const amountValidation = validateDonationAmount(body.amount);
+    // Validate optional currency (defaults to the base currency)
+    let currency: DonationCurrency = STRIPE.CURRENCY;
+    if (body.currency) {
+      const currencyValidation = validateEnum(body.currency, Object.values(DONATION_CURRENCIES), 'Currency');
+      if (!currencyValidation.success) {
+        return NextResponse.json(
+          { error: currencyValidation.error },
+          { status: 400 }
+        );
+      }
+      currency = currencyValidation.data!;
+    }
+
+    // Validate amount - the validation function returns the currency's smallest unit
+    const amountValidation = validateDonationAmount(body.amount, currency);
     if (!amountValidation.success) {
       return NextResponse.json(
         { error: amountValidation.error },
         { status: 400 }
       );
     }
-    const amountInCents = amountValidation.data!;
-    const amountInDollars = amountInCents / 100;
+    const amountInMinorUnits = amountValidation.data!;
+    const amount = fromMinorUnits(amountInMinorUnits, currency);
 
     // Validate optional email
     let email: string | undefined;
@@ -83,14 +101,71 @@ export async function POST(request: NextRequest) {
     // Sanitize optional name
     const name = sanitizeString(body.name).slice(0, 200) || 'Anonymous';
 
+    // Validate optional designation (undesignated gifts go to the general fund)
+    let fund: (typeof DONATION_FUNDS)[keyof typeof DONATION_FUNDS] = DONATION_FUNDS.GENERAL;
+    if (body.fund) {
+      const fundValidation = validateEnum(body.fund, Object.values(DONATION_FUNDS), 'Fund');
+      if (!fundValidation.success) {
+        return NextResponse.json(
+          { error: fundValidation.error },
+          { status: 400 }
+        );
+      }
+      fund = fundValidation.data!;
+    }
+
+    // Validate optional campaign (?campaign=<slug>, or in the body); only
+    // campaigns that are running can take gifts
+    const campaignSlug = request.nextUrl.searchParams.get('campaign') || body.campaign;
+    let campaign: string | undefined;
+    if (campaignSlug) {
+      const found = typeof campaignSlug === 'string' ? await findCampaignBySlug(campaignSlug) : null;
+      if (!found) {
+        return NextResponse.json(
+          { error: 'Campaign not found' },
+          { status: 400 }
+        );
+      }
+      if (getCampaignStatus(found) !== 'active') {
+        return NextResponse.json(
+          { error: `${found.title} is not accepting gifts right now` },
+          { status: 400 }
+        );
+      }
+      campaign = found.slug;
+    }
+
+    // Validate optional tribute (gift in honor or in memory of someone)
+    let tribute: TributeRequest | undefined;
+    if (body.tribute) {
+      const tributeValidation = validateTribute(body.tribute);
+      if (!tributeValidation.success) {
+        return NextResponse.json(
+          { error: tributeValidation.error },
+          { status: 400 }
+        );
+      }
+      tribute = tributeValidation.data!;
+    }
+
     // Validate isMonthly is boolean
     const isMonthly = body.isMonthly === true;
 
+    // Optionally gross up the charge so the donor covers the processing fee.
+    // The limits above apply to the gift itself, not the fee.
+    const coverFee = body.coverFee === true;
+    const coveredFeeMinorUnits = coverFee ? calculateCoveredFeeMinorUnits(amountInMinorUnits, currency) : 0;
+    const coveredFee = fromMinorUnits(coveredFeeMinorUnits, currency).toString();
+    const feeNote = coverFee
+      ? ` plus ${formatCurrencyAmount(Number(coveredFee), currency)} to cover processing fees`
+      : '';
+
     // Get origin from request header (as per Stripe docs)
     const origin = request.headers.get('origin') || 'https://www.beanumber.org';
 
     const mode = isMonthly ? 'subscription' : 'payment';
     const donationType = isMonthly ? 'monthly' : 'one-time';
+    const designation = fund === DONATION_FUNDS.GENERAL ? '' : ` — designated to ${DONATION_FUND_LABELS[fund]}`;
 
     // Create Stripe Checkout Session
     const sessionConfig: Stripe.Checkout.SessionCreateParams = {
@@ -98,16 +173,16 @@ export async function POST(request: NextRequest) {
       line_items: [
         {
           price_data: {
-            currency: 'usd',
+            currency,
             product_data: {
               name: isMonthly 
-                ? 'Monthly Donation to Be A Number, International'
-                : 'Donation to Be A Number, International',
+                ? `Monthly Donation to Be A Number, International${designation}`
+                : `Donation to Be A Number, International${designation}`,
               description: isMonthly 
-                ? `Thank you for changing lives. Your monthly gift of $${amountInDollars} supports sustainable community systems in Northern Uganda — healthcare, education, workforce development, and economic empowerment that transform communities.`
-                : `Thank you for changing lives. Your contribution of $${amountInDollars} supports sustainable community systems in Northern Uganda — healthcare, education, workforce development, and economic empowerment that transform communities.`,
+                ? `Thank you for changing lives. Your monthly gift of ${formatCurrencyAmount(amount, currency)}${feeNote} supports sustainable community systems in Northern Uganda — healthcare, education, workforce development, and economic empowerment that transform communities.`
+                : `Thank you for changing lives. Your contribution of ${formatCurrencyAmount(amount, currency)}${feeNote} supports sustainable community systems in Northern Uganda — healthcare, education, workforce development, and economic empowerment that transform communities.`,
             },
-            unit_amount: amountInCents,
+            unit_amount: amountInMinorUnits + coveredFeeMinorUnits,
             recurring: isMonthly ? { interval: 'month' } : undefined,
           },
           quantity: 1,
@@ -120,6 +195,18 @@ export async function POST(request: NextRequest) {
       metadata: {
         donor_name: name,
         donation_type: donationType,
+        fund,
+        ...(campaign ? { campaign } : {}),
+        // The webhook records the gift and the covered fee separately
+        ...(coverFee ? { covered_fee: coveredFee } : {}),
+        // Read back by the webhook, which records the tribute and sends the card
+        ...(tribute ? {
+          tribute_type: tribute.type,
+          tribute_honoree: tribute.honoreeName,
+          tribute_notify_name: tribute.notifyName || '',
+          tribute_notify_email: tribute.notifyEmail || '',
+          tribute_message: tribute.message || '',
+        } : {}),
       },
       // Branding customization
       allow_promotion_codes: false,
@@ -143,7 +230,13 @@ export async function POST(request: NextRequest) {
       sessionConfig.subscription_data = {
         metadata: {
           donation_type: 'monthly',
-          amount: amountInDollars.toString(),
+          amount: amount.toString(),
+          // Carried onto every renewal invoice so each payment lands in the same fund
+          fund,
+          // And keeps each renewal tagged with the campaign it was started from
+          ...(campaign ? { campaign } : {}),
+          // Likewise splits each renewal into the gift and the covered fee
+          ...(coverFee ? { covered_fee: coveredFee } : {}),
         },
       };
     }
@@ -0,0 +1,89 @@
+/**
+ * API Route: Payment Dunning Cron Job
+ *
+ * Runs daily to send due payment-failed emails to sponsors and escalate
+ * cases whose final email has gone out.
+ * Should be triggered by Vercel Cron or similar scheduler.
+ *
+ * GET /api/cron/dunning
+ *
+ * Protected by CRON_SECRET environment variable.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { runPaymentDunningTool } from '@/lib/tools';
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+function validateCronAuth(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+
+  // If no secret configured, allow in development
+  if (!cronSecret) {
+    if (process.env.NODE_ENV === 'development') {
+      return true;
+    }
+    logger.warn('Dunning cron: CRON_SECRET not configured');
+    return false;
+  }
+
+  // Check Authorization header
+  const authHeader = request.headers.get('Authorization');
+  if (authHeader === `Bearer ${cronSecret}`) {
+    return true;
+  }
+
+  // Also check query param for Vercel Cron compatibility
+  const url = new URL(request.url);
+  const secretParam = url.searchParams.get('secret');
+  if (secretParam === cronSecret) {
+    return true;
+  }
+
+  return false;
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  logger.info('Dunning cron: Starting', {});
+
+  // Authenticate
+  if (!validateCronAuth(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const result = await runPaymentDunningTool();
+
+  if (!result.success) {
+    logger.error('Dunning cron: Failed', new Error(result.error), {});
+
+    return NextResponse.json(
+      { success: false, error: result.error || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+
+  logger.info('Dunning cron: Completed', {
+    processed: result.data?.processed,
+    emailsSent: result.data?.emailsSent,
+    escalated: result.data?.escalated,
+    failed: result.data?.failed,
+  });
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      executedAt: new Date().toISOString(),
+      ...result.data,
+    },
+  });
+}
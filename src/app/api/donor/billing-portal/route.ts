@@ -0,0 +1,46 @@
+/**
+ * Donor Billing Portal API
+ * Opens a Stripe billing portal session where the logged-in donor can change
+ * or cancel a recurring gift (REQUIRES DONOR SESSION)
+ *
+ * POST /api/donor/billing-portal
+ * Returns { url } for the client to redirect to; portal URLs expire within
+ * minutes, so a new session is created on each request.
+ */
+
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { requireDonorSession } from '@/lib/auth';
+import { ROUTES } from '@/lib/constants';
+import { createDonorBillingPortalTool } from '@/lib/tools';
+
+async function handler(): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/donor/billing-portal';
+
+  logger.apiRequest(method, path);
+
+  const session = await requireDonorSession();
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org';
+
+  // Use the WAT tool to open the portal
+  const result = await createDonorBillingPortalTool({
+    email: session.email,
+    returnUrl: `${siteUrl}${ROUTES.DONOR_PORTAL}`,
+  });
+
+  if (!result.success) {
+    throw new ValidationError(result.error!);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data);
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/donor/billing-portal');
@@ -0,0 +1,35 @@
+/**
+ * Donor Giving API
+ * Returns the logged-in donor's profile and full giving history
+ * (REQUIRES DONOR SESSION)
+ *
+ * GET /api/donor/giving
+ */
+
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { createSuccessResponse, withErrorHandling } from '@/lib/errors';
+import { requireDonorSession } from '@/lib/auth';
+import { getDonorGivingTool } from '@/lib/tools';
+
+async function handler(): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/donor/giving';
+
+  logger.apiRequest(method, path);
+
+  const session = await requireDonorSession();
+
+  // Use the WAT tool to load the donor's giving
+  const result = await getDonorGivingTool({ email: session.email });
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to load giving history');
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data);
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/donor/giving');
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { clearDonorSession } from '@/lib/auth';
+import { ROUTES } from '@/lib/constants';
+
+export async function POST() {
+  await clearDonorSession();
+
+  return NextResponse.redirect(new URL(ROUTES.DONOR_LOGIN, process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org'), 303);
+}
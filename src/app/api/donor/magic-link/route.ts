@@ -0,0 +1,65 @@
+/**
+ * Donor Login Link Request API
+ * Emails a single-use login link to the donor portal
+ *
+ * Always returns the same response whether or not gifts are recorded under
+ * the email, so the endpoint cannot be used to find out who has given.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { issueDonorLoginToken } from '@/lib/auth';
+import { checkMagicLinkRateLimit } from '@/lib/rate-limit';
+import { parseRequestBody, validateEmail } from '@/lib/validation';
+import { sendDonorLoginLinkEmail } from '@/lib/email';
+import { DONOR_PORTAL, MAGIC_LINK, SUCCESS_MESSAGES } from '@/lib/constants';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/donor/magic-link';
+
+  logger.apiRequest(method, path);
+
+  const rateLimitError = checkMagicLinkRateLimit(request);
+  if (rateLimitError) {
+    throw rateLimitError;
+  }
+
+  const bodyResult = await parseRequestBody<{ email?: unknown }>(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  const emailResult = validateEmail(bodyResult.data!.email);
+  if (!emailResult.success) {
+    throw new ValidationError(emailResult.error!);
+  }
+
+  const email = emailResult.data!;
+  const issued = await issueDonorLoginToken(email);
+
+  if (issued) {
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org';
+    const loginUrl = `${siteUrl}${DONOR_PORTAL.VERIFY_PATH}?token=${encodeURIComponent(issued.token)}`;
+
+    const sendResult = await sendDonorLoginLinkEmail(email, loginUrl, MAGIC_LINK.TTL_MINUTES);
+
+    if (!sendResult.success) {
+      // Don't reveal delivery failures to the caller (would confirm the email has given)
+      logger.error('Failed to send donor login link email', sendResult.error, {
+        email: logger.maskEmail(email),
+      });
+    }
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse({ sent: true }, SUCCESS_MESSAGES.DONOR_LOGIN_LINK_SENT);
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/donor/magic-link');
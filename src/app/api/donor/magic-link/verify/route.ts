@@ -0,0 +1,54 @@
+/**
+ * Donor Login Link Verify API
+ * Redeems a single-use login token and opens a donor portal session.
+ *
+ * This is a POST (triggered from the /donor/login/verify page) rather than a
+ * GET on the emailed link, so that mail scanners which prefetch links cannot
+ * consume the token before the donor clicks it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  AuthenticationError,
+  ValidationError,
+} from '@/lib/errors';
+import { redeemDonorLoginToken } from '@/lib/auth';
+import { checkLoginRateLimit } from '@/lib/rate-limit';
+import { parseRequestBody } from '@/lib/validation';
+import { ERROR_MESSAGES, ROUTES, SUCCESS_MESSAGES } from '@/lib/constants';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/donor/magic-link/verify';
+
+  logger.apiRequest(method, path);
+
+  const rateLimitError = checkLoginRateLimit(request);
+  if (rateLimitError) {
+    throw rateLimitError;
+  }
+
+  const bodyResult = await parseRequestBody<{ token?: unknown }>(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  const { token } = bodyResult.data!;
+  if (typeof token !== 'string' || token.trim().length === 0) {
+    throw new ValidationError(ERROR_MESSAGES.MISSING_REQUIRED_FIELD('Token'));
+  }
+
+  const session = await redeemDonorLoginToken(token.trim());
+  if (!session) {
+    throw new AuthenticationError(ERROR_MESSAGES.MAGIC_LINK_INVALID);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse({ redirectUrl: ROUTES.DONOR_PORTAL }, SUCCESS_MESSAGES.LOGIN_SUCCESS);
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/donor/magic-link/verify');
@@ -0,0 +1,50 @@
+/**
+ * Donor Profile API
+ * Updates the logged-in donor's mailing address (REQUIRES DONOR SESSION)
+ *
+ * POST /api/donor/profile
+ * Body: { "mailingAddress": "123 Main St\nSpringfield, IL 62701" }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { requireDonorSession } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { parseRequestBody } from '@/lib/validation';
+import { updateDonorAddressTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/donor/profile';
+
+  logger.apiRequest(method, path);
+
+  const session = await requireDonorSession();
+
+  // Parse request body
+  const bodyResult = await parseRequestBody<{ mailingAddress?: unknown }>(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  // Use the WAT tool to save the address
+  const result = await updateDonorAddressTool(
+    { email: session.email, mailingAddress: bodyResult.data!.mailingAddress },
+    { actor: session.email, actorRole: 'donor', requestId: getRequestId(request) }
+  );
+
+  if (!result.success) {
+    throw new ValidationError(result.error!);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data, 'Mailing address updated');
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/donor/profile');
@@ -0,0 +1,50 @@
+/**
+ * Donor Receipt API
+ * Downloads a PDF receipt for one gift, or a giving statement for a year
+ * (REQUIRES DONOR SESSION)
+ *
+ * GET /api/donor/receipt?donationId=<id>
+ * GET /api/donor/receipt?year=2025
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { withErrorHandling, NotFoundError, ValidationError } from '@/lib/errors';
+import { requireDonorSession } from '@/lib/auth';
+import { getDonorReceiptTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'GET';
+  const path = '/api/donor/receipt';
+
+  logger.apiRequest(method, path);
+
+  const session = await requireDonorSession();
+
+  const donationId = request.nextUrl.searchParams.get('donationId') || undefined;
+  const year = request.nextUrl.searchParams.get('year');
+  const taxYear = year ? Number(year) : undefined;
+
+  // Use the WAT tool to render the receipt or statement
+  const result = await getDonorReceiptTool({ email: session.email, donationId, taxYear });
+
+  if (!result.success) {
+    if (result.error?.startsWith('Invalid input')) {
+      throw new ValidationError(result.error);
+    }
+    throw new NotFoundError(result.error || 'Receipt not found');
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return new NextResponse(new Uint8Array(result.data!.pdf), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${result.data!.filename}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
+
+export const GET = withErrorHandling(handler, 'GET', '/api/donor/receipt');
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionForCode } from '@/lib/auth';
+import { getCachedSponsorshipByCode } from '@/lib/database';
+import { getAcademicProgress } from '@/lib/academic-progress';
+
+/**
+ * The sponsored child's term-by-term attendance and grades, oldest term
+ * first, from published academic updates only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const sponsorCode = searchParams.get('sponsorCode');
+
+    if (!sponsorCode) {
+      return NextResponse.json(
+        { error: 'Sponsor code is required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify session
+    if (!(await verifySessionForCode(sponsorCode))) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const sponsorship = await getCachedSponsorshipByCode(sponsorCode);
+    const childId = sponsorship?.fields.ChildID;
+
+    const terms = childId ? await getAcademicProgress(childId) : [];
+
+    return NextResponse.json({ terms });
+  } catch (error) {
+    console.error('[Sponsor Academic Progress] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load academic progress' },
+      { status: 500 }
+    );
+  }
+}
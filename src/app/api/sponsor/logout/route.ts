@@ -1,9 +1,8 @@
 import { NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { clearSession } from '@/lib/auth';
 
 export async function POST() {
-  const cookieStore = await cookies();
-  cookieStore.delete('sponsor_session');
+  await clearSession();
   
   return NextResponse.redirect(new URL('/sponsor/login', process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org'));
 }
@@ -0,0 +1,65 @@
+/**
+ * Sponsor Magic Link Request API
+ * Emails a single-use login link to a sponsor (no sponsor code required)
+ *
+ * Always returns the same response whether or not the email belongs to an
+ * active sponsor, so the endpoint cannot be used to enumerate sponsors.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { issueMagicLinkToken } from '@/lib/auth';
+import { checkMagicLinkRateLimit } from '@/lib/rate-limit';
+import { parseRequestBody, validateEmail } from '@/lib/validation';
+import { sendSponsorMagicLinkEmail } from '@/lib/email';
+import { MAGIC_LINK, SUCCESS_MESSAGES } from '@/lib/constants';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/sponsor/magic-link';
+
+  logger.apiRequest(method, path);
+
+  const rateLimitError = checkMagicLinkRateLimit(request);
+  if (rateLimitError) {
+    throw rateLimitError;
+  }
+
+  const bodyResult = await parseRequestBody<{ email?: unknown }>(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  const emailResult = validateEmail(bodyResult.data!.email);
+  if (!emailResult.success) {
+    throw new ValidationError(emailResult.error!);
+  }
+
+  const email = emailResult.data!;
+  const issued = await issueMagicLinkToken(email);
+
+  if (issued) {
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org';
+    const loginUrl = `${siteUrl}${MAGIC_LINK.VERIFY_PATH}?token=${encodeURIComponent(issued.token)}`;
+
+    const sendResult = await sendSponsorMagicLinkEmail(email, loginUrl, MAGIC_LINK.TTL_MINUTES);
+
+    if (!sendResult.success) {
+      // Don't reveal delivery failures to the caller (would confirm the email exists)
+      logger.error('Failed to send sponsor magic link email', sendResult.error, {
+        email: logger.maskEmail(email),
+      });
+    }
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse({ sent: true }, SUCCESS_MESSAGES.MAGIC_LINK_SENT);
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/sponsor/magic-link');
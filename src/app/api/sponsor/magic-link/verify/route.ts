@@ -0,0 +1,62 @@
+/**
+ * Sponsor Magic Link Verify API
+ * Redeems a single-use login token and opens a session covering every
+ * active sponsorship for the token's email.
+ *
+ * This is a POST (triggered from the /sponsor/login/verify page) rather than
+ * a GET on the emailed link, so that mail scanners which prefetch links
+ * cannot consume the token before the sponsor clicks it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  AuthenticationError,
+  ValidationError,
+} from '@/lib/errors';
+import { redeemMagicLinkToken } from '@/lib/auth';
+import { checkLoginRateLimit } from '@/lib/rate-limit';
+import { parseRequestBody } from '@/lib/validation';
+import { ERROR_MESSAGES, ROUTES, SUCCESS_MESSAGES } from '@/lib/constants';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/sponsor/magic-link/verify';
+
+  logger.apiRequest(method, path);
+
+  const rateLimitError = checkLoginRateLimit(request);
+  if (rateLimitError) {
+    throw rateLimitError;
+  }
+
+  const bodyResult = await parseRequestBody<{ token?: unknown }>(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  const { token } = bodyResult.data!;
+  if (typeof token !== 'string' || token.trim().length === 0) {
+    throw new ValidationError(ERROR_MESSAGES.MISSING_REQUIRED_FIELD('Token'));
+  }
+
+  const session = await redeemMagicLinkToken(token.trim());
+  if (!session) {
+    throw new AuthenticationError(ERROR_MESSAGES.MAGIC_LINK_INVALID);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(
+    {
+      sponsorCode: session.sponsorCode,
+      sponsorCodes: session.sponsorCodes,
+      redirectUrl: ROUTES.SPONSOR_DASHBOARD(session.sponsorCode),
+    },
+    SUCCESS_MESSAGES.LOGIN_SUCCESS
+  );
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/sponsor/magic-link/verify');
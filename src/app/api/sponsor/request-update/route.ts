@@ -1,26 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { verifySessionForCode } from '@/lib/auth';
 
 const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
 const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
 const AIRTABLE_SPONSORSHIPS_TABLE = process.env.AIRTABLE_SPONSORSHIPS_TABLE || 'Sponsorships';
 const AIRTABLE_UPDATES_TABLE = process.env.AIRTABLE_UPDATES_TABLE || 'Updates';
 
-async function verifySession(sponsorCode: string): Promise<boolean> {
-  const cookieStore = await cookies();
-  const sessionCookie = cookieStore.get('sponsor_session');
-
-  if (!sessionCookie) return false;
-
-  try {
-    const session = JSON.parse(sessionCookie.value);
-    if (new Date(session.expires) < new Date()) return false;
-    return session.sponsorCode === sponsorCode;
-  } catch {
-    return false;
-  }
-}
-
 async function checkLastRequest(sponsorCode: string): Promise<{ canRequest: boolean; daysUntil: number }> {
   if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
     return { canRequest: false, daysUntil: 0 };
@@ -73,7 +58,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify session
-    if (!(await verifySession(sponsorCode))) {
+    if (!(await verifySessionForCode(sponsorCode))) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
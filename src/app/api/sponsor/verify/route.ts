@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import { checkLoginRateLimit } from '@/lib/rate-limit';
+import { createSession } from '@/lib/auth';
 import { 
   validateEmail, 
   validateSponsorCode, 
@@ -137,31 +137,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create session cookie (30 days)
-    const cookieStore = await cookies();
-    const expires = new Date();
-    expires.setDate(expires.getDate() + 30);
-
-    const cookieValue = JSON.stringify({
-      email: sponsor.email,
-      sponsorCode: sponsor.sponsorCode,
-      expires: expires.toISOString(),
-    });
-
-    // Cookie settings that work reliably
-    cookieStore.set('sponsor_session', cookieValue, {
-      httpOnly: true,
-      secure: true, // Always true for HTTPS (beanumber.org)
-      sameSite: 'lax',
-      expires,
-      path: '/',
-      // Do NOT set domain - let it default to current domain
-    });
+    // Issue signed session cookie
+    const session = await createSession(sponsor.email, sponsor.sponsorCode);
 
     console.log('[Verify] Session cookie set:', {
-      email: sponsor.email,
       sponsorCode: sponsor.sponsorCode,
-      expires: expires.toISOString(),
+      expires: session.expires,
     });
 
     return NextResponse.json({
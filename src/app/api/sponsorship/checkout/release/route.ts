@@ -0,0 +1,54 @@
+/**
+ * Sponsorship Checkout Release API
+ * Expires the Stripe Checkout session and releases the hold on a child when
+ * the sponsor backs out (PUBLIC - the hold ID only appears in that sponsor's
+ * cancel URL)
+ *
+ * POST /api/sponsorship/checkout/release
+ * Body: { "recordId": "...", "holdId": "...", "sessionId": "cs_..." }
+ *
+ * Checkouts that are simply left open are released by the
+ * checkout.session.expired webhook instead.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { parseRequestBody } from '@/lib/validation';
+import { releaseSponsorshipCheckoutTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/sponsorship/checkout/release';
+
+  logger.apiRequest(method, path);
+
+  // Parse request body
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  const { recordId, holdId, sessionId } = bodyResult.data as {
+    recordId?: unknown;
+    holdId?: unknown;
+    sessionId?: unknown;
+  };
+
+  // Use the WAT tool to release the hold
+  const result = await releaseSponsorshipCheckoutTool({ recordId, holdId, sessionId });
+
+  if (!result.success) {
+    throw new ValidationError(result.error!);
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse(result.data);
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/sponsorship/checkout/release');
@@ -0,0 +1,65 @@
+/**
+ * Sponsorship Checkout API
+ * Starts a monthly sponsorship checkout for a specific child (PUBLIC - no auth required)
+ *
+ * POST /api/sponsorship/checkout
+ * Body: { "recordId": "...", "sponsorEmail": "optional@example.com" }
+ *
+ * The child is held for the length of the Stripe Checkout session so no one
+ * else can choose them; the Stripe webhook assigns the sponsor on completion.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  createSuccessResponse,
+  withErrorHandling,
+  ValidationError,
+} from '@/lib/errors';
+import { checkCheckoutRateLimit } from '@/lib/rate-limit';
+import { parseRequestBody } from '@/lib/validation';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { startSponsorshipCheckoutTool } from '@/lib/tools';
+
+async function handler(request: NextRequest): Promise<NextResponse> {
+  const method = 'POST';
+  const path = '/api/sponsorship/checkout';
+
+  logger.apiRequest(method, path);
+
+  const rateLimitError = checkCheckoutRateLimit(request);
+  if (rateLimitError) {
+    throw rateLimitError;
+  }
+
+  // Parse request body
+  const bodyResult = await parseRequestBody(request);
+  if (!bodyResult.success) {
+    throw new ValidationError(bodyResult.error!);
+  }
+
+  const { recordId, sponsorEmail } = bodyResult.data as {
+    recordId?: unknown;
+    sponsorEmail?: unknown;
+  };
+
+  // Use the WAT tool to hold the child and create the checkout session
+  const result = await startSponsorshipCheckoutTool({ recordId, sponsorEmail });
+
+  if (!result.success) {
+    if (result.error === ERROR_MESSAGES.CHILD_NOT_AVAILABLE || result.error?.startsWith('Invalid input')) {
+      throw new ValidationError(result.error);
+    }
+    throw new Error(result.error || 'Failed to start sponsorship checkout');
+  }
+
+  logger.apiResponse(method, path, 200);
+
+  return createSuccessResponse({
+    sessionId: result.data!.sessionId,
+    url: result.data!.url,
+    holdExpiresAt: result.data!.holdExpiresAt,
+  });
+}
+
+export const POST = withErrorHandling(handler, 'POST', '/api/sponsorship/checkout');
@@ -14,6 +14,8 @@ import {
   ValidationError,
 } from '@/lib/errors';
 import { requireAdminAuth } from '@/lib/auth';
+import { getRequestId } from '@/lib/audit';
+import { ADMIN_ROLES } from '@/lib/constants';
 import { parseRequestBody } from '@/lib/validation';
 import { createSponsorshipTool } from '@/lib/tools';
 
@@ -24,7 +26,7 @@ async function handler(request: NextRequest): Promise<NextResponse> {
   logger.apiRequest(method, path);
 
   // CRITICAL: Require admin authentication
-  requireAdminAuth(request);
+  const admin = await requireAdminAuth(request, [ADMIN_ROLES.FINANCE]);
 
   // Parse request body
   const bodyResult = await parseRequestBody(request);
@@ -32,18 +34,23 @@ async function handler(request: NextRequest): Promise<NextResponse> {
     throw new ValidationError(bodyResult.error!);
   }
 
-  const { recordId, sponsorEmail, sponsorName } = bodyResult.data as {
+  const { recordId, sponsorEmail, sponsorName, stripeSubscriptionId } = bodyResult.data as {
     recordId: string;
     sponsorEmail: string;
     sponsorName?: string;
+    stripeSubscriptionId?: string;
   };
 
   // Use the WAT tool to create sponsorship
-  const result = await createSponsorshipTool({
-    recordId,
-    sponsorEmail,
-    sponsorName,
-  });
+  const result = await createSponsorshipTool(
+    {
+      recordId,
+      sponsorEmail,
+      sponsorName,
+      stripeSubscriptionId,
+    },
+    { actor: admin.email, actorRole: admin.role, requestId: getRequestId(request) }
+  );
 
   if (!result.success) {
     throw new ValidationError(result.error!);
@@ -0,0 +1,91 @@
+import { notFound } from 'next/navigation';
+import { Logo } from '@/components/Logo';
+import Link from 'next/link';
+import type { Metadata } from 'next';
+import { CampaignProgress } from '@/components/CampaignProgress';
+import { DonationSection } from '@/components/DonationSection';
+import { getCampaignProgressTool } from '@/lib/tools';
+
+interface CampaignPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+async function loadCampaign(slug: string) {
+  const result = await getCampaignProgressTool({ slug });
+
+  if (!result.success) {
+    // Malformed slugs and unknown campaigns are both a 404 here
+    if (result.error === 'Campaign not found' || result.error?.startsWith('Invalid input')) {
+      notFound();
+    }
+    throw new Error(result.error || 'Failed to load campaign');
+  }
+
+  return result.data!;
+}
+
+export async function generateMetadata({ params }: CampaignPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const { campaign } = await loadCampaign(slug);
+
+  return {
+    title: campaign.title,
+    description: campaign.description || `Support ${campaign.title} with Be A Number.`,
+  };
+}
+
+export default async function CampaignPage({ params }: CampaignPageProps) {
+  const { slug } = await params;
+  const { campaign, progress } = await loadCampaign(slug);
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Navigation */}
+      <nav className="sticky top-0 z-50 bg-white border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <Link href="/" className="flex items-center gap-3">
+              <Logo className="h-8 w-8 text-gray-900" />
+              <span className="text-xl font-semibold text-gray-900">Be A Number</span>
+            </Link>
+            <Link href="/" className="text-gray-700 hover:text-gray-900 transition-colors text-sm">
+              ← Back to Home
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="pt-24 pb-8 px-6">
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">{campaign.title}</h1>
+          {campaign.description && (
+            <p className="text-xl text-gray-600 mb-12 leading-relaxed whitespace-pre-line">{campaign.description}</p>
+          )}
+
+          <CampaignProgress campaign={campaign} initialProgress={progress} />
+        </div>
+      </main>
+
+      {progress.status === 'active' ? (
+        <DonationSection campaign={campaign.slug} />
+      ) : (
+        <section className="py-16 px-6">
+          <div className="max-w-4xl mx-auto text-center">
+            <p className="text-gray-700 mb-6">
+              {progress.status === 'upcoming'
+                ? 'This campaign has not opened for gifts yet.'
+                : 'This campaign has closed. Thank you to everyone who gave.'}
+            </p>
+            <Link
+              href="/#donate"
+              className="inline-block bg-gray-900 text-white px-6 py-3 rounded-md hover:bg-gray-800 transition-colors"
+            >
+              Give to Be A Number
+            </Link>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { Logo } from '@/components/Logo';
+import Link from 'next/link';
+
+export default function DonorLogin() {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [linkSent, setLinkSent] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setLinkSent('');
+
+    try {
+      const response = await fetch('/api/donor/magic-link', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError(data?.message || `Request failed (${response.status})`);
+        setIsLoading(false);
+        return;
+      }
+
+      setLinkSent(data?.message || 'Check your email for a login link.');
+      setIsLoading(false);
+    } catch (err) {
+      console.error('Donor login link error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send login link. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation */}
+      <nav className="bg-white border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-4">
+          <Link href="/" className="flex items-center gap-3">
+            <Logo className="h-8 w-8 text-gray-900" />
+            <span className="text-xl font-semibold text-gray-900">Be A Number</span>
+          </Link>
+        </div>
+      </nav>
+
+      {/* Login Form */}
+      <div className="max-w-md mx-auto px-6 py-16">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Donor Portal</h1>
+            <p className="text-gray-600">
+              View your giving history, download receipts and manage your monthly gift
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {linkSent && (
+              <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm">
+                {linkSent}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                Email Address
+              </label>
+              <input
+                type="email"
+                id="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                placeholder="your@email.com"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Use the email you gave with. We&apos;ll send you a one-time login link.
+              </p>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full px-4 py-3 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Sending...' : 'Email Me a Login Link'}
+            </button>
+          </form>
+
+          <div className="mt-6 pt-6 border-t border-gray-200">
+            <p className="text-sm text-gray-600 text-center">
+              Sponsoring a child?{' '}
+              <Link href="/sponsor/login" className="text-gray-900 font-medium hover:underline">
+                Go to the sponsor portal
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
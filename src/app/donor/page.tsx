@@ -0,0 +1,43 @@
+import { redirect } from 'next/navigation';
+import { Logo } from '@/components/Logo';
+import Link from 'next/link';
+import { DonorPortal } from '@/components/DonorPortal';
+import { getDonorSession } from '@/lib/auth';
+
+export default async function DonorPage() {
+  const session = await getDonorSession();
+
+  if (!session) {
+    redirect('/donor/login');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation */}
+      <nav className="bg-white border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <Link href="/" className="flex items-center gap-3">
+              <Logo className="h-8 w-8 text-gray-900" />
+              <span className="text-xl font-semibold text-gray-900">Be A Number</span>
+            </Link>
+            <div className="flex items-center gap-4">
+              <span className="text-sm text-gray-600">{session.email}</span>
+              <form action="/api/donor/logout" method="POST">
+                <button
+                  type="submit"
+                  className="text-sm text-gray-600 hover:text-gray-900"
+                >
+                  Logout
+                </button>
+              </form>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Portal */}
+      <DonorPortal />
+    </div>
+  );
+}
@@ -1,35 +1,19 @@
-import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import { Logo } from '@/components/Logo';
 import Link from 'next/link';
 import Image from 'next/image';
 import { SponsorDashboard } from '@/components/SponsorDashboard';
+import { getSession } from '@/lib/auth';
 
 async function getSponsorSession(code: string) {
-  const cookieStore = await cookies();
-  const sessionCookie = cookieStore.get('sponsor_session');
+  const session = await getSession();
 
-  if (!sessionCookie) {
+  // Verify sponsor code is covered by this session
+  if (!session || !session.sponsorCodes.includes(code)) {
     return null;
   }
 
-  try {
-    const session = JSON.parse(sessionCookie.value);
-    
-    // Check if session is expired
-    if (new Date(session.expires) < new Date()) {
-      return null;
-    }
-
-    // Verify sponsor code matches
-    if (session.sponsorCode !== code) {
-      return null;
-    }
-
-    return session;
-  } catch {
-    return null;
-  }
+  return session;
 }
 
 export default async function SponsorPage({ params }: { params: { code: string } }) {
@@ -50,7 +34,22 @@ export default async function SponsorPage({ params }: { params: { code: string }
               <span className="text-xl font-semibold text-gray-900">Be A Number</span>
             </Link>
             <div className="flex items-center gap-4">
-              <span className="text-sm text-gray-600">Sponsor Code: {params.code}</span>
+              {session.sponsorCodes.length > 1 ? (
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <span>Sponsor Code:</span>
+                  {session.sponsorCodes.map((code) =>
+                    code === params.code ? (
+                      <span key={code} className="font-medium text-gray-900">{code}</span>
+                    ) : (
+                      <Link key={code} href={`/sponsor/${encodeURIComponent(code)}`} className="hover:text-gray-900 hover:underline">
+                        {code}
+                      </Link>
+                    )
+                  )}
+                </div>
+              ) : (
+                <span className="text-sm text-gray-600">Sponsor Code: {params.code}</span>
+              )}
               <form action="/api/sponsor/logout" method="POST">
                 <button
                   type="submit"
@@ -11,6 +11,46 @@ export default function SponsorLogin() {
   const [sponsorCode, setSponsorCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [mode, setMode] = useState<'code' | 'link'>('code');
+  const [linkSent, setLinkSent] = useState('');
+
+  const switchMode = (nextMode: 'code' | 'link') => {
+    setMode(nextMode);
+    setError('');
+    setLinkSent('');
+  };
+
+  const handleMagicLinkSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setLinkSent('');
+
+    try {
+      const response = await fetch('/api/sponsor/magic-link', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError(data?.message || `Request failed (${response.status})`);
+        setIsLoading(false);
+        return;
+      }
+
+      setLinkSent(data?.message || 'Check your email for a login link.');
+      setIsLoading(false);
+    } catch (err) {
+      console.error('Magic link error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send login link. Please try again.');
+      setIsLoading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -81,6 +121,55 @@ export default function SponsorLogin() {
             </p>
           </div>
 
+          {mode === 'link' ? (
+          <form onSubmit={handleMagicLinkSubmit} className="space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {linkSent && (
+              <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm">
+                {linkSent}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="magicLinkEmail" className="block text-sm font-medium text-gray-700 mb-2">
+                Email Address
+              </label>
+              <input
+                type="email"
+                id="magicLinkEmail"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                placeholder="your@email.com"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                We&apos;ll email you a one-time link that logs you in to all of your sponsorships.
+              </p>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full px-4 py-3 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Sending...' : 'Email Me a Login Link'}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => switchMode('code')}
+              className="w-full text-sm text-gray-600 hover:text-gray-900"
+            >
+              Log in with your sponsor code instead
+            </button>
+          </form>
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-6">
             {error && (
               <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
@@ -129,7 +218,16 @@ export default function SponsorLogin() {
             >
               {isLoading ? 'Verifying...' : 'Access Portal'}
             </button>
+
+            <button
+              type="button"
+              onClick={() => switchMode('link')}
+              className="w-full text-sm text-gray-600 hover:text-gray-900"
+            >
+              Email me a login link instead
+            </button>
           </form>
+          )}
 
           <div className="mt-6 pt-6 border-t border-gray-200">
             <p className="text-sm text-gray-600 text-center">
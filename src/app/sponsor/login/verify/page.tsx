@@ -0,0 +1,106 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Logo } from '@/components/Logo';
+import Link from 'next/link';
+
+function VerifyMagicLink() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Redeemed on click rather than on page load so link-scanning mail filters
+  // can't use up the single-use token before the sponsor does
+  const handleContinue = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/sponsor/magic-link/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token }),
+        credentials: 'include',
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data?.data?.sponsorCode) {
+        setError(data?.message || `Login failed (${response.status})`);
+        setIsLoading(false);
+        return;
+      }
+
+      window.location.href = `/sponsor/${encodeURIComponent(data.data.sponsorCode)}`;
+    } catch (err) {
+      console.error('Magic link verify error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to log in. Please request a new link.');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Sponsor Portal</h1>
+
+      {!token ? (
+        <p className="text-gray-600 mb-6">
+          This login link is incomplete. Please request a new one.
+        </p>
+      ) : (
+        <>
+          <p className="text-gray-600 mb-6">
+            Continue to open your sponsor dashboard.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm mb-6 text-left">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={handleContinue}
+            disabled={isLoading}
+            className="w-full px-4 py-3 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Logging in...' : 'Continue to Dashboard'}
+          </button>
+        </>
+      )}
+
+      <div className="mt-6 pt-6 border-t border-gray-200">
+        <Link href="/sponsor/login" className="text-sm text-gray-900 font-medium hover:underline">
+          Back to login
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function SponsorLoginVerify() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation */}
+      <nav className="bg-white border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-4">
+          <Link href="/" className="flex items-center gap-3">
+            <Logo className="h-8 w-8 text-gray-900" />
+            <span className="text-xl font-semibold text-gray-900">Be A Number</span>
+          </Link>
+        </div>
+      </nav>
+
+      <div className="max-w-md mx-auto px-6 py-16">
+        <Suspense fallback={null}>
+          <VerifyMagicLink />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -26,6 +26,14 @@ interface ApiResponse {
   error?: string;
 }
 
+interface CheckoutResponse {
+  success: boolean;
+  data?: {
+    url: string;
+  };
+  error?: string;
+}
+
 export default function SponsorshipCatalog() {
   const [children, setChildren] = useState<AvailableChild[]>([]);
   const [loading, setLoading] = useState(true);
@@ -33,10 +41,42 @@ export default function SponsorshipCatalog() {
   const [waitlistEmail, setWaitlistEmail] = useState('');
   const [waitlistSubmitted, setWaitlistSubmitted] = useState(false);
   const [waitlistError, setWaitlistError] = useState<string | null>(null);
+  const [checkoutStatus, setCheckoutStatus] = useState<'success' | 'canceled' | null>(null);
+  const [checkoutChildId, setCheckoutChildId] = useState<string | null>(null);
+  const [checkoutError, setCheckoutError] = useState<string | null>(null);
 
   useEffect(() => {
+    // Returning from Stripe Checkout: free the child if the sponsor backed out
+    async function handleCheckoutReturn() {
+      const params = new URLSearchParams(window.location.search);
+      const status = params.get('checkout');
+      if (status !== 'success' && status !== 'canceled') {
+        return;
+      }
+
+      setCheckoutStatus(status);
+      window.history.replaceState(null, '', window.location.pathname);
+
+      const recordId = params.get('child');
+      const holdId = params.get('hold');
+      const sessionId = params.get('session');
+      if (status === 'canceled' && recordId && holdId && sessionId) {
+        try {
+          await fetch('/api/sponsorship/checkout/release', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ recordId, holdId, sessionId }),
+          });
+        } catch {
+          // The hold expires on its own
+        }
+      }
+    }
+
     async function fetchAvailableChildren() {
       try {
+        await handleCheckoutReturn();
+
         const response = await fetch('/api/sponsorship/available');
         const data: ApiResponse = await response.json();
 
@@ -55,6 +95,29 @@ export default function SponsorshipCatalog() {
     fetchAvailableChildren();
   }, []);
 
+  async function startCheckout(child: AvailableChild) {
+    setCheckoutChildId(child.recordId);
+    setCheckoutError(null);
+
+    try {
+      const response = await fetch('/api/sponsorship/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recordId: child.recordId }),
+      });
+      const data: CheckoutResponse = await response.json();
+
+      if (!response.ok || !data.success || !data.data?.url) {
+        throw new Error(data.error || 'Unable to start checkout. Please try again.');
+      }
+
+      window.location.href = data.data.url;
+    } catch (err) {
+      setCheckoutError(err instanceof Error ? err.message : 'An error occurred');
+      setCheckoutChildId(null);
+    }
+  }
+
   return (
     <div className="min-h-screen bg-white">
       {/* Navigation */}
@@ -88,6 +151,25 @@ export default function SponsorshipCatalog() {
       {/* Main Content */}
       <main className="py-16 px-6">
         <div className="max-w-6xl mx-auto">
+          {checkoutStatus === 'success' && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-8 text-center">
+              <h2 className="text-lg font-semibold text-green-800 mb-1">Thank you for becoming a sponsor!</h2>
+              <p className="text-green-700">
+                Check your email for your sponsor code and how to log in to your sponsor dashboard.
+              </p>
+            </div>
+          )}
+          {checkoutStatus === 'canceled' && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-8 text-center">
+              <p className="text-gray-700">Your checkout was canceled and you have not been charged.</p>
+            </div>
+          )}
+          {checkoutError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8 text-center">
+              <p className="text-red-600">{checkoutError}</p>
+            </div>
+          )}
+
           {loading ? (
             <div className="text-center py-16">
               <div className="animate-pulse">
@@ -254,12 +336,16 @@ export default function SponsorshipCatalog() {
                       </div>
 
                       {/* Sponsor Button */}
-                      <Link
-                        href={`/contact?subject=Sponsor ${encodeURIComponent(child.displayName)}&childId=${child.id}`}
-                        className="block w-full py-3 px-4 bg-blue-600 text-white text-center font-medium rounded-lg hover:bg-blue-700 transition-colors"
+                      <button
+                        type="button"
+                        onClick={() => startCheckout(child)}
+                        disabled={checkoutChildId !== null}
+                        className="block w-full py-3 px-4 bg-blue-600 text-white text-center font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
                       >
-                        Sponsor {child.displayName.split(' ')[0]}
-                      </Link>
+                        {checkoutChildId === child.recordId
+                          ? 'Starting checkout...'
+                          : `Sponsor ${child.displayName.split(' ')[0]}`}
+                      </button>
                     </div>
                   </div>
                 ))}
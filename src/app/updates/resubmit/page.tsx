@@ -0,0 +1,295 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Logo } from '@/components/Logo';
+import Link from 'next/link';
+import { ENGAGEMENT_OPTIONS, SOURCE_TYPE, WELLBEING_OPTIONS } from '@/lib/constants';
+
+interface CorrectionRequest {
+  updateRecordId: string;
+  childId: string;
+  sourceType: string;
+  periodOrTerm: string;
+  fields: Record<string, string | number | undefined>;
+  notes: string;
+  requestedAt: string;
+  expiresAt: string;
+  history: Array<{ notes: string; requestedAt: string; resubmittedAt: string | null }>;
+}
+
+type FormValues = Record<string, string>;
+
+const FIELD_SELECTS: Array<{ key: string; label: string; options: readonly string[] }> = [
+  { key: 'physicalWellbeing', label: 'Physical Wellbeing', options: WELLBEING_OPTIONS },
+  { key: 'emotionalWellbeing', label: 'Emotional Wellbeing', options: WELLBEING_OPTIONS },
+  { key: 'schoolEngagement', label: 'School Engagement', options: ENGAGEMENT_OPTIONS },
+];
+
+const FIELD_TEXTS: Array<{ key: string; label: string }> = [
+  { key: 'physicalNotes', label: 'Physical Notes' },
+  { key: 'emotionalNotes', label: 'Emotional Notes' },
+  { key: 'engagementNotes', label: 'Engagement Notes' },
+  { key: 'sponsorNarrative', label: 'Sponsor Narrative' },
+  { key: 'positiveHighlight', label: 'Positive Highlight' },
+  { key: 'challenge', label: 'Challenge (optional)' },
+];
+
+const ACADEMIC_NUMBERS: Array<{ key: string; label: string }> = [
+  { key: 'attendancePercent', label: 'Attendance (%)' },
+  { key: 'englishGrade', label: 'English Grade' },
+  { key: 'mathGrade', label: 'Math Grade' },
+  { key: 'scienceGrade', label: 'Science Grade' },
+  { key: 'socialStudiesGrade', label: 'Social Studies Grade' },
+];
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-gray-900 focus:border-transparent';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+function ResubmitUpdate() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [request, setRequest] = useState<CorrectionRequest | null>(null);
+  const [values, setValues] = useState<FormValues>({});
+  const [isLoading, setIsLoading] = useState(!!token);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!token) return;
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/child-updates/correction?token=${encodeURIComponent(token)}`);
+        const data = await response.json().catch(() => ({}));
+
+        if (!response.ok || !data?.data) {
+          setError(data?.message || `Could not open this link (${response.status})`);
+          return;
+        }
+
+        const correction = data.data as CorrectionRequest;
+        setRequest(correction);
+        setValues(
+          Object.fromEntries(
+            Object.entries(correction.fields).map(([key, value]) => [key, value === undefined ? '' : String(value)])
+          )
+        );
+      } catch (err) {
+        console.error('Correction lookup error:', err);
+        setError('Could not open this link. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [token]);
+
+  const setValue = (key: string, value: string) => setValues((current) => ({ ...current, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/child-updates/resubmit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, fields: values }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError(data?.message || `Resubmission failed (${response.status})`);
+        return;
+      }
+
+      setSuccess(true);
+    } catch (err) {
+      console.error('Resubmission error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to resubmit. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Correct an Update</h1>
+        <p className="text-gray-600">This correction link is incomplete. Please use the full link from the email.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-8">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Correct an Update</h1>
+
+      {isLoading && <p className="text-gray-600">Loading...</p>}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md mb-6">
+          Update resubmitted. It is back in the review queue.
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm mb-6">
+          {error}
+        </div>
+      )}
+
+      {request && !success && (
+        <>
+          <p className="text-gray-600 mb-6">
+            <span className="font-mono bg-gray-100 px-2 py-0.5 rounded">{request.childId}</span>{' '}
+            {request.sourceType === SOURCE_TYPE.FIELD ? 'field' : 'academic'} update for {request.periodOrTerm}
+          </p>
+
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md px-4 py-3 mb-6">
+            <p className="text-sm font-medium text-yellow-800 mb-1">
+              Reviewer notes ({formatDate(request.requestedAt)})
+            </p>
+            <p className="text-yellow-900 whitespace-pre-wrap">{request.notes}</p>
+          </div>
+
+          {request.history.length > 1 && (
+            <div className="mb-6">
+              <h2 className="text-sm font-medium text-gray-700 mb-2">Earlier corrections</h2>
+              <ul className="space-y-2 text-sm text-gray-600">
+                {request.history
+                  .filter((entry) => entry.resubmittedAt)
+                  .map((entry) => (
+                    <li key={entry.requestedAt} className="border-l-2 border-gray-200 pl-3">
+                      <span className="text-gray-500">
+                        {formatDate(entry.requestedAt)} → resubmitted {formatDate(entry.resubmittedAt!)}:
+                      </span>{' '}
+                      <span className="whitespace-pre-wrap">{entry.notes}</span>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {request.sourceType === SOURCE_TYPE.FIELD ? (
+              <>
+                {FIELD_SELECTS.map(({ key, label, options }) => (
+                  <div key={key}>
+                    <label htmlFor={key} className="block text-sm font-medium text-gray-700 mb-2">
+                      {label}
+                    </label>
+                    <select
+                      id={key}
+                      value={values[key] || ''}
+                      onChange={(e) => setValue(key, e.target.value)}
+                      className={inputClass}
+                    >
+                      <option value="">Select...</option>
+                      {options.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                {FIELD_TEXTS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label htmlFor={key} className="block text-sm font-medium text-gray-700 mb-2">
+                      {label}
+                    </label>
+                    <textarea
+                      id={key}
+                      value={values[key] || ''}
+                      onChange={(e) => setValue(key, e.target.value)}
+                      rows={key === 'sponsorNarrative' ? 6 : 3}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </>
+            ) : (
+              <>
+                {ACADEMIC_NUMBERS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label htmlFor={key} className="block text-sm font-medium text-gray-700 mb-2">
+                      {label}
+                    </label>
+                    <input
+                      type="number"
+                      id={key}
+                      min={0}
+                      max={key === 'attendancePercent' ? 100 : undefined}
+                      step="any"
+                      value={values[key] || ''}
+                      onChange={(e) => setValue(key, e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+                <div>
+                  <label htmlFor="teacherComment" className="block text-sm font-medium text-gray-700 mb-2">
+                    Teacher Comment
+                  </label>
+                  <textarea
+                    id="teacherComment"
+                    value={values.teacherComment || ''}
+                    onChange={(e) => setValue('teacherComment', e.target.value)}
+                    rows={4}
+                    className={inputClass}
+                  />
+                </div>
+              </>
+            )}
+
+            <p className="text-sm text-gray-500">
+              Photos and files from the original submission are kept. This link works once and expires on{' '}
+              {formatDate(request.expiresAt)}.
+            </p>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full px-4 py-3 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Resubmitting...' : 'Resubmit for Review'}
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function ResubmitUpdatePage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation */}
+      <nav className="bg-white border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-4">
+          <Link href="/" className="flex items-center gap-3">
+            <Logo className="h-8 w-8 text-gray-900" />
+            <span className="text-xl font-semibold text-gray-900">Be A Number</span>
+          </Link>
+        </div>
+      </nav>
+
+      <div className="max-w-3xl mx-auto px-6 py-12">
+        <Suspense fallback={null}>
+          <ResubmitUpdate />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
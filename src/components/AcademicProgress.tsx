@@ -0,0 +1,250 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ACADEMIC_SUBJECTS, ROUTES } from '@/lib/constants';
+import type { AcademicTerm } from '@/lib/academic-progress';
+
+interface AcademicProgressProps {
+  sponsorCode: string;
+  childName?: string;
+}
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: Array<number | null>;
+}
+
+const SUBJECT_COLORS: Record<string, string> = {
+  english: '#2563eb',
+  math: '#16a34a',
+  science: '#d97706',
+  socialStudies: '#9333ea',
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 12, right: 16, bottom: 32, left: 36 };
+
+/**
+ * Line chart of values per term; gaps where a term has no value
+ */
+function TermChart({ terms, series, unit }: { terms: string[]; series: ChartSeries[]; unit: string }) {
+  const values = series.flatMap((s) => s.values).filter((v): v is number => v !== null);
+  const max = Math.max(100, ...values);
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left + (terms.length === 1 ? plotWidth / 2 : (index / (terms.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  // Split each series at missing terms so the line doesn't imply a value
+  const segments = (s: ChartSeries) => {
+    const result: Array<Array<[number, number]>> = [];
+    let current: Array<[number, number]> = [];
+    s.values.forEach((value, index) => {
+      if (value === null) {
+        if (current.length) result.push(current);
+        current = [];
+      } else {
+        current.push([x(index), y(value)]);
+      }
+    });
+    if (current.length) result.push(current);
+    return result;
+  };
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((fraction) => Math.round(max * fraction));
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={`${series.map((s) => s.label).join(', ')} by term`}
+      >
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+              {tick}
+              {unit}
+            </text>
+          </g>
+        ))}
+
+        {terms.map((term, index) => (
+          <text key={term + index} x={x(index)} y={CHART_HEIGHT - 10} textAnchor="middle" fontSize="11" fill="#6b7280">
+            {term}
+          </text>
+        ))}
+
+        {series.map((s) => (
+          <g key={s.label}>
+            {segments(s).map((points, idx) => (
+              <polyline
+                key={idx}
+                points={points.map(([px, py]) => `${px},${py}`).join(' ')}
+                fill="none"
+                stroke={s.color}
+                strokeWidth="2.5"
+              />
+            ))}
+            {s.values.map((value, index) =>
+              value === null ? null : (
+                <circle key={index} cx={x(index)} cy={y(value)} r="4" fill={s.color}>
+                  <title>{`${s.label}, ${terms[index]}: ${value}${unit}`}</title>
+                </circle>
+              )
+            )}
+          </g>
+        ))}
+      </svg>
+
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-600">
+          {series.map((s) => (
+            <span key={s.label} className="flex items-center gap-1.5">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Change since the previous term, e.g. "+6"
+ */
+function formatChange(current: number | null, previous: number | null) {
+  if (current === null || previous === null) return null;
+  const change = Math.round((current - previous) * 10) / 10;
+  if (change === 0) return { text: 'no change', className: 'text-gray-500' };
+  return change > 0
+    ? { text: `+${change}`, className: 'text-green-600' }
+    : { text: `${change}`, className: 'text-red-600' };
+}
+
+export function AcademicProgress({ sponsorCode, childName }: AcademicProgressProps) {
+  const [terms, setTerms] = useState<AcademicTerm[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    async function loadProgress() {
+      try {
+        const response = await fetch(
+          `${ROUTES.API.SPONSOR_ACADEMIC_PROGRESS}?sponsorCode=${encodeURIComponent(sponsorCode)}`
+        );
+        const data = await response.json();
+
+        if (response.ok) {
+          setTerms(data.terms || []);
+        }
+      } catch (error) {
+        console.error('Failed to load academic progress:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadProgress();
+  }, [sponsorCode]);
+
+  // Nothing to show until a school report has been published
+  if (isLoading || terms.length === 0) {
+    return null;
+  }
+
+  const labels = terms.map((term) => term.term);
+  const gradeSeries: ChartSeries[] = ACADEMIC_SUBJECTS.map((subject) => ({
+    label: subject.label,
+    color: SUBJECT_COLORS[subject.key],
+    values: terms.map((term) => term.grades[subject.key]),
+  })).filter((s) => s.values.some((value) => value !== null));
+  const hasAttendance = terms.some((term) => term.attendancePercent !== null);
+
+  const latest = terms[terms.length - 1];
+  const previous = terms.length > 1 ? terms[terms.length - 2] : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-1">School Progress</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        {childName ? `${childName}'s` : 'Your sponsored child’s'} attendance and grades from each school report
+      </p>
+
+      {hasAttendance && (
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Attendance</h3>
+          <TermChart
+            terms={labels}
+            series={[{ label: 'Attendance', color: '#0f766e', values: terms.map((term) => term.attendancePercent) }]}
+            unit="%"
+          />
+        </div>
+      )}
+
+      {gradeSeries.length > 0 && (
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Grades</h3>
+          <TermChart terms={labels} series={gradeSeries} unit="" />
+        </div>
+      )}
+
+      {/* Term by term, newest first, with the teacher's comment; the latest term shows its change */}
+      <div className="divide-y divide-gray-200 border-t border-gray-200">
+        {[...terms].reverse().map((term) => {
+          const isLatest = term === latest;
+          const attendanceChange = isLatest
+            ? formatChange(term.attendancePercent, previous?.attendancePercent ?? null)
+            : null;
+
+          return (
+            <div key={term.updateId} className="py-4">
+              <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+                <h4 className="font-semibold text-gray-900">{term.term}</h4>
+                {term.updatedAt && (
+                  <span className="text-xs text-gray-400">
+                    Updated on {new Date(term.updatedAt).toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-700">
+                {term.attendancePercent !== null && (
+                  <span>
+                    Attendance: <strong>{term.attendancePercent}%</strong>
+                    {attendanceChange && (
+                      <span className={`ml-1 ${attendanceChange.className}`}>({attendanceChange.text})</span>
+                    )}
+                  </span>
+                )}
+                {ACADEMIC_SUBJECTS.map((subject) => {
+                  const grade = term.grades[subject.key];
+                  if (grade === null) return null;
+                  const change = isLatest ? formatChange(grade, previous?.grades[subject.key] ?? null) : null;
+                  return (
+                    <span key={subject.key}>
+                      {subject.label}: <strong>{grade}</strong>
+                      {change && <span className={`ml-1 ${change.className}`}>({change.text})</span>}
+                    </span>
+                  );
+                })}
+              </div>
+
+              {term.teacherComment && (
+                <blockquote className="mt-3 border-l-4 border-gray-200 pl-4 text-gray-600 italic whitespace-pre-line">
+                  {term.teacherComment}
+                </blockquote>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
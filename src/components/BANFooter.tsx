@@ -40,6 +40,9 @@ export function BANFooter() {
               <Link href="/sponsorship" className="text-gray-600 text-sm hover:text-gray-900">
                 Sponsor a Child
               </Link>
+              <Link href="/donor/login" className="text-gray-600 text-sm hover:text-gray-900">
+                Donor Login
+              </Link>
               <Link href="/partnerships" className="text-gray-600 text-sm hover:text-gray-900">
                 Partner With Us
               </Link>
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CountUpNumber } from './CountUpNumber';
+import { ROUTES } from '@/lib/constants';
+import type { Campaign, CampaignProgress as Progress } from '@/lib/campaigns';
+
+interface CampaignProgressProps {
+  campaign: Campaign;
+  initialProgress: Progress;
+}
+
+// Refresh the totals while the page is open
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+function formatAmount(amount: number, currency: string) {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${Math.round(amount)} ${currency}`;
+  }
+}
+
+function currencySymbol(currency: string) {
+  try {
+    const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency }).formatToParts(0);
+    return parts.find((part) => part.type === 'currency')?.value || '';
+  } catch {
+    return '';
+  }
+}
+
+export function CampaignProgress({ campaign, initialProgress }: CampaignProgressProps) {
+  const [progress, setProgress] = useState<Progress>(initialProgress);
+
+  useEffect(() => {
+    if (progress.status === 'ended') return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`${ROUTES.API.CAMPAIGN_PROGRESS}?slug=${encodeURIComponent(campaign.slug)}`);
+        if (!response.ok) return;
+
+        const data = await response.json();
+        if (data?.data?.progress) {
+          setProgress(data.data.progress);
+        }
+      } catch (error) {
+        console.error('Failed to refresh campaign progress:', error);
+      }
+    }, REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [campaign.slug, progress.status]);
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 sm:p-8">
+      {/* Total raised */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2 mb-4">
+        <div>
+          <CountUpNumber
+            target={Math.floor(progress.total)}
+            prefix={currencySymbol(campaign.currency)}
+            separator
+            className="text-4xl sm:text-5xl font-bold text-gray-900"
+          />
+          <p className="text-sm text-gray-600 mt-1">
+            raised of {formatAmount(campaign.goalAmount, campaign.currency)} goal
+          </p>
+        </div>
+        <span className="text-sm font-medium text-gray-700">{progress.percentOfGoal}%</span>
+      </div>
+
+      {/* Progress bar */}
+      <div
+        className="w-full h-3 bg-gray-200 rounded-full overflow-hidden mb-6"
+        role="progressbar"
+        aria-valuenow={progress.percentOfGoal}
+        aria-valuemin={0}
+        aria-valuemax={100}
+      >
+        <div
+          className="h-full bg-gray-900 rounded-full transition-all duration-1000"
+          style={{ width: `${progress.percentOfGoal}%` }}
+        />
+      </div>
+
+      {/* Donors and time left */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <CountUpNumber target={progress.donorCount} separator className="text-2xl font-bold text-gray-900" />
+          <p className="text-sm text-gray-600">{progress.donorCount === 1 ? 'donor' : 'donors'}</p>
+        </div>
+        <div>
+          {progress.status === 'active' && (
+            <>
+              <CountUpNumber target={progress.daysRemaining} className="text-2xl font-bold text-gray-900" />
+              <p className="text-sm text-gray-600">{progress.daysRemaining === 1 ? 'day left' : 'days left'}</p>
+            </>
+          )}
+          {progress.status === 'upcoming' && (
+            <>
+              <div className="text-2xl font-bold text-gray-900">Soon</div>
+              <p className="text-sm text-gray-600">Opens {campaign.startsOn}</p>
+            </>
+          )}
+          {progress.status === 'ended' && (
+            <>
+              <div className="text-2xl font-bold text-gray-900">Closed</div>
+              <p className="text-sm text-gray-600">Ended {campaign.endsOn}</p>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Matching pledge */}
+      {campaign.matchAmount !== null && (
+        <p className="mt-6 pt-6 border-t border-gray-200 text-sm text-gray-700 leading-relaxed">
+          {campaign.matchSponsor || 'A generous supporter'} will match gifts up to{' '}
+          {formatAmount(campaign.matchAmount, campaign.currency)}.{' '}
+          {formatAmount(progress.matched, campaign.currency)} matched so far.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,67 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
+import { useCallback, useEffect, useState, useRef } from 'react';
 
 interface CountUpNumberProps {
   target: number;
+  prefix?: string;
   suffix?: string;
   duration?: number;
   className?: string;
+  /** Group thousands (12,500 rather than 12500) */
+  separator?: boolean;
 }
 
-export function CountUpNumber({ target, suffix = '', duration = 2000, className = '' }: CountUpNumberProps) {
+function countUp(from: number, to: number, duration: number, onFrame: (value: number) => void) {
+  const startTime = Date.now();
+  let frame = 0;
+
+  const animate = () => {
+    const now = Date.now();
+    const elapsed = now - startTime;
+    const progress = Math.min(elapsed / duration, 1);
+
+    // Easing function for smooth animation
+    const easeOut = 1 - Math.pow(1 - progress, 3);
+    const current = Math.floor(from + (to - from) * easeOut);
+
+    onFrame(current);
+
+    if (progress < 1) {
+      frame = requestAnimationFrame(animate);
+    } else {
+      onFrame(to);
+    }
+  };
+
+  animate();
+
+  return () => cancelAnimationFrame(frame);
+}
+
+export function CountUpNumber({
+  target,
+  prefix = '',
+  suffix = '',
+  duration = 2000,
+  className = '',
+  separator = false,
+}: CountUpNumberProps) {
   const [count, setCount] = useState(0);
   const [hasAnimated, setHasAnimated] = useState(false);
   const ref = useRef<HTMLDivElement>(null);
+  const countRef = useRef(0);
+  const targetRef = useRef(target);
+  const stopRef = useRef<() => void>(() => {});
+
+  const animateTo = useCallback((value: number) => {
+    stopRef.current();
+    targetRef.current = value;
+    stopRef.current = countUp(countRef.current, value, duration, (current) => {
+      countRef.current = current;
+      setCount(current);
+    });
+  }, [duration]);
 
   useEffect(() => {
     if (hasAnimated) return;
@@ -22,28 +71,7 @@ export function CountUpNumber({ target, suffix = '', duration = 2000, className
         entries.forEach((entry) => {
           if (entry.isIntersecting && !hasAnimated) {
             setHasAnimated(true);
-            const startTime = Date.now();
-            const startValue = 0;
-
-            const animate = () => {
-              const now = Date.now();
-              const elapsed = now - startTime;
-              const progress = Math.min(elapsed / duration, 1);
-              
-              // Easing function for smooth animation
-              const easeOut = 1 - Math.pow(1 - progress, 3);
-              const current = Math.floor(startValue + (target - startValue) * easeOut);
-              
-              setCount(current);
-
-              if (progress < 1) {
-                requestAnimationFrame(animate);
-              } else {
-                setCount(target);
-              }
-            };
-
-            animate();
+            animateTo(target);
           }
         });
       },
@@ -59,11 +87,21 @@ export function CountUpNumber({ target, suffix = '', duration = 2000, className
         observer.unobserve(ref.current);
       }
     };
-  }, [target, duration, hasAnimated]);
+  }, [target, hasAnimated, animateTo]);
+
+  // A target that changes after the first count (e.g. a live total) counts
+  // on from the number already shown
+  useEffect(() => {
+    if (hasAnimated && targetRef.current !== target) {
+      animateTo(target);
+    }
+  }, [target, hasAnimated, animateTo]);
+
+  useEffect(() => () => stopRef.current(), []);
 
   return (
     <div ref={ref} className={className}>
-      {count}{suffix}
+      {prefix}{separator ? count.toLocaleString('en-US') : count}{suffix}
     </div>
   );
 }
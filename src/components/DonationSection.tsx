@@ -1,13 +1,61 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import {
+  DONATION_CURRENCIES,
+  DONATION_CURRENCY_LABELS,
+  DONATION_FUNDS,
+  DONATION_FUND_LABELS,
+  STRIPE,
+  TRIBUTE_TYPES,
+  TRIBUTE_TYPE_LABELS,
+  VALIDATION,
+} from '@/lib/constants';
+import { calculateCoveredFeeMinorUnits } from '@/lib/fee-coverage';
+import { formatCurrencyAmount, fromMinorUnits, toMinorUnits } from '@/lib/currency';
+import type { DonationCurrency } from '@/lib/currency';
 
-interface DonationSectionProps {}
+// Suggested amounts in each currency, close in value to the USD tiers so the
+// impact descriptions still hold
+const TIER_AMOUNTS: Record<DonationCurrency, [number, number, number, number]> = {
+  usd: [25, 50, 100, 250],
+  gbp: [20, 40, 80, 200],
+  ugx: [90000, 180000, 370000, 900000],
+};
 
-export function DonationSection({}: DonationSectionProps) {
+// Largest gift taken online in each currency (about $10,000)
+const MAX_DONATION_AMOUNT: Record<DonationCurrency, number> = {
+  usd: 10000,
+  gbp: 8000,
+  ugx: 37000000,
+};
+
+const MIN_DONATION_AMOUNT: Record<DonationCurrency, number> = {
+  usd: VALIDATION.DONATION.MIN_AMOUNT,
+  gbp: VALIDATION.DONATION.BY_CURRENCY.gbp.MIN_AMOUNT,
+  ugx: VALIDATION.DONATION.BY_CURRENCY.ugx.MIN_AMOUNT,
+};
+
+interface DonationSectionProps {
+  /** Campaign slug to credit gifts to (see /campaigns/[slug]) */
+  campaign?: string;
+}
+
+export function DonationSection({ campaign }: DonationSectionProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [customAmount, setCustomAmount] = useState<string>('');
   const [isMonthly, setIsMonthly] = useState(true);
+  const [fund, setFund] = useState<string>(DONATION_FUNDS.GENERAL);
+  const [currency, setCurrency] = useState<DonationCurrency>(DONATION_CURRENCIES.USD);
+  const [coverFee, setCoverFee] = useState(false);
+  const [isTribute, setIsTribute] = useState(false);
+  const [tribute, setTribute] = useState({
+    type: TRIBUTE_TYPES.HONOR as string,
+    honoreeName: '',
+    notifyName: '',
+    notifyEmail: '',
+    message: '',
+  });
 
   // Reset loading state when component mounts or page becomes visible
   // This handles the case when user clicks back from Stripe Checkout
@@ -38,15 +86,21 @@ export function DonationSection({}: DonationSectionProps) {
 
   const handleDonate = async (amount?: number) => {
     const donationAmount = amount || (customAmount ? parseFloat(customAmount) : null);
-    const MAX_DONATION_AMOUNT = 10000; // $10,000 maximum per transaction
+    const minAmount = MIN_DONATION_AMOUNT[currency];
+    const maxAmount = MAX_DONATION_AMOUNT[currency];
     
-    if (!donationAmount || donationAmount < 1) {
-      alert('Please enter a valid donation amount (minimum $1)');
+    if (!donationAmount || donationAmount < minAmount) {
+      alert(`Please enter a valid donation amount (minimum ${formatCurrencyAmount(minAmount, currency)})`);
       return;
     }
     
-    if (donationAmount > MAX_DONATION_AMOUNT) {
-      alert(`Donation amount exceeds maximum of $${MAX_DONATION_AMOUNT.toLocaleString()}. Please contact us for larger donations.`);
+    if (donationAmount > maxAmount) {
+      alert(`Donation amount exceeds maximum of ${formatCurrencyAmount(maxAmount, currency)}. Please contact us for larger donations.`);
+      return;
+    }
+
+    if (isTribute && !tribute.honoreeName.trim()) {
+      alert('Please enter the name of the person this gift honors.');
       return;
     }
 
@@ -54,14 +108,21 @@ export function DonationSection({}: DonationSectionProps) {
 
     try {
       // Create Stripe Checkout Session
-      const response = await fetch('/api/create-checkout', {
+      const checkoutUrl = campaign
+        ? `/api/create-checkout?campaign=${encodeURIComponent(campaign)}`
+        : '/api/create-checkout';
+      const response = await fetch(checkoutUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           amount: donationAmount,
+          currency,
           isMonthly: isMonthly,
+          fund,
+          coverFee,
+          ...(isTribute ? { tribute } : {}),
         }),
       });
 
@@ -130,38 +191,177 @@ export function DonationSection({}: DonationSectionProps) {
             </div>
           )}
 
+          {/* Designation */}
+          <div className="flex flex-col sm:flex-row items-center justify-center gap-3 mb-8">
+            <label htmlFor="donationFund" className="text-sm text-gray-200">
+              Direct my gift to
+            </label>
+            <select
+              id="donationFund"
+              value={fund}
+              onChange={(e) => setFund(e.target.value)}
+              disabled={isLoading}
+              className="px-4 py-2 bg-white/10 border border-white/20 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+            >
+              {Object.values(DONATION_FUNDS).map((value) => (
+                <option key={value} value={value} className="text-gray-900">
+                  {DONATION_FUND_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <label htmlFor="donationCurrency" className="text-sm text-gray-200">
+              in
+            </label>
+            <select
+              id="donationCurrency"
+              value={currency}
+              onChange={(e) => {
+                setCurrency(e.target.value as DonationCurrency);
+                setCustomAmount('');
+              }}
+              disabled={isLoading}
+              className="px-4 py-2 bg-white/10 border border-white/20 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+            >
+              {Object.values(DONATION_CURRENCIES).map((value) => (
+                <option key={value} value={value} className="text-gray-900">
+                  {DONATION_CURRENCY_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Processing fee coverage */}
+          <div className="max-w-lg mx-auto mb-6">
+            <label className="flex items-center justify-center gap-2 text-sm text-gray-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={coverFee}
+                onChange={(e) => setCoverFee(e.target.checked)}
+                disabled={isLoading}
+                className="h-4 w-4"
+              />
+              Cover the processing fee ({STRIPE.FEE_COVERAGE.PERCENT}% + {formatCurrencyAmount(fromMinorUnits(STRIPE.FEE_COVERAGE.FIXED_MINOR_UNITS[currency], currency), currency)}) so my whole gift goes to the programs
+            </label>
+            {coverFee && parseFloat(customAmount) >= MIN_DONATION_AMOUNT[currency] && (
+              <p className="mt-2 text-xs text-gray-300 text-center">
+                Adds {formatCurrencyAmount(
+                  fromMinorUnits(
+                    calculateCoveredFeeMinorUnits(toMinorUnits(parseFloat(customAmount), currency), currency),
+                    currency
+                  ),
+                  currency
+                )}
+                {isMonthly ? ' per month' : ''} to your {formatCurrencyAmount(parseFloat(customAmount), currency)} gift.
+              </p>
+            )}
+          </div>
+
+          {/* Tribute */}
+          <div className="max-w-lg mx-auto mb-8">
+            <label className="flex items-center justify-center gap-2 text-sm text-gray-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isTribute}
+                onChange={(e) => setIsTribute(e.target.checked)}
+                disabled={isLoading}
+                className="h-4 w-4"
+              />
+              Dedicate this gift in honor or in memory of someone
+            </label>
+
+            {isTribute && (
+              <div className="mt-4 space-y-3 text-left">
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <select
+                    aria-label="Tribute type"
+                    value={tribute.type}
+                    onChange={(e) => setTribute({ ...tribute, type: e.target.value })}
+                    disabled={isLoading}
+                    className="px-4 py-2 bg-white/10 border border-white/20 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+                  >
+                    {Object.values(TRIBUTE_TYPES).map((value) => (
+                      <option key={value} value={value} className="text-gray-900">
+                        {TRIBUTE_TYPE_LABELS[value]}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder="Honoree's name"
+                    value={tribute.honoreeName}
+                    onChange={(e) => setTribute({ ...tribute, honoreeName: e.target.value })}
+                    maxLength={VALIDATION.TRIBUTE.NAME_MAX_LENGTH}
+                    disabled={isLoading}
+                    className="flex-1 px-4 py-2 bg-white/10 border border-white/20 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-white/50"
+                  />
+                </div>
+                <p className="text-xs text-gray-300">
+                  We can send a card letting someone know about your gift. The card does not show the amount.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <input
+                    type="text"
+                    placeholder="Recipient's name (optional)"
+                    value={tribute.notifyName}
+                    onChange={(e) => setTribute({ ...tribute, notifyName: e.target.value })}
+                    maxLength={VALIDATION.TRIBUTE.NAME_MAX_LENGTH}
+                    disabled={isLoading}
+                    className="flex-1 px-4 py-2 bg-white/10 border border-white/20 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-white/50"
+                  />
+                  <input
+                    type="email"
+                    placeholder="Recipient's email (optional)"
+                    value={tribute.notifyEmail}
+                    onChange={(e) => setTribute({ ...tribute, notifyEmail: e.target.value })}
+                    disabled={isLoading}
+                    className="flex-1 px-4 py-2 bg-white/10 border border-white/20 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-white/50"
+                  />
+                </div>
+                <textarea
+                  placeholder="Message for the card (optional)"
+                  value={tribute.message}
+                  onChange={(e) => setTribute({ ...tribute, message: e.target.value })}
+                  maxLength={VALIDATION.TRIBUTE.MESSAGE_MAX_LENGTH}
+                  rows={3}
+                  disabled={isLoading}
+                  className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-white/50"
+                />
+              </div>
+            )}
+          </div>
+
           {/* Donation Tiers */}
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4 mb-8">
             <button 
-              onClick={() => handleDonate(25)}
+              onClick={() => handleDonate(TIER_AMOUNTS[currency][0])}
               disabled={isLoading}
               className="bg-white/10 hover:bg-white/20 border border-white/20 rounded-md p-3 sm:p-4 text-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
             >
-              <div className="text-xl sm:text-2xl font-bold mb-2">$25</div>
+              <div className="text-xl sm:text-2xl font-bold mb-2">{formatCurrencyAmount(TIER_AMOUNTS[currency][0], currency).replace(/\.00$/, '')}</div>
               <div className="text-xs sm:text-sm text-gray-200 leading-snug">Covers school supplies for 5 students for one term</div>
             </button>
             <button 
-              onClick={() => handleDonate(50)}
+              onClick={() => handleDonate(TIER_AMOUNTS[currency][1])}
               disabled={isLoading}
               className="bg-white/10 hover:bg-white/20 border border-white/20 rounded-md p-3 sm:p-4 text-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
             >
-              <div className="text-xl sm:text-2xl font-bold mb-2">$50</div>
+              <div className="text-xl sm:text-2xl font-bold mb-2">{formatCurrencyAmount(TIER_AMOUNTS[currency][1], currency).replace(/\.00$/, '')}</div>
               <div className="text-xs sm:text-sm text-gray-200 leading-snug">Covers malaria treatment for 3 families</div>
             </button>
             <button 
-              onClick={() => handleDonate(100)}
+              onClick={() => handleDonate(TIER_AMOUNTS[currency][2])}
               disabled={isLoading}
               className="bg-white/10 hover:bg-white/20 border border-white/20 rounded-md p-3 sm:p-4 text-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
             >
-              <div className="text-xl sm:text-2xl font-bold mb-2">$100</div>
+              <div className="text-xl sm:text-2xl font-bold mb-2">{formatCurrencyAmount(TIER_AMOUNTS[currency][2], currency).replace(/\.00$/, '')}</div>
               <div className="text-xs sm:text-sm text-gray-200 leading-snug">Funds complete vocational training for 1 person</div>
             </button>
             <button 
-              onClick={() => handleDonate(250)}
+              onClick={() => handleDonate(TIER_AMOUNTS[currency][3])}
               disabled={isLoading}
               className="bg-white/10 hover:bg-white/20 border border-white/20 rounded-md p-3 sm:p-4 text-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
             >
-              <div className="text-xl sm:text-2xl font-bold mb-2">$250</div>
+              <div className="text-xl sm:text-2xl font-bold mb-2">{formatCurrencyAmount(TIER_AMOUNTS[currency][3], currency).replace(/\.00$/, '')}</div>
               <div className="text-xs sm:text-sm text-gray-200 leading-snug">Covers one month's salary for a local teacher</div>
             </button>
           </div>
@@ -171,12 +371,12 @@ export function DonationSection({}: DonationSectionProps) {
           {/* Custom Amount Input */}
           <div className="flex flex-col sm:flex-row gap-4 justify-center items-center mb-8">
             <div className="flex items-center gap-2">
-              <span className="text-white text-lg">$</span>
+              <span className="text-white text-lg">{currency.toUpperCase()}</span>
               <input
                 type="number"
-                min="1"
-                max="10000"
-                step="0.01"
+                min={MIN_DONATION_AMOUNT[currency]}
+                max={MAX_DONATION_AMOUNT[currency]}
+                step={currency === DONATION_CURRENCIES.UGX ? '1' : '0.01'}
                 placeholder="Enter amount"
                 value={customAmount}
                 onChange={(e) => setCustomAmount(e.target.value)}
@@ -0,0 +1,303 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface Gift {
+  id: string;
+  date: string;
+  amount: number;
+  coveredFee: number;
+  currency: string;
+  status: string;
+  recurring: boolean;
+}
+
+interface DonorInfo {
+  email: string;
+  name: string | null;
+  mailingAddress: string | null;
+  recurringStatus: string | null;
+  canManageRecurring: boolean;
+  canUpdateAddress: boolean;
+}
+
+function formatAmount(amount: number, currency: string) {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+export function DonorPortal() {
+  const [donor, setDonor] = useState<DonorInfo | null>(null);
+  const [gifts, setGifts] = useState<Gift[]>([]);
+  const [statementYears, setStatementYears] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [address, setAddress] = useState('');
+  const [isSavingAddress, setIsSavingAddress] = useState(false);
+  const [addressMessage, setAddressMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isOpeningBilling, setIsOpeningBilling] = useState(false);
+  const [billingError, setBillingError] = useState('');
+
+  useEffect(() => {
+    loadGiving();
+  }, []);
+
+  async function loadGiving() {
+    try {
+      const response = await fetch('/api/donor/giving', { credentials: 'include' });
+      const data = await response.json().catch(() => ({}));
+
+      if (response.status === 401) {
+        window.location.href = '/donor/login';
+        return;
+      }
+
+      if (!response.ok) {
+        setLoadError(data?.message || 'Failed to load your giving history.');
+        return;
+      }
+
+      setDonor(data.data.donor);
+      setGifts(data.data.gifts || []);
+      setStatementYears(data.data.statementYears || []);
+      setAddress(data.data.donor.mailingAddress || '');
+    } catch (error) {
+      console.error('Failed to load giving history:', error);
+      setLoadError('Failed to load your giving history.');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleSaveAddress(e: React.FormEvent) {
+    e.preventDefault();
+    setIsSavingAddress(true);
+    setAddressMessage(null);
+
+    try {
+      const response = await fetch('/api/donor/profile', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mailingAddress: address }),
+        credentials: 'include',
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setAddressMessage({ type: 'error', text: data?.message || 'Failed to save your address.' });
+        return;
+      }
+
+      setAddressMessage({ type: 'success', text: data?.message || 'Mailing address updated.' });
+    } catch (error) {
+      console.error('Failed to save address:', error);
+      setAddressMessage({ type: 'error', text: 'Failed to save your address. Please try again.' });
+    } finally {
+      setIsSavingAddress(false);
+    }
+  }
+
+  async function handleManageRecurring() {
+    setIsOpeningBilling(true);
+    setBillingError('');
+
+    try {
+      const response = await fetch('/api/donor/billing-portal', {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data?.data?.url) {
+        setBillingError(data?.message || 'Failed to open billing. Please try again.');
+        setIsOpeningBilling(false);
+        return;
+      }
+
+      window.location.href = data.data.url;
+    } catch (error) {
+      console.error('Failed to open billing portal:', error);
+      setBillingError('Failed to open billing. Please try again.');
+      setIsOpeningBilling(false);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto px-6 py-16">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loadError || !donor) {
+    return (
+      <div className="max-w-4xl mx-auto px-6 py-16">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          {loadError || 'Failed to load your giving history.'}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-6 py-12">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-lg p-8 mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          {donor.name ? `Thank you, ${donor.name}` : 'Thank you for your support'}
+        </h1>
+        <p className="text-gray-600">
+          Your giving history and receipts for {donor.email}.
+        </p>
+
+        {donor.canManageRecurring && (
+          <div className="mt-6 pt-6 border-t border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Monthly Gift</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {donor.recurringStatus
+                ? `Status: ${donor.recurringStatus}. Change the amount, update your card or cancel at any time.`
+                : 'Change the amount, update your card or cancel at any time.'}
+            </p>
+            {billingError && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm mb-4">
+                {billingError}
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={handleManageRecurring}
+              disabled={isOpeningBilling}
+              className="px-6 py-3 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isOpeningBilling ? 'Opening...' : 'Manage Monthly Gift'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Annual Statements */}
+      {statementYears.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-8 mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Annual Statements</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            One PDF per year listing every completed gift, for your tax records.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {statementYears.map((year) => (
+              <a
+                key={year}
+                href={`/api/donor/receipt?year=${year}`}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-900 hover:bg-gray-50"
+              >
+                {year} Statement
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Giving History */}
+      <div className="bg-white rounded-lg shadow-lg p-8 mb-8">
+        <h2 className="text-2xl font-bold text-gray-900 mb-6">Giving History</h2>
+
+        {gifts.length === 0 ? (
+          <p className="text-gray-600">No gifts recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-600">
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Amount</th>
+                  <th className="py-2 pr-4 font-medium">Type</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 font-medium">Receipt</th>
+                </tr>
+              </thead>
+              <tbody>
+                {gifts.map((gift) => (
+                  <tr key={gift.id} className="border-b border-gray-100">
+                    <td className="py-3 pr-4 text-gray-900">
+                      {new Date(gift.date).toLocaleDateString('en-US', { timeZone: 'UTC' })}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-900">
+                      {formatAmount(gift.amount, gift.currency)}
+                      {gift.coveredFee > 0 && (
+                        <span className="block text-xs text-gray-500">
+                          + {formatAmount(gift.coveredFee, gift.currency)} fees covered
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-600">{gift.recurring ? 'Monthly' : 'One-time'}</td>
+                    <td className="py-3 pr-4 text-gray-600">{gift.status}</td>
+                    <td className="py-3">
+                      {gift.status === 'Succeeded' ? (
+                        <a
+                          href={`/api/donor/receipt?donationId=${encodeURIComponent(gift.id)}`}
+                          className="text-gray-900 font-medium hover:underline"
+                        >
+                          Download
+                        </a>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Mailing Address */}
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Mailing Address</h2>
+        {donor.canUpdateAddress ? (
+          <form onSubmit={handleSaveAddress} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Where we send printed receipts and letters.
+            </p>
+            {addressMessage && (
+              <div
+                className={
+                  addressMessage.type === 'success'
+                    ? 'bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm'
+                    : 'bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm'
+                }
+              >
+                {addressMessage.text}
+              </div>
+            )}
+            <textarea
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              rows={4}
+              required
+              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+              placeholder={'123 Main St\nSpringfield, IL 62701'}
+            />
+            <button
+              type="submit"
+              disabled={isSavingAddress}
+              className="px-6 py-3 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSavingAddress ? 'Saving...' : 'Save Address'}
+            </button>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-600">
+            We don&apos;t have a donor record for this email yet. Please contact us to add your address.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,12 @@
 import { useState, useEffect } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
+import { AcademicProgress } from './AcademicProgress';
 
 interface Update {
   id: string;
   date: string;
+  updatedAt?: string;
   type: string;
   title: string;
   content: string;
@@ -159,6 +161,9 @@ export function SponsorDashboard({ sponsorCode, email }: SponsorDashboardProps)
         </div>
       </div>
 
+      {/* School Progress (hidden until a school report is published) */}
+      <AcademicProgress sponsorCode={sponsorCode} childName={childInfo?.name} />
+
       {/* Updates Feed */}
       <div className="space-y-6">
         <h2 className="text-2xl font-bold text-gray-900 mb-4">Updates</h2>
@@ -180,9 +185,16 @@ export function SponsorDashboard({ sponsorCode, email }: SponsorDashboardProps)
                     </span>
                     <h3 className="text-xl font-bold text-gray-900">{update.title}</h3>
                   </div>
-                  <time className="text-sm text-gray-500">
-                    {new Date(update.date).toLocaleDateString()}
-                  </time>
+                  <div className="text-right">
+                    <time className="block text-sm text-gray-500">
+                      {new Date(update.date).toLocaleDateString()}
+                    </time>
+                    {update.updatedAt && (
+                      <time className="block text-xs text-gray-400">
+                        Updated on {new Date(update.updatedAt).toLocaleDateString()}
+                      </time>
+                    )}
+                  </div>
                 </div>
 
                 <div className="prose max-w-none mb-4">
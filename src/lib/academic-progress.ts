@@ -0,0 +1,101 @@
+/**
+ * Academic progress
+ * A child's term-by-term attendance and grades, read from their published
+ * academic updates (the form answers stored in updates.payload).
+ *
+ * Only what a sponsor can already see is included: Published, visible
+ * updates, and for a corrected update only its newest version, so a fixed
+ * grade replaces the wrong one rather than appearing as a second term.
+ */
+
+import { getCachedUpdatesForChild } from './database';
+import { ACADEMIC_SUBJECTS, SOURCE_TYPE } from './constants';
+import type { AirtableUpdateRecord } from './types/airtable';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AcademicSubject = (typeof ACADEMIC_SUBJECTS)[number]['key'];
+
+export interface AcademicTerm {
+  updateId: string;
+  /** As entered on the form, e.g. "Term 1 2026" */
+  term: string;
+  publishedAt: string | null;
+  /** When a corrected version replaced the original */
+  updatedAt: string | null;
+  attendancePercent: number | null;
+  grades: Record<AcademicSubject, number | null>;
+  teacherComment: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Sort key for a term label
+ * Understands "Term 1 2026", "2026 Term 1", "T1 2026" and "2026-T1"; other
+ * labels return null and are placed by publish date.
+ */
+function termSortKey(term: string): number | null {
+  const year = term.match(/\b(19|20)\d{2}\b/);
+  const number = term.replace(year?.[0] || '', '').match(/(?:term|t)\s*-?\s*(\d)/i);
+  if (!year || !number) return null;
+  return Number(year[0]) * 10 + Number(number[1]);
+}
+
+function toAcademicTerm(record: AirtableUpdateRecord): AcademicTerm | null {
+  const payload = record.fields.Payload;
+  if (!payload || payload.sourceType !== SOURCE_TYPE.ACADEMIC) return null;
+
+  const fields = payload.fields as Record<string, unknown>;
+  const grades = Object.fromEntries(
+    ACADEMIC_SUBJECTS.map((subject) => [subject.key, toNumber(fields[subject.field])])
+  ) as Record<AcademicSubject, number | null>;
+  const comment = typeof fields.teacherComment === 'string' ? fields.teacherComment.trim() : '';
+
+  return {
+    updateId: record.id,
+    term: payload.periodOrTerm,
+    publishedAt: record.fields.PublishedAt || null,
+    updatedAt: record.fields.SupersedesUpdate ? record.fields.ReviewedAt || null : null,
+    attendancePercent: toNumber(fields.attendancePercent),
+    grades,
+    teacherComment: comment || null,
+  };
+}
+
+/**
+ * Order terms oldest first: by term label when it can be read, otherwise
+ * (or on a tie) by publish date
+ */
+function compareTerms(a: AcademicTerm, b: AcademicTerm): number {
+  const keyA = termSortKey(a.term);
+  const keyB = termSortKey(b.term);
+  if (keyA !== null && keyB !== null && keyA !== keyB) return keyA - keyB;
+  return (a.publishedAt || '').localeCompare(b.publishedAt || '');
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * A child's academic record, one entry per published term, oldest first
+ */
+export async function getAcademicProgress(childId: string): Promise<AcademicTerm[]> {
+  const records = await getCachedUpdatesForChild(childId);
+
+  return records
+    .map(toAcademicTerm)
+    .filter((term): term is AcademicTerm => term !== null)
+    .sort(compareTerms);
+}
@@ -0,0 +1,493 @@
+/**
+ * Accounting exports
+ * Turns the donations table into files the bookkeeper can import: a
+ * double-entry journal, QuickBooks (IIF for Desktop, journal CSV for Online)
+ * and a Xero bank statement CSV.
+ *
+ * Each gift posts on its donation date: Stripe gifts split into the net
+ * amount (Stripe Clearing) and the Stripe fee, offline gifts go to
+ * Undeposited Funds. A refund or dispute posts a reversal on the date the
+ * funds were taken back; Stripe keeps its fee, so the fee line is not
+ * reversed, and the dispute fee arrives with the payout reconciliation.
+ *
+ * Every entry is in the base currency, which is what Stripe pays out in. A
+ * gift made in another currency posts at its base amount, and the memo
+ * gives the original amount and the exchange rate.
+ */
+
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import { toDonationFund } from './funds';
+import type { DonationFund } from './funds';
+import {
+  ACCOUNTING,
+  ACCOUNTING_EXPORT_FORMATS,
+  DONATION_FUNDS,
+  DONATION_FUND_LABELS,
+  DONATION_SOURCE,
+  PAYMENT_STATUS,
+  STRIPE,
+} from './constants';
+import { coveredFeeBaseAmount, donationBaseAmount, formatCurrencyAmount } from './currency';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AccountingExportFormat = (typeof ACCOUNTING_EXPORT_FORMATS)[keyof typeof ACCOUNTING_EXPORT_FORMATS];
+
+/**
+ * Inclusive YYYY-MM-DD bounds and an optional fund
+ */
+export interface AccountingExportFilter {
+  from: string;
+  to: string;
+  fund?: DonationFund;
+}
+
+export interface JournalLine {
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+export interface JournalEntry {
+  /** YYYY-MM-DD */
+  date: string;
+  kind: 'gift' | 'refund' | 'dispute';
+  /** Stripe payment intent, invoice ID or offline_ key */
+  reference: string;
+  donorName: string;
+  fund: DonationFund;
+  currency: string;
+  memo: string;
+  /** Debits and credits always balance */
+  lines: JournalLine[];
+}
+
+export interface AccountingExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+  entryCount: number;
+}
+
+interface SupabaseAccountingDonationRow {
+  id: string;
+  stripe_payment_intent_id: string;
+  donation_amount: number | string;
+  stripe_fee: number | string | null;
+  covered_fee: number | string | null;
+  currency: string;
+  exchange_rate: number | string | null;
+  base_amount: number | string | null;
+  donation_date: string;
+  payment_status: string;
+  refunded_on: string | null;
+  recurring_donation: boolean | null;
+  fund: string;
+  donation_source: string | null;
+  payment_method: string | null;
+  reference_number: string | null;
+  donors: {
+    donor_name: string;
+  } | null;
+}
+
+const PAGE_SIZE = 1000;
+
+const DONATION_COLUMNS =
+  'id, stripe_payment_intent_id, donation_amount, stripe_fee, covered_fee, currency, exchange_rate, base_amount, ' +
+  'donation_date, payment_status, ' +
+  'refunded_on, recurring_donation, fund, donation_source, payment_method, reference_number, donors(donor_name)';
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * Donations whose `dateColumn` falls within the filter, oldest first
+ */
+async function findDonationsForExport(
+  filter: AccountingExportFilter,
+  dateColumn: 'donation_date' | 'refunded_on',
+  statuses: string[]
+): Promise<SupabaseAccountingDonationRow[]> {
+  logger.dbQuery('donations', 'findForAccountingExport', { ...filter, dateColumn });
+
+  const timer = startTimer('findDonationsForExport');
+  const rows: SupabaseAccountingDonationRow[] = [];
+
+  try {
+    const supabase = getSupabaseClient();
+
+    // PostgREST caps each response, so read the range in pages
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('donations')
+        .select(DONATION_COLUMNS)
+        .in('payment_status', statuses)
+        .gte(dateColumn, filter.from)
+        .lte(dateColumn, filter.to);
+
+      if (filter.fund) {
+        query = query.eq('fund', filter.fund);
+      }
+
+      const { data, error } = await query
+        .order(dateColumn, { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        timer.end();
+        logger.dbError('donations', 'findForAccountingExport', error);
+        throw new DatabaseError('Failed to query donations');
+      }
+
+      const page = (data || []) as unknown as SupabaseAccountingDonationRow[];
+      rows.push(...page);
+
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    timer.end();
+    return rows;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donations', 'findForAccountingExport', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// JOURNAL
+// ============================================================================
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Income account for a fund; restricted funds use a sub-account
+ */
+export function incomeAccountFor(fund: DonationFund): string {
+  if (fund === DONATION_FUNDS.GENERAL) {
+    return ACCOUNTING.ACCOUNTS.DONATION_INCOME;
+  }
+  return `${ACCOUNTING.ACCOUNTS.DONATION_INCOME}:${DONATION_FUND_LABELS[fund]}`;
+}
+
+/**
+ * What the donor paid, in the base currency: the gift plus any processing
+ * fee they chose to cover. Both are contribution income.
+ */
+function chargedAmount(row: SupabaseAccountingDonationRow): number {
+  return roundCents(donationBaseAmount(row) + coveredFeeBaseAmount(row));
+}
+
+function isForeignCurrency(row: SupabaseAccountingDonationRow): boolean {
+  return (row.currency || 'usd').toLowerCase() !== STRIPE.CURRENCY;
+}
+
+function isOffline(row: SupabaseAccountingDonationRow): boolean {
+  return row.donation_source === DONATION_SOURCE.MANUAL_ENTRY;
+}
+
+function describeGift(row: SupabaseAccountingDonationRow): string {
+  if (isOffline(row)) {
+    const method = row.payment_method || 'Offline';
+    return row.reference_number ? `${method} ${row.reference_number}` : `${method} donation`;
+  }
+  let description = row.recurring_donation ? 'Monthly donation' : 'Online donation';
+  const coveredFee = Number(row.covered_fee || 0);
+  if (isForeignCurrency(row)) {
+    const given = formatCurrencyAmount(Number(row.donation_amount) + coveredFee, row.currency);
+    description += ` of ${given} at ${Number(row.exchange_rate)}`;
+  }
+  return coveredFee > 0 ? `${description} incl. ${coveredFeeBaseAmount(row).toFixed(2)} fee covered` : description;
+}
+
+function giftEntry(row: SupabaseAccountingDonationRow): JournalEntry {
+  const fund = toDonationFund(row.fund);
+  const amount = chargedAmount(row);
+  const donorName = row.donors?.donor_name || 'Anonymous';
+  const lines: JournalLine[] = [];
+
+  if (isOffline(row)) {
+    lines.push({ account: ACCOUNTING.ACCOUNTS.UNDEPOSITED_FUNDS, debit: amount, credit: 0 });
+  } else {
+    // Fees are missing for gifts recorded before they were captured; those
+    // post gross to Stripe Clearing and the payout reconciliation picks up the fee
+    const fee = Math.min(roundCents(Number(row.stripe_fee || 0)), amount);
+    lines.push({ account: ACCOUNTING.ACCOUNTS.STRIPE_CLEARING, debit: roundCents(amount - fee), credit: 0 });
+    if (fee > 0) {
+      lines.push({ account: ACCOUNTING.ACCOUNTS.PROCESSING_FEES, debit: fee, credit: 0 });
+    }
+  }
+
+  lines.push({ account: incomeAccountFor(fund), debit: 0, credit: amount });
+
+  return {
+    date: row.donation_date,
+    kind: 'gift',
+    reference: row.stripe_payment_intent_id,
+    donorName,
+    fund,
+    currency: STRIPE.CURRENCY.toUpperCase(),
+    memo: `${describeGift(row)} - ${donorName}`,
+    lines,
+  };
+}
+
+function reversalEntry(row: SupabaseAccountingDonationRow, date: string): JournalEntry {
+  const kind = row.payment_status === PAYMENT_STATUS.DISPUTED ? 'dispute' : 'refund';
+  const fund = toDonationFund(row.fund);
+  const amount = chargedAmount(row);
+  const donorName = row.donors?.donor_name || 'Anonymous';
+  const account = isOffline(row) ? ACCOUNTING.ACCOUNTS.UNDEPOSITED_FUNDS : ACCOUNTING.ACCOUNTS.STRIPE_CLEARING;
+
+  return {
+    date,
+    kind,
+    reference: row.stripe_payment_intent_id,
+    donorName,
+    fund,
+    currency: STRIPE.CURRENCY.toUpperCase(),
+    memo: `${kind === 'dispute' ? 'Dispute' : 'Refund'} of ${describeGift(row).toLowerCase()} - ${donorName}`,
+    lines: [
+      { account: incomeAccountFor(fund), debit: amount, credit: 0 },
+      { account, debit: 0, credit: amount },
+    ],
+  };
+}
+
+/**
+ * Journal entries for gifts, refunds and disputes dated within the filter,
+ * in date order
+ *
+ * A refunded or disputed gift with no refund date (recorded before the date
+ * was) is reversed on its own donation date.
+ */
+export async function buildDonationJournal(filter: AccountingExportFilter): Promise<JournalEntry[]> {
+  const [gifts, refunds] = await Promise.all([
+    findDonationsForExport(filter, 'donation_date', [
+      PAYMENT_STATUS.SUCCEEDED,
+      PAYMENT_STATUS.REFUNDED,
+      PAYMENT_STATUS.DISPUTED,
+    ]),
+    findDonationsForExport(filter, 'refunded_on', [PAYMENT_STATUS.REFUNDED, PAYMENT_STATUS.DISPUTED]),
+  ]);
+
+  const entries: JournalEntry[] = [];
+
+  for (const row of gifts) {
+    entries.push(giftEntry(row));
+    if (row.payment_status !== PAYMENT_STATUS.SUCCEEDED && !row.refunded_on) {
+      entries.push(reversalEntry(row, row.donation_date));
+    }
+  }
+
+  for (const row of refunds) {
+    entries.push(reversalEntry(row, row.refunded_on!));
+  }
+
+  // Stable sort keeps each gift ahead of a same-day reversal
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ============================================================================
+// FORMATS
+// ============================================================================
+
+/**
+ * MM/DD/YYYY, the date format QuickBooks and US Xero organisations import
+ */
+function toUsDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csv(header: string[], rows: (string | number)[][]): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * IIF fields are tab separated with no quoting, so tabs and line breaks are
+ * replaced with spaces
+ */
+function iifCell(value: string | number): string {
+  return String(value).replace(/[\t\r\n]+/g, ' ');
+}
+
+function toJournalCsv(entries: JournalEntry[]): string {
+  const rows = entries.flatMap((entry, index) =>
+    entry.lines.map((line) => [
+      entry.date,
+      index + 1,
+      line.account,
+      line.debit ? formatAmount(line.debit) : '',
+      line.credit ? formatAmount(line.credit) : '',
+      DONATION_FUND_LABELS[entry.fund],
+      entry.currency,
+      entry.donorName,
+      entry.memo,
+      entry.reference,
+    ])
+  );
+
+  return csv(
+    ['Date', 'Entry', 'Account', 'Debit', 'Credit', 'Fund', 'Currency', 'Donor', 'Memo', 'Reference'],
+    rows
+  );
+}
+
+/**
+ * QuickBooks Desktop general journal transactions. The first line of each
+ * entry is the TRNS row and the rest are SPL rows; debits are positive and
+ * credits negative.
+ */
+function toQuickBooksIif(entries: JournalEntry[]): string {
+  const columns = ['TRNSID', 'TRNSTYPE', 'DATE', 'ACCNT', 'CLASS', 'AMOUNT', 'DOCNUM', 'MEMO'];
+  const lines = [
+    ['!TRNS', ...columns].join('\t'),
+    ['!SPL', ...columns.map((column) => (column === 'TRNSID' ? 'SPLID' : column))].join('\t'),
+    '!ENDTRNS',
+  ];
+
+  entries.forEach((entry, index) => {
+    entry.lines.forEach((line, lineIndex) => {
+      lines.push(
+        [
+          lineIndex === 0 ? 'TRNS' : 'SPL',
+          '',
+          'GENERAL JOURNAL',
+          toUsDate(entry.date),
+          line.account,
+          DONATION_FUND_LABELS[entry.fund],
+          formatAmount(line.debit - line.credit),
+          index + 1,
+          entry.memo,
+        ]
+          .map(iifCell)
+          .join('\t')
+      );
+    });
+    lines.push('ENDTRNS');
+  });
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * QuickBooks Online journal entry import; rows sharing a Journal No form one entry
+ */
+function toQuickBooksCsv(entries: JournalEntry[]): string {
+  const rows = entries.flatMap((entry, index) =>
+    entry.lines.map((line) => [
+      index + 1,
+      toUsDate(entry.date),
+      entry.currency,
+      line.account,
+      line.debit ? formatAmount(line.debit) : '',
+      line.credit ? formatAmount(line.credit) : '',
+      entry.memo,
+      DONATION_FUND_LABELS[entry.fund],
+    ])
+  );
+
+  return csv(
+    ['Journal No', 'Journal Date', 'Currency', 'Account Name', 'Debits', 'Credits', 'Description', 'Class'],
+    rows
+  );
+}
+
+/**
+ * Xero bank statement import: one row per money movement, with fees as
+ * their own withdrawal so the statement matches the net payouts. The Account
+ * column says which statement a row belongs to (Stripe Clearing or
+ * Undeposited Funds).
+ */
+function toXeroCsv(entries: JournalEntry[]): string {
+  const rows: (string | number)[][] = [];
+
+  for (const entry of entries) {
+    const gross = entry.lines.find((line) => line.account === incomeAccountFor(entry.fund))!;
+    const fee = entry.lines.find((line) => line.account === ACCOUNTING.ACCOUNTS.PROCESSING_FEES);
+    const amount = entry.kind === 'gift' ? gross.credit : -gross.debit;
+    const account = entry.lines.some((line) => line.account === ACCOUNTING.ACCOUNTS.UNDEPOSITED_FUNDS)
+      ? ACCOUNTING.ACCOUNTS.UNDEPOSITED_FUNDS
+      : ACCOUNTING.ACCOUNTS.STRIPE_CLEARING;
+
+    rows.push([
+      toUsDate(entry.date),
+      formatAmount(amount),
+      entry.donorName,
+      `${entry.memo} (${DONATION_FUND_LABELS[entry.fund]})`,
+      entry.reference,
+      entry.currency,
+      account,
+    ]);
+
+    if (fee) {
+      rows.push([
+        toUsDate(entry.date),
+        formatAmount(-fee.debit),
+        'Stripe',
+        `Stripe fee - ${entry.donorName}`,
+        entry.reference,
+        entry.currency,
+        account,
+      ]);
+    }
+  }
+
+  return csv(['Date', 'Amount', 'Payee', 'Description', 'Reference', 'Currency', 'Account'], rows);
+}
+
+/**
+ * Render journal entries in an export format
+ */
+export function renderAccountingExport(
+  entries: JournalEntry[],
+  format: AccountingExportFormat,
+  filter: AccountingExportFilter
+): AccountingExportFile {
+  const fundSuffix = filter.fund ? `-${filter.fund}` : '';
+  const base = `donations-${format.replace(/_/g, '-')}-${filter.from}-to-${filter.to}${fundSuffix}`;
+
+  if (format === ACCOUNTING_EXPORT_FORMATS.QUICKBOOKS_IIF) {
+    return {
+      filename: `${base}.iif`,
+      contentType: 'application/octet-stream',
+      content: toQuickBooksIif(entries),
+      entryCount: entries.length,
+    };
+  }
+
+  const render = {
+    [ACCOUNTING_EXPORT_FORMATS.JOURNAL]: toJournalCsv,
+    [ACCOUNTING_EXPORT_FORMATS.QUICKBOOKS_CSV]: toQuickBooksCsv,
+    [ACCOUNTING_EXPORT_FORMATS.XERO]: toXeroCsv,
+  }[format];
+
+  return {
+    filename: `${base}.csv`,
+    contentType: 'text/csv; charset=utf-8',
+    content: render(entries),
+    entryCount: entries.length,
+  };
+}
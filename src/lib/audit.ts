@@ -0,0 +1,279 @@
+/**
+ * Audit log
+ * Append-only record of administrative mutations (who changed what, and how)
+ *
+ * Audit writes never throw: a failure to record an event is logged but does
+ * not undo or block the mutation it describes.
+ */
+
+import { randomUUID } from 'crypto';
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const AUDIT_ACTIONS = {
+  UPDATE_PUBLISHED: 'update.published',
+  UPDATE_REJECTED: 'update.rejected',
+  UPDATE_STATUS_CHANGED: 'update.status_changed',
+  UPDATE_CORRECTION_REQUESTED: 'update.correction_requested',
+  UPDATE_RESUBMITTED: 'update.resubmitted',
+  UPDATE_SUPERSEDED: 'update.superseded',
+  UPDATE_SAFEGUARDING_REVIEWED: 'update.safeguarding_reviewed',
+  SAFEGUARDING_RULE_SAVED: 'safeguarding.rule_saved',
+  SPONSORSHIP_CREATED: 'sponsorship.created',
+  SPONSOR_ASSIGNED: 'sponsorship.sponsor_assigned',
+  SPONSORSHIP_STATUS_CHANGED: 'sponsorship.status_changed',
+  DONOR_CREATED: 'donor.created',
+  DONOR_UPDATED: 'donor.updated',
+  DONOR_MERGED: 'donor.merged',
+  DONOR_MERGE_UNDONE: 'donor.merge_undone',
+  DONATION_CREATED: 'donation.created',
+  DONATION_UPDATED: 'donation.updated',
+  FUND_ALLOCATION_CREATED: 'fund_allocation.created',
+  CAMPAIGN_CREATED: 'campaign.created',
+  CAMPAIGN_UPDATED: 'campaign.updated',
+} as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[keyof typeof AUDIT_ACTIONS];
+
+/**
+ * Actor identifiers for automated (non-admin) writers
+ */
+export const SYSTEM_ACTORS = {
+  SYSTEM: 'system',
+  STRIPE_WEBHOOK: 'system:stripe-webhook',
+} as const;
+
+/**
+ * Who is acting, and on behalf of which request
+ * Passed from routes/tools down to the functions that perform mutations.
+ */
+export interface AuditContext {
+  /** Admin email, role email, or a SYSTEM_ACTORS identifier */
+  actor: string;
+  actorRole?: string;
+  requestId?: string;
+}
+
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEventInput {
+  action: AuditAction;
+  targetTable: string;
+  targetId: string;
+  childId?: string | null;
+  sponsorCode?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditEvent {
+  id: string;
+  occurredAt: string;
+  actor: string;
+  actorRole: string | null;
+  action: AuditAction;
+  targetTable: string;
+  targetId: string;
+  childId: string | null;
+  sponsorCode: string | null;
+  changes: Record<string, AuditFieldChange>;
+  requestId: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface AuditEventFilters {
+  childId?: string;
+  sponsorCode?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+interface SupabaseAuditEventRow {
+  id: string;
+  occurred_at: string;
+  actor: string;
+  actor_role: string | null;
+  action: AuditAction;
+  target_table: string;
+  target_id: string;
+  child_id: string | null;
+  sponsor_code: string | null;
+  changes: Record<string, AuditFieldChange> | null;
+  request_id: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+/** Bookkeeping columns that change on every write and add noise to diffs */
+const IGNORED_DIFF_FIELDS = new Set(['updated_at']);
+
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 500;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get a request ID for correlating audit events with logs
+ * Uses an upstream request ID header when present, otherwise generates one.
+ */
+export function getRequestId(request: Request): string {
+  return (
+    request.headers.get('x-request-id') ||
+    request.headers.get('x-vercel-id') ||
+    randomUUID()
+  );
+}
+
+/**
+ * Compute a field-level diff between two record states
+ * Only fields whose values differ are included. A null `before` (creation)
+ * records every field of `after`.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): Record<string, AuditFieldChange> {
+  const changes: Record<string, AuditFieldChange> = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (IGNORED_DIFF_FIELDS.has(key)) continue;
+
+    const previous = before?.[key] ?? null;
+    const next = after?.[key] ?? null;
+
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
+
+function toAuditEvent(row: SupabaseAuditEventRow): AuditEvent {
+  return {
+    id: row.id,
+    occurredAt: row.occurred_at,
+    actor: row.actor,
+    actorRole: row.actor_role,
+    action: row.action,
+    targetTable: row.target_table,
+    targetId: row.target_id,
+    childId: row.child_id,
+    sponsorCode: row.sponsor_code,
+    changes: row.changes || {},
+    requestId: row.request_id,
+    metadata: row.metadata,
+  };
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Record an audit event
+ * Defaults the actor to 'system' when no context is supplied.
+ */
+export async function recordAuditEvent(
+  event: AuditEventInput,
+  context?: AuditContext
+): Promise<void> {
+  const actor = context?.actor || SYSTEM_ACTORS.SYSTEM;
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase.from('audit_events').insert({
+      actor,
+      actor_role: context?.actorRole || null,
+      action: event.action,
+      target_table: event.targetTable,
+      target_id: event.targetId,
+      child_id: event.childId || null,
+      sponsor_code: event.sponsorCode || null,
+      changes: diffRecords(event.before, event.after),
+      request_id: context?.requestId || null,
+      metadata: event.metadata || null,
+    });
+
+    if (error) {
+      logger.dbError('audit_events', 'insert', error);
+      return;
+    }
+
+    logger.debug('Audit event recorded', {
+      action: event.action,
+      targetTable: event.targetTable,
+      targetId: event.targetId,
+      actor,
+    });
+  } catch (error) {
+    logger.error('Failed to record audit event', error, {
+      action: event.action,
+      targetId: event.targetId,
+    });
+  }
+}
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * Query audit events, newest first
+ */
+export async function findAuditEvents(filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+  logger.dbQuery('audit_events', 'find', {
+    childId: filters.childId,
+    sponsorCode: filters.sponsorCode ? logger.maskSponsorCode(filters.sponsorCode) : undefined,
+    actor: filters.actor,
+    from: filters.from,
+    to: filters.to,
+  });
+
+  const timer = startTimer('findAuditEvents');
+  const limit = Math.min(filters.limit || DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT);
+
+  try {
+    const supabase = getSupabaseClient();
+    let query = supabase
+      .from('audit_events')
+      .select('*')
+      .order('occurred_at', { ascending: false })
+      .limit(limit);
+
+    if (filters.childId) query = query.eq('child_id', filters.childId);
+    if (filters.sponsorCode) query = query.eq('sponsor_code', filters.sponsorCode);
+    if (filters.actor) query = query.eq('actor', filters.actor);
+    if (filters.from) query = query.gte('occurred_at', filters.from);
+    if (filters.to) query = query.lte('occurred_at', filters.to);
+
+    const { data, error } = await query;
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('audit_events', 'find', error);
+      throw new DatabaseError('Failed to query audit log');
+    }
+
+    return (data || []).map((row) => toAuditEvent(row as SupabaseAuditEventRow));
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('audit_events', 'find', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
@@ -5,12 +5,35 @@
 
 import { NextRequest } from 'next/server';
 import { cookies } from 'next/headers';
-import { timingSafeEqual } from 'crypto';
-import { findSponsorshipByCode } from './database';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  findSponsorshipByCode,
+  findActiveSponsorshipsByEmail,
+  createSponsorLoginToken,
+  consumeSponsorLoginToken,
+  findActiveAdminUserByTokenHash,
+  claimIntakeNonce,
+} from './database';
+import { findDonorAccount, createDonorLoginToken, consumeDonorLoginToken } from './donor-portal';
 import { logger } from './logger';
-import { AuthenticationError } from './errors';
-import { SESSION, ERROR_MESSAGES } from './constants';
+import { AuthenticationError, AuthorizationError } from './errors';
+import { getSessionSecrets, getIntakeSecret } from './env';
+import {
+  SESSION,
+  MAGIC_LINK,
+  ADMIN,
+  ADMIN_ROLES,
+  ERROR_MESSAGES,
+  INTAKE_SOURCES,
+  INTAKE_SOURCE_TYPES,
+  INTAKE_SIGNATURE,
+  DUNNING,
+  DONOR_PORTAL,
+  RESUBMISSION_LINK,
+} from './constants';
 import type { AirtableSponsorshipRecord } from './types/airtable';
+import type { AdminRole, AdminUser } from './types/admin';
+import type { IntakeSource, SourceType } from './types/child-update';
 
 // ============================================================================
 // SECURITY UTILITIES
@@ -39,6 +62,150 @@ function timingSafeCompare(a: string, b: string): boolean {
   }
 }
 
+// ============================================================================
+// SESSION TOKENS
+// ============================================================================
+
+/**
+ * Signed session token format:
+ *   <version>.<keyId>.<base64url(payload)>.<base64url(hmac-sha256)>
+ *
+ * The key ID identifies which secret signed the token so that sessions
+ * issued before a key rotation can still be verified with a previous secret.
+ */
+interface SessionTokenPayload {
+  email: string;
+  /** Primary sponsor code (the one the sponsor lands on after login) */
+  sponsorCode: string;
+  /** Every sponsor code this session may access (magic-link logins cover all of them) */
+  sponsorCodes?: string[];
+  /** Original login time (seconds) - used for the absolute lifetime cap */
+  auth: number;
+  /** When this token was issued (seconds) */
+  iat: number;
+  /** When this token expires (seconds) */
+  exp: number;
+}
+
+interface SessionKey {
+  id: string;
+  secret: string;
+}
+
+/**
+ * Derive a short, non-reversible key ID from a secret
+ */
+function deriveKeyId(secret: string): string {
+  return createHash('sha256').update(secret, 'utf8').digest('hex').substring(0, 8);
+}
+
+/**
+ * Load signing keys (current first, then previous secrets for rotation)
+ */
+function getSessionKeys(): { current: SessionKey; all: SessionKey[] } {
+  const secrets = getSessionSecrets();
+  const current = { id: deriveKeyId(secrets.current), secret: secrets.current };
+  const previous = secrets.previous.map((secret) => ({ id: deriveKeyId(secret), secret }));
+
+  return { current, all: [current, ...previous] };
+}
+
+function signTokenBody(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body, 'utf8').digest('base64url');
+}
+
+/**
+ * Serialize and sign a session payload with the current key
+ */
+function encodeSessionToken(payload: SessionTokenPayload): string {
+  const { current } = getSessionKeys();
+  const encodedPayload = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  const body = `${SESSION.TOKEN_VERSION}.${current.id}.${encodedPayload}`;
+
+  return `${body}.${signTokenBody(body, current.secret)}`;
+}
+
+/**
+ * Verify a session token's signature and expiry
+ * Returns null for malformed, unsigned (legacy JSON), tampered or expired tokens
+ */
+function decodeSessionToken(
+  token: string
+): { payload: SessionTokenPayload; keyId: string } | null {
+  const parts = token.split('.');
+
+  if (parts.length !== 4 || parts[0] !== SESSION.TOKEN_VERSION) {
+    logger.auth('session_invalid', false, { reason: 'unrecognized_format' });
+    return null;
+  }
+
+  const [version, keyId, encodedPayload, signature] = parts;
+  const key = getSessionKeys().all.find((candidate) => candidate.id === keyId);
+
+  if (!key) {
+    logger.auth('session_invalid', false, { reason: 'unknown_key' });
+    return null;
+  }
+
+  const expectedSignature = signTokenBody(`${version}.${keyId}.${encodedPayload}`, key.secret);
+  if (!timingSafeCompare(signature, expectedSignature)) {
+    logger.auth('session_invalid', false, { reason: 'bad_signature' });
+    return null;
+  }
+
+  let payload: SessionTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    logger.auth('session_invalid', false, { reason: 'malformed_payload' });
+    return null;
+  }
+
+  if (
+    typeof payload.email !== 'string' ||
+    typeof payload.sponsorCode !== 'string' ||
+    typeof payload.auth !== 'number' ||
+    typeof payload.iat !== 'number' ||
+    typeof payload.exp !== 'number' ||
+    (payload.sponsorCodes !== undefined &&
+      (!Array.isArray(payload.sponsorCodes) ||
+        !payload.sponsorCodes.every((code) => typeof code === 'string')))
+  ) {
+    logger.auth('session_invalid', false, { reason: 'malformed_payload' });
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.exp <= now || payload.auth + SESSION.ABSOLUTE_MAX_AGE <= now) {
+    logger.auth('session_expired', false);
+    return null;
+  }
+
+  return { payload, keyId };
+}
+
+/**
+ * Calculate the rolling expiry, capped by the absolute session lifetime
+ */
+function calculateExpiry(authTime: number, now: number): number {
+  return Math.min(now + SESSION.MAX_AGE, authTime + SESSION.ABSOLUTE_MAX_AGE);
+}
+
+/**
+ * Write the signed session cookie
+ */
+async function setSessionCookie(payload: SessionTokenPayload): Promise<void> {
+  const cookieStore = await cookies();
+
+  cookieStore.set(SESSION.COOKIE_NAME, encodeSessionToken(payload), {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+    path: SESSION.PATH,
+    expires: new Date(payload.exp * 1000),
+  });
+}
+
 // ============================================================================
 // SESSION MANAGEMENT
 // ============================================================================
@@ -46,11 +213,62 @@ function timingSafeCompare(a: string, b: string): boolean {
 export interface SessionData {
   email: string;
   sponsorCode: string;
+  sponsorCodes: string[];
   expires: string;
 }
 
+function toSessionData(payload: SessionTokenPayload): SessionData {
+  return {
+    email: payload.email,
+    sponsorCode: payload.sponsorCode,
+    sponsorCodes: payload.sponsorCodes || [payload.sponsorCode],
+    expires: new Date(payload.exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Issue a new signed session cookie (login)
+ * Accepts one sponsor code (code + email login) or every sponsor code
+ * for the email (magic-link login); the first code is the primary one.
+ */
+export async function createSession(
+  email: string,
+  sponsorCodes: string | string[]
+): Promise<SessionData> {
+  const codes = Array.isArray(sponsorCodes) ? sponsorCodes : [sponsorCodes];
+  const sponsorCode = codes[0];
+
+  if (!sponsorCode) {
+    throw new AuthenticationError(ERROR_MESSAGES.INVALID_CREDENTIALS);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionTokenPayload = {
+    email,
+    sponsorCode,
+    sponsorCodes: codes,
+    auth: now,
+    iat: now,
+    exp: calculateExpiry(now, now),
+  };
+
+  await setSessionCookie(payload);
+
+  logger.auth('session_created', true, {
+    code: logger.maskSponsorCode(sponsorCode),
+    codeCount: codes.length,
+  });
+
+  return toSessionData(payload);
+}
+
 /**
  * Get session data from cookie
+ *
+ * Verifies the token signature and expiry. Sessions are rolled forward
+ * (and re-signed with the current key after a rotation) at most once per
+ * SESSION.REFRESH_AFTER; the refresh is skipped silently in contexts where
+ * cookies are read-only, such as Server Components.
  */
 export async function getSession(): Promise<SessionData | null> {
   try {
@@ -61,17 +279,29 @@ export async function getSession(): Promise<SessionData | null> {
       return null;
     }
 
-    const session: SessionData = JSON.parse(sessionCookie.value);
-
-    // Check if expired
-    if (new Date(session.expires) < new Date()) {
-      logger.auth('session_expired', false);
+    const decoded = decodeSessionToken(sessionCookie.value);
+    if (!decoded) {
       return null;
     }
 
-    return session;
+    let { payload } = decoded;
+    const now = Math.floor(Date.now() / 1000);
+    const rotated = decoded.keyId !== getSessionKeys().current.id;
+
+    if (rotated || now - payload.iat >= SESSION.REFRESH_AFTER) {
+      const refreshed = { ...payload, iat: now, exp: calculateExpiry(payload.auth, now) };
+
+      try {
+        await setSessionCookie(refreshed);
+        payload = refreshed;
+      } catch {
+        logger.debug('Session refresh skipped (read-only cookie context)');
+      }
+    }
+
+    return toSessionData(payload);
   } catch (error) {
-    logger.error('Failed to parse session cookie', error);
+    logger.error('Failed to read session cookie', error);
     return null;
   }
 }
@@ -123,7 +353,7 @@ export async function verifySessionForCode(sponsorCode: string): Promise<boolean
     return false;
   }
 
-  if (session.sponsorCode !== sponsorCode) {
+  if (!session.sponsorCodes.includes(sponsorCode)) {
     logger.auth('session_code_mismatch', false, {
       sessionCode: logger.maskSponsorCode(session.sponsorCode),
       requestCode: logger.maskSponsorCode(sponsorCode),
@@ -144,45 +374,533 @@ export async function clearSession(): Promise<void> {
 }
 
 // ============================================================================
-// ADMIN AUTHENTICATION
+// MAGIC LINK LOGIN
 // ============================================================================
 
 /**
- * Verify admin authentication token using timing-safe comparison
- * Prevents timing attacks that could leak token information
+ * Hash a magic-link token for storage and lookup
+ * Only the hash is persisted, so a database leak cannot be replayed as a login.
  */
-export function verifyAdminToken(request: NextRequest): boolean {
-  const adminToken = process.env.ADMIN_API_TOKEN;
+function hashLoginToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}
 
-  if (!adminToken) {
-    logger.warn('Admin authentication not configured');
-    return false;
+/**
+ * Issue a single-use login token for every active sponsorship under an email
+ * Returns null (and stores nothing) when the email has no active sponsorships,
+ * so callers can respond identically either way and avoid leaking which
+ * emails belong to sponsors.
+ */
+export async function issueMagicLinkToken(
+  email: string
+): Promise<{ token: string; expiresAt: string } | null> {
+  const sponsorships = await findActiveSponsorshipsByEmail(email);
+
+  if (sponsorships.length === 0) {
+    logger.auth('magic_link_requested', false, {
+      email: logger.maskEmail(email),
+      reason: 'no_active_sponsorships',
+    });
+    return null;
+  }
+
+  const token = randomBytes(MAGIC_LINK.TOKEN_BYTES).toString('base64url');
+  const expiresAt = new Date(Date.now() + MAGIC_LINK.TTL_MINUTES * 60 * 1000).toISOString();
+
+  await createSponsorLoginToken(email, hashLoginToken(token), expiresAt);
+
+  logger.auth('magic_link_requested', true, {
+    email: logger.maskEmail(email),
+    sponsorshipCount: sponsorships.length,
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Redeem a magic-link token and open a session covering every active
+ * sponsorship for its email. Returns null if the token is unknown,
+ * expired, already used, or the email no longer has active sponsorships.
+ */
+export async function redeemMagicLinkToken(token: string): Promise<SessionData | null> {
+  const email = await consumeSponsorLoginToken(hashLoginToken(token));
+
+  if (!email) {
+    logger.auth('magic_link_redeemed', false, { reason: 'invalid_or_used' });
+    return null;
+  }
+
+  const sponsorships = await findActiveSponsorshipsByEmail(email);
+
+  if (sponsorships.length === 0) {
+    logger.auth('magic_link_redeemed', false, {
+      email: logger.maskEmail(email),
+      reason: 'no_active_sponsorships',
+    });
+    return null;
   }
 
-  // Support multiple header formats for flexibility
-  const requestToken = 
-    request.headers.get('X-Admin-Token') ||
+  const session = await createSession(
+    email,
+    sponsorships.map((sponsorship) => sponsorship.fields.SponsorCode)
+  );
+
+  logger.auth('magic_link_redeemed', true, {
+    email: logger.maskEmail(email),
+    sponsorshipCount: sponsorships.length,
+  });
+
+  return session;
+}
+
+// ============================================================================
+// ADMIN AUTHENTICATION
+// ============================================================================
+
+/**
+ * Extract the admin API token from request headers
+ * Supports both the X-Admin-Token header and an Authorization bearer token
+ */
+function getAdminTokenFromRequest(request: NextRequest): string | null {
+  return (
+    request.headers.get(ADMIN.AUTH_HEADER) ||
     request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ||
-    null;
+    null
+  );
+}
 
-  if (!requestToken) {
+/**
+ * Authenticate an admin API token
+ *
+ * Each admin has a personal token; only its SHA-256 hash is stored, so the
+ * lookup itself is the comparison and no plaintext token is ever held.
+ * Returns the admin user, or null if the token is missing, unknown or the
+ * account is deactivated.
+ */
+export async function authenticateAdminToken(token: string | null): Promise<AdminUser | null> {
+  if (!token) {
     logger.auth('admin_auth_missing_token', false);
-    return false;
+    return null;
   }
 
-  // Use timing-safe comparison to prevent timing attacks
-  const isValid = timingSafeCompare(requestToken, adminToken);
+  const tokenHash = createHash('sha256').update(token, 'utf8').digest('hex');
+  const admin = await findActiveAdminUserByTokenHash(tokenHash);
+
+  logger.auth('admin_auth_attempt', !!admin, admin ? { admin: admin.email, role: admin.role } : undefined);
 
-  logger.auth('admin_auth_attempt', isValid);
+  return admin;
+}
 
-  return isValid;
+/**
+ * Authenticate the admin making a request
+ */
+export async function getAdminUser(request: NextRequest): Promise<AdminUser | null> {
+  return authenticateAdminToken(getAdminTokenFromRequest(request));
 }
 
 /**
- * Require admin authentication - throws error if not authenticated
+ * Check whether an admin's role is allowed (owners are allowed everywhere)
  */
-export function requireAdminAuth(request: NextRequest): void {
-  if (!verifyAdminToken(request)) {
+export function hasAdminRole(admin: AdminUser, allowedRoles: readonly AdminRole[]): boolean {
+  return admin.role === ADMIN_ROLES.OWNER || allowedRoles.includes(admin.role);
+}
+
+/**
+ * Require an authenticated admin with one of the allowed roles
+ * Throws AuthenticationError (401) without a valid token and
+ * AuthorizationError (403) when the admin's role is not permitted.
+ *
+ * @param allowedRoles - Roles the route accepts in addition to owner
+ * @returns The authenticated admin user, for attributing actions
+ */
+export async function requireAdminAuth(
+  request: NextRequest,
+  allowedRoles: readonly AdminRole[]
+): Promise<AdminUser> {
+  const admin = await getAdminUser(request);
+
+  if (!admin) {
     throw new AuthenticationError('Admin authentication required');
   }
+
+  if (!hasAdminRole(admin, allowedRoles)) {
+    logger.auth('admin_role_denied', false, {
+      admin: admin.email,
+      role: admin.role,
+      requiredRoles: allowedRoles.join(','),
+      path: request.nextUrl.pathname,
+    });
+    throw new AuthorizationError(`This action requires one of the following roles: ${[ADMIN_ROLES.OWNER, ...allowedRoles].join(', ')}`);
+  }
+
+  return admin;
+}
+
+// ============================================================================
+// SIGNED INTAKE REQUESTS
+// ============================================================================
+
+/**
+ * Signed intake request format (Google Forms Apps Script bridge):
+ *   X-Intake-Source:    'field-form' | 'academic-form'
+ *   X-Intake-Timestamp: Unix time in seconds
+ *   X-Intake-Nonce:     Random string, unique per request
+ *   X-Intake-Signature: hex(hmac-sha256(secret, "<timestamp>.<nonce>.<raw body>"))
+ *
+ * Each source has its own secret, so one form's credential can be revoked
+ * (by unsetting its secret) without touching the other.
+ */
+export interface VerifiedIntakeRequest {
+  source: IntakeSource;
+  /** The only source type this source may submit */
+  sourceType: SourceType;
+}
+
+function isIntakeSource(value: string): value is IntakeSource {
+  return Object.values(INTAKE_SOURCES).includes(value as IntakeSource);
+}
+
+/**
+ * Verify a signed intake request and claim its nonce
+ *
+ * The signature is checked before the nonce is recorded so unauthenticated
+ * callers cannot fill the nonce table.
+ *
+ * @param rawBody - The request body exactly as received (signed bytes)
+ * @throws AuthenticationError if the request is unsigned, stale, forged,
+ *         from a revoked source, or a replay
+ */
+export async function verifyIntakeRequest(
+  request: NextRequest,
+  rawBody: string
+): Promise<VerifiedIntakeRequest> {
+  const source = request.headers.get(INTAKE_SIGNATURE.SOURCE_HEADER);
+  const timestamp = request.headers.get(INTAKE_SIGNATURE.TIMESTAMP_HEADER);
+  const nonce = request.headers.get(INTAKE_SIGNATURE.NONCE_HEADER);
+  const signature = request.headers.get(INTAKE_SIGNATURE.SIGNATURE_HEADER);
+
+  if (!source || !timestamp || !nonce || !signature) {
+    logger.auth('intake_signature_missing', false);
+    throw new AuthenticationError('Signed intake headers are required');
+  }
+
+  if (!isIntakeSource(source)) {
+    logger.auth('intake_unknown_source', false, { source });
+    throw new AuthenticationError('Unknown intake source');
+  }
+
+  const secret = getIntakeSecret(source);
+  if (!secret) {
+    logger.auth('intake_source_revoked', false, { source });
+    throw new AuthenticationError('Intake source is not authorized');
+  }
+
+  const signedAt = Number(timestamp);
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (!Number.isInteger(signedAt) || Math.abs(nowSeconds - signedAt) > INTAKE_SIGNATURE.MAX_AGE_SECONDS) {
+    logger.auth('intake_signature_stale', false, { source, timestamp });
+    throw new AuthenticationError('Intake request timestamp is outside the allowed window');
+  }
+
+  const expectedSignature = createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.${rawBody}`, 'utf8')
+    .digest('hex');
+
+  if (!timingSafeCompare(signature.toLowerCase(), expectedSignature)) {
+    logger.auth('intake_signature_invalid', false, { source });
+    throw new AuthenticationError('Invalid intake signature');
+  }
+
+  const expiresAt = new Date((signedAt + INTAKE_SIGNATURE.MAX_AGE_SECONDS) * 1000).toISOString();
+  if (!(await claimIntakeNonce(source, nonce, expiresAt))) {
+    logger.auth('intake_replay_rejected', false, { source });
+    throw new AuthenticationError('Intake request has already been processed');
+  }
+
+  logger.auth('intake_signature_verified', true, { source });
+
+  return {
+    source,
+    sourceType: INTAKE_SOURCE_TYPES[source],
+  };
+}
+
+// ============================================================================
+// BILLING PORTAL LINKS
+// ============================================================================
+
+/**
+ * Signed billing-portal link token format (sent in payment-failed emails):
+ *   <version>.<keyId>.<dunningCaseId>.<base64url(hmac-sha256)>
+ *
+ * Signed with the session keys, so emailed links survive a key rotation.
+ * The token only names a dunning case: Stripe portal URLs are short-lived,
+ * so a fresh portal session is opened each time the link is followed.
+ */
+function billingPortalSigningInput(body: string): string {
+  // Domain-separated from session tokens, which share the same keys
+  return `billing-portal.${body}`;
+}
+
+/**
+ * Create a link token for a dunning case's billing-portal redirect
+ */
+export function createBillingPortalToken(dunningCaseId: string): string {
+  const { current } = getSessionKeys();
+  const body = `${DUNNING.LINK_TOKEN_VERSION}.${current.id}.${dunningCaseId}`;
+
+  return `${body}.${signTokenBody(billingPortalSigningInput(body), current.secret)}`;
+}
+
+/**
+ * Verify a billing-portal link token
+ * @returns The dunning case ID, or null for malformed or tampered tokens
+ */
+export function verifyBillingPortalToken(token: string): string | null {
+  const parts = token.split('.');
+
+  if (parts.length !== 4 || parts[0] !== DUNNING.LINK_TOKEN_VERSION) {
+    logger.auth('billing_portal_link_invalid', false, { reason: 'unrecognized_format' });
+    return null;
+  }
+
+  const [version, keyId, dunningCaseId, signature] = parts;
+  const key = getSessionKeys().all.find((candidate) => candidate.id === keyId);
+
+  if (!key) {
+    logger.auth('billing_portal_link_invalid', false, { reason: 'unknown_key' });
+    return null;
+  }
+
+  const expectedSignature = signTokenBody(
+    billingPortalSigningInput(`${version}.${keyId}.${dunningCaseId}`),
+    key.secret
+  );
+
+  if (!timingSafeCompare(signature, expectedSignature)) {
+    logger.auth('billing_portal_link_invalid', false, { reason: 'bad_signature' });
+    return null;
+  }
+
+  return dunningCaseId;
+}
+
+// ============================================================================
+// UPDATE RESUBMISSION LINKS
+// ============================================================================
+
+/**
+ * Generate a single-use token for resubmitting an update sent back for
+ * correction. The caller stores only the hash with the correction request;
+ * the raw token goes in the emailed link.
+ */
+export function generateResubmissionToken(): { token: string; tokenHash: string; expiresAt: string } {
+  const token = randomBytes(RESUBMISSION_LINK.TOKEN_BYTES).toString('base64url');
+  const expiresAt = new Date(Date.now() + RESUBMISSION_LINK.TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  return { token, tokenHash: hashLoginToken(token), expiresAt };
+}
+
+/**
+ * Hash a resubmission token for lookup
+ */
+export function hashResubmissionToken(token: string): string {
+  return hashLoginToken(token);
+}
+
+// ============================================================================
+// DONOR PORTAL SESSIONS
+// ============================================================================
+
+/**
+ * Signed donor session token format:
+ *   <version>.<keyId>.<base64url(payload)>.<base64url(hmac-sha256)>
+ *
+ * Kept in its own cookie so a donor who is also a sponsor can hold both
+ * sessions. Donor sessions do not roll: the donor verifies their email again
+ * after DONOR_PORTAL.SESSION_MAX_AGE.
+ */
+interface DonorSessionPayload {
+  email: string;
+  iat: number;
+  exp: number;
+}
+
+export interface DonorSessionData {
+  email: string;
+  expires: string;
+}
+
+function donorSessionSigningInput(body: string): string {
+  // Domain-separated from sponsor session tokens, which share the same keys
+  return `donor-session.${body}`;
+}
+
+/**
+ * Verify a donor session token's signature and expiry
+ */
+function decodeDonorSessionToken(token: string): DonorSessionPayload | null {
+  const parts = token.split('.');
+
+  if (parts.length !== 4 || parts[0] !== DONOR_PORTAL.TOKEN_VERSION) {
+    logger.auth('donor_session_invalid', false, { reason: 'unrecognized_format' });
+    return null;
+  }
+
+  const [version, keyId, encodedPayload, signature] = parts;
+  const key = getSessionKeys().all.find((candidate) => candidate.id === keyId);
+
+  if (!key) {
+    logger.auth('donor_session_invalid', false, { reason: 'unknown_key' });
+    return null;
+  }
+
+  const expectedSignature = signTokenBody(
+    donorSessionSigningInput(`${version}.${keyId}.${encodedPayload}`),
+    key.secret
+  );
+
+  if (!timingSafeCompare(signature, expectedSignature)) {
+    logger.auth('donor_session_invalid', false, { reason: 'bad_signature' });
+    return null;
+  }
+
+  let payload: DonorSessionPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    logger.auth('donor_session_invalid', false, { reason: 'malformed_payload' });
+    return null;
+  }
+
+  if (typeof payload.email !== 'string' || typeof payload.iat !== 'number' || typeof payload.exp !== 'number') {
+    logger.auth('donor_session_invalid', false, { reason: 'malformed_payload' });
+    return null;
+  }
+
+  if (payload.exp <= Math.floor(Date.now() / 1000)) {
+    logger.auth('donor_session_expired', false);
+    return null;
+  }
+
+  return payload;
+}
+
+/**
+ * Issue a donor session cookie for a verified email
+ */
+async function createDonorSession(email: string): Promise<DonorSessionData> {
+  const { current } = getSessionKeys();
+  const now = Math.floor(Date.now() / 1000);
+  const payload: DonorSessionPayload = { email, iat: now, exp: now + DONOR_PORTAL.SESSION_MAX_AGE };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  const body = `${DONOR_PORTAL.TOKEN_VERSION}.${current.id}.${encodedPayload}`;
+  const token = `${body}.${signTokenBody(donorSessionSigningInput(body), current.secret)}`;
+
+  const cookieStore = await cookies();
+  cookieStore.set(DONOR_PORTAL.COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+    path: SESSION.PATH,
+    expires: new Date(payload.exp * 1000),
+  });
+
+  logger.auth('donor_session_created', true, { email: logger.maskEmail(email) });
+
+  return { email, expires: new Date(payload.exp * 1000).toISOString() };
+}
+
+/**
+ * Get the donor session from its cookie, or null if absent or invalid
+ */
+export async function getDonorSession(): Promise<DonorSessionData | null> {
+  try {
+    const cookieStore = await cookies();
+    const sessionCookie = cookieStore.get(DONOR_PORTAL.COOKIE_NAME);
+
+    if (!sessionCookie) {
+      return null;
+    }
+
+    const payload = decodeDonorSessionToken(sessionCookie.value);
+    if (!payload) {
+      return null;
+    }
+
+    return { email: payload.email, expires: new Date(payload.exp * 1000).toISOString() };
+  } catch (error) {
+    logger.error('Failed to read donor session cookie', error);
+    return null;
+  }
+}
+
+/**
+ * Require a donor session - throws if not logged in
+ */
+export async function requireDonorSession(): Promise<DonorSessionData> {
+  const session = await getDonorSession();
+
+  if (!session) {
+    throw new AuthenticationError(ERROR_MESSAGES.SESSION_EXPIRED);
+  }
+
+  return session;
+}
+
+/**
+ * Clear the donor session cookie (logout)
+ */
+export async function clearDonorSession(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(DONOR_PORTAL.COOKIE_NAME);
+  logger.auth('donor_logout', true);
+}
+
+/**
+ * Issue a single-use login token for a donor email
+ * Returns null (and stores nothing) when no gifts are recorded under the
+ * email, so callers can respond identically either way.
+ */
+export async function issueDonorLoginToken(
+  email: string
+): Promise<{ token: string; expiresAt: string } | null> {
+  const account = await findDonorAccount(email);
+
+  if (!account) {
+    logger.auth('donor_login_requested', false, {
+      email: logger.maskEmail(email),
+      reason: 'no_donor_account',
+    });
+    return null;
+  }
+
+  const token = randomBytes(MAGIC_LINK.TOKEN_BYTES).toString('base64url');
+  const expiresAt = new Date(Date.now() + MAGIC_LINK.TTL_MINUTES * 60 * 1000).toISOString();
+
+  await createDonorLoginToken(account.email, hashLoginToken(token), expiresAt);
+
+  logger.auth('donor_login_requested', true, { email: logger.maskEmail(email) });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Redeem a donor login token and open a donor session for its email
+ * Returns null if the token is unknown, expired or already used.
+ */
+export async function redeemDonorLoginToken(token: string): Promise<DonorSessionData | null> {
+  const email = await consumeDonorLoginToken(hashLoginToken(token));
+
+  if (!email) {
+    logger.auth('donor_login_redeemed', false, { reason: 'invalid_or_used' });
+    return null;
+  }
+
+  const session = await createDonorSession(email);
+
+  logger.auth('donor_login_redeemed', true, { email: logger.maskEmail(email) });
+
+  return session;
 }
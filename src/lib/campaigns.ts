@@ -0,0 +1,397 @@
+/**
+ * Fundraising campaigns
+ * Time-boxed appeals (year-end, Giving Tuesday) with a goal, an optional
+ * matching pledge and a public landing page at /campaigns/<slug>.
+ *
+ * Gifts are tagged with the campaign slug at checkout, and monthly renewals
+ * keep the tag. Progress counts tagged donations dated up to the campaign's
+ * last day and still marked Succeeded, in the campaign's currency. A
+ * campaign in the base currency counts gifts in every currency at their
+ * base amount; any other campaign counts only gifts in its own currency.
+ */
+
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import { recordAuditEvent, AUDIT_ACTIONS } from './audit';
+import type { AuditContext } from './audit';
+import { PAYMENT_STATUS, STRIPE } from './constants';
+import { donationBaseAmount } from './currency';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Campaign {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  goalAmount: number;
+  /** Uppercase ISO code */
+  currency: string;
+  /** YYYY-MM-DD */
+  startsOn: string;
+  /** Last day gifts are accepted (YYYY-MM-DD, inclusive) */
+  endsOn: string;
+  /** Matching pledge cap; null when there is no match */
+  matchAmount: number | null;
+  matchSponsor: string | null;
+  createdAt: string;
+}
+
+export interface CampaignInput {
+  slug: string;
+  title: string;
+  description: string | null;
+  goalAmount: number;
+  currency: string;
+  startsOn: string;
+  endsOn: string;
+  matchAmount: number | null;
+  matchSponsor: string | null;
+}
+
+export type CampaignChanges = Partial<Omit<CampaignInput, 'slug'>>;
+
+export type CampaignStatus = 'upcoming' | 'active' | 'ended';
+
+export interface CampaignProgress {
+  status: CampaignStatus;
+  /** Succeeded gifts in the campaign currency */
+  raised: number;
+  giftCount: number;
+  donorCount: number;
+  /** Matching funds earned so far (raised, capped at the pledge) */
+  matched: number;
+  /** Raised plus matched */
+  total: number;
+  /** 0-100, rounded down */
+  percentOfGoal: number;
+  /** Whole days left including today; 0 once ended */
+  daysRemaining: number;
+}
+
+interface SupabaseCampaignRow {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  goal_amount: number | string;
+  currency: string;
+  starts_on: string;
+  ends_on: string;
+  match_amount: number | string | null;
+  match_sponsor: string | null;
+  created_at: string;
+}
+
+interface SupabaseCampaignGiftRow {
+  donation_amount: number | string;
+  base_amount: number | string | null;
+  currency: string;
+  donor_id: string | null;
+  donor_email_at_donation: string | null;
+}
+
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toCampaign(row: SupabaseCampaignRow): Campaign {
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title,
+    description: row.description,
+    goalAmount: Number(row.goal_amount),
+    currency: (row.currency || 'usd').toUpperCase(),
+    startsOn: row.starts_on,
+    endsOn: row.ends_on,
+    matchAmount: row.match_amount === null ? null : Number(row.match_amount),
+    matchSponsor: row.match_sponsor,
+    createdAt: row.created_at,
+  };
+}
+
+function toCampaignRow(changes: CampaignChanges): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  if (changes.title !== undefined) row.title = changes.title;
+  if (changes.description !== undefined) row.description = changes.description;
+  if (changes.goalAmount !== undefined) row.goal_amount = changes.goalAmount;
+  if (changes.currency !== undefined) row.currency = changes.currency.toLowerCase();
+  if (changes.startsOn !== undefined) row.starts_on = changes.startsOn;
+  if (changes.endsOn !== undefined) row.ends_on = changes.endsOn;
+  if (changes.matchAmount !== undefined) row.match_amount = changes.matchAmount;
+  if (changes.matchSponsor !== undefined) row.match_sponsor = changes.matchSponsor;
+
+  return row;
+}
+
+/**
+ * Whether a campaign is accepting gifts, judged by UTC calendar date
+ */
+export function getCampaignStatus(campaign: Campaign, now: Date = new Date()): CampaignStatus {
+  const today = now.toISOString().slice(0, 10);
+
+  if (today < campaign.startsOn) return 'upcoming';
+  if (today > campaign.endsOn) return 'ended';
+  return 'active';
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Create a campaign
+ * Returns null if the slug is already taken.
+ */
+export async function createCampaign(input: CampaignInput, audit: AuditContext): Promise<Campaign | null> {
+  logger.dbQuery('campaigns', 'create', { slug: input.slug });
+
+  const timer = startTimer('createCampaign');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('campaigns')
+      .insert({ slug: input.slug, ...toCampaignRow(input) })
+      .select()
+      .single();
+
+    timer.end();
+
+    if (error) {
+      // 23505 = unique_violation: the slug is taken
+      if (error.code === '23505') {
+        return null;
+      }
+      logger.dbError('campaigns', 'create', error);
+      throw new DatabaseError('Failed to create campaign');
+    }
+
+    const campaign = toCampaign(data as SupabaseCampaignRow);
+
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.CAMPAIGN_CREATED,
+        targetTable: 'campaigns',
+        targetId: campaign.id,
+        before: null,
+        after: data as Record<string, unknown>,
+      },
+      audit
+    );
+
+    return campaign;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('campaigns', 'create', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Update a campaign's details
+ * The slug cannot change, since gifts are tagged with it.
+ * Returns null if no campaign has the slug.
+ */
+export async function updateCampaign(
+  slug: string,
+  changes: CampaignChanges,
+  audit: AuditContext
+): Promise<Campaign | null> {
+  logger.dbQuery('campaigns', 'update', { slug, fields: Object.keys(changes) });
+
+  const timer = startTimer('updateCampaign');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data: before } = await supabase.from('campaigns').select('*').eq('slug', slug).maybeSingle();
+
+    if (!before) {
+      timer.end();
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('campaigns')
+      .update(toCampaignRow(changes))
+      .eq('slug', slug)
+      .select()
+      .single();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('campaigns', 'update', error);
+      throw new DatabaseError('Failed to update campaign');
+    }
+
+    const campaign = toCampaign(data as SupabaseCampaignRow);
+
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.CAMPAIGN_UPDATED,
+        targetTable: 'campaigns',
+        targetId: campaign.id,
+        before: before as Record<string, unknown>,
+        after: data as Record<string, unknown>,
+      },
+      audit
+    );
+
+    return campaign;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('campaigns', 'update', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * Find a campaign by slug
+ */
+export async function findCampaignBySlug(slug: string): Promise<Campaign | null> {
+  logger.dbQuery('campaigns', 'findBySlug', { slug });
+
+  const timer = startTimer('findCampaignBySlug');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase.from('campaigns').select('*').eq('slug', slug).maybeSingle();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('campaigns', 'findBySlug', error);
+      throw new DatabaseError('Failed to find campaign');
+    }
+
+    return data ? toCampaign(data as SupabaseCampaignRow) : null;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('campaigns', 'findBySlug', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * All campaigns, most recently started first
+ */
+export async function listCampaigns(): Promise<Campaign[]> {
+  logger.dbQuery('campaigns', 'list', {});
+
+  const timer = startTimer('listCampaigns');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('*')
+      .order('starts_on', { ascending: false });
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('campaigns', 'list', error);
+      throw new DatabaseError('Failed to list campaigns');
+    }
+
+    return ((data || []) as SupabaseCampaignRow[]).map(toCampaign);
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('campaigns', 'list', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Total a campaign's succeeded gifts up to its last day and work out its
+ * progress
+ * Donors are counted once per donor record, or per email for gifts not
+ * linked to a donor.
+ */
+export async function getCampaignProgress(campaign: Campaign, now: Date = new Date()): Promise<CampaignProgress> {
+  logger.dbQuery('donations', 'findForCampaign', { slug: campaign.slug });
+
+  const timer = startTimer('getCampaignProgress');
+  const rows: SupabaseCampaignGiftRow[] = [];
+
+  try {
+    const supabase = getSupabaseClient();
+
+    // PostgREST caps each response, so read the gifts in pages
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('donations')
+        .select('donation_amount, base_amount, currency, donor_id, donor_email_at_donation')
+        .eq('campaign', campaign.slug)
+        .eq('payment_status', PAYMENT_STATUS.SUCCEEDED)
+        .lte('donation_date', campaign.endsOn)
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        timer.end();
+        logger.dbError('donations', 'findForCampaign', error);
+        throw new DatabaseError('Failed to query campaign donations');
+      }
+
+      const page = (data || []) as SupabaseCampaignGiftRow[];
+      rows.push(...page);
+
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    timer.end();
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donations', 'findForCampaign', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+
+  const inBaseCurrency = campaign.currency === STRIPE.CURRENCY.toUpperCase();
+  const gifts = inBaseCurrency
+    ? rows
+    : rows.filter((row) => (row.currency || 'usd').toUpperCase() === campaign.currency);
+  const donors = new Set(
+    gifts.map((row) => row.donor_id || row.donor_email_at_donation?.trim().toLowerCase() || null)
+  );
+  donors.delete(null);
+
+  const raised = Math.round(
+    gifts.reduce((sum, row) => sum + (inBaseCurrency ? donationBaseAmount(row) : Number(row.donation_amount)), 0) * 100
+  ) / 100;
+  const matched = campaign.matchAmount === null ? 0 : Math.min(raised, campaign.matchAmount);
+  const total = Math.round((raised + matched) * 100) / 100;
+  const status = getCampaignStatus(campaign, now);
+  const endOfCampaign = new Date(`${campaign.endsOn}T00:00:00Z`).getTime() + DAY_MS;
+
+  return {
+    status,
+    raised,
+    giftCount: gifts.length,
+    donorCount: donors.size,
+    matched,
+    total,
+    percentOfGoal: Math.min(100, Math.floor((total / campaign.goalAmount) * 100)),
+    daysRemaining: status === 'ended' ? 0 : Math.ceil((endOfCampaign - now.getTime()) / DAY_MS),
+  };
+}
@@ -24,6 +24,7 @@ export const AIRTABLE_FIELDS = {
     VISIBLE_TO_SPONSOR: 'VisibleToSponsor',
     LAST_REQUEST_AT: 'LastRequestAt',
     NEXT_REQUEST_ELIGIBLE_AT: 'NextRequestEligibleAt',
+    STRIPE_SUBSCRIPTION_ID: 'StripeSubscriptionId',
   },
 
   // Updates table
@@ -41,6 +42,13 @@ export const AIRTABLE_FIELDS = {
     PUBLISHED_AT: 'PublishedAt',
     SUBMITTED_BY: 'SubmittedBy',
     SUBMITTED_AT: 'SubmittedAt',
+    REVIEWED_BY: 'ReviewedBy',
+    REVIEWED_AT: 'ReviewedAt',
+    INTAKE_SOURCE: 'IntakeSource',
+    PAYLOAD: 'Payload', // Intake form answers, used to prefill a resubmission
+    CORRECTION_NOTES: 'CorrectionNotes',
+    SUPERSEDES_UPDATE: 'SupersedesUpdate', // Published update this version corrects
+    SUPERSEDED_BY: 'SupersededBy',
   },
 
   // Donors table
@@ -51,6 +59,7 @@ export const AIRTABLE_FIELDS = {
     PHONE_NUMBER: 'Phone Number',
     MAILING_ADDRESS: 'Mailing Address',
     STRIPE_CUSTOMER_ID: 'Stripe Customer ID',
+    RECURRING_STATUS: 'Recurring Status',
   },
 
   // Donations table
@@ -72,6 +81,21 @@ export const AIRTABLE_FIELDS = {
     STATE: 'State',
     POSTAL_CODE: 'Postal Code',
     COUNTRY: 'Country',
+    FUND: 'Fund',
+    CAMPAIGN: 'Campaign',
+    TRIBUTE_TYPE: 'Tribute Type',
+    HONOREE_NAME: 'Honoree Name',
+    TRIBUTE_NOTIFY_NAME: 'Tribute Notify Name',
+    TRIBUTE_NOTIFY_EMAIL: 'Tribute Notify Email',
+    TRIBUTE_MESSAGE: 'Tribute Message',
+    PAYMENT_METHOD: 'Payment Method',
+    REFERENCE_NUMBER: 'Reference Number',
+    DEPOSIT_BATCH: 'Deposit Batch',
+    STRIPE_FEE: 'Stripe Fee',
+    REFUND_DATE: 'Refund Date',
+    COVERED_FEE: 'Covered Fee',
+    BASE_AMOUNT: 'Base Amount',
+    EXCHANGE_RATE: 'Exchange Rate',
   },
 
   // Children table (new)
@@ -154,6 +178,7 @@ export const UPDATE_STATUS = {
   PENDING_REVIEW: 'Pending Review',
   PUBLISHED: 'Published',
   REJECTED: 'Rejected',
+  NEEDS_CORRECTION: 'Needs Correction',
 } as const;
 
 // Child Update System statuses (matches Airtable single select options)
@@ -162,7 +187,7 @@ export const CHILD_UPDATE_STATUS = {
   PENDING_REVIEW: 'Pending Review',
   PUBLISHED: 'Published',
   REJECTED: 'Rejected',
-  // Optional: Add 'Needs Correction' to Airtable if you want this workflow state
+  // Sent back to the submitting role with notes and a resubmission link
   NEEDS_CORRECTION: 'Needs Correction',
 } as const;
 
@@ -171,6 +196,89 @@ export const SOURCE_TYPE = {
   ACADEMIC: 'academic',
 } as const;
 
+// Answer options on the field update form (see WellbeingStatus, EngagementStatus)
+export const WELLBEING_OPTIONS = ['Excellent', 'Good', 'Okay', 'Needs attention'] as const;
+export const ENGAGEMENT_OPTIONS = ['Very engaged', 'Engaged', 'Inconsistent', 'Not engaged'] as const;
+
+// Subjects graded on the academic form, in chart order
+export const ACADEMIC_SUBJECTS = [
+  { key: 'english', field: 'englishGrade', label: 'English' },
+  { key: 'math', field: 'mathGrade', label: 'Math' },
+  { key: 'science', field: 'scienceGrade', label: 'Science' },
+  { key: 'socialStudies', field: 'socialStudiesGrade', label: 'Social Studies' },
+] as const;
+
+// Safeguarding check run before an update is published. Child-protection
+// policy: no surnames, exact villages, school names, phone numbers or GPS
+// data in sponsor-facing content. Admins add terms in safeguarding_rules.
+export const SAFEGUARDING = {
+  // Form answers that reach sponsors, checked along with the title and content
+  SCANNED_FIELDS: ['sponsorNarrative', 'positiveHighlight', 'challenge', 'teacherComment'],
+  REDACTION: '[redacted]',
+  MIN_OVERRIDE_REASON_LENGTH: 10,
+  CATEGORIES: ['surname', 'village', 'school', 'phone', 'gps', 'other'],
+  // Built-in regular expressions; case-sensitive rules rely on capitalised place names
+  RULES: [
+    {
+      id: 'phone-number',
+      label: 'Phone number',
+      category: 'phone',
+      pattern: '(?:\\+|\\b)\\d(?:[\\s-]?\\d){8,13}\\b',
+      caseSensitive: false,
+    },
+    {
+      id: 'gps-decimal',
+      label: 'GPS coordinates',
+      category: 'gps',
+      pattern: '-?\\b\\d{1,3}\\.\\d{3,}\\s*[,;]\\s*-?\\d{1,3}\\.\\d{3,}\\b',
+      caseSensitive: false,
+    },
+    {
+      id: 'gps-degrees',
+      label: 'GPS coordinates',
+      category: 'gps',
+      pattern: '\\b\\d{1,3}\\s*°\\s*\\d{1,2}\\s*[\'′]',
+      caseSensitive: false,
+    },
+    {
+      id: 'gps-words',
+      label: 'Location data',
+      category: 'gps',
+      pattern: '\\b(?:GPS|latitude|longitude|lat/long|coordinates)\\b',
+      caseSensitive: false,
+    },
+    {
+      id: 'school-name',
+      label: 'School name',
+      category: 'school',
+      pattern:
+        '\\b(?!(?:The|Her|His|Their|Our|This|That|At|In|To|From|After|Before|New|Local|Primary|Secondary)\\s)(?:[A-Z][\\w.\'’-]*\\s+){1,4}(?:Primary|Secondary|Nursery|Junior|High|Vocational)?\\s*(?:School|College|Academy)\\b',
+      caseSensitive: true,
+    },
+    {
+      id: 'village-name',
+      label: 'Village or parish',
+      category: 'village',
+      pattern:
+        '\\b(?!(?:The|Her|His|Their|Our|This|That|At|In|To|From|Home|Local|Same|Next)\\s)[A-Z][\\w\'’-]+\\s+(?:[Vv]illage|[Pp]arish|[Ss]ub-?[Cc]ounty|[Tt]rading [Cc]entre)\\b|\\b(?:[Vv]illage|[Pp]arish|[Ss]ub-?[Cc]ounty)\\s+(?:of\\s+)?[A-Z][\\w\'’-]+',
+      caseSensitive: true,
+    },
+  ],
+} as const;
+
+// Photo processing applied before any image is stored. Metadata (EXIF,
+// including phone GPS coordinates) is always stripped; sponsors get the web
+// size, lists use the thumbnail.
+export const PHOTO_PROCESSING = {
+  WEB_MAX_DIMENSION: 1600,
+  THUMBNAIL_MAX_DIMENSION: 400,
+  JPEG_QUALITY: 82,
+  THUMBNAIL_PREFIX: 'thumb_',
+  // Guards against decompression bombs; a 48 MP phone photo is ~48M pixels
+  MAX_INPUT_PIXELS: 100000000,
+  ACCEPTED_FORMATS: ['jpeg', 'png', 'webp', 'heif', 'gif', 'tiff', 'avif'],
+} as const;
+
 export const CHILD_STATUS = {
   ACTIVE: 'active',
   INACTIVE: 'inactive',
@@ -185,6 +293,29 @@ export const ROLE_EMAILS = {
   ADMIN: 'admin@beanumber.org',
 } as const;
 
+// Google Forms bridges that submit through the intake endpoint.
+// Each source signs with its own secret so it can be revoked independently.
+export const INTAKE_SOURCES = {
+  FIELD_FORM: 'field-form',
+  ACADEMIC_FORM: 'academic-form',
+} as const;
+
+// The only source type each intake source may submit
+export const INTAKE_SOURCE_TYPES = {
+  [INTAKE_SOURCES.FIELD_FORM]: SOURCE_TYPE.FIELD,
+  [INTAKE_SOURCES.ACADEMIC_FORM]: SOURCE_TYPE.ACADEMIC,
+} as const;
+
+export const INTAKE_SIGNATURE = {
+  SOURCE_HEADER: 'X-Intake-Source',
+  TIMESTAMP_HEADER: 'X-Intake-Timestamp',
+  NONCE_HEADER: 'X-Intake-Nonce',
+  SIGNATURE_HEADER: 'X-Intake-Signature',
+  // Requests signed further than this from server time are rejected,
+  // and nonces only need to be remembered for this long
+  MAX_AGE_SECONDS: 300,
+} as const;
+
 export const UPDATE_TYPES = {
   PROGRESS_REPORT: 'Progress Report',
   PHOTO_UPDATE: 'Photo Update',
@@ -198,6 +329,73 @@ export const PAYMENT_STATUS = {
   PENDING: 'Pending',
   FAILED: 'Failed',
   REFUNDED: 'Refunded',
+  DISPUTED: 'Disputed',
+} as const;
+
+// Where a donation record came from
+export const DONATION_SOURCE = {
+  WEBSITE: 'Website',
+  MANUAL_ENTRY: 'Manual Entry',
+} as const;
+
+// How an offline (non-Stripe) gift was paid
+export const OFFLINE_PAYMENT_METHODS = {
+  CHECK: 'Check',
+  CASH: 'Cash',
+  BANK_TRANSFER: 'Bank Transfer',
+} as const;
+
+// Whether a donor's monthly giving is still running
+export const DONOR_RECURRING_STATUS = {
+  ACTIVE: 'Active',
+  LAPSED: 'Lapsed',
+} as const;
+
+// Programs a donor can restrict a gift to; undesignated gifts go to the general fund
+export const DONATION_FUNDS = {
+  GENERAL: 'general',
+  MEDICAL_OUTREACH: 'medical_outreach',
+  WOMENS_TRAINING: 'womens_training',
+  CHILD_SPONSORSHIP: 'child_sponsorship',
+} as const;
+
+export const DONATION_FUND_LABELS = {
+  [DONATION_FUNDS.GENERAL]: 'Where Most Needed',
+  [DONATION_FUNDS.MEDICAL_OUTREACH]: 'Medical Outreach',
+  [DONATION_FUNDS.WOMENS_TRAINING]: "Women's Vocational Training",
+  [DONATION_FUNDS.CHILD_SPONSORSHIP]: 'Child Sponsorship',
+} as const;
+
+// Currencies a donor can give in at checkout
+export const DONATION_CURRENCIES = {
+  USD: 'usd',
+  GBP: 'gbp',
+  UGX: 'ugx',
+} as const;
+
+export const DONATION_CURRENCY_LABELS = {
+  [DONATION_CURRENCIES.USD]: 'US Dollars (USD)',
+  [DONATION_CURRENCIES.GBP]: 'British Pounds (GBP)',
+  [DONATION_CURRENCIES.UGX]: 'Ugandan Shillings (UGX)',
+} as const;
+
+// A gift made in someone's name; the notify recipient gets a card without the amount
+export const TRIBUTE_TYPES = {
+  HONOR: 'honor',
+  MEMORY: 'memory',
+} as const;
+
+export const TRIBUTE_TYPE_LABELS = {
+  [TRIBUTE_TYPES.HONOR]: 'In honor of',
+  [TRIBUTE_TYPES.MEMORY]: 'In memory of',
+} as const;
+
+// Payment-failed email sequence for a failed subscription invoice
+export const DUNNING_STATUS = {
+  ACTIVE: 'active',
+  RECOVERED: 'recovered',
+  ESCALATED: 'escalated',
+  CANCELED: 'canceled',
 } as const;
 
 // ============================================================================
@@ -206,10 +404,36 @@ export const PAYMENT_STATUS = {
 
 export const SESSION = {
   COOKIE_NAME: 'sponsor_session',
-  MAX_AGE: 30 * 24 * 60 * 60, // 30 days in seconds
+  MAX_AGE: 30 * 24 * 60 * 60, // 30 days in seconds (rolling, extended on activity)
+  ABSOLUTE_MAX_AGE: 90 * 24 * 60 * 60, // 90 days in seconds (hard cap from login)
+  REFRESH_AFTER: 24 * 60 * 60, // Re-issue the cookie at most once a day (seconds)
+  TOKEN_VERSION: 'v1',
   PATH: '/',
 } as const;
 
+export const MAGIC_LINK = {
+  TOKEN_BYTES: 32,
+  TTL_MINUTES: 15,
+  VERIFY_PATH: '/sponsor/login/verify',
+} as const;
+
+// Emailed to field staff when a reviewer sends an update back for correction
+export const RESUBMISSION_LINK = {
+  TOKEN_BYTES: 32,
+  TTL_DAYS: 14,
+  PATH: '/updates/resubmit',
+} as const;
+
+// Donor portal sessions are separate from sponsor sessions and do not roll
+export const DONOR_PORTAL = {
+  COOKIE_NAME: 'donor_session',
+  SESSION_MAX_AGE: 7 * 24 * 60 * 60, // 7 days in seconds
+  TOKEN_VERSION: 'v1',
+  LOGIN_PATH: '/donor/login',
+  VERIFY_PATH: '/donor/login/verify',
+  PORTAL_PATH: '/donor',
+} as const;
+
 export const SPONSOR_CODE_PATTERN = /^BAN-\d{4}-\d{3}$/;
 
 // ============================================================================
@@ -240,6 +464,11 @@ export const RATE_LIMITS = {
     maxRequests: 3,
     windowMs: 24 * 60 * 60 * 1000, // 24 hours
   },
+
+  MAGIC_LINK_REQUEST: {
+    maxRequests: 3,
+    windowMs: 15 * 60 * 1000, // 15 minutes
+  },
 } as const;
 
 // ============================================================================
@@ -247,11 +476,14 @@ export const RATE_LIMITS = {
 // ============================================================================
 
 export const STRIPE = {
+  // Settlement (base) currency: Stripe pays out in it, and reports and
+  // exports convert every gift to it
   CURRENCY: 'usd',
   API_VERSION: '2025-12-15.clover' as const,
 
   WEBHOOK_EVENTS: {
     CHECKOUT_COMPLETED: 'checkout.session.completed',
+    CHECKOUT_EXPIRED: 'checkout.session.expired',
     SUBSCRIPTION_CREATED: 'customer.subscription.created',
     SUBSCRIPTION_UPDATED: 'customer.subscription.updated',
     INVOICE_PAYMENT_SUCCEEDED: 'invoice.payment_succeeded',
@@ -261,6 +493,107 @@ export const STRIPE = {
     PAYMENT: 'payment',
     SUBSCRIPTION: 'subscription',
   },
+
+  // Fee formula used when a donor chooses to cover processing fees; match it
+  // to the account's card pricing (2.2% + 30¢ once the nonprofit rate applies).
+  // The fixed part is in each donation currency's smallest unit, roughly 30¢.
+  FEE_COVERAGE: {
+    PERCENT: 2.9,
+    FIXED_MINOR_UNITS: {
+      usd: 30,
+      gbp: 25,
+      ugx: 1100,
+    },
+  },
+} as const;
+
+// ============================================================================
+// SPONSORSHIP CHECKOUT
+// ============================================================================
+
+export const SPONSORSHIP_CHECKOUT = {
+  // Monthly sponsorship amount in dollars.
+  // Override with SPONSORSHIP_MONTHLY_AMOUNT.
+  DEFAULT_MONTHLY_AMOUNT: 35,
+  // How long the Stripe Checkout session stays open. Stripe's minimum is 30;
+  // the extra minute covers the time the request takes to reach Stripe
+  SESSION_MINUTES: 31,
+  // The child stays held this much longer than the session, so a completion
+  // webhook that arrives late still finds its hold
+  HOLD_GRACE_MINUTES: 10,
+} as const;
+
+// ============================================================================
+// DUNNING
+// ============================================================================
+
+export const DUNNING = {
+  // Days after the first failed payment on which the sponsor is emailed.
+  // Override with DUNNING_SCHEDULE_DAYS (e.g. "0,3,7").
+  DEFAULT_SCHEDULE_DAYS: [0, 3, 7],
+  // Cases processed per cron run
+  BATCH_SIZE: 50,
+  // Version prefix for signed billing-portal link tokens
+  LINK_TOKEN_VERSION: 'v1',
+  // Emailed billing-portal links stop working this long after the first failure
+  LINK_MAX_AGE_DAYS: 60,
+} as const;
+
+// ============================================================================
+// ACCOUNTING EXPORT
+// ============================================================================
+
+export const ACCOUNTING_EXPORT_FORMATS = {
+  JOURNAL: 'journal',
+  QUICKBOOKS_IIF: 'quickbooks_iif',
+  QUICKBOOKS_CSV: 'quickbooks_csv',
+  XERO: 'xero',
+} as const;
+
+export const ACCOUNTING = {
+  // Account names written to the exports; rename to match the chart of
+  // accounts before the first import. Restricted funds post to a sub-account
+  // of DONATION_INCOME named after the fund label.
+  ACCOUNTS: {
+    DONATION_INCOME: 'Contributions Income',
+    PROCESSING_FEES: 'Merchant Processing Fees',
+    STRIPE_CLEARING: 'Stripe Clearing',
+    UNDEPOSITED_FUNDS: 'Undeposited Funds',
+  },
+  // Longest range one export may cover
+  MAX_RANGE_DAYS: 366,
+} as const;
+
+// ============================================================================
+// DONOR ANALYTICS
+// ============================================================================
+
+// Tables a donor analytics report can be downloaded as (CSV)
+export const DONOR_ANALYTICS_TABLES = {
+  RETENTION: 'retention',
+  COHORTS: 'cohorts',
+  LAPSED: 'lapsed',
+} as const;
+
+export const DONOR_ANALYTICS = {
+  DEFAULT_YEARS: 5,
+  MAX_YEARS: 20,
+  // A monthly donor counts as active on a date if a recurring gift succeeded
+  // within this many days before it (one missed month covers Stripe's retries)
+  RECURRING_ACTIVE_DAYS: 62,
+} as const;
+
+// ============================================================================
+// ORGANIZATION
+// ============================================================================
+
+// Legal details printed on tax receipts
+export const ORGANIZATION = {
+  LEGAL_NAME: 'Be A Number, International',
+  EIN: '46-2612870',
+  TAX_STATUS: '501(c)(3)',
+  WEBSITE: 'www.beanumber.org',
+  CONTACT_EMAIL: 'info@beanumber.org',
 } as const;
 
 // ============================================================================
@@ -276,6 +609,7 @@ export const EMAIL = {
     NEW_UPDATE_NOTIFICATION: 'new-update',
     DONATION_RECEIPT: 'donation-receipt',
     UPDATE_REQUEST_CONFIRMATION: 'update-request-confirmation',
+    SPONSOR_MAGIC_LINK: 'sponsor-magic-link',
   },
 } as const;
 
@@ -289,6 +623,11 @@ export const VALIDATION = {
   DONATION: {
     MIN_AMOUNT: 1,
     MAX_AMOUNT: 1000000,
+    // Limits for gifts in other donation currencies, in that currency
+    BY_CURRENCY: {
+      gbp: { MIN_AMOUNT: 1, MAX_AMOUNT: 800000 },
+      ugx: { MIN_AMOUNT: 4000, MAX_AMOUNT: 99999999 }, // Stripe's largest UGX charge
+    },
   },
 
   UPDATE: {
@@ -297,6 +636,12 @@ export const VALIDATION = {
     CONTENT_MIN_LENGTH: 10,
     CONTENT_MAX_LENGTH: 10000,
   },
+
+  // Stripe caps each metadata value at 500 characters
+  TRIBUTE: {
+    NAME_MAX_LENGTH: 200,
+    MESSAGE_MAX_LENGTH: 500,
+  },
 } as const;
 
 // ============================================================================
@@ -309,22 +654,48 @@ export const ROUTES = {
   SPONSORSHIP: '/sponsorship',
   SPONSOR_LOGIN: '/sponsor/login',
   SPONSOR_DASHBOARD: (code: string) => `/sponsor/${code}`,
+  DONOR_LOGIN: '/donor/login',
+  DONOR_PORTAL: '/donor',
+  CAMPAIGN: (slug: string) => `/campaigns/${slug}`,
   DONATE_SUCCESS: '/donate/success',
   ADMIN_DASHBOARD: '/admin/dashboard',
   ADMIN_UPDATES_SUBMIT: '/admin/updates/submit',
+  ADMIN_UPDATES_VERSIONS: '/admin/updates/versions',
 
   API: {
     SPONSOR_VERIFY: '/api/sponsor/verify',
+    SPONSOR_MAGIC_LINK: '/api/sponsor/magic-link',
+    SPONSOR_MAGIC_LINK_VERIFY: '/api/sponsor/magic-link/verify',
     SPONSOR_LOGOUT: '/api/sponsor/logout',
     SPONSOR_UPDATES: '/api/sponsor/updates',
+    SPONSOR_ACADEMIC_PROGRESS: '/api/sponsor/academic-progress',
     SPONSOR_REQUEST_UPDATE: '/api/sponsor/request-update',
+    DONOR_MAGIC_LINK: '/api/donor/magic-link',
+    DONOR_MAGIC_LINK_VERIFY: '/api/donor/magic-link/verify',
+    DONOR_LOGOUT: '/api/donor/logout',
+    DONOR_GIVING: '/api/donor/giving',
+    DONOR_RECEIPT: '/api/donor/receipt',
+    DONOR_PROFILE: '/api/donor/profile',
+    DONOR_BILLING_PORTAL: '/api/donor/billing-portal',
     SPONSORSHIP_AVAILABLE: '/api/sponsorship/available',
     SPONSORSHIP_CREATE: '/api/sponsorship/create',
+    SPONSORSHIP_CHECKOUT: '/api/sponsorship/checkout',
+    SPONSORSHIP_CHECKOUT_RELEASE: '/api/sponsorship/checkout/release',
     ADMIN_UPDATES_SUBMIT: '/api/admin/updates/submit',
     ADMIN_UPDATES_LIST: '/api/admin/updates/list',
     ADMIN_UPDATES_PUBLISH: '/api/admin/updates/publish',
+    ADMIN_UPDATES_PUBLISHED: '/api/admin/updates/published',
+    ADMIN_UPDATES_CORRECT: '/api/admin/updates/correct',
+    ADMIN_UPDATES_VERSIONS: '/api/admin/updates/versions',
+    ADMIN_CHILD_UPDATE_STATUS: '/api/admin/child-updates/status',
+    ADMIN_SAFEGUARDING_RULES: '/api/admin/safeguarding/rules',
+    ADMIN_SAFEGUARDING_RULES_SAVE: '/api/admin/safeguarding/rules/save',
+    CHILD_UPDATE_CORRECTION: '/api/child-updates/correction',
+    CHILD_UPDATE_RESUBMIT: '/api/child-updates/resubmit',
+    CAMPAIGN_PROGRESS: '/api/campaigns',
     CREATE_CHECKOUT: '/api/create-checkout',
     STRIPE_WEBHOOK: '/api/webhooks/stripe',
+    BILLING_PORTAL: '/api/billing-portal',
   },
 } as const;
 
@@ -338,6 +709,9 @@ export const ERROR_MESSAGES = {
   ACCOUNT_INACTIVE: 'Your sponsor account is not active. Please contact us for assistance.',
   ACCOUNT_NOT_VISIBLE: 'Your sponsor account is not accessible. Please contact us for assistance.',
   SESSION_EXPIRED: 'Your session has expired. Please log in again.',
+  MAGIC_LINK_INVALID: 'This login link is invalid, has expired, or has already been used. Please request a new one.',
+  BILLING_PORTAL_LINK_INVALID: 'This payment update link is invalid or has expired. Please reply to our email and we will send a new one.',
+  RESUBMISSION_LINK_INVALID: 'This correction link is invalid, has expired, or has already been used. Please ask the admin team for a new one.',
   UNAUTHORIZED: 'You are not authorized to access this resource.',
 
   // Validation errors
@@ -359,6 +733,7 @@ export const ERROR_MESSAGES = {
 
   // Not found
   SPONSORSHIP_NOT_FOUND: 'Sponsorship not found.',
+  CHILD_NOT_AVAILABLE: 'This child has just been chosen by another sponsor. Please choose another child.',
   UPDATE_NOT_FOUND: 'Update not found.',
 } as const;
 
@@ -369,6 +744,8 @@ export const ERROR_MESSAGES = {
 export const SUCCESS_MESSAGES = {
   LOGIN_SUCCESS: 'Successfully logged in!',
   LOGOUT_SUCCESS: 'Successfully logged out.',
+  MAGIC_LINK_SENT: 'If that email belongs to an active sponsor, a login link is on its way. It expires in 15 minutes.',
+  DONOR_LOGIN_LINK_SENT: 'If we have gifts recorded under that email, a login link is on its way. It expires in 15 minutes.',
   UPDATE_REQUESTED: 'Your update request has been submitted. You will receive an update within 2-3 weeks.',
   UPDATE_SUBMITTED: 'Update submitted successfully for review.',
   DONATION_SUCCESS: 'Thank you for your generous donation!',
@@ -406,3 +783,11 @@ export const ADMIN = {
   AUTH_HEADER: 'X-Admin-Token',
   SESSION_COOKIE: 'admin_session',
 } as const;
+
+export const ADMIN_ROLES = {
+  OWNER: 'owner',
+  REVIEWER: 'reviewer',
+  FIELD_COORDINATOR: 'field_coordinator',
+  FINANCE: 'finance',
+  READ_ONLY: 'read_only',
+} as const;
@@ -0,0 +1,76 @@
+/**
+ * Donation currencies
+ * Donors can give in any of DONATION_CURRENCIES. Stripe takes amounts in
+ * each currency's smallest unit (cents, pence, whole shillings), and the
+ * webhook records every gift with its value in the base currency
+ * (STRIPE.CURRENCY) at the exchange rate Stripe used, so reports and
+ * exports can add gifts up across currencies.
+ *
+ * Shared by the donation form and the server, so it must stay free of
+ * server-only imports.
+ */
+
+import { DONATION_CURRENCIES } from './constants';
+
+export type DonationCurrency = (typeof DONATION_CURRENCIES)[keyof typeof DONATION_CURRENCIES];
+
+// Currencies Stripe takes in whole units rather than hundredths
+const ZERO_DECIMAL_CURRENCIES: readonly string[] = [DONATION_CURRENCIES.UGX];
+
+export function isDonationCurrency(value: unknown): value is DonationCurrency {
+  return typeof value === 'string' && (Object.values(DONATION_CURRENCIES) as string[]).includes(value);
+}
+
+/**
+ * Amount in Stripe's smallest unit for the currency (e.g. $12.50 -> 1250)
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase()) ? Math.round(amount) : Math.round(amount * 100);
+}
+
+/**
+ * Amount from Stripe's smallest unit for the currency (e.g. 1250 -> $12.50)
+ */
+export function fromMinorUnits(minorUnits: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase()) ? minorUnits : minorUnits / 100;
+}
+
+/**
+ * Amount with its currency symbol, e.g. "$25.00", "£25.00" or "UGX 50,000"
+ */
+export function formatCurrencyAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency.toUpperCase()}`;
+  }
+}
+
+/**
+ * Convert an amount to the base currency at Stripe's exchange rate, to the cent
+ */
+export function toBaseAmount(amount: number, exchangeRate: number): number {
+  return Math.round(amount * exchangeRate * 100) / 100;
+}
+
+/**
+ * A donation's gift in the base currency. Gifts recorded before donations
+ * could be made in other currencies have no base amount; those were all
+ * charged in the base currency, so the gift itself is used.
+ */
+export function donationBaseAmount(row: {
+  donation_amount: number | string;
+  base_amount?: number | string | null;
+}): number {
+  return Number(row.base_amount ?? row.donation_amount);
+}
+
+/**
+ * The processing fee a donor covered, in the base currency
+ */
+export function coveredFeeBaseAmount(row: {
+  covered_fee?: number | string | null;
+  exchange_rate?: number | string | null;
+}): number {
+  return toBaseAmount(Number(row.covered_fee || 0), Number(row.exchange_rate ?? 1));
+}
@@ -3,6 +3,7 @@
  * Replaces Airtable with same function signatures for backward compatibility
  */
 
+import { randomUUID } from 'crypto';
 import { getSupabaseClient } from './supabase';
 import { logger, startTimer } from './logger';
 import { DatabaseError } from './errors';
@@ -14,6 +15,10 @@ import type {
   ChildProfile,
   SponsorUpdate,
 } from './types/airtable';
+import type { AdminRole, AdminUser } from './types/admin';
+import type { StoredUpdatePayload } from './types/child-update';
+import { recordAuditEvent, AUDIT_ACTIONS } from './audit';
+import type { AuditContext } from './audit';
 
 // ============================================================================
 // TYPE CONVERSIONS (Supabase row → Airtable-compatible record)
@@ -43,6 +48,9 @@ interface SupabaseSponsorshipRow {
   visible_to_sponsor: boolean;
   last_request_at: string | null;
   next_request_eligible_at: string | null;
+  stripe_subscription_id: string | null;
+  checkout_hold_id: string | null;
+  checkout_hold_expires_at: string | null;
   created_at: string;
 }
 
@@ -61,14 +69,22 @@ interface SupabaseUpdateRow {
     type: string;
     width?: number;
     height?: number;
+    thumbnail?: { id: string; url: string; width: number; height: number };
   }> | null;
-  status: 'Pending Review' | 'Published' | 'Rejected';
+  status: 'Pending Review' | 'Published' | 'Rejected' | 'Needs Correction';
   visible_to_sponsor: boolean;
   requested_by_sponsor: boolean | null;
   requested_at: string | null;
   published_at: string | null;
   submitted_by: string | null;
   submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  intake_source: string | null;
+  payload: StoredUpdatePayload | null;
+  correction_notes: string | null;
+  supersedes_update: string | null;
+  superseded_by: string | null;
   created_at: string;
 }
 
@@ -90,6 +106,9 @@ function toAirtableSponsorshipRecord(row: SupabaseSponsorshipRow): AirtableSpons
       VisibleToSponsor: row.visible_to_sponsor,
       LastRequestAt: row.last_request_at || undefined,
       NextRequestEligibleAt: row.next_request_eligible_at || undefined,
+      StripeSubscriptionId: row.stripe_subscription_id || undefined,
+      CheckoutHoldId: row.checkout_hold_id || undefined,
+      CheckoutHoldExpiresAt: row.checkout_hold_expires_at || undefined,
     },
     createdTime: row.created_at,
   };
@@ -112,11 +131,35 @@ function toAirtableUpdateRecord(row: SupabaseUpdateRow): AirtableUpdateRecord {
       PublishedAt: row.published_at || undefined,
       SubmittedBy: row.submitted_by || undefined,
       SubmittedAt: row.submitted_at || undefined,
+      ReviewedBy: row.reviewed_by || undefined,
+      ReviewedAt: row.reviewed_at || undefined,
+      IntakeSource: row.intake_source || undefined,
+      Payload: row.payload || undefined,
+      CorrectionNotes: row.correction_notes || undefined,
+      SupersedesUpdate: row.supersedes_update || undefined,
+      SupersededBy: row.superseded_by || undefined,
     },
     createdTime: row.created_at,
   };
 }
 
+/**
+ * Read a row's current state for an audit before/after diff
+ * Failures return null rather than blocking the mutation being audited.
+ */
+async function fetchRowForAudit(
+  table: string,
+  id: string
+): Promise<Record<string, unknown> | null> {
+  try {
+    const supabase = getSupabaseClient();
+    const { data } = await supabase.from(table).select('*').eq('id', id).single();
+    return (data as Record<string, unknown>) || null;
+  } catch {
+    return null;
+  }
+}
+
 // ============================================================================
 // SPONSORSHIPS QUERIES
 // ============================================================================
@@ -203,6 +246,44 @@ export async function findSponsorshipByCode(
   }
 }
 
+/**
+ * Find all active sponsorships for an email (for magic-link login)
+ */
+export async function findActiveSponsorshipsByEmail(
+  email: string
+): Promise<AirtableSponsorshipRecord[]> {
+  logger.dbQuery('sponsorships', 'findActiveByEmail', {
+    email: logger.maskEmail(email),
+  });
+
+  const timer = startTimer('findActiveSponsorshipsByEmail');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('sponsorships')
+      .select('*')
+      .eq('sponsor_email', email)
+      .eq('auth_status', AUTH_STATUS.ACTIVE)
+      .eq('visible_to_sponsor', true)
+      .order('sponsor_code', { ascending: true });
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('sponsorships', 'findActiveByEmail', error);
+      throw new DatabaseError('Failed to find sponsorships');
+    }
+
+    return (data || []).map((row) => toAirtableSponsorshipRecord(row as SupabaseSponsorshipRow));
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('sponsorships', 'findActiveByEmail', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
 /**
  * Update sponsorship request tracking fields
  */
@@ -239,6 +320,93 @@ export async function updateSponsorshipRequestTracking(
   }
 }
 
+/**
+ * Find sponsorships funded by a Stripe subscription
+ */
+export async function findSponsorshipsBySubscriptionId(
+  subscriptionId: string
+): Promise<AirtableSponsorshipRecord[]> {
+  logger.dbQuery('sponsorships', 'findBySubscriptionId', { subscriptionId });
+
+  const timer = startTimer('findSponsorshipsBySubscriptionId');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('sponsorships')
+      .select('*')
+      .eq('stripe_subscription_id', subscriptionId);
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('sponsorships', 'findBySubscriptionId', error);
+      throw new DatabaseError('Failed to find sponsorships for subscription');
+    }
+
+    return (data || []).map((row) => toAirtableSponsorshipRecord(row as SupabaseSponsorshipRow));
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('sponsorships', 'findBySubscriptionId', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Set a sponsorship's lifecycle status (Active, Paused, Ended)
+ */
+export async function updateSponsorshipStatus(
+  recordId: string,
+  status: NonNullable<SupabaseSponsorshipRow['status']>,
+  audit?: AuditContext,
+  metadata?: Record<string, unknown>
+): Promise<AirtableSponsorshipRecord> {
+  logger.dbQuery('sponsorships', 'updateStatus', { recordId, status });
+
+  const timer = startTimer('updateSponsorshipStatus');
+
+  try {
+    const supabase = getSupabaseClient();
+    const before = await fetchRowForAudit('sponsorships', recordId);
+    const { data, error } = await supabase
+      .from('sponsorships')
+      .update({ status })
+      .eq('id', recordId)
+      .select()
+      .single();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('sponsorships', 'updateStatus', error);
+      throw new DatabaseError('Failed to update sponsorship status');
+    }
+
+    const row = data as SupabaseSponsorshipRow;
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.SPONSORSHIP_STATUS_CHANGED,
+        targetTable: 'sponsorships',
+        targetId: recordId,
+        childId: row.child_id,
+        sponsorCode: row.sponsor_code,
+        before,
+        after: data,
+        metadata,
+      },
+      audit
+    );
+
+    return toAirtableSponsorshipRecord(row);
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('sponsorships', 'updateStatus', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
 /**
  * Transform sponsorship record to child profile
  */
@@ -268,6 +436,7 @@ export function sponsorshipToChildProfile(
 
 /**
  * Find updates for a child
+ * Only the newest version of a corrected update is returned.
  */
 export async function findUpdatesForChild(
   childId: string
@@ -284,6 +453,7 @@ export async function findUpdatesForChild(
       .eq('child_id', childId)
       .eq('status', UPDATE_STATUS.PUBLISHED)
       .eq('visible_to_sponsor', true)
+      .is('superseded_by', null)
       .order('published_at', { ascending: false });
 
     timer.end();
@@ -361,11 +531,15 @@ export async function submitUpdate(data: {
   title: string;
   content: string;
   submittedBy: string;
+  intakeSource?: string;
+  payload?: StoredUpdatePayload;
+  photos?: NonNullable<AirtableUpdateRecord['fields']['Photos']>;
 }): Promise<AirtableUpdateRecord> {
   logger.dbQuery('updates', 'submit', {
     childId: data.childId,
     updateType: data.updateType,
     submittedBy: data.submittedBy,
+    intakeSource: data.intakeSource,
   });
 
   const timer = startTimer('submitUpdate');
@@ -388,6 +562,18 @@ export async function submitUpdate(data: {
       insertData.sponsor_code = data.sponsorCode;
     }
 
+    if (data.intakeSource) {
+      insertData.intake_source = data.intakeSource;
+    }
+
+    if (data.payload) {
+      insertData.payload = data.payload;
+    }
+
+    if (data.photos && data.photos.length > 0) {
+      insertData.photos = data.photos;
+    }
+
     const { data: result, error } = await supabase
       .from('updates')
       .insert(insertData)
@@ -428,6 +614,8 @@ export function updateRecordToSponsorUpdate(
       filename: photo.filename,
     })),
     publishedAt: fields.PublishedAt,
+    // A corrected version is reviewed when the correction is published
+    updatedAt: fields.SupersedesUpdate ? fields.ReviewedAt : undefined,
     submittedBy: fields.SubmittedBy,
   };
 }
@@ -547,23 +735,35 @@ export async function getUpdateById(
 
 /**
  * Publish an update (set status to Published, make visible to sponsor)
+ * @param audit - Who is publishing; the actor is recorded as reviewed_by
+ * @param redacted - Sponsor-facing text to publish in place of the submitted text (safeguarding redaction)
  */
 export async function publishUpdate(
-  updateId: string
+  updateId: string,
+  audit?: AuditContext,
+  redacted?: { title: string; content: string; payload: StoredUpdatePayload | null }
 ): Promise<AirtableUpdateRecord> {
-  logger.dbQuery('updates', 'publish', { updateId });
+  logger.dbQuery('updates', 'publish', { updateId, actor: audit?.actor });
 
   const timer = startTimer('publishUpdate');
   const now = new Date().toISOString();
 
   try {
     const supabase = getSupabaseClient();
+    const before = await fetchRowForAudit('updates', updateId);
     const { data, error } = await supabase
       .from('updates')
       .update({
         status: UPDATE_STATUS.PUBLISHED,
         visible_to_sponsor: true,
         published_at: now,
+        reviewed_by: audit?.actor || null,
+        reviewed_at: now,
+        ...(redacted && {
+          title: redacted.title,
+          content: redacted.content,
+          payload: redacted.payload,
+        }),
       })
       .eq('id', updateId)
       .select()
@@ -576,7 +776,21 @@ export async function publishUpdate(
       throw new DatabaseError('Failed to publish update');
     }
 
-    return toAirtableUpdateRecord(data as SupabaseUpdateRow);
+    const row = data as SupabaseUpdateRow;
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.UPDATE_PUBLISHED,
+        targetTable: 'updates',
+        targetId: updateId,
+        childId: row.child_id,
+        sponsorCode: row.sponsor_code,
+        before,
+        after: data,
+      },
+      audit
+    );
+
+    return toAirtableUpdateRecord(row);
   } catch (error) {
     timer.end();
     if (error instanceof DatabaseError) throw error;
@@ -587,21 +801,27 @@ export async function publishUpdate(
 
 /**
  * Reject an update
+ * @param audit - Who is rejecting; the actor is recorded as reviewed_by
  */
 export async function rejectUpdate(
-  updateId: string
+  updateId: string,
+  audit?: AuditContext
 ): Promise<AirtableUpdateRecord> {
-  logger.dbQuery('updates', 'reject', { updateId });
+  logger.dbQuery('updates', 'reject', { updateId, actor: audit?.actor });
 
   const timer = startTimer('rejectUpdate');
+  const now = new Date().toISOString();
 
   try {
     const supabase = getSupabaseClient();
+    const before = await fetchRowForAudit('updates', updateId);
     const { data, error } = await supabase
       .from('updates')
       .update({
         status: UPDATE_STATUS.REJECTED,
         visible_to_sponsor: false,
+        reviewed_by: audit?.actor || null,
+        reviewed_at: now,
       })
       .eq('id', updateId)
       .select()
@@ -614,7 +834,21 @@ export async function rejectUpdate(
       throw new DatabaseError('Failed to reject update');
     }
 
-    return toAirtableUpdateRecord(data as SupabaseUpdateRow);
+    const row = data as SupabaseUpdateRow;
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.UPDATE_REJECTED,
+        targetTable: 'updates',
+        targetId: updateId,
+        childId: row.child_id,
+        sponsorCode: row.sponsor_code,
+        before,
+        after: data,
+      },
+      audit
+    );
+
+    return toAirtableUpdateRecord(row);
   } catch (error) {
     timer.end();
     if (error instanceof DatabaseError) throw error;
@@ -710,6 +944,7 @@ export async function findMostRecentUpdateForChild(
       .select('*')
       .eq('child_id', childId)
       .eq('status', UPDATE_STATUS.PUBLISHED)
+      .is('superseded_by', null)
       .order('published_at', { ascending: false })
       .limit(1)
       .single();
@@ -732,6 +967,7 @@ export async function findMostRecentUpdateForChild(
 
 /**
  * Find all published updates (for overdue calculation)
+ * Superseded versions are left out; a corrected version keeps the original's PublishedAt.
  */
 export async function findAllPublishedUpdates(): Promise<AirtableUpdateRecord[]> {
   logger.dbQuery('updates', 'findAllPublished', {});
@@ -744,6 +980,7 @@ export async function findAllPublishedUpdates(): Promise<AirtableUpdateRecord[]>
       .from('updates')
       .select('*')
       .eq('status', UPDATE_STATUS.PUBLISHED)
+      .is('superseded_by', null)
       .order('published_at', { ascending: false });
 
     timer.end();
@@ -766,8 +1003,16 @@ export async function findAllPublishedUpdates(): Promise<AirtableUpdateRecord[]>
 // SPONSORSHIP CATALOG QUERIES
 // ============================================================================
 
+/**
+ * PostgREST filter matching children with no live checkout hold
+ */
+function noLiveCheckoutHold(now: string): string {
+  return `checkout_hold_expires_at.is.null,checkout_hold_expires_at.lte.${now}`;
+}
+
 /**
  * Find all children awaiting sponsors
+ * Children held for an in-progress checkout are left out until the hold ends.
  */
 export async function findAvailableChildren(): Promise<AirtableSponsorshipRecord[]> {
   logger.dbQuery('sponsorships', 'findAvailable', {});
@@ -780,6 +1025,7 @@ export async function findAvailableChildren(): Promise<AirtableSponsorshipRecord
       .from('sponsorships')
       .select('*')
       .eq('status', SPONSORSHIP_STATUS.AWAITING_SPONSOR)
+      .or(noLiveCheckoutHold(new Date().toISOString()))
       .order('child_display_name', { ascending: true });
 
     timer.end();
@@ -798,18 +1044,151 @@ export async function findAvailableChildren(): Promise<AirtableSponsorshipRecord
   }
 }
 
+/**
+ * Hold an available child for a checkout
+ * Only succeeds if the child is awaiting a sponsor and not already held, so
+ * two concurrent checkouts cannot both hold the same child.
+ * Returns the hold ID, or null if the child cannot be held.
+ */
+export async function holdChildForCheckout(
+  recordId: string,
+  expiresAt: Date
+): Promise<string | null> {
+  logger.dbQuery('sponsorships', 'holdForCheckout', { recordId });
+
+  const timer = startTimer('holdChildForCheckout');
+  const holdId = randomUUID();
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('sponsorships')
+      .update({
+        checkout_hold_id: holdId,
+        checkout_hold_expires_at: expiresAt.toISOString(),
+      })
+      .eq('id', recordId)
+      .eq('status', SPONSORSHIP_STATUS.AWAITING_SPONSOR)
+      .or(noLiveCheckoutHold(new Date().toISOString()))
+      .select('id')
+      .maybeSingle();
+
+    timer.end();
+
+    if (error) {
+      // Malformed record IDs cannot match a child
+      if (error.code === '22P02') {
+        return null;
+      }
+      logger.dbError('sponsorships', 'holdForCheckout', error);
+      throw new DatabaseError('Failed to hold child for checkout');
+    }
+
+    return data ? holdId : null;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('sponsorships', 'holdForCheckout', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Move a checkout hold's expiry
+ * Only changes the hold if it is still the given one.
+ * Returns true if the hold was updated.
+ */
+export async function setChildCheckoutHoldExpiry(
+  recordId: string,
+  holdId: string,
+  expiresAt: Date
+): Promise<boolean> {
+  logger.dbQuery('sponsorships', 'setCheckoutHoldExpiry', { recordId });
+
+  const timer = startTimer('setChildCheckoutHoldExpiry');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('sponsorships')
+      .update({ checkout_hold_expires_at: expiresAt.toISOString() })
+      .eq('id', recordId)
+      .eq('checkout_hold_id', holdId)
+      .select('id');
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('sponsorships', 'setCheckoutHoldExpiry', error);
+      throw new DatabaseError('Failed to update checkout hold');
+    }
+
+    return (data || []).length > 0;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('sponsorships', 'setCheckoutHoldExpiry', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Release a checkout hold
+ * Only clears the hold if it is still the given one, so a late release
+ * cannot free a child that another checkout has since held.
+ * Returns true if a hold was released.
+ */
+export async function releaseChildCheckoutHold(recordId: string, holdId: string): Promise<boolean> {
+  logger.dbQuery('sponsorships', 'releaseCheckoutHold', { recordId });
+
+  const timer = startTimer('releaseChildCheckoutHold');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('sponsorships')
+      .update({
+        checkout_hold_id: null,
+        checkout_hold_expires_at: null,
+      })
+      .eq('id', recordId)
+      .eq('checkout_hold_id', holdId)
+      .select('id');
+
+    timer.end();
+
+    if (error) {
+      if (error.code === '22P02') {
+        return false;
+      }
+      logger.dbError('sponsorships', 'releaseCheckoutHold', error);
+      throw new DatabaseError('Failed to release checkout hold');
+    }
+
+    return (data || []).length > 0;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('sponsorships', 'releaseCheckoutHold', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
 /**
  * Create a new sponsorship record
  */
-export async function createSponsorship(data: {
-  sponsorEmail: string;
-  sponsorName?: string;
-  childId: string;
-  childDisplayName: string;
-  childPhoto?: SponsorshipFields['ChildPhoto'];
-  childAge?: string;
-  childLocation?: string;
-}): Promise<AirtableSponsorshipRecord> {
+export async function createSponsorship(
+  data: {
+    sponsorEmail: string;
+    sponsorName?: string;
+    childId: string;
+    childDisplayName: string;
+    childPhoto?: SponsorshipFields['ChildPhoto'];
+    childAge?: string;
+    childLocation?: string;
+  },
+  audit?: AuditContext
+): Promise<AirtableSponsorshipRecord> {
   logger.dbQuery('sponsorships', 'create', {
     email: logger.maskEmail(data.sponsorEmail),
     childId: data.childId,
@@ -861,7 +1240,21 @@ export async function createSponsorship(data: {
       throw new DatabaseError('Failed to create sponsorship');
     }
 
-    return toAirtableSponsorshipRecord(result as SupabaseSponsorshipRow);
+    const row = result as SupabaseSponsorshipRow;
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.SPONSORSHIP_CREATED,
+        targetTable: 'sponsorships',
+        targetId: row.id,
+        childId: row.child_id,
+        sponsorCode: row.sponsor_code,
+        before: null,
+        after: result,
+      },
+      audit
+    );
+
+    return toAirtableSponsorshipRecord(row);
   } catch (error) {
     timer.end();
     if (error instanceof DatabaseError) throw error;
@@ -879,7 +1272,9 @@ export async function assignSponsorToChild(
     sponsorEmail: string;
     sponsorName?: string;
     sponsorCode: string;
-  }
+    stripeSubscriptionId?: string;
+  },
+  audit?: AuditContext
 ): Promise<AirtableSponsorshipRecord> {
   logger.dbQuery('sponsorships', 'assignSponsor', {
     recordId,
@@ -890,6 +1285,7 @@ export async function assignSponsorToChild(
 
   try {
     const supabase = getSupabaseClient();
+    const before = await fetchRowForAudit('sponsorships', recordId);
     const updateData: Record<string, unknown> = {
       sponsor_code: sponsorData.sponsorCode,
       sponsor_email: sponsorData.sponsorEmail,
@@ -897,11 +1293,16 @@ export async function assignSponsorToChild(
       status: SPONSORSHIP_STATUS.ACTIVE,
       visible_to_sponsor: true,
       sponsorship_start_date: new Date().toISOString().split('T')[0],
+      checkout_hold_id: null,
+      checkout_hold_expires_at: null,
     };
 
     if (sponsorData.sponsorName) {
       updateData.sponsor_name = sponsorData.sponsorName;
     }
+    if (sponsorData.stripeSubscriptionId) {
+      updateData.stripe_subscription_id = sponsorData.stripeSubscriptionId;
+    }
 
     const { data, error } = await supabase
       .from('sponsorships')
@@ -917,7 +1318,21 @@ export async function assignSponsorToChild(
       throw new DatabaseError('Failed to assign sponsor');
     }
 
-    return toAirtableSponsorshipRecord(data as SupabaseSponsorshipRow);
+    const row = data as SupabaseSponsorshipRow;
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.SPONSOR_ASSIGNED,
+        targetTable: 'sponsorships',
+        targetId: recordId,
+        childId: row.child_id,
+        sponsorCode: row.sponsor_code,
+        before,
+        after: data,
+      },
+      audit
+    );
+
+    return toAirtableSponsorshipRecord(row);
   } catch (error) {
     timer.end();
     if (error instanceof DatabaseError) throw error;
@@ -960,6 +1375,204 @@ export async function getSponsorshipById(
   }
 }
 
+// ============================================================================
+// SPONSOR LOGIN TOKENS (magic-link login)
+// ============================================================================
+
+/**
+ * Store a hashed single-use login token
+ */
+export async function createSponsorLoginToken(
+  email: string,
+  tokenHash: string,
+  expiresAt: string
+): Promise<void> {
+  logger.dbQuery('sponsor_login_tokens', 'create', {
+    email: logger.maskEmail(email),
+  });
+
+  const timer = startTimer('createSponsorLoginToken');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('sponsor_login_tokens')
+      .insert({
+        email,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
+      });
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('sponsor_login_tokens', 'create', error);
+      throw new DatabaseError('Failed to create login token');
+    }
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('sponsor_login_tokens', 'create', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Consume a login token (single use)
+ * Marks the token used only if it is unused and unexpired, so concurrent
+ * redemptions of the same token cannot both succeed.
+ * Returns the email the token was issued to, or null if invalid.
+ */
+export async function consumeSponsorLoginToken(tokenHash: string): Promise<string | null> {
+  logger.dbQuery('sponsor_login_tokens', 'consume', {});
+
+  const timer = startTimer('consumeSponsorLoginToken');
+  const now = new Date().toISOString();
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('sponsor_login_tokens')
+      .update({ used_at: now })
+      .eq('token_hash', tokenHash)
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .select('email')
+      .maybeSingle();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('sponsor_login_tokens', 'consume', error);
+      throw new DatabaseError('Failed to verify login token');
+    }
+
+    return data ? (data as { email: string }).email : null;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('sponsor_login_tokens', 'consume', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// ADMIN USERS
+// ============================================================================
+
+interface SupabaseAdminUserRow {
+  id: string;
+  name: string;
+  email: string;
+  role: AdminRole;
+}
+
+/**
+ * Find an active admin user by the SHA-256 hash of their API token
+ */
+export async function findActiveAdminUserByTokenHash(
+  tokenHash: string
+): Promise<AdminUser | null> {
+  logger.dbQuery('admin_users', 'findByTokenHash', {});
+
+  const timer = startTimer('findActiveAdminUserByTokenHash');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('admin_users')
+      .select('id, name, email, role')
+      .eq('token_hash', tokenHash)
+      .eq('active', true)
+      .limit(1)
+      .single();
+
+    timer.end();
+
+    if (error && error.code !== 'PGRST116') {
+      logger.dbError('admin_users', 'findByTokenHash', error);
+      throw new DatabaseError('Failed to find admin user');
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const row = data as SupabaseAdminUserRow;
+    return {
+      id: row.id,
+      name: row.name,
+      email: row.email,
+      role: row.role,
+    };
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('admin_users', 'findByTokenHash', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// INTAKE NONCES
+// ============================================================================
+
+/**
+ * Claim a signed intake request's nonce
+ *
+ * The (source, nonce) primary key makes the claim atomic: a second request
+ * with the same nonce fails the insert and is reported as a replay. Nonces
+ * whose signing window has passed are pruned on the way in, since the
+ * timestamp check already rejects anything that old.
+ *
+ * @returns true if the nonce was unused, false if it has been seen before
+ */
+export async function claimIntakeNonce(
+  source: string,
+  nonce: string,
+  expiresAt: string
+): Promise<boolean> {
+  logger.dbQuery('intake_nonces', 'claim', { source });
+
+  const timer = startTimer('claimIntakeNonce');
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const { error: pruneError } = await supabase
+      .from('intake_nonces')
+      .delete()
+      .lt('expires_at', new Date().toISOString());
+
+    if (pruneError) {
+      // Pruning is housekeeping only; a failure must not block intake
+      logger.dbError('intake_nonces', 'prune', pruneError);
+    }
+
+    const { error } = await supabase
+      .from('intake_nonces')
+      .insert({ source, nonce, expires_at: expiresAt });
+
+    timer.end();
+
+    if (error) {
+      // 23505 = unique_violation: the nonce was already used
+      if (error.code === '23505') {
+        return false;
+      }
+      logger.dbError('intake_nonces', 'claim', error);
+      throw new DatabaseError('Failed to record intake nonce');
+    }
+
+    return true;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('intake_nonces', 'claim', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
 // ============================================================================
 // SUPABASE CLIENT EXPORT (for advanced usage)
 // ============================================================================
@@ -981,6 +1594,8 @@ const FIELD_MAP: Record<string, string> = {
   Status: 'status',
   VisibleToSponsor: 'visible_to_sponsor',
   PublishedAt: 'published_at',
+  ReviewedBy: 'reviewed_by',
+  ReviewedAt: 'reviewed_at',
   // Add more as needed
 };
 
@@ -0,0 +1,391 @@
+/**
+ * Donation records
+ * Keeps the Supabase donors and donations tables in step with the gifts
+ * the Stripe webhook, recurring payments and offline gift entry record in
+ * Airtable. The fund ledger, campaign progress, accounting exports, tax
+ * receipts, donor portal, donor merges and analytics all read Supabase.
+ *
+ * Every write can be repeated: donors are matched by their Airtable record
+ * ID (then Stripe customer, then email) and donations by their payment
+ * reference, and an existing donation is never overwritten, so a replayed
+ * webhook event only fills in what a failed run missed. The Airtable write
+ * is the audited change; these copies are not audited again.
+ *
+ * Donor merges happen here, not in Airtable, so a gift for a donor that was
+ * merged as a duplicate is linked to the donor it was merged into.
+ */
+
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import type { DonationFund } from './funds';
+import type { TributeRequest } from './validation';
+import { toBaseAmount } from './currency';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DonorRecordInput {
+  /** Airtable Donors record */
+  airtableRecordId: string;
+  name: string;
+  email: string | null;
+  organization?: string;
+  phone?: string;
+  mailingAddress?: string;
+  stripeCustomerId: string | null;
+}
+
+/**
+ * How to find an existing donor; the first key that matches wins
+ */
+export interface DonorRecordMatch {
+  airtableRecordId?: string | null;
+  stripeCustomerId?: string | null;
+  email?: string | null;
+}
+
+export interface DonationRecordInput {
+  /** Stripe payment intent, checkout session or invoice ID, or an offline_ key */
+  reference: string;
+  sessionId: string | null;
+  customerId: string | null;
+  /** Supabase donor ID; null when the gift is not linked to a donor */
+  donorId: string | null;
+  /** The gift itself, excluding any covered fee */
+  amount: number;
+  currency: string;
+  /** ISO date or timestamp; stored as the date */
+  donationDate: string;
+  status: string;
+  isRecurring: boolean;
+  subscriptionId: string | null;
+  email: string;
+  source: string;
+  fund: DonationFund;
+  /** Campaign slug */
+  campaign?: string;
+  tribute?: TributeRequest;
+  coveredFee?: number;
+  /** Rate to the base currency; base_amount is worked out from it. Null until the charge settles */
+  exchangeRate?: number | null;
+  /** Stripe processing fee in the payout currency, when known */
+  stripeFee?: number | null;
+  /** Offline gifts only */
+  paymentMethod?: string;
+  referenceNumber?: string;
+  depositBatch?: string;
+  address?: {
+    line1?: string | null;
+    city?: string | null;
+    state?: string | null;
+    postal_code?: string | null;
+    country?: string | null;
+  } | null;
+}
+
+/**
+ * A new payment status and the fields that go with it
+ */
+export interface DonationStatusChange {
+  status: string;
+  /** YYYY-MM-DD; set when the gift is refunded */
+  refundedOn?: string;
+  /** What Stripe settled a recovered payment at */
+  stripeFee?: number | null;
+  exchangeRate?: number | null;
+}
+
+interface SupabaseDonorMatchRow {
+  id: string;
+  airtable_record_id: string | null;
+  stripe_customer_id: string | null;
+  merged_into_donor_id: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toDonationRow(input: DonationRecordInput): Record<string, unknown> {
+  return {
+    stripe_payment_intent_id: input.reference,
+    stripe_checkout_session_id: input.sessionId,
+    stripe_customer_id: input.customerId,
+    donation_amount: input.amount,
+    currency: input.currency.toLowerCase(),
+    donation_date: input.donationDate.slice(0, 10),
+    payment_status: input.status,
+    recurring_donation: input.isRecurring,
+    donor_id: input.donorId,
+    donor_email_at_donation: input.email || null,
+    donation_source: input.source,
+    subscription_id: input.subscriptionId,
+    address_line_1: input.address?.line1 || null,
+    city: input.address?.city || null,
+    state: input.address?.state || null,
+    postal_code: input.address?.postal_code || null,
+    country: input.address?.country || null,
+    fund: input.fund,
+    campaign: input.campaign || null,
+    tribute_type: input.tribute?.type || null,
+    honoree_name: input.tribute?.honoreeName || null,
+    tribute_notify_name: input.tribute?.notifyName || null,
+    tribute_notify_email: input.tribute?.notifyEmail || null,
+    tribute_message: input.tribute?.message || null,
+    covered_fee: input.coveredFee || null,
+    exchange_rate: input.exchangeRate ?? null,
+    base_amount: input.exchangeRate != null ? toBaseAmount(input.amount, input.exchangeRate) : null,
+    stripe_fee: input.stripeFee ?? null,
+    payment_method: input.paymentMethod || null,
+    reference_number: input.referenceNumber || null,
+    deposit_batch: input.depositBatch || null,
+  };
+}
+
+// ============================================================================
+// DONORS
+// ============================================================================
+
+async function findDonorMatch(match: DonorRecordMatch): Promise<SupabaseDonorMatchRow | null> {
+  const supabase = getSupabaseClient();
+  const keys: Array<[string, string | null | undefined]> = [
+    ['airtable_record_id', match.airtableRecordId],
+    ['stripe_customer_id', match.stripeCustomerId],
+    ['email_address', match.email?.trim()],
+  ];
+
+  for (const [column, value] of keys) {
+    if (!value) continue;
+
+    const { data, error } = await supabase
+      .from('donors')
+      .select('id, airtable_record_id, stripe_customer_id, merged_into_donor_id')
+      .eq(column, value)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) {
+      logger.dbError('donors', 'findMatch', error);
+      throw new DatabaseError('Failed to find donor');
+    }
+
+    const row = (data || [])[0] as SupabaseDonorMatchRow | undefined;
+    if (row) {
+      return row;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the Supabase donor for an Airtable donor, Stripe customer or email
+ * (the survivor, if it was merged). Returns null if none matches.
+ */
+export async function findDonorRecordId(match: DonorRecordMatch): Promise<string | null> {
+  logger.dbQuery('donors', 'findRecordId', { airtableRecordId: match.airtableRecordId });
+
+  const timer = startTimer('findDonorRecordId');
+
+  try {
+    const row = await findDonorMatch(match);
+    timer.end();
+    return row ? row.merged_into_donor_id || row.id : null;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donors', 'findRecordId', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Find or create the Supabase donor for an Airtable donor
+ * A matching donor is linked to the Airtable record and Stripe customer if
+ * it is not already; its contact details are left as they are.
+ *
+ * @returns The Supabase donor ID to link gifts to: the donor it was merged
+ *   into, if it was merged
+ */
+export async function syncDonorRecord(input: DonorRecordInput): Promise<string> {
+  logger.dbQuery('donors', 'sync', { airtableRecordId: input.airtableRecordId });
+
+  const timer = startTimer('syncDonorRecord');
+
+  try {
+    const supabase = getSupabaseClient();
+    const existing = await findDonorMatch(input);
+
+    if (existing) {
+      const links: Record<string, string> = {};
+      if (!existing.airtable_record_id) {
+        links.airtable_record_id = input.airtableRecordId;
+      }
+      if (!existing.stripe_customer_id && input.stripeCustomerId) {
+        links.stripe_customer_id = input.stripeCustomerId;
+      }
+
+      if (Object.keys(links).length > 0) {
+        const { error } = await supabase.from('donors').update(links).eq('id', existing.id);
+        if (error) {
+          timer.end();
+          logger.dbError('donors', 'sync', error);
+          throw new DatabaseError('Failed to link donor');
+        }
+      }
+
+      timer.end();
+      return existing.merged_into_donor_id || existing.id;
+    }
+
+    const { data, error } = await supabase
+      .from('donors')
+      .insert({
+        airtable_record_id: input.airtableRecordId,
+        donor_name: input.name,
+        email_address: input.email || null,
+        organization_name: input.organization || null,
+        phone_number: input.phone || null,
+        mailing_address: input.mailingAddress || null,
+        stripe_customer_id: input.stripeCustomerId,
+      })
+      .select('id')
+      .single();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donors', 'sync', error);
+      throw new DatabaseError('Failed to record donor');
+    }
+
+    return (data as { id: string }).id;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donors', 'sync', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Set the recurring status (Active or Lapsed) of the donors with a Stripe
+ * customer ID
+ */
+export async function syncDonorRecurringStatus(stripeCustomerId: string, status: string): Promise<void> {
+  logger.dbQuery('donors', 'syncRecurringStatus', { stripeCustomerId, status });
+
+  const timer = startTimer('syncDonorRecurringStatus');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('donors')
+      .update({ recurring_status: status })
+      .eq('stripe_customer_id', stripeCustomerId);
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donors', 'syncRecurringStatus', error);
+      throw new DatabaseError('Failed to update donor recurring status');
+    }
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donors', 'syncRecurringStatus', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// DONATIONS
+// ============================================================================
+
+/**
+ * Record a donation unless one with the same reference already exists
+ */
+export async function syncDonationRecord(input: DonationRecordInput): Promise<void> {
+  logger.dbQuery('donations', 'sync', { reference: input.reference });
+
+  const timer = startTimer('syncDonationRecord');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('donations')
+      .upsert(toDonationRow(input), { onConflict: 'stripe_payment_intent_id', ignoreDuplicates: true });
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donations', 'sync', error);
+      throw new DatabaseError('Failed to record donation');
+    }
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donations', 'sync', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Set a donation's payment status, with the fields that go with it
+ * Returns false if there is no donation with the reference.
+ */
+export async function syncDonationStatus(reference: string, change: DonationStatusChange): Promise<boolean> {
+  logger.dbQuery('donations', 'syncStatus', { reference, status: change.status });
+
+  const timer = startTimer('syncDonationStatus');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data: existing, error: findError } = await supabase
+      .from('donations')
+      .select('id, donation_amount')
+      .eq('stripe_payment_intent_id', reference)
+      .maybeSingle();
+
+    if (findError) {
+      timer.end();
+      logger.dbError('donations', 'syncStatus', findError);
+      throw new DatabaseError('Failed to find donation');
+    }
+
+    if (!existing) {
+      timer.end();
+      return false;
+    }
+
+    const updates: Record<string, unknown> = { payment_status: change.status };
+    if (change.refundedOn) {
+      updates.refunded_on = change.refundedOn;
+    }
+    if (change.stripeFee != null) {
+      updates.stripe_fee = change.stripeFee;
+    }
+    if (change.exchangeRate != null) {
+      updates.exchange_rate = change.exchangeRate;
+      updates.base_amount = toBaseAmount(Number(existing.donation_amount), change.exchangeRate);
+    }
+
+    const { error } = await supabase.from('donations').update(updates).eq('id', existing.id);
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donations', 'syncStatus', error);
+      throw new DatabaseError('Failed to update donation status');
+    }
+
+    return true;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donations', 'syncStatus', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
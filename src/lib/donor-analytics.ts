@@ -0,0 +1,540 @@
+/**
+ * Donor analytics
+ * How donors behave over time, computed from succeeded donations: first-gift
+ * cohorts, year-over-year retention, lapsed donors, average gift, lifetime
+ * value and monthly-donor churn. Reports are for the board pack, so each
+ * table can also be rendered as CSV.
+ *
+ * Amounts are in the base currency: gifts in other currencies count at the
+ * base amount recorded when they settled (see currency.ts). Refunded and
+ * disputed gifts are left out. A gift with no donor record counts toward
+ * the donor with its email, or a donor of its own per email; gifts with
+ * neither are skipped.
+ * Years are calendar years, and the report year runs to the as-of date, so
+ * "lapsed" in the current year means "has not given yet this year".
+ */
+
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import { DONOR_ANALYTICS, DONOR_ANALYTICS_TABLES, PAYMENT_STATUS, STRIPE } from './constants';
+import { donationBaseAmount } from './currency';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DonorAnalyticsTable = (typeof DONOR_ANALYTICS_TABLES)[keyof typeof DONOR_ANALYTICS_TABLES];
+
+export interface DonorAnalyticsOptions {
+  /** YYYY-MM-DD; gifts after this date are ignored */
+  asOf: string;
+  /** Number of calendar years to report, ending with the as-of year */
+  years: number;
+}
+
+export interface DonorAnalyticsSummary {
+  donorCount: number;
+  giftCount: number;
+  totalGiven: number;
+  averageGift: number;
+  /** Total given divided by donors, over all history */
+  averageLifetimeValue: number;
+  /** Monthly donors active on the as-of date */
+  activeRecurringDonors: number;
+}
+
+export interface DonorRetentionYear {
+  year: number;
+  donors: number;
+  /** First gift ever in this year */
+  newDonors: number;
+  /** Gave last year and this year */
+  retainedDonors: number;
+  /** Gave this year after skipping last year */
+  reactivatedDonors: number;
+  /** Gave last year but not this year */
+  lapsedDonors: number;
+  /** Retained donors / last year's donors; null when last year had none */
+  retentionRate: number | null;
+  giftCount: number;
+  totalGiven: number;
+  averageGift: number;
+  /** Monthly donors active at the start of the year */
+  recurringAtStart: number;
+  /** Monthly donors active at the end of the year (or the as-of date) */
+  recurringAtEnd: number;
+  /** Active at the start, no longer active at the end */
+  recurringChurned: number;
+  /** Churned / active at the start; null when none were active */
+  recurringChurnRate: number | null;
+}
+
+export interface DonorCohort {
+  /** Year of the donors' first gift */
+  year: number;
+  donors: number;
+  /** retained[k] = donors from the cohort who gave in year + k (retained[0] is every donor) */
+  retained: number[];
+  /** Everything the cohort has given to date */
+  totalGiven: number;
+  averageLifetimeValue: number;
+}
+
+export interface LapsedDonor {
+  /** Null for gifts that were never linked to a donor record */
+  donorId: string | null;
+  name: string;
+  email: string | null;
+  lastGiftDate: string;
+  lastYearTotal: number;
+  lifetimeTotal: number;
+  giftCount: number;
+  /** Gave monthly last year */
+  wasRecurring: boolean;
+}
+
+export interface DonorAnalyticsReport {
+  currency: string;
+  asOf: string;
+  fromYear: number;
+  toYear: number;
+  summary: DonorAnalyticsSummary;
+  /** Oldest year first */
+  retention: DonorRetentionYear[];
+  /** Oldest cohort first */
+  cohorts: DonorCohort[];
+  /** Gave in the year before the as-of year but not since; largest last-year total first */
+  lapsed: LapsedDonor[];
+}
+
+export interface DonorAnalyticsFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+interface SupabaseAnalyticsDonationRow {
+  donor_id: string | null;
+  donor_email_at_donation: string | null;
+  donation_amount: number | string;
+  base_amount: number | string | null;
+  donation_date: string;
+  recurring_donation: boolean | null;
+  donors: {
+    donor_name: string;
+    email_address: string | null;
+  } | null;
+}
+
+interface DonorHistory {
+  donorId: string | null;
+  name: string;
+  email: string | null;
+  firstYear: number;
+  lastGiftDate: string;
+  giftCount: number;
+  total: number;
+  /** Gifts and total per calendar year */
+  byYear: Map<number, { gifts: number; total: number }>;
+  /** Day numbers of recurring gifts, ascending */
+  recurringDays: number[];
+}
+
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * Succeeded donations up to the as-of date, with their donor
+ */
+async function findDonationsForAnalytics(asOf: string): Promise<SupabaseAnalyticsDonationRow[]> {
+  logger.dbQuery('donations', 'findForDonorAnalytics', { asOf });
+
+  const timer = startTimer('findDonationsForAnalytics');
+  const rows: SupabaseAnalyticsDonationRow[] = [];
+
+  try {
+    const supabase = getSupabaseClient();
+
+    // PostgREST caps each response, so read the history in pages
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('donations')
+        .select(
+          'donor_id, donor_email_at_donation, donation_amount, base_amount, donation_date, recurring_donation, ' +
+            'donors(donor_name, email_address)'
+        )
+        .eq('payment_status', PAYMENT_STATUS.SUCCEEDED)
+        .lte('donation_date', asOf)
+        .order('donation_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        timer.end();
+        logger.dbError('donations', 'findForDonorAnalytics', error);
+        throw new DatabaseError('Failed to query donations');
+      }
+
+      const page = (data || []) as unknown as SupabaseAnalyticsDonationRow[];
+      rows.push(...page);
+
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    timer.end();
+    return rows;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donations', 'findForDonorAnalytics', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function rate(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 10000) / 10000 : null;
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+/**
+ * One history per donor; rows arrive oldest first
+ * Gifts not linked to a donor record join the donor with the same email, or
+ * are grouped by email.
+ */
+function buildHistories(rows: SupabaseAnalyticsDonationRow[]): Map<string, DonorHistory> {
+  const histories = new Map<string, DonorHistory>();
+  const donorByEmail = new Map<string, string>();
+
+  for (const row of rows) {
+    const email = row.donors?.email_address?.trim().toLowerCase();
+    if (row.donor_id && email && !donorByEmail.has(email)) {
+      donorByEmail.set(email, row.donor_id);
+    }
+  }
+
+  for (const row of rows) {
+    const giftEmail = row.donor_email_at_donation?.trim().toLowerCase() || null;
+    const key = row.donor_id || (giftEmail && (donorByEmail.get(giftEmail) || `email:${giftEmail}`));
+    if (!key) {
+      continue;
+    }
+
+    const year = Number(row.donation_date.slice(0, 4));
+    const amount = donationBaseAmount(row);
+
+    let history = histories.get(key);
+    if (!history) {
+      history = {
+        donorId: key.startsWith('email:') ? null : key,
+        name: row.donors?.donor_name || 'Anonymous',
+        email: row.donors?.email_address || giftEmail,
+        firstYear: year,
+        lastGiftDate: row.donation_date,
+        giftCount: 0,
+        total: 0,
+        byYear: new Map(),
+        recurringDays: [],
+      };
+      histories.set(key, history);
+    }
+
+    history.lastGiftDate = row.donation_date;
+    history.giftCount += 1;
+    history.total += amount;
+    const yearTotals = history.byYear.get(year) || { gifts: 0, total: 0 };
+    yearTotals.gifts += 1;
+    yearTotals.total += amount;
+    history.byYear.set(year, yearTotals);
+    if (row.recurring_donation) {
+      history.recurringDays.push(dayNumber(row.donation_date));
+    }
+  }
+
+  return histories;
+}
+
+/**
+ * Whether a recurring gift succeeded within the active window ending on `day`
+ */
+function isRecurringActive(history: DonorHistory, day: number): boolean {
+  return history.recurringDays.some(
+    (giftDay) => giftDay <= day && giftDay > day - DONOR_ANALYTICS.RECURRING_ACTIVE_DAYS
+  );
+}
+
+function buildRetentionYear(donors: DonorHistory[], year: number, endDay: number): DonorRetentionYear {
+  const startDay = dayNumber(`${year - 1}-12-31`);
+  let current = 0;
+  let previous = 0;
+  let newDonors = 0;
+  let retained = 0;
+  let reactivated = 0;
+  let giftCount = 0;
+  let totalGiven = 0;
+  let recurringAtStart = 0;
+  let recurringAtEnd = 0;
+  let recurringChurned = 0;
+
+  for (const donor of donors) {
+    const gaveThisYear = donor.byYear.has(year);
+    const gaveLastYear = donor.byYear.has(year - 1);
+
+    if (gaveLastYear) previous += 1;
+    if (gaveThisYear) {
+      const yearTotals = donor.byYear.get(year)!;
+      current += 1;
+      giftCount += yearTotals.gifts;
+      totalGiven += yearTotals.total;
+      if (donor.firstYear === year) newDonors += 1;
+      else if (gaveLastYear) retained += 1;
+      else reactivated += 1;
+    }
+
+    const activeAtStart = isRecurringActive(donor, startDay);
+    const activeAtEnd = isRecurringActive(donor, endDay);
+    if (activeAtStart) recurringAtStart += 1;
+    if (activeAtEnd) recurringAtEnd += 1;
+    if (activeAtStart && !activeAtEnd) recurringChurned += 1;
+  }
+
+  return {
+    year,
+    donors: current,
+    newDonors,
+    retainedDonors: retained,
+    reactivatedDonors: reactivated,
+    lapsedDonors: previous - retained,
+    retentionRate: rate(retained, previous),
+    giftCount,
+    totalGiven: roundCents(totalGiven),
+    averageGift: giftCount > 0 ? roundCents(totalGiven / giftCount) : 0,
+    recurringAtStart,
+    recurringAtEnd,
+    recurringChurned,
+    recurringChurnRate: rate(recurringChurned, recurringAtStart),
+  };
+}
+
+function buildCohort(donors: DonorHistory[], year: number, toYear: number): DonorCohort {
+  const members = donors.filter((donor) => donor.firstYear === year);
+  const totalGiven = members.reduce((sum, donor) => sum + donor.total, 0);
+  const retained: number[] = [];
+
+  for (let offset = 0; year + offset <= toYear; offset++) {
+    retained.push(members.filter((donor) => donor.byYear.has(year + offset)).length);
+  }
+
+  return {
+    year,
+    donors: members.length,
+    retained,
+    totalGiven: roundCents(totalGiven),
+    averageLifetimeValue: members.length > 0 ? roundCents(totalGiven / members.length) : 0,
+  };
+}
+
+function findLapsedDonors(donors: DonorHistory[], year: number): LapsedDonor[] {
+  const lastYearStart = dayNumber(`${year - 1}-01-01`);
+  const lastYearEnd = dayNumber(`${year - 1}-12-31`);
+
+  return donors
+    .filter((donor) => donor.byYear.has(year - 1) && !donor.byYear.has(year))
+    .map((donor) => ({
+      donorId: donor.donorId,
+      name: donor.name,
+      email: donor.email,
+      lastGiftDate: donor.lastGiftDate,
+      lastYearTotal: roundCents(donor.byYear.get(year - 1)!.total),
+      lifetimeTotal: roundCents(donor.total),
+      giftCount: donor.giftCount,
+      wasRecurring: donor.recurringDays.some((day) => day >= lastYearStart && day <= lastYearEnd),
+    }))
+    .sort((a, b) => b.lastYearTotal - a.lastYearTotal || a.name.localeCompare(b.name));
+}
+
+/**
+ * Build the full report as of a date
+ */
+export async function buildDonorAnalytics(options: DonorAnalyticsOptions): Promise<DonorAnalyticsReport> {
+  const rows = await findDonationsForAnalytics(options.asOf);
+  const donors = [...buildHistories(rows).values()];
+
+  const toYear = Number(options.asOf.slice(0, 4));
+  const fromYear = toYear - options.years + 1;
+  const asOfDay = dayNumber(options.asOf);
+
+  const retention: DonorRetentionYear[] = [];
+  const cohorts: DonorCohort[] = [];
+  for (let year = fromYear; year <= toYear; year++) {
+    const endDay = year === toYear ? asOfDay : dayNumber(`${year}-12-31`);
+    retention.push(buildRetentionYear(donors, year, endDay));
+    cohorts.push(buildCohort(donors, year, toYear));
+  }
+
+  const giftCount = donors.reduce((count, donor) => count + donor.giftCount, 0);
+  const totalGiven = donors.reduce((sum, donor) => sum + donor.total, 0);
+
+  return {
+    currency: STRIPE.CURRENCY.toUpperCase(),
+    asOf: options.asOf,
+    fromYear,
+    toYear,
+    summary: {
+      donorCount: donors.length,
+      giftCount,
+      totalGiven: roundCents(totalGiven),
+      averageGift: giftCount > 0 ? roundCents(totalGiven / giftCount) : 0,
+      averageLifetimeValue: donors.length > 0 ? roundCents(totalGiven / donors.length) : 0,
+      activeRecurringDonors: donors.filter((donor) => isRecurringActive(donor, asOfDay)).length,
+    },
+    retention,
+    cohorts,
+    lapsed: findLapsedDonors(donors, toYear),
+  };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csv(header: string[], rows: (string | number)[][]): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? '' : `${(value * 100).toFixed(1)}%`;
+}
+
+function retentionCsv(report: DonorAnalyticsReport): string {
+  return csv(
+    [
+      'Year',
+      'Donors',
+      'New',
+      'Retained',
+      'Reactivated',
+      'Lapsed',
+      'Retention Rate',
+      'Gifts',
+      `Total Given (${report.currency})`,
+      'Average Gift',
+      'Monthly Donors at Start',
+      'Monthly Donors at End',
+      'Monthly Donors Churned',
+      'Monthly Churn Rate',
+    ],
+    report.retention.map((year) => [
+      year.year,
+      year.donors,
+      year.newDonors,
+      year.retainedDonors,
+      year.reactivatedDonors,
+      year.lapsedDonors,
+      formatRate(year.retentionRate),
+      year.giftCount,
+      formatAmount(year.totalGiven),
+      formatAmount(year.averageGift),
+      year.recurringAtStart,
+      year.recurringAtEnd,
+      year.recurringChurned,
+      formatRate(year.recurringChurnRate),
+    ])
+  );
+}
+
+/**
+ * One row per cohort; "Year N" is the share of the cohort that gave N years
+ * after their first gift
+ */
+function cohortsCsv(report: DonorAnalyticsReport): string {
+  const followUpYears = report.toYear - report.fromYear;
+  const header = ['First Gift Year', 'Donors', `Total Given (${report.currency})`, 'Average Lifetime Value'];
+  for (let offset = 1; offset <= followUpYears; offset++) {
+    header.push(`Year ${offset}`);
+  }
+
+  return csv(
+    header,
+    report.cohorts.map((cohort) => {
+      const row: (string | number)[] = [
+        cohort.year,
+        cohort.donors,
+        formatAmount(cohort.totalGiven),
+        formatAmount(cohort.averageLifetimeValue),
+      ];
+      for (let offset = 1; offset <= followUpYears; offset++) {
+        row.push(offset < cohort.retained.length ? formatRate(rate(cohort.retained[offset], cohort.donors)) : '');
+      }
+      return row;
+    })
+  );
+}
+
+function lapsedCsv(report: DonorAnalyticsReport): string {
+  return csv(
+    [
+      'Donor ID',
+      'Name',
+      'Email',
+      'Last Gift Date',
+      `${report.toYear - 1} Total (${report.currency})`,
+      'Lifetime Total',
+      'Gifts',
+      'Monthly Donor',
+    ],
+    report.lapsed.map((donor) => [
+      donor.donorId || '',
+      donor.name,
+      donor.email || '',
+      donor.lastGiftDate,
+      formatAmount(donor.lastYearTotal),
+      formatAmount(donor.lifetimeTotal),
+      donor.giftCount,
+      donor.wasRecurring ? 'Yes' : 'No',
+    ])
+  );
+}
+
+/**
+ * Render one table of a report as CSV
+ */
+export function renderDonorAnalyticsCsv(report: DonorAnalyticsReport, table: DonorAnalyticsTable): DonorAnalyticsFile {
+  const render = {
+    [DONOR_ANALYTICS_TABLES.RETENTION]: retentionCsv,
+    [DONOR_ANALYTICS_TABLES.COHORTS]: cohortsCsv,
+    [DONOR_ANALYTICS_TABLES.LAPSED]: lapsedCsv,
+  }[table];
+
+  return {
+    filename: `donor-${table}-${report.currency.toLowerCase()}-as-of-${report.asOf}.csv`,
+    contentType: 'text/csv; charset=utf-8',
+    content: render(report),
+  };
+}
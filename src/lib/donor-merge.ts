@@ -0,0 +1,951 @@
+/**
+ * Donor deduplication
+ * Finds donor records that are probably the same person (fuzzy name,
+ * email, phone and address matching) and merges them.
+ *
+ * A merge keeps the survivor, re-points the duplicate's donations to it,
+ * fills the survivor's empty contact fields from the duplicate and marks
+ * the duplicate with merged_into_donor_id. Nothing is deleted: the
+ * donor_merges row records exactly what moved so the merge can be undone.
+ */
+
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import { recordAuditEvent, AUDIT_ACTIONS } from './audit';
+import type { AuditContext } from './audit';
+import { PAYMENT_STATUS } from './constants';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DonorRecord {
+  id: string;
+  name: string;
+  email: string | null;
+  organization: string | null;
+  phone: string | null;
+  mailingAddress: string | null;
+  stripeCustomerId: string | null;
+  recurringStatus: string | null;
+  /** Set when this record has been merged into another donor */
+  mergedIntoDonorId: string | null;
+  createdAt: string;
+}
+
+export interface DonorGiftSummary {
+  /** Succeeded donations */
+  giftCount: number;
+  lastGiftDate: string | null;
+  /** One total per currency given in */
+  totals: { currency: string; amount: number }[];
+}
+
+export type DonorProfile = DonorRecord & DonorGiftSummary;
+
+export interface DuplicateDonorCandidate {
+  /** 0-1; higher is more likely the same person */
+  score: number;
+  /** e.g. "Same email", "Similar name" */
+  reasons: string[];
+  /** Older record first */
+  donors: [DonorProfile, DonorProfile];
+}
+
+export interface DonorMerge {
+  id: string;
+  survivorDonorId: string;
+  mergedDonorId: string;
+  movedDonationIds: string[];
+  movedDonorIds: string[];
+  /** Survivor fields (snake_case columns) copied from the duplicate */
+  filledFields: Record<string, string>;
+  score: number | null;
+  mergedBy: string;
+  mergedAt: string;
+  undoneBy: string | null;
+  undoneAt: string | null;
+}
+
+interface SupabaseDonorRow {
+  id: string;
+  donor_name: string;
+  email_address: string | null;
+  organization_name: string | null;
+  phone_number: string | null;
+  mailing_address: string | null;
+  stripe_customer_id: string | null;
+  recurring_status: string | null;
+  merged_into_donor_id: string | null;
+  created_at: string;
+}
+
+interface SupabaseDonorMergeRow {
+  id: string;
+  survivor_donor_id: string;
+  merged_donor_id: string;
+  moved_donation_ids: string[] | null;
+  moved_donor_ids: string[] | null;
+  filled_fields: Record<string, string> | null;
+  score: number | string | null;
+  merged_by: string;
+  merged_at: string;
+  undone_by: string | null;
+  undone_at: string | null;
+}
+
+interface SupabaseGiftRow {
+  donor_id: string;
+  donation_amount: number | string;
+  currency: string;
+  donation_date: string;
+}
+
+interface ScoredPair {
+  a: DonorRecord;
+  b: DonorRecord;
+  score: number;
+  reasons: string[];
+}
+
+const PAGE_SIZE = 1000;
+
+// Keep .in() filters well inside PostgREST's URL length limit
+const ID_CHUNK_SIZE = 200;
+
+// Contact fields copied to the survivor when it has none
+const FILLABLE_FIELDS = [
+  'email_address',
+  'organization_name',
+  'phone_number',
+  'mailing_address',
+  'stripe_customer_id',
+] as const;
+
+// Blocking keys shared by more donors than this (e.g. a common surname) are
+// too broad to be useful and are skipped
+const MAX_BLOCK_SIZE = 50;
+
+// Each signal's contribution to the score (capped at 1)
+const SCORE_WEIGHTS = {
+  EMAIL: 0.5,
+  EMAIL_USERNAME: 0.15,
+  PHONE: 0.3,
+  NAME: 0.3,
+  ADDRESS: 0.25,
+};
+
+// Fuzzy name and address matches below this similarity are ignored
+const SIMILARITY_THRESHOLD = 0.85;
+
+// Titles, suffixes and the webhook's placeholder name carry no identity
+const NAME_NOISE = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'rev', 'jr', 'sr', 'ii', 'iii', 'and', '&', 'anonymous']);
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  drive: 'dr',
+  lane: 'ln',
+  boulevard: 'blvd',
+  court: 'ct',
+  place: 'pl',
+  apartment: 'apt',
+  suite: 'ste',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+};
+
+function toDonorRecord(row: SupabaseDonorRow): DonorRecord {
+  return {
+    id: row.id,
+    name: row.donor_name,
+    email: row.email_address,
+    organization: row.organization_name,
+    phone: row.phone_number,
+    mailingAddress: row.mailing_address,
+    stripeCustomerId: row.stripe_customer_id,
+    recurringStatus: row.recurring_status,
+    mergedIntoDonorId: row.merged_into_donor_id,
+    createdAt: row.created_at,
+  };
+}
+
+function toDonorMerge(row: SupabaseDonorMergeRow): DonorMerge {
+  return {
+    id: row.id,
+    survivorDonorId: row.survivor_donor_id,
+    mergedDonorId: row.merged_donor_id,
+    movedDonationIds: row.moved_donation_ids || [],
+    movedDonorIds: row.moved_donor_ids || [],
+    filledFields: row.filled_fields || {},
+    score: row.score === null ? null : Number(row.score),
+    mergedBy: row.merged_by,
+    mergedAt: row.merged_at,
+    undoneBy: row.undone_by,
+    undoneAt: row.undone_at,
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Lowercase, drop +tags, and drop dots in Gmail addresses (Gmail ignores them)
+ */
+export function normalizeEmail(email: string | null): string | null {
+  if (!email || !email.includes('@')) return null;
+
+  const [local, domain] = email.trim().toLowerCase().split('@');
+  let user = local.split('+')[0];
+  const host = domain === 'googlemail.com' ? 'gmail.com' : domain;
+  if (host === 'gmail.com') {
+    user = user.replace(/\./g, '');
+  }
+
+  return user ? `${user}@${host}` : null;
+}
+
+/**
+ * Last ten digits, so "+1 (555) 010-2000" and "555.010.2000" match
+ */
+export function normalizePhone(phone: string | null): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+function nameTokens(name: string | null): string[] {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9&\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !NAME_NOISE.has(token));
+}
+
+function addressTokens(address: string | null): string[] {
+  return (address || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => ADDRESS_ABBREVIATIONS[token] || token);
+}
+
+/**
+ * Jaro-Winkler similarity (0-1), forgiving of typos near the end of a string
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Name similarity ignoring word order and titles; an initial matches the
+ * full first name when the last names agree ("J. Smith" / "Jane Smith")
+ */
+function nameSimilarity(a: string, b: string): number {
+  const aTokens = nameTokens(a);
+  const bTokens = nameTokens(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  const similarity = jaroWinkler([...aTokens].sort().join(' '), [...bTokens].sort().join(' '));
+
+  const aLast = aTokens[aTokens.length - 1];
+  const bLast = bTokens[bTokens.length - 1];
+  if (aTokens.length > 1 && bTokens.length > 1 && aLast === bLast && aTokens[0][0] === bTokens[0][0]) {
+    return Math.max(similarity, 0.9);
+  }
+
+  return similarity;
+}
+
+/**
+ * Address similarity; different house numbers never match
+ */
+function addressSimilarity(a: string, b: string): number {
+  const aTokens = addressTokens(a);
+  const bTokens = addressTokens(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  const aNumber = aTokens.find((token) => /^\d+$/.test(token));
+  const bNumber = bTokens.find((token) => /^\d+$/.test(token));
+  if (aNumber !== bNumber) return 0;
+
+  return jaroWinkler(aTokens.join(' '), bTokens.join(' '));
+}
+
+/**
+ * Score how likely two donor records are the same person
+ */
+export function scoreDonorPair(a: DonorRecord, b: DonorRecord): { score: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const aEmail = normalizeEmail(a.email);
+  const bEmail = normalizeEmail(b.email);
+  if (aEmail && bEmail) {
+    if (aEmail === bEmail) {
+      score += SCORE_WEIGHTS.EMAIL;
+      reasons.push('Same email');
+    } else if (aEmail.split('@')[0] === bEmail.split('@')[0] && aEmail.split('@')[0].length >= 4) {
+      score += SCORE_WEIGHTS.EMAIL_USERNAME;
+      reasons.push('Same email username');
+    }
+  }
+
+  const aPhone = normalizePhone(a.phone);
+  if (aPhone && aPhone === normalizePhone(b.phone)) {
+    score += SCORE_WEIGHTS.PHONE;
+    reasons.push('Same phone');
+  }
+
+  const name = nameSimilarity(a.name, b.name);
+  if (name >= SIMILARITY_THRESHOLD) {
+    score += SCORE_WEIGHTS.NAME * name;
+    reasons.push(name === 1 ? 'Same name' : 'Similar name');
+  }
+
+  if (a.mailingAddress && b.mailingAddress) {
+    const address = addressSimilarity(a.mailingAddress, b.mailingAddress);
+    if (address >= SIMILARITY_THRESHOLD) {
+      score += SCORE_WEIGHTS.ADDRESS * address;
+      reasons.push(address === 1 ? 'Same address' : 'Similar address');
+    }
+  }
+
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+}
+
+/**
+ * Keys that put two donors in the same comparison bucket. Only donors that
+ * share a key are compared, which keeps the search well below n².
+ */
+function blockingKeys(donor: DonorRecord): string[] {
+  const keys: string[] = [];
+
+  const email = normalizeEmail(donor.email);
+  if (email) {
+    keys.push(`email:${email}`);
+    const user = email.split('@')[0];
+    if (user.length >= 4) keys.push(`user:${user}`);
+  }
+
+  const phone = normalizePhone(donor.phone);
+  if (phone) keys.push(`phone:${phone}`);
+
+  const tokens = nameTokens(donor.name);
+  if (tokens.length > 0) {
+    keys.push(`name:${tokens[tokens.length - 1]}:${tokens[0][0]}`);
+  }
+
+  const address = addressTokens(donor.mailingAddress);
+  const houseNumber = address.find((token) => /^\d+$/.test(token));
+  if (houseNumber) {
+    const street = address[address.indexOf(houseNumber) + 1];
+    if (street) keys.push(`address:${houseNumber}:${street}`);
+  }
+
+  return keys;
+}
+
+function findScoredPairs(donors: DonorRecord[], minScore: number): ScoredPair[] {
+  const blocks = new Map<string, DonorRecord[]>();
+  for (const donor of donors) {
+    for (const key of blockingKeys(donor)) {
+      const block = blocks.get(key) || [];
+      block.push(donor);
+      blocks.set(key, block);
+    }
+  }
+
+  const pairs = new Map<string, ScoredPair>();
+  for (const block of blocks.values()) {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue;
+
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i].createdAt <= block[j].createdAt ? [block[i], block[j]] : [block[j], block[i]];
+        const key = `${a.id}:${b.id}`;
+        if (pairs.has(key)) continue;
+
+        const { score, reasons } = scoreDonorPair(a, b);
+        if (score >= minScore) {
+          pairs.set(key, { a, b, score, reasons });
+        }
+      }
+    }
+  }
+
+  return [...pairs.values()];
+}
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * Every donor that has not been merged into another
+ */
+async function listActiveDonors(): Promise<DonorRecord[]> {
+  logger.dbQuery('donors', 'listActive');
+
+  const timer = startTimer('listActiveDonors');
+  const rows: SupabaseDonorRow[] = [];
+
+  try {
+    const supabase = getSupabaseClient();
+
+    // PostgREST caps each response, so read the table in pages
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('donors')
+        .select('*')
+        .is('merged_into_donor_id', null)
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        timer.end();
+        logger.dbError('donors', 'listActive', error);
+        throw new DatabaseError('Failed to query donors');
+      }
+
+      const page = (data || []) as SupabaseDonorRow[];
+      rows.push(...page);
+
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    timer.end();
+    return rows.map(toDonorRecord);
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donors', 'listActive', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Donor records by ID (merged ones included)
+ */
+export async function findDonorsByIds(donorIds: string[]): Promise<DonorRecord[]> {
+  logger.dbQuery('donors', 'findByIds', { count: donorIds.length });
+
+  if (donorIds.length === 0) {
+    return [];
+  }
+
+  const timer = startTimer('findDonorsByIds');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase.from('donors').select('*').in('id', donorIds);
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donors', 'findByIds', error);
+      throw new DatabaseError('Failed to find donors');
+    }
+
+    return ((data || []) as SupabaseDonorRow[]).map(toDonorRecord);
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donors', 'findByIds', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Succeeded-gift count, totals and last gift date per donor
+ */
+async function findGiftSummaries(donorIds: string[]): Promise<Map<string, DonorGiftSummary>> {
+  logger.dbQuery('donations', 'summariseByDonor', { count: donorIds.length });
+
+  const timer = startTimer('findGiftSummaries');
+  const summaries = new Map<string, DonorGiftSummary>();
+
+  try {
+    const supabase = getSupabaseClient();
+
+    for (const ids of chunk(donorIds, ID_CHUNK_SIZE)) {
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('donations')
+          .select('donor_id, donation_amount, currency, donation_date')
+          .eq('payment_status', PAYMENT_STATUS.SUCCEEDED)
+          .in('donor_id', ids)
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          timer.end();
+          logger.dbError('donations', 'summariseByDonor', error);
+          throw new DatabaseError('Failed to query donations');
+        }
+
+        const page = (data || []) as SupabaseGiftRow[];
+        for (const row of page) {
+          const summary = summaries.get(row.donor_id) || { giftCount: 0, lastGiftDate: null, totals: [] };
+          const currency = (row.currency || 'usd').toUpperCase();
+          const total = summary.totals.find((candidate) => candidate.currency === currency);
+          if (total) {
+            total.amount += Number(row.donation_amount);
+          } else {
+            summary.totals.push({ currency, amount: Number(row.donation_amount) });
+          }
+          summary.giftCount += 1;
+          if (!summary.lastGiftDate || row.donation_date > summary.lastGiftDate) {
+            summary.lastGiftDate = row.donation_date;
+          }
+          summaries.set(row.donor_id, summary);
+        }
+
+        if (page.length < PAGE_SIZE) {
+          break;
+        }
+      }
+    }
+
+    timer.end();
+
+    // Round once at the end so per-gift float error does not accumulate
+    for (const summary of summaries.values()) {
+      summary.totals = summary.totals.map((total) => ({ ...total, amount: Math.round(total.amount * 100) / 100 }));
+    }
+
+    return summaries;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donations', 'summariseByDonor', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Likely duplicate donor pairs, best match first, each with both donors'
+ * giving so they can be compared side by side
+ */
+export async function findDuplicateDonors(minScore: number, limit: number): Promise<DuplicateDonorCandidate[]> {
+  const donors = await listActiveDonors();
+  const pairs = findScoredPairs(donors, minScore)
+    .sort((x, y) => y.score - x.score || x.a.createdAt.localeCompare(y.a.createdAt))
+    .slice(0, limit);
+
+  const ids = [...new Set(pairs.flatMap((pair) => [pair.a.id, pair.b.id]))];
+  const summaries = await findGiftSummaries(ids);
+  const profile = (donor: DonorRecord): DonorProfile => ({
+    ...donor,
+    ...(summaries.get(donor.id) || { giftCount: 0, lastGiftDate: null, totals: [] }),
+  });
+
+  return pairs.map((pair) => ({
+    score: pair.score,
+    reasons: pair.reasons,
+    donors: [profile(pair.a), profile(pair.b)],
+  }));
+}
+
+/**
+ * Find a merge by ID
+ */
+export async function findDonorMerge(mergeId: string): Promise<DonorMerge | null> {
+  logger.dbQuery('donor_merges', 'findById', { mergeId });
+
+  const timer = startTimer('findDonorMerge');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase.from('donor_merges').select('*').eq('id', mergeId).maybeSingle();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donor_merges', 'findById', error);
+      throw new DatabaseError('Failed to find donor merge');
+    }
+
+    return data ? toDonorMerge(data as SupabaseDonorMergeRow) : null;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donor_merges', 'findById', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Recent merges, newest first
+ */
+export async function listDonorMerges(limit: number): Promise<DonorMerge[]> {
+  logger.dbQuery('donor_merges', 'list', { limit });
+
+  const timer = startTimer('listDonorMerges');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('donor_merges')
+      .select('*')
+      .order('merged_at', { ascending: false })
+      .limit(limit);
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donor_merges', 'list', error);
+      throw new DatabaseError('Failed to list donor merges');
+    }
+
+    return ((data || []) as SupabaseDonorMergeRow[]).map(toDonorMerge);
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donor_merges', 'list', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+async function selectIds(table: 'donations' | 'donors', column: string, value: string): Promise<string[]> {
+  const supabase = getSupabaseClient();
+  const ids: string[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('id')
+      .eq(column, value)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      logger.dbError(table, 'selectIds', error);
+      throw new DatabaseError(`Failed to query ${table}`);
+    }
+
+    const page = (data || []) as { id: string }[];
+    ids.push(...page.map((row) => row.id));
+
+    if (page.length < PAGE_SIZE) {
+      return ids;
+    }
+  }
+}
+
+/**
+ * Point `column` at `to` on the given rows, but only where it still points
+ * at `from` (so an undo never clobbers a later change)
+ */
+async function repoint(
+  table: 'donations' | 'donors',
+  column: 'donor_id' | 'merged_into_donor_id',
+  ids: string[],
+  from: string,
+  to: string
+): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  for (const idChunk of chunk(ids, ID_CHUNK_SIZE)) {
+    const { error } = await supabase
+      .from(table)
+      .update({ [column]: to })
+      .in('id', idChunk)
+      .eq(column, from);
+
+    if (error) {
+      logger.dbError(table, 'repoint', error);
+      throw new DatabaseError(`Failed to update ${table}`);
+    }
+  }
+}
+
+/**
+ * Merge a duplicate donor into a survivor
+ *
+ * The merge row is written first with everything that is about to move, so
+ * a merge that fails part-way can still be undone.
+ */
+export async function mergeDonors(
+  survivor: DonorRecord,
+  duplicate: DonorRecord,
+  score: number | null,
+  audit: AuditContext
+): Promise<DonorMerge> {
+  logger.dbQuery('donor_merges', 'merge', { survivorId: survivor.id, mergedId: duplicate.id });
+
+  const timer = startTimer('mergeDonors');
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const [donationIds, donorIds] = await Promise.all([
+      selectIds('donations', 'donor_id', duplicate.id),
+      selectIds('donors', 'merged_into_donor_id', duplicate.id),
+    ]);
+
+    const { data: survivorRow } = await supabase.from('donors').select('*').eq('id', survivor.id).single();
+    const { data: duplicateRow } = await supabase.from('donors').select('*').eq('id', duplicate.id).single();
+    const survivorBefore = (survivorRow || {}) as Record<string, unknown>;
+    const duplicateBefore = (duplicateRow || {}) as Record<string, unknown>;
+
+    const filledFields: Record<string, string> = {};
+    for (const field of FILLABLE_FIELDS) {
+      const value = duplicateBefore[field];
+      if (!survivorBefore[field] && typeof value === 'string' && value) {
+        filledFields[field] = value;
+      }
+    }
+
+    // 1. Record the merge
+    const { data, error } = await supabase
+      .from('donor_merges')
+      .insert({
+        survivor_donor_id: survivor.id,
+        merged_donor_id: duplicate.id,
+        moved_donation_ids: donationIds,
+        moved_donor_ids: donorIds,
+        filled_fields: filledFields,
+        score,
+        merged_by: audit.actor,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      timer.end();
+      logger.dbError('donor_merges', 'merge', error);
+      throw new DatabaseError('Failed to record donor merge');
+    }
+
+    const merge = toDonorMerge(data as SupabaseDonorMergeRow);
+
+    // 2. Move the duplicate's donations and earlier duplicates to the survivor
+    await repoint('donations', 'donor_id', donationIds, duplicate.id, survivor.id);
+    await repoint('donors', 'merged_into_donor_id', donorIds, duplicate.id, survivor.id);
+
+    // 3. Fill the survivor's empty contact fields
+    if (Object.keys(filledFields).length > 0) {
+      const { error: fillError } = await supabase.from('donors').update(filledFields).eq('id', survivor.id);
+      if (fillError) {
+        timer.end();
+        logger.dbError('donors', 'merge', fillError);
+        throw new DatabaseError('Failed to update surviving donor');
+      }
+    }
+
+    // 4. Retire the duplicate
+    const { error: retireError } = await supabase
+      .from('donors')
+      .update({ merged_into_donor_id: survivor.id })
+      .eq('id', duplicate.id);
+
+    timer.end();
+
+    if (retireError) {
+      logger.dbError('donors', 'merge', retireError);
+      throw new DatabaseError('Failed to mark duplicate donor as merged');
+    }
+
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.DONOR_MERGED,
+        targetTable: 'donors',
+        targetId: duplicate.id,
+        before: duplicateBefore,
+        after: { ...duplicateBefore, merged_into_donor_id: survivor.id },
+        metadata: {
+          mergeId: merge.id,
+          survivorDonorId: survivor.id,
+          movedDonationIds: donationIds,
+          movedDonorIds: donorIds,
+          score,
+        },
+      },
+      audit
+    );
+
+    if (Object.keys(filledFields).length > 0) {
+      await recordAuditEvent(
+        {
+          action: AUDIT_ACTIONS.DONOR_UPDATED,
+          targetTable: 'donors',
+          targetId: survivor.id,
+          before: survivorBefore,
+          after: { ...survivorBefore, ...filledFields },
+          metadata: { mergeId: merge.id },
+        },
+        audit
+      );
+    }
+
+    return merge;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donor_merges', 'merge', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Undo a merge: move the donations and earlier duplicates back, clear the
+ * survivor fields the merge filled (unless edited since) and reinstate the
+ * duplicate
+ */
+export async function undoDonorMerge(merge: DonorMerge, audit: AuditContext): Promise<DonorMerge> {
+  logger.dbQuery('donor_merges', 'undo', { mergeId: merge.id });
+
+  const timer = startTimer('undoDonorMerge');
+
+  try {
+    const supabase = getSupabaseClient();
+
+    // 1. Move everything back that still points at the survivor
+    await repoint('donations', 'donor_id', merge.movedDonationIds, merge.survivorDonorId, merge.mergedDonorId);
+    await repoint('donors', 'merged_into_donor_id', merge.movedDonorIds, merge.survivorDonorId, merge.mergedDonorId);
+
+    // 2. Clear filled fields the survivor still has unchanged
+    const { data: survivorRow } = await supabase.from('donors').select('*').eq('id', merge.survivorDonorId).single();
+    const survivorBefore = (survivorRow || {}) as Record<string, unknown>;
+    const cleared: Record<string, null> = {};
+    for (const [field, value] of Object.entries(merge.filledFields)) {
+      if (survivorBefore[field] === value) {
+        cleared[field] = null;
+      }
+    }
+
+    if (Object.keys(cleared).length > 0) {
+      const { error: clearError } = await supabase.from('donors').update(cleared).eq('id', merge.survivorDonorId);
+      if (clearError) {
+        timer.end();
+        logger.dbError('donors', 'undoMerge', clearError);
+        throw new DatabaseError('Failed to restore surviving donor');
+      }
+    }
+
+    // 3. Reinstate the duplicate
+    const { error: restoreError } = await supabase
+      .from('donors')
+      .update({ merged_into_donor_id: null })
+      .eq('id', merge.mergedDonorId);
+
+    if (restoreError) {
+      timer.end();
+      logger.dbError('donors', 'undoMerge', restoreError);
+      throw new DatabaseError('Failed to restore merged donor');
+    }
+
+    // 4. Close the merge record
+    const { data, error } = await supabase
+      .from('donor_merges')
+      .update({ undone_by: audit.actor, undone_at: new Date().toISOString() })
+      .eq('id', merge.id)
+      .select()
+      .single();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donor_merges', 'undo', error);
+      throw new DatabaseError('Failed to record donor merge undo');
+    }
+
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.DONOR_MERGE_UNDONE,
+        targetTable: 'donors',
+        targetId: merge.mergedDonorId,
+        before: { merged_into_donor_id: merge.survivorDonorId },
+        after: { merged_into_donor_id: null },
+        metadata: {
+          mergeId: merge.id,
+          survivorDonorId: merge.survivorDonorId,
+          movedDonationIds: merge.movedDonationIds,
+          movedDonorIds: merge.movedDonorIds,
+        },
+      },
+      audit
+    );
+
+    if (Object.keys(cleared).length > 0) {
+      await recordAuditEvent(
+        {
+          action: AUDIT_ACTIONS.DONOR_UPDATED,
+          targetTable: 'donors',
+          targetId: merge.survivorDonorId,
+          before: survivorBefore,
+          after: { ...survivorBefore, ...cleared },
+          metadata: { mergeId: merge.id },
+        },
+        audit
+      );
+    }
+
+    return toDonorMerge(data as SupabaseDonorMergeRow);
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donor_merges', 'undo', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
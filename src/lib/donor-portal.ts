@@ -0,0 +1,366 @@
+/**
+ * Donor portal
+ * Lets one-time and recurring donors who are not sponsors log in by email
+ * and see their giving.
+ *
+ * A donor account is everything recorded under one email address: every
+ * donor record with that email, plus donations made with it that were never
+ * linked to a donor record.
+ */
+
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import { recordAuditEvent, AUDIT_ACTIONS } from './audit';
+import type { AuditContext } from './audit';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DonorAccount {
+  /** Lowercased login email */
+  email: string;
+  /** Donor records with this email, or the donors they were merged into (may be empty for unlinked gifts) */
+  donorIds: string[];
+  name: string | null;
+  mailingAddress: string | null;
+  /** Stripe customers on the donor records, most recently created first */
+  stripeCustomerIds: string[];
+  recurringStatus: string | null;
+}
+
+export interface DonorGift {
+  id: string;
+  date: string;
+  /** The gift itself */
+  amount: number;
+  /** Processing fees the donor chose to cover on top of the gift */
+  coveredFee: number;
+  currency: string;
+  status: string;
+  recurring: boolean;
+  subscriptionId: string | null;
+  /** Stripe payment intent or invoice ID */
+  reference: string;
+}
+
+interface SupabaseDonorRow {
+  id: string;
+  donor_name: string;
+  email_address: string | null;
+  mailing_address: string | null;
+  stripe_customer_id: string | null;
+  recurring_status: string | null;
+  merged_into_donor_id: string | null;
+  created_at: string;
+}
+
+interface SupabaseDonorGiftRow {
+  id: string;
+  stripe_payment_intent_id: string;
+  donation_amount: number | string;
+  covered_fee: number | string | null;
+  currency: string;
+  donation_date: string;
+  payment_status: string;
+  recurring_donation: boolean | null;
+  subscription_id: string | null;
+}
+
+const GIFT_COLUMNS =
+  'id, stripe_payment_intent_id, donation_amount, covered_fee, currency, donation_date, payment_status, ' +
+  'recurring_donation, subscription_id';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Match an email case-insensitively without treating % or _ as wildcards
+ */
+function toEmailPattern(email: string): string {
+  return email.trim().toLowerCase().replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function toDonorGift(row: SupabaseDonorGiftRow): DonorGift {
+  return {
+    id: row.id,
+    date: row.donation_date,
+    amount: Number(row.donation_amount),
+    coveredFee: Number(row.covered_fee || 0),
+    currency: (row.currency || 'usd').toUpperCase(),
+    status: row.payment_status,
+    recurring: !!row.recurring_donation,
+    subscriptionId: row.subscription_id,
+    reference: row.stripe_payment_intent_id,
+  };
+}
+
+// ============================================================================
+// LOGIN TOKENS
+// ============================================================================
+
+/**
+ * Store a single-use donor login token (hash only)
+ */
+export async function createDonorLoginToken(
+  email: string,
+  tokenHash: string,
+  expiresAt: string
+): Promise<void> {
+  logger.dbQuery('donor_login_tokens', 'create', { email: logger.maskEmail(email) });
+
+  const timer = startTimer('createDonorLoginToken');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('donor_login_tokens')
+      .insert({ email, token_hash: tokenHash, expires_at: expiresAt });
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donor_login_tokens', 'create', error);
+      throw new DatabaseError('Failed to create login token');
+    }
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donor_login_tokens', 'create', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Consume a donor login token (single use)
+ * Marks the token used only if it is unused and unexpired, so concurrent
+ * redemptions of the same token cannot both succeed.
+ * Returns the email the token was issued to, or null if invalid.
+ */
+export async function consumeDonorLoginToken(tokenHash: string): Promise<string | null> {
+  logger.dbQuery('donor_login_tokens', 'consume', {});
+
+  const timer = startTimer('consumeDonorLoginToken');
+  const now = new Date().toISOString();
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('donor_login_tokens')
+      .update({ used_at: now })
+      .eq('token_hash', tokenHash)
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .select('email')
+      .maybeSingle();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donor_login_tokens', 'consume', error);
+      throw new DatabaseError('Failed to verify login token');
+    }
+
+    return data ? (data as { email: string }).email : null;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donor_login_tokens', 'consume', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * Find the donor account for an email
+ * Returns null if the email has neither a donor record nor any donation.
+ */
+export async function findDonorAccount(email: string): Promise<DonorAccount | null> {
+  logger.dbQuery('donors', 'findAccount', { email: logger.maskEmail(email) });
+
+  const timer = startTimer('findDonorAccount');
+  const normalizedEmail = email.trim().toLowerCase();
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('donors')
+      .select(
+        'id, donor_name, email_address, mailing_address, stripe_customer_id, recurring_status, ' +
+          'merged_into_donor_id, created_at'
+      )
+      .ilike('email_address', toEmailPattern(normalizedEmail))
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      timer.end();
+      logger.dbError('donors', 'findAccount', error);
+      throw new DatabaseError('Failed to find donor');
+    }
+
+    const donors = (data || []) as unknown as SupabaseDonorRow[];
+
+    if (donors.length === 0) {
+      // Gifts made before a donor record existed still give the email an account
+      const { count, error: giftError } = await supabase
+        .from('donations')
+        .select('id', { count: 'exact', head: true })
+        .ilike('donor_email_at_donation', toEmailPattern(normalizedEmail));
+
+      timer.end();
+
+      if (giftError) {
+        logger.dbError('donations', 'findAccount', giftError);
+        throw new DatabaseError('Failed to find donor');
+      }
+
+      if (!count) {
+        return null;
+      }
+    } else {
+      timer.end();
+    }
+
+    return {
+      email: normalizedEmail,
+      // A record merged as a duplicate stands in for the donor it was merged into
+      donorIds: [...new Set(donors.map((donor) => donor.merged_into_donor_id || donor.id))],
+      name: donors.find((donor) => donor.donor_name)?.donor_name || null,
+      mailingAddress: donors.find((donor) => donor.mailing_address)?.mailing_address || null,
+      stripeCustomerIds: [
+        ...new Set(donors.map((donor) => donor.stripe_customer_id).filter((id): id is string => !!id)),
+      ],
+      recurringStatus: donors.find((donor) => donor.recurring_status)?.recurring_status || null,
+    };
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donors', 'findAccount', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Every donation in a donor account, newest first
+ * Includes gifts linked to the account's donor records and unlinked gifts
+ * made with its email.
+ */
+export async function findDonorGifts(account: DonorAccount): Promise<DonorGift[]> {
+  logger.dbQuery('donations', 'findForDonor', { email: logger.maskEmail(account.email) });
+
+  const timer = startTimer('findDonorGifts');
+
+  try {
+    const supabase = getSupabaseClient();
+    const rows = new Map<string, SupabaseDonorGiftRow>();
+
+    if (account.donorIds.length > 0) {
+      const { data, error } = await supabase
+        .from('donations')
+        .select(GIFT_COLUMNS)
+        .in('donor_id', account.donorIds);
+
+      if (error) {
+        timer.end();
+        logger.dbError('donations', 'findForDonor', error);
+        throw new DatabaseError('Failed to find donations');
+      }
+
+      for (const row of (data || []) as unknown as SupabaseDonorGiftRow[]) {
+        rows.set(row.id, row);
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('donations')
+      .select(GIFT_COLUMNS)
+      .is('donor_id', null)
+      .ilike('donor_email_at_donation', toEmailPattern(account.email));
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donations', 'findForDonor', error);
+      throw new DatabaseError('Failed to find donations');
+    }
+
+    for (const row of (data || []) as unknown as SupabaseDonorGiftRow[]) {
+      rows.set(row.id, row);
+    }
+
+    return [...rows.values()]
+      .map(toDonorGift)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donations', 'findForDonor', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Update the mailing address on every donor record in the account
+ * Returns the number of donor records updated.
+ */
+export async function updateDonorMailingAddress(
+  account: DonorAccount,
+  mailingAddress: string,
+  audit?: AuditContext
+): Promise<number> {
+  logger.dbQuery('donors', 'updateMailingAddress', { email: logger.maskEmail(account.email) });
+
+  if (account.donorIds.length === 0) {
+    return 0;
+  }
+
+  const timer = startTimer('updateDonorMailingAddress');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data: before } = await supabase.from('donors').select('*').in('id', account.donorIds);
+
+    const { data, error } = await supabase
+      .from('donors')
+      .update({ mailing_address: mailingAddress })
+      .in('id', account.donorIds)
+      .select();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('donors', 'updateMailingAddress', error);
+      throw new DatabaseError('Failed to update mailing address');
+    }
+
+    const updated = (data || []) as Array<Record<string, unknown> & { id: string }>;
+    for (const row of updated) {
+      await recordAuditEvent(
+        {
+          action: AUDIT_ACTIONS.DONOR_UPDATED,
+          targetTable: 'donors',
+          targetId: row.id,
+          before: ((before || []) as Array<Record<string, unknown>>).find((candidate) => candidate.id === row.id) || null,
+          after: row,
+        },
+        audit
+      );
+    }
+
+    return updated.length;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donors', 'updateMailingAddress', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
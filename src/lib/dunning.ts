@@ -0,0 +1,429 @@
+/**
+ * Dunning cases
+ * Tracks the payment-failed email sequence for each failed subscription invoice.
+ *
+ * Lifecycle: active -> recovered | escalated | canceled. A case is opened by
+ * invoice.payment_failed, emailed on the schedule in effect when it opened,
+ * and closed when a payment succeeds, the subscription is canceled, or the
+ * final email has been sent and the admin has been alerted.
+ */
+
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import { DUNNING_STATUS } from './constants';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DunningStatus = (typeof DUNNING_STATUS)[keyof typeof DUNNING_STATUS];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DunningCase {
+  id: string;
+  invoiceId: string;
+  subscriptionId: string;
+  customerId: string;
+  email: string;
+  name: string | null;
+  amountCents: number;
+  currency: string;
+  /** Days after startedAt on which an email is due */
+  scheduleDays: number[];
+  emailsSent: number;
+  status: DunningStatus;
+  nextSendAt: string | null;
+  lastSentAt: string | null;
+  startedAt: string;
+  closedAt: string | null;
+}
+
+export interface OpenDunningCaseInput {
+  invoiceId: string;
+  subscriptionId: string;
+  customerId: string;
+  email: string;
+  name?: string | null;
+  amountCents: number;
+  currency: string;
+  scheduleDays: number[];
+}
+
+interface SupabaseDunningCaseRow {
+  id: string;
+  invoice_id: string;
+  subscription_id: string;
+  customer_id: string;
+  email: string;
+  name: string | null;
+  amount_cents: number;
+  currency: string;
+  schedule_days: number[];
+  emails_sent: number;
+  status: DunningStatus;
+  next_send_at: string | null;
+  last_sent_at: string | null;
+  started_at: string;
+  closed_at: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toDunningCase(row: SupabaseDunningCaseRow): DunningCase {
+  return {
+    id: row.id,
+    invoiceId: row.invoice_id,
+    subscriptionId: row.subscription_id,
+    customerId: row.customer_id,
+    email: row.email,
+    name: row.name,
+    amountCents: row.amount_cents,
+    currency: row.currency,
+    scheduleDays: row.schedule_days,
+    emailsSent: row.emails_sent,
+    status: row.status,
+    nextSendAt: row.next_send_at,
+    lastSentAt: row.last_sent_at,
+    startedAt: row.started_at,
+    closedAt: row.closed_at,
+  };
+}
+
+/**
+ * When the case is next due, once `emailsSent` emails have gone out
+ *
+ * After the final email the case stays due (at `now`) so the escalation is
+ * retried by the next run if it could not be sent straight away.
+ */
+function getNextSendAt(dunningCase: DunningCase, emailsSent: number, now: Date): string {
+  const days = dunningCase.scheduleDays[emailsSent];
+
+  if (days === undefined) {
+    return now.toISOString();
+  }
+
+  return new Date(new Date(dunningCase.startedAt).getTime() + days * DAY_MS).toISOString();
+}
+
+/**
+ * Whole days between the case opening and `now`
+ */
+export function getDaysSinceDunningStarted(dunningCase: DunningCase, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(dunningCase.startedAt).getTime()) / DAY_MS));
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Open a dunning case for a failed invoice
+ *
+ * Stripe sends invoice.payment_failed again for each failed retry of the same
+ * invoice; those return the existing case so the sequence does not restart.
+ */
+export async function openDunningCase(
+  input: OpenDunningCaseInput
+): Promise<{ dunningCase: DunningCase; created: boolean }> {
+  logger.dbQuery('dunning_cases', 'open', {
+    invoiceId: input.invoiceId,
+    subscriptionId: input.subscriptionId,
+  });
+
+  const timer = startTimer('openDunningCase');
+  const now = new Date();
+  const firstSendAt = new Date(now.getTime() + (input.scheduleDays[0] ?? 0) * DAY_MS);
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('dunning_cases')
+      .insert({
+        invoice_id: input.invoiceId,
+        subscription_id: input.subscriptionId,
+        customer_id: input.customerId,
+        email: input.email,
+        name: input.name || null,
+        amount_cents: input.amountCents,
+        currency: input.currency,
+        schedule_days: input.scheduleDays,
+        emails_sent: 0,
+        status: DUNNING_STATUS.ACTIVE,
+        next_send_at: firstSendAt.toISOString(),
+        started_at: now.toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (!error && data) {
+      timer.end();
+      return { dunningCase: toDunningCase(data as SupabaseDunningCaseRow), created: true };
+    }
+
+    // 23505 = unique_violation: a case is already open for this invoice
+    if (error?.code !== '23505') {
+      timer.end();
+      logger.dbError('dunning_cases', 'open', error);
+      throw new DatabaseError('Failed to open dunning case');
+    }
+
+    const { data: existing, error: findError } = await supabase
+      .from('dunning_cases')
+      .select('*')
+      .eq('invoice_id', input.invoiceId)
+      .single();
+
+    timer.end();
+
+    if (findError || !existing) {
+      logger.dbError('dunning_cases', 'open', findError);
+      throw new DatabaseError('Failed to read dunning case');
+    }
+
+    return { dunningCase: toDunningCase(existing as SupabaseDunningCaseRow), created: false };
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('dunning_cases', 'open', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Claim the next email of a case before sending it
+ *
+ * The emails_sent check makes this a compare-and-swap, so the cron run and
+ * the webhook cannot both send the same email.
+ *
+ * @returns The updated case, or null if another run already claimed the step
+ */
+export async function claimDunningEmail(dunningCase: DunningCase, now: Date): Promise<DunningCase | null> {
+  logger.dbQuery('dunning_cases', 'claimEmail', {
+    id: dunningCase.id,
+    emailsSent: dunningCase.emailsSent,
+  });
+
+  const timer = startTimer('claimDunningEmail');
+  const emailsSent = dunningCase.emailsSent + 1;
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('dunning_cases')
+      .update({
+        emails_sent: emailsSent,
+        last_sent_at: now.toISOString(),
+        next_send_at: getNextSendAt(dunningCase, emailsSent, now),
+      })
+      .eq('id', dunningCase.id)
+      .eq('status', DUNNING_STATUS.ACTIVE)
+      .eq('emails_sent', dunningCase.emailsSent)
+      .select('*')
+      .maybeSingle();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('dunning_cases', 'claimEmail', error);
+      throw new DatabaseError('Failed to claim dunning email');
+    }
+
+    return data ? toDunningCase(data as SupabaseDunningCaseRow) : null;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('dunning_cases', 'claimEmail', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Undo a claimed email that could not be sent, so the next run retries it
+ */
+export async function releaseDunningEmail(claimed: DunningCase, previous: DunningCase): Promise<void> {
+  logger.dbQuery('dunning_cases', 'releaseEmail', { id: claimed.id, emailsSent: claimed.emailsSent });
+
+  const timer = startTimer('releaseDunningEmail');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('dunning_cases')
+      .update({
+        emails_sent: previous.emailsSent,
+        last_sent_at: previous.lastSentAt,
+        next_send_at: previous.nextSendAt,
+      })
+      .eq('id', claimed.id)
+      .eq('emails_sent', claimed.emailsSent);
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('dunning_cases', 'releaseEmail', error);
+      throw new DatabaseError('Failed to release dunning email');
+    }
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('dunning_cases', 'releaseEmail', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Close open cases for a subscription
+ *
+ * A successful payment recovers active and escalated cases (so the admin
+ * list shows the sponsor came back); a cancellation only closes active ones.
+ *
+ * @returns Number of cases closed
+ */
+export async function closeDunningCases(
+  subscriptionId: string,
+  status: typeof DUNNING_STATUS.RECOVERED | typeof DUNNING_STATUS.CANCELED
+): Promise<number> {
+  logger.dbQuery('dunning_cases', 'close', { subscriptionId, status });
+
+  const timer = startTimer('closeDunningCases');
+  const openStatuses: DunningStatus[] =
+    status === DUNNING_STATUS.RECOVERED
+      ? [DUNNING_STATUS.ACTIVE, DUNNING_STATUS.ESCALATED]
+      : [DUNNING_STATUS.ACTIVE];
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('dunning_cases')
+      .update({
+        status,
+        next_send_at: null,
+        closed_at: new Date().toISOString(),
+      })
+      .eq('subscription_id', subscriptionId)
+      .in('status', openStatuses)
+      .select('id');
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('dunning_cases', 'close', error);
+      throw new DatabaseError('Failed to close dunning cases');
+    }
+
+    return (data || []).length;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('dunning_cases', 'close', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Mark a case escalated once the admin has been alerted
+ */
+export async function markDunningCaseEscalated(dunningCaseId: string): Promise<void> {
+  logger.dbQuery('dunning_cases', 'escalate', { id: dunningCaseId });
+
+  const timer = startTimer('markDunningCaseEscalated');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('dunning_cases')
+      .update({
+        status: DUNNING_STATUS.ESCALATED,
+        next_send_at: null,
+      })
+      .eq('id', dunningCaseId)
+      .eq('status', DUNNING_STATUS.ACTIVE);
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('dunning_cases', 'escalate', error);
+      throw new DatabaseError('Failed to escalate dunning case');
+    }
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('dunning_cases', 'escalate', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * List active cases whose next email (or escalation) is due, oldest first
+ */
+export async function findDueDunningCases(now: Date, limit: number): Promise<DunningCase[]> {
+  logger.dbQuery('dunning_cases', 'findDue', { now: now.toISOString(), limit });
+
+  const timer = startTimer('findDueDunningCases');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('dunning_cases')
+      .select('*')
+      .eq('status', DUNNING_STATUS.ACTIVE)
+      .lte('next_send_at', now.toISOString())
+      .order('next_send_at', { ascending: true })
+      .limit(limit);
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('dunning_cases', 'findDue', error);
+      throw new DatabaseError('Failed to query dunning cases');
+    }
+
+    return (data || []).map((row) => toDunningCase(row as SupabaseDunningCaseRow));
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('dunning_cases', 'findDue', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Get a single case
+ */
+export async function findDunningCaseById(dunningCaseId: string): Promise<DunningCase | null> {
+  logger.dbQuery('dunning_cases', 'findById', { id: dunningCaseId });
+
+  const timer = startTimer('findDunningCaseById');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('dunning_cases')
+      .select('*')
+      .eq('id', dunningCaseId)
+      .single();
+
+    timer.end();
+
+    // 22P02 = invalid_text_representation: not a UUID, so no such case
+    if (error && error.code !== 'PGRST116' && error.code !== '22P02') {
+      logger.dbError('dunning_cases', 'findById', error);
+      throw new DatabaseError('Failed to read dunning case');
+    }
+
+    return data ? toDunningCase(data as SupabaseDunningCaseRow) : null;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('dunning_cases', 'findById', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
@@ -10,6 +10,8 @@
 
 import { logger } from './logger';
 import { getEmailConfig } from './env';
+import { ROLE_EMAILS, TRIBUTE_TYPES } from './constants';
+import { formatCurrencyAmount } from './currency';
 import { sendEmailViaGmail, isGmailConfigured, GmailSendResult } from './gmail';
 
 // ============================================================================
@@ -21,6 +23,13 @@ export interface EmailRecipient {
   name?: string;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  /** MIME type, e.g. 'application/pdf' */
+  contentType: string;
+}
+
 export interface EmailOptions {
   to: EmailRecipient | EmailRecipient[];
   subject: string;
@@ -28,6 +37,7 @@ export interface EmailOptions {
   text?: string;
   from?: EmailRecipient;
   replyTo?: EmailRecipient;
+  attachments?: EmailAttachment[];
 }
 
 export interface EmailSendResult {
@@ -86,6 +96,7 @@ export async function sendEmail(options: EmailOptions): Promise<EmailSendResult>
       html: options.html,
       text: options.text || stripHtml(options.html),
       replyTo: replyToAddress,
+      attachments: options.attachments,
     });
 
     return result;
@@ -110,6 +121,12 @@ export async function sendEmail(options: EmailOptions): Promise<EmailSendResult>
       subject: options.subject,
       text: options.text || stripHtml(options.html),
       html: options.html,
+      attachments: options.attachments?.map((attachment) => ({
+        content: attachment.content.toString('base64'),
+        filename: attachment.filename,
+        type: attachment.contentType,
+        disposition: 'attachment',
+      })),
     };
 
     const response = await sgMail.send(message);
@@ -371,6 +388,80 @@ export async function sendDonationReceiptEmail(
   });
 }
 
+/**
+ * Send a donor's year-end giving statement with the PDF attached
+ *
+ * @param totals - Formatted total per currency (e.g. "$1,200.00 USD")
+ * @returns Structured result with success/failure and data/error
+ */
+export async function sendYearEndStatementEmail(
+  donorEmail: string,
+  donorName: string,
+  taxYear: number,
+  totals: string[],
+  statementPdf: Buffer
+): Promise<EmailSendResult> {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #1a1a1a; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+          .receipt-box { background-color: #fff; padding: 20px; border: 2px solid #1a1a1a; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
+          .amount { font-size: 28px; font-weight: bold; color: #1a1a1a; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Your ${taxYear} Giving Statement</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${donorName},</p>
+
+            <p>Thank you for standing with communities in Northern Uganda throughout ${taxYear}. Your annual giving statement is attached for your tax records.</p>
+
+            <div class="receipt-box">
+              <h3>Total Contributions in ${taxYear}</h3>
+              ${totals.map((total) => `<div class="amount">${total}</div>`).join('')}
+              <p><strong>Tax ID:</strong> 46-2612870</p>
+              <p style="margin-top: 20px; font-size: 12px; color: #666;">
+                Be A Number, International is a 501(c)(3) nonprofit organization. Your donations are tax-deductible to the fullest extent allowed by law. No goods or services were provided in exchange for these contributions.
+              </p>
+            </div>
+
+            <p>The attached PDF lists each gift. If anything looks wrong, reply to this email and we will correct it.</p>
+
+            <p>With gratitude,<br>The Be A Number Team</p>
+          </div>
+          <div class="footer">
+            <p>Be A Number, International | 501(c)(3) Nonprofit | Tax ID: 46-2612870</p>
+            <p><a href="${process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org'}">www.beanumber.org</a></p>
+            <p>Questions? Email us at info@beanumber.org</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: { email: donorEmail, name: donorName },
+    subject: `Your ${taxYear} giving statement from Be A Number`,
+    html,
+    attachments: [
+      {
+        filename: `BeANumber-Giving-Statement-${taxYear}.pdf`,
+        content: statementPdf,
+        contentType: 'application/pdf',
+      },
+    ],
+  });
+}
+
 /**
  * Send update request confirmation to sponsor
  *
@@ -449,7 +540,7 @@ export async function sendRecurringDonationThankYouEmail(
   amount: number,
   currency: string
 ): Promise<EmailSendResult> {
-  const formattedAmount = amount.toFixed(2);
+  const formattedAmount = formatCurrencyAmount(amount, currency);
   const impactUrl = `${process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org'}/impact`;
 
   const html = `
@@ -479,7 +570,7 @@ export async function sendRecurringDonationThankYouEmail(
 
             <div class="amount-box">
               <p style="margin: 0; color: #666;">Monthly Donation</p>
-              <div class="amount">$${formattedAmount} ${currency.toUpperCase()}</div>
+              <div class="amount">${formattedAmount} ${currency.toUpperCase()}</div>
               <p style="margin: 0; font-size: 12px; color: #666;">Processed ${new Date().toLocaleDateString()}</p>
             </div>
 
@@ -514,11 +605,489 @@ export async function sendRecurringDonationThankYouEmail(
 
   return sendEmail({
     to: { email: donorEmail, name: donorName },
-    subject: `Thank you for your continued support - $${formattedAmount}/month`,
+    subject: `Thank you for your continued support - ${formattedAmount}/month`,
+    html,
+  });
+}
+
+/**
+ * Send a single-use magic login link to a sponsor
+ *
+ * @returns Structured result with success/failure and data/error
+ */
+export async function sendSponsorMagicLinkEmail(
+  sponsorEmail: string,
+  loginUrl: string,
+  expiresInMinutes: number
+): Promise<EmailSendResult> {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #1a1a1a; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; background-color: #1a1a1a; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Your Sponsor Login Link</h1>
+          </div>
+          <div class="content">
+            <p>Hello,</p>
+
+            <p>Use the button below to log in to your sponsor dashboard. This link can only be used once and expires in ${expiresInMinutes} minutes.</p>
+
+            <div style="text-align: center;">
+              <a href="${loginUrl}" class="button">Log In to Your Dashboard</a>
+            </div>
+
+            <p>If you didn't request this link, you can safely ignore this email.</p>
+
+            <p>With gratitude,<br>The Be A Number Team</p>
+          </div>
+          <div class="footer">
+            <p>Be A Number, International | 501(c)(3) Nonprofit</p>
+            <p><a href="${process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org'}">www.beanumber.org</a></p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: { email: sponsorEmail },
+    subject: 'Your Be A Number sponsor login link',
+    html,
+  });
+}
+
+/**
+ * Send a donor portal login link
+ *
+ * @returns Structured result with success/failure and data/error
+ */
+export async function sendDonorLoginLinkEmail(
+  donorEmail: string,
+  loginUrl: string,
+  expiresInMinutes: number
+): Promise<EmailSendResult> {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #1a1a1a; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; background-color: #1a1a1a; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Your Donor Portal Login Link</h1>
+          </div>
+          <div class="content">
+            <p>Hello,</p>
+
+            <p>Use the button below to see your giving history, download receipts and manage your monthly gift. This link can only be used once and expires in ${expiresInMinutes} minutes.</p>
+
+            <div style="text-align: center;">
+              <a href="${loginUrl}" class="button">Open Your Donor Portal</a>
+            </div>
+
+            <p>If you didn't request this link, you can safely ignore this email.</p>
+
+            <p>With gratitude,<br>The Be A Number Team</p>
+          </div>
+          <div class="footer">
+            <p>Be A Number, International | 501(c)(3) Nonprofit</p>
+            <p><a href="${process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org'}">www.beanumber.org</a></p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: { email: donorEmail },
+    subject: 'Your Be A Number donor portal login link',
+    html,
+  });
+}
+
+/**
+ * Send a payment-failed email asking the sponsor to update their card
+ *
+ * `attempt` and `totalAttempts` select the wording: the last email of the
+ * dunning sequence says the team will follow up personally.
+ *
+ * @returns Structured result with success/failure and data/error
+ */
+export async function sendPaymentFailedEmail(notice: {
+  donorEmail: string;
+  donorName: string;
+  amount: number;
+  currency: string;
+  billingPortalUrl: string;
+  attempt: number;
+  totalAttempts: number;
+}): Promise<EmailSendResult> {
+  const formattedAmount = formatCurrencyAmount(notice.amount, notice.currency);
+  const isFinal = notice.attempt >= notice.totalAttempts;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #1a1a1a; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; background-color: #1a1a1a; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
+          .amount-box { background-color: #fff; padding: 20px; text-align: center; border-radius: 8px; margin: 20px 0; }
+          .amount { font-size: 28px; font-weight: bold; color: #1a1a1a; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${isFinal ? 'Final Notice: ' : ''}Your Monthly Payment Didn't Go Through</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${notice.donorName},</p>
+
+            <p>We weren't able to process your monthly sponsorship payment. This usually means the card on file has expired or been replaced.</p>
+
+            <div class="amount-box">
+              <p style="margin: 0; color: #666;">Monthly Sponsorship</p>
+              <div class="amount">${formattedAmount} ${notice.currency.toUpperCase()}</div>
+            </div>
+
+            <p>You can update your card securely through Stripe using the button below. The payment will be retried automatically once your card is updated.</p>
+
+            <div style="text-align: center;">
+              <a href="${notice.billingPortalUrl}" class="button">Update Payment Method</a>
+            </div>
+
+            <p>${isFinal
+              ? 'This is our last automated reminder. A member of our team will reach out personally to make sure your sponsorship continues uninterrupted.'
+              : 'If you have already updated your card, thank you, and please ignore this email.'}</p>
+
+            <p>With gratitude,<br>The Be A Number Team</p>
+          </div>
+          <div class="footer">
+            <p>Be A Number, International | 501(c)(3) Nonprofit | Tax ID: 46-2612870</p>
+            <p><a href="${process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org'}">www.beanumber.org</a></p>
+            <p>Questions about your sponsorship? Reply to this email.</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: { email: notice.donorEmail, name: notice.donorName },
+    subject: isFinal
+      ? 'Final notice: please update your payment method for your sponsorship'
+      : 'Action needed: your monthly sponsorship payment failed',
     html,
   });
 }
 
+/**
+ * Alert the admin that a sponsorship was paused or ended by a billing event
+ *
+ * @returns Structured result with success/failure and data/error
+ */
+export async function sendSponsorshipStatusAlertEmail(alert: {
+  sponsorCode: string;
+  sponsorEmail: string;
+  childId: string;
+  childDisplayName: string;
+  previousStatus?: string;
+  newStatus: string;
+  reason: string;
+  subscriptionId: string;
+}): Promise<EmailSendResult> {
+  const headerColor = alert.newStatus === 'Ended' ? '#dc2626' : '#f59e0b';
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: ${headerColor}; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+          .details { background-color: #fff; padding: 20px; border-radius: 8px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Sponsorship ${alert.newStatus}</h1>
+          </div>
+          <div class="content">
+            <p>A sponsorship was set to <strong>${alert.newStatus}</strong> because ${alert.reason}.</p>
+
+            <div class="details">
+              <p style="margin: 0;"><strong>Child:</strong> ${alert.childDisplayName} (${alert.childId})</p>
+              <p style="margin: 0;"><strong>Sponsor Code:</strong> ${alert.sponsorCode}</p>
+              <p style="margin: 0;"><strong>Sponsor Email:</strong> ${alert.sponsorEmail}</p>
+              <p style="margin: 0;"><strong>Status:</strong> ${alert.previousStatus || 'Unknown'} → ${alert.newStatus}</p>
+              <p style="margin: 0;"><strong>Stripe Subscription:</strong> ${alert.subscriptionId}</p>
+            </div>
+
+            <p>${alert.newStatus === 'Ended'
+              ? 'The child may need a new sponsor. Follow up with the sponsor before reassigning.'
+              : 'Stripe will retry the payment. The sponsorship returns to Active automatically when a payment succeeds.'}</p>
+          </div>
+          <div class="footer">
+            <p>Automated notice from the Be A Number sponsorship system</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: { email: ROLE_EMAILS.ADMIN, name: 'Be A Number Admin' },
+    subject: `[Be A Number] Sponsorship ${alert.newStatus} - ${alert.childId} (${alert.sponsorCode})`,
+    html,
+  });
+}
+
+/**
+ * Alert the admin that a sponsorship checkout was paid for a child who had
+ * already been sponsored, so the sponsor can be refunded or offered another
+ * child
+ *
+ * @returns Structured result with success/failure and data/error
+ */
+export async function sendSponsorshipCheckoutUnavailableEmail(alert: {
+  sponsorEmail: string;
+  sponsorName?: string;
+  childId: string;
+  childDisplayName: string;
+  sessionId: string;
+  subscriptionId: string | null;
+  subscriptionCanceled: boolean;
+}): Promise<EmailSendResult> {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #dc2626; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+          .details { background-color: #fff; padding: 20px; border-radius: 8px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Sponsorship Checkout Needs Follow-up</h1>
+          </div>
+          <div class="content">
+            <p>A sponsor paid for a child who was no longer available, so no sponsorship was created.</p>
+
+            <div class="details">
+              <p style="margin: 0;"><strong>Child:</strong> ${escapeHtml(alert.childDisplayName)} (${escapeHtml(alert.childId)})</p>
+              <p style="margin: 0;"><strong>Sponsor:</strong> ${escapeHtml(alert.sponsorName || 'Unknown')} (${escapeHtml(alert.sponsorEmail)})</p>
+              <p style="margin: 0;"><strong>Checkout Session:</strong> ${alert.sessionId}</p>
+              <p style="margin: 0;"><strong>Stripe Subscription:</strong> ${alert.subscriptionId || 'None'}</p>
+            </div>
+
+            <p>${alert.subscriptionCanceled
+              ? 'The subscription was canceled, so no further payments will be taken. Refund the first payment in Stripe or offer the sponsor another child.'
+              : '<strong>The subscription could not be canceled and is still active.</strong> Cancel it in Stripe, then refund the first payment or offer the sponsor another child.'}</p>
+          </div>
+          <div class="footer">
+            <p>Automated notice from the Be A Number sponsorship system</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: { email: ROLE_EMAILS.ADMIN, name: 'Be A Number Admin' },
+    subject: `[Be A Number] Sponsorship checkout for unavailable child - ${alert.childId}`,
+    html,
+  });
+}
+
+/**
+ * Tell someone a gift was made in honor or in memory of a person
+ *
+ * Sent to the recipient the donor named at checkout. The card never shows
+ * the amount. Donor-supplied text is escaped.
+ *
+ * @returns Structured result with success/failure and data/error
+ */
+export async function sendTributeNotificationEmail(tribute: {
+  recipientEmail: string;
+  recipientName?: string;
+  donorName: string;
+  type: (typeof TRIBUTE_TYPES)[keyof typeof TRIBUTE_TYPES];
+  honoreeName: string;
+  message?: string;
+}): Promise<EmailSendResult> {
+  const inMemory = tribute.type === TRIBUTE_TYPES.MEMORY;
+  const donorName = escapeHtml(
+    tribute.donorName && tribute.donorName !== 'Anonymous' ? tribute.donorName : 'A friend of Be A Number'
+  );
+  const honoreeName = escapeHtml(tribute.honoreeName);
+  const headline = inMemory ? `A gift in memory of ${honoreeName}` : `A gift in honor of ${honoreeName}`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #1a1a1a; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+          .card { background-color: #fff; padding: 30px; border: 2px solid #1a1a1a; margin: 20px 0; text-align: center; }
+          .honoree { font-size: 26px; font-weight: bold; color: #1a1a1a; margin: 10px 0; }
+          .message { font-style: italic; color: #555; white-space: pre-line; }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${headline}</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${escapeHtml(tribute.recipientName || 'Friend')},</p>
+
+            <p>${donorName} has made a gift to Be A Number, International ${inMemory ? 'in loving memory of' : 'in honor of'} ${honoreeName}, and asked us to let you know.</p>
+
+            <div class="card">
+              <p style="margin: 0; text-transform: uppercase; letter-spacing: 2px; font-size: 12px; color: #666;">${inMemory ? 'In Memory Of' : 'In Honor Of'}</p>
+              <div class="honoree">${honoreeName}</div>
+              ${tribute.message ? `<p class="message">&ldquo;${escapeHtml(tribute.message)}&rdquo;</p><p style="margin: 0;">&mdash; ${donorName}</p>` : ''}
+            </div>
+
+            <p>This gift supports sustainable community systems in Northern Uganda — healthcare, education, workforce development, and economic empowerment that transform communities.</p>
+
+            <p>With warm regards,<br>The Be A Number Team</p>
+          </div>
+          <div class="footer">
+            <p>Be A Number, International | 501(c)(3) Nonprofit</p>
+            <p><a href="${process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org'}">www.beanumber.org</a></p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: { email: tribute.recipientEmail, name: tribute.recipientName },
+    subject: inMemory
+      ? `A gift in memory of ${tribute.honoreeName}`
+      : `A gift in honor of ${tribute.honoreeName}`,
+    html,
+  });
+}
+
+/**
+ * Ask the role that submitted an update to correct and resubmit it
+ *
+ * Sent to the submitting role address when a reviewer sets the update to
+ * Needs Correction. The link opens the form prefilled with the submission
+ * and works once. Reviewer notes are escaped.
+ *
+ * @returns Structured result with success/failure and data/error
+ */
+export async function sendUpdateCorrectionRequestEmail(request: {
+  toRoleEmail: string;
+  childId: string;
+  periodOrTerm: string;
+  notes: string;
+  resubmitUrl: string;
+  expiresInDays: number;
+}): Promise<EmailSendResult> {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #f59e0b; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+          .details { background-color: #fff; padding: 20px; border-radius: 8px; margin: 20px 0; }
+          .notes { white-space: pre-line; }
+          .button { display: inline-block; background-color: #1a1a1a; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Update Needs Correction</h1>
+          </div>
+          <div class="content">
+            <p>The update for <strong>${escapeHtml(request.childId)}</strong> (${escapeHtml(request.periodOrTerm)}) was sent back by the reviewer before publishing.</p>
+
+            <div class="details">
+              <p style="margin: 0;"><strong>Reviewer notes:</strong></p>
+              <p class="notes" style="margin: 0;">${escapeHtml(request.notes)}</p>
+            </div>
+
+            <p>The button below opens the form with your original answers filled in. Make the changes and resubmit; the update goes back to the review queue. The link can only be used once and expires in ${request.expiresInDays} days.</p>
+
+            <div style="text-align: center;">
+              <a href="${request.resubmitUrl}" class="button">Correct and Resubmit</a>
+            </div>
+          </div>
+          <div class="footer">
+            <p>Automated notice from the Be A Number child update system</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: { email: request.toRoleEmail },
+    replyTo: { email: ROLE_EMAILS.ADMIN },
+    subject: `[Be A Number] Correction needed - ${request.childId} (${request.periodOrTerm})`,
+    html,
+  });
+}
+
+/**
+ * Escape user-supplied text for interpolation into HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 /**
  * Helper function to strip HTML tags for plain text fallback
  */
@@ -3,6 +3,9 @@
  * Ensures all required environment variables are present at startup
  */
 
+import type { IntakeSource } from './types/child-update';
+import { DUNNING, SPONSORSHIP_CHECKOUT } from './constants';
+
 interface EnvironmentVariables {
   // Supabase
   NEXT_PUBLIC_SUPABASE_URL: string;
@@ -22,8 +25,19 @@ interface EnvironmentVariables {
   GMAIL_USER_EMAIL?: string;
   GMAIL_FROM_EMAIL?: string;
 
-  // Admin
-  ADMIN_API_TOKEN?: string;
+  // Sponsor sessions (comma-separated previous secrets stay valid for verification)
+  SESSION_SECRET?: string;
+  SESSION_SECRET_PREVIOUS?: string;
+
+  // Google Forms intake signing secrets (one per form; unset to revoke)
+  INTAKE_SECRET_FIELD_FORM?: string;
+  INTAKE_SECRET_ACADEMIC_FORM?: string;
+
+  // Payment-failed email schedule (comma-separated days after the first failure)
+  DUNNING_SCHEDULE_DAYS?: string;
+
+  // Monthly sponsorship amount in dollars (default 35)
+  SPONSORSHIP_MONTHLY_AMOUNT?: string;
 
   // Optional - Analytics
   NEXT_PUBLIC_GA_MEASUREMENT_ID?: string;
@@ -63,7 +77,7 @@ function validateEnvironment(): EnvironmentVariables {
   }
 
   // Warn about optional but recommended variables
-  const recommendedVars = ['STRIPE_SECRET_KEY', 'STRIPE_WEBHOOK_SECRET', 'SENDGRID_API_KEY', 'ADMIN_API_TOKEN'];
+  const recommendedVars = ['STRIPE_SECRET_KEY', 'STRIPE_WEBHOOK_SECRET', 'SENDGRID_API_KEY', 'SESSION_SECRET'];
   const missingRecommended: string[] = [];
 
   for (const varName of recommendedVars) {
@@ -86,7 +100,12 @@ function validateEnvironment(): EnvironmentVariables {
     STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
     NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY: process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY,
     SENDGRID_API_KEY: process.env.SENDGRID_API_KEY,
-    ADMIN_API_TOKEN: process.env.ADMIN_API_TOKEN,
+    SESSION_SECRET: process.env.SESSION_SECRET,
+    SESSION_SECRET_PREVIOUS: process.env.SESSION_SECRET_PREVIOUS,
+    INTAKE_SECRET_FIELD_FORM: process.env.INTAKE_SECRET_FIELD_FORM,
+    INTAKE_SECRET_ACADEMIC_FORM: process.env.INTAKE_SECRET_ACADEMIC_FORM,
+    DUNNING_SCHEDULE_DAYS: process.env.DUNNING_SCHEDULE_DAYS,
+    SPONSORSHIP_MONTHLY_AMOUNT: process.env.SPONSORSHIP_MONTHLY_AMOUNT,
     NEXT_PUBLIC_GA_MEASUREMENT_ID: process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID,
   };
 }
@@ -233,16 +252,92 @@ export function getEmailConfig() {
 }
 
 /**
- * Get admin authentication token
+ * Get sponsor session signing secrets
+ * The current secret signs new sessions; previous secrets are only accepted
+ * for verification so sessions survive a key rotation.
+ */
+export function getSessionSecrets(): { current: string; previous: string[] } {
+  const envVars = getEnv();
+
+  if (!envVars.SESSION_SECRET) {
+    throw new Error('Session signing is not configured. Set SESSION_SECRET environment variable.');
+  }
+
+  const previous = (envVars.SESSION_SECRET_PREVIOUS || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+
+  return {
+    current: envVars.SESSION_SECRET,
+    previous,
+  };
+}
+
+/**
+ * Get the signing secret for a Google Forms intake source
+ * Returns null when the source has no secret configured, which is how a
+ * source's credential is revoked without affecting the other forms.
+ */
+export function getIntakeSecret(source: IntakeSource): string | null {
+  const envVars = getEnv();
+  const secrets: Record<IntakeSource, string | undefined> = {
+    'field-form': envVars.INTAKE_SECRET_FIELD_FORM,
+    'academic-form': envVars.INTAKE_SECRET_ACADEMIC_FORM,
+  };
+
+  return secrets[source] || null;
+}
+
+/**
+ * Get the payment-failed email schedule, in days after the first failure
+ * Falls back to the default schedule when DUNNING_SCHEDULE_DAYS is unset or
+ * is not a strictly increasing list of non-negative whole days.
  */
-export function getAdminToken(): string {
+export function getDunningScheduleDays(): number[] {
   const envVars = getEnv();
+  const fallback = [...DUNNING.DEFAULT_SCHEDULE_DAYS];
+
+  if (!envVars.DUNNING_SCHEDULE_DAYS) {
+    return fallback;
+  }
 
-  if (!envVars.ADMIN_API_TOKEN) {
-    throw new Error('Admin authentication is not configured. Set ADMIN_API_TOKEN environment variable.');
+  const days = envVars.DUNNING_SCHEDULE_DAYS.split(',').map((day) => Number(day.trim()));
+  const valid =
+    days.length > 0 &&
+    days.every((day, index) => Number.isInteger(day) && day >= 0 && (index === 0 || day > days[index - 1]));
+
+  if (!valid) {
+    console.warn(`⚠️  Invalid DUNNING_SCHEDULE_DAYS "${envVars.DUNNING_SCHEDULE_DAYS}", using ${fallback.join(',')}`);
+    return fallback;
   }
 
-  return envVars.ADMIN_API_TOKEN;
+  return days;
+}
+
+/**
+ * Get the monthly sponsorship amount, in cents
+ * Falls back to the default when SPONSORSHIP_MONTHLY_AMOUNT is unset or is
+ * not a positive dollar amount.
+ */
+export function getSponsorshipMonthlyAmountCents(): number {
+  const envVars = getEnv();
+  const fallback = SPONSORSHIP_CHECKOUT.DEFAULT_MONTHLY_AMOUNT * 100;
+
+  if (!envVars.SPONSORSHIP_MONTHLY_AMOUNT) {
+    return fallback;
+  }
+
+  const cents = Math.round(Number(envVars.SPONSORSHIP_MONTHLY_AMOUNT) * 100);
+
+  if (!Number.isFinite(cents) || cents < 100) {
+    console.warn(
+      `⚠️  Invalid SPONSORSHIP_MONTHLY_AMOUNT "${envVars.SPONSORSHIP_MONTHLY_AMOUNT}", using ${SPONSORSHIP_CHECKOUT.DEFAULT_MONTHLY_AMOUNT}`
+    );
+    return fallback;
+  }
+
+  return cents;
 }
 
 /**
@@ -264,13 +359,6 @@ export function isGmailConfigured(): boolean {
   );
 }
 
-/**
- * Check if admin authentication is configured
- */
-export function isAdminAuthConfigured(): boolean {
-  return hasEnv('ADMIN_API_TOKEN');
-}
-
 /**
  * Check if analytics is configured
  */
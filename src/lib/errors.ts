@@ -6,6 +6,7 @@
 import { NextResponse } from 'next/server';
 import { logger } from './logger';
 import { ERROR_MESSAGES } from './constants';
+import type { SafeguardingFlag } from './safeguarding';
 
 // ============================================================================
 // CUSTOM ERROR CLASSES
@@ -84,6 +85,20 @@ export class RateLimitError extends AppError {
   }
 }
 
+/**
+ * Safeguarding check error (409)
+ * Flags go in the response body rather than the logged context, since the
+ * matches themselves are the identifying details being protected.
+ */
+export class SafeguardingError extends AppError {
+  public flags: SafeguardingFlag[];
+
+  constructor(message: string, flags: SafeguardingFlag[]) {
+    super(message, 409, true, { flagCount: flags.length });
+    this.flags = flags;
+  }
+}
+
 /**
  * External service error (502)
  */
@@ -129,6 +144,7 @@ export interface ErrorResponse {
   statusCode: number;
   timestamp: string;
   context?: Record<string, unknown>;
+  flags?: SafeguardingFlag[];
 }
 
 /**
@@ -186,6 +202,11 @@ export function createErrorResponse(
     responseBody.context = context;
   }
 
+  // Safeguarding flags are needed by the reviewer to resolve the block
+  if (error instanceof SafeguardingError) {
+    responseBody.flags = error.flags;
+  }
+
   // Add retry-after header for rate limit errors
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
@@ -0,0 +1,23 @@
+/**
+ * Processing fee coverage
+ * A donor can choose to cover the card processing fee so the whole gift
+ * reaches the programs. The charge is grossed up so that, after the fee
+ * formula in STRIPE.FEE_COVERAGE is taken out, the gift itself remains.
+ *
+ * Shared by the donation form (to show the amount) and the checkout route
+ * (to charge it), so it must stay free of server-only imports.
+ */
+
+import { STRIPE } from './constants';
+import type { DonationCurrency } from './currency';
+
+/**
+ * Fee to add to a gift so that charging gift + fee leaves the gift after
+ * processing. Both are in the currency's smallest unit (see toMinorUnits).
+ * Rounded up so the organization never comes up short.
+ */
+export function calculateCoveredFeeMinorUnits(giftMinorUnits: number, currency: DonationCurrency): number {
+  const { PERCENT, FIXED_MINOR_UNITS } = STRIPE.FEE_COVERAGE;
+  const chargeMinorUnits = Math.ceil((giftMinorUnits + FIXED_MINOR_UNITS[currency]) / (1 - PERCENT / 100));
+  return chargeMinorUnits - giftMinorUnits;
+}
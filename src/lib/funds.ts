@@ -0,0 +1,341 @@
+/**
+ * Designated funds
+ * Tracks restricted gifts per program: what each fund has received from
+ * donors and what finance has allocated (spent or committed) from it.
+ *
+ * Received counts only donations still marked Succeeded, so refunded and
+ * disputed gifts drop out of a fund automatically. Gifts are added up in the
+ * base currency (see currency.ts), whatever currency they were given in. Allocations are never
+ * edited or deleted; a mistake is corrected with a negative allocation.
+ */
+
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import { recordAuditEvent, AUDIT_ACTIONS } from './audit';
+import type { AuditContext } from './audit';
+import { DONATION_FUNDS, DONATION_FUND_LABELS, PAYMENT_STATUS, STRIPE } from './constants';
+import { donationBaseAmount } from './currency';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DonationFund = (typeof DONATION_FUNDS)[keyof typeof DONATION_FUNDS];
+
+export interface FundAllocation {
+  id: string;
+  fund: DonationFund;
+  amount: number;
+  currency: string;
+  /** YYYY-MM-DD */
+  allocatedOn: string;
+  description: string;
+  /** Admin email */
+  recordedBy: string;
+  createdAt: string;
+}
+
+export interface FundAllocationInput {
+  fund: DonationFund;
+  amount: number;
+  currency: string;
+  allocatedOn: string;
+  description: string;
+}
+
+/**
+ * Inclusive YYYY-MM-DD bounds; either may be omitted
+ */
+export interface FundLedgerRange {
+  from?: string;
+  to?: string;
+}
+
+export interface FundLedgerLine {
+  fund: DonationFund;
+  label: string;
+  /** False for the general (unrestricted) fund */
+  restricted: boolean;
+  currency: string;
+  received: number;
+  giftCount: number;
+  allocated: number;
+  /** Received minus allocated */
+  balance: number;
+}
+
+interface SupabaseFundDonationRow {
+  fund: string;
+  donation_amount: number | string;
+  base_amount: number | string | null;
+}
+
+interface SupabaseFundAllocationRow {
+  id: string;
+  fund: string;
+  amount: number | string;
+  currency: string;
+  allocated_on: string;
+  description: string;
+  recorded_by: string;
+  created_at: string;
+}
+
+const PAGE_SIZE = 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function isDonationFund(value: unknown): value is DonationFund {
+  return typeof value === 'string' && (Object.values(DONATION_FUNDS) as string[]).includes(value);
+}
+
+/**
+ * Read a designation from Stripe metadata; anything unrecognised is
+ * treated as unrestricted
+ */
+export function toDonationFund(value: unknown): DonationFund {
+  return isDonationFund(value) ? value : DONATION_FUNDS.GENERAL;
+}
+
+function toFundAllocation(row: SupabaseFundAllocationRow): FundAllocation {
+  return {
+    id: row.id,
+    fund: toDonationFund(row.fund),
+    amount: Number(row.amount),
+    currency: (row.currency || 'usd').toUpperCase(),
+    allocatedOn: row.allocated_on,
+    description: row.description,
+    recordedBy: row.recorded_by,
+    createdAt: row.created_at,
+  };
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Record an allocation from a fund
+ */
+export async function createFundAllocation(
+  input: FundAllocationInput,
+  audit: AuditContext
+): Promise<FundAllocation> {
+  logger.dbQuery('fund_allocations', 'create', { fund: input.fund, amount: input.amount });
+
+  const timer = startTimer('createFundAllocation');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('fund_allocations')
+      .insert({
+        fund: input.fund,
+        amount: input.amount,
+        currency: input.currency.toLowerCase(),
+        allocated_on: input.allocatedOn,
+        description: input.description,
+        recorded_by: audit.actor,
+      })
+      .select()
+      .single();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('fund_allocations', 'create', error);
+      throw new DatabaseError('Failed to record fund allocation');
+    }
+
+    const allocation = toFundAllocation(data as SupabaseFundAllocationRow);
+
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.FUND_ALLOCATION_CREATED,
+        targetTable: 'fund_allocations',
+        targetId: allocation.id,
+        before: null,
+        after: data as Record<string, unknown>,
+      },
+      audit
+    );
+
+    return allocation;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('fund_allocations', 'create', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * Succeeded donations within the range (fund and amount only)
+ */
+async function findSucceededDonationsByFund(range: FundLedgerRange): Promise<SupabaseFundDonationRow[]> {
+  logger.dbQuery('donations', 'findSucceededByFund', { ...range });
+
+  const timer = startTimer('findSucceededDonationsByFund');
+  const rows: SupabaseFundDonationRow[] = [];
+
+  try {
+    const supabase = getSupabaseClient();
+
+    // PostgREST caps each response, so read the range in pages
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('donations')
+        .select('fund, donation_amount, base_amount')
+        .eq('payment_status', PAYMENT_STATUS.SUCCEEDED);
+
+      if (range.from) {
+        query = query.gte('donation_date', range.from);
+      }
+      if (range.to) {
+        query = query.lte('donation_date', range.to);
+      }
+
+      const { data, error } = await query
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        timer.end();
+        logger.dbError('donations', 'findSucceededByFund', error);
+        throw new DatabaseError('Failed to query donations');
+      }
+
+      const page = (data || []) as SupabaseFundDonationRow[];
+      rows.push(...page);
+
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    timer.end();
+    return rows;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donations', 'findSucceededByFund', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Allocations within the range, newest first
+ */
+export async function listFundAllocations(
+  range: FundLedgerRange,
+  fund?: DonationFund
+): Promise<FundAllocation[]> {
+  logger.dbQuery('fund_allocations', 'list', { ...range, fund });
+
+  const timer = startTimer('listFundAllocations');
+
+  try {
+    const supabase = getSupabaseClient();
+    let query = supabase.from('fund_allocations').select('*');
+
+    if (fund) {
+      query = query.eq('fund', fund);
+    }
+    if (range.from) {
+      query = query.gte('allocated_on', range.from);
+    }
+    if (range.to) {
+      query = query.lte('allocated_on', range.to);
+    }
+
+    const { data, error } = await query
+      .order('allocated_on', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('fund_allocations', 'list', error);
+      throw new DatabaseError('Failed to query fund allocations');
+    }
+
+    return ((data || []) as SupabaseFundAllocationRow[]).map(toFundAllocation);
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('fund_allocations', 'list', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Received vs. allocated per fund and currency
+ * Received is always in the base currency; allocations recorded in another
+ * currency get a line of their own. Every fund is listed (in the base
+ * currency when it has no activity), so a restricted fund with nothing
+ * received still shows up.
+ */
+export async function buildFundLedger(range: FundLedgerRange): Promise<FundLedgerLine[]> {
+  const [donations, allocations] = await Promise.all([
+    findSucceededDonationsByFund(range),
+    listFundAllocations(range),
+  ]);
+
+  const lines = new Map<string, FundLedgerLine>();
+
+  const lineFor = (fund: DonationFund, currency: string): FundLedgerLine => {
+    const key = `${fund}:${currency}`;
+    let line = lines.get(key);
+    if (!line) {
+      line = {
+        fund,
+        label: DONATION_FUND_LABELS[fund],
+        restricted: fund !== DONATION_FUNDS.GENERAL,
+        currency,
+        received: 0,
+        giftCount: 0,
+        allocated: 0,
+        balance: 0,
+      };
+      lines.set(key, line);
+    }
+    return line;
+  };
+
+  for (const row of donations) {
+    const line = lineFor(toDonationFund(row.fund), STRIPE.CURRENCY.toUpperCase());
+    line.received += donationBaseAmount(row);
+    line.giftCount += 1;
+  }
+
+  for (const allocation of allocations) {
+    lineFor(allocation.fund, allocation.currency).allocated += allocation.amount;
+  }
+
+  const funds = Object.values(DONATION_FUNDS);
+  for (const fund of funds) {
+    if (![...lines.values()].some((line) => line.fund === fund)) {
+      lineFor(fund, STRIPE.CURRENCY.toUpperCase());
+    }
+  }
+
+  // Round once at the end so per-gift float error does not accumulate
+  return [...lines.values()]
+    .map((line) => {
+      const received = Math.round(line.received * 100) / 100;
+      const allocated = Math.round(line.allocated * 100) / 100;
+      return { ...line, received, allocated, balance: Math.round((received - allocated) * 100) / 100 };
+    })
+    .sort((a, b) => funds.indexOf(a.fund) - funds.indexOf(b.fund) || a.currency.localeCompare(b.currency));
+}
@@ -16,6 +16,12 @@ import { getEmailConfig, isGmailConfigured } from './env';
 // TYPES
 // ============================================================================
 
+export interface GmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
 export interface GmailSendOptions {
   to: string | string[];
   from?: string;
@@ -23,6 +29,7 @@ export interface GmailSendOptions {
   html: string;
   text?: string;
   replyTo?: string;
+  attachments?: GmailAttachment[];
 }
 
 export interface GmailSendResult {
@@ -77,6 +84,7 @@ function getGmailClient(): ReturnType<typeof google.gmail> | null {
 
 /**
  * Create a MIME message for Gmail API
+ * Messages with attachments wrap the text/html alternative in multipart/mixed.
  */
 function createMessage(
   to: string | string[],
@@ -84,19 +92,20 @@ function createMessage(
   subject: string,
   html: string,
   text?: string,
-  replyTo?: string
+  replyTo?: string,
+  attachments: GmailAttachment[] = []
 ): string {
   const recipients = Array.isArray(to) ? to.join(', ') : to;
   const textContent = text || stripHtml(html);
 
-  // Create MIME message
-  const messageParts = [
+  const headers = [
     `To: ${recipients}`,
     `From: ${from}`,
     `Subject: ${subject}`,
     replyTo ? `Reply-To: ${replyTo}` : '',
-    'Content-Type: multipart/alternative; boundary="boundary123"',
-    '',
+  ].filter(Boolean);
+
+  const alternativeParts = [
     '--boundary123',
     'Content-Type: text/plain; charset=utf-8',
     '',
@@ -108,7 +117,37 @@ function createMessage(
     html,
     '',
     '--boundary123--',
-  ].filter(Boolean);
+  ];
+
+  // Create MIME message
+  const messageParts = attachments.length === 0
+    ? [
+        ...headers,
+        'Content-Type: multipart/alternative; boundary="boundary123"',
+        '',
+        ...alternativeParts,
+      ]
+    : [
+        ...headers,
+        'MIME-Version: 1.0',
+        'Content-Type: multipart/mixed; boundary="mixed123"',
+        '',
+        '--mixed123',
+        'Content-Type: multipart/alternative; boundary="boundary123"',
+        '',
+        ...alternativeParts,
+        ...attachments.flatMap((attachment) => [
+          '--mixed123',
+          `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+          `Content-Disposition: attachment; filename="${attachment.filename}"`,
+          'Content-Transfer-Encoding: base64',
+          '',
+          // MIME lines are limited to 76 characters
+          ...(attachment.content.toString('base64').match(/.{1,76}/g) || []),
+          '',
+        ]),
+        '--mixed123--',
+      ];
 
   const message = messageParts.join('\n');
 
@@ -191,7 +230,8 @@ export async function sendEmailViaGmail(options: GmailSendOptions): Promise<Gmai
       options.subject,
       options.html,
       options.text,
-      options.replyTo
+      options.replyTo,
+      options.attachments
     );
 
     // Send the message
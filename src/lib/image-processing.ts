@@ -0,0 +1,132 @@
+/**
+ * Image Processing Service
+ * Prepares photos for storage before they reach Drive or sponsors
+ *
+ * Every image is decoded (so corrupt and non-image files are rejected),
+ * auto-oriented from its EXIF orientation, stripped of all metadata
+ * (including phone GPS coordinates) and re-encoded as JPEG in a web size
+ * and a thumbnail size.
+ *
+ * This module follows the WAT architecture pattern:
+ * - Returns structured results { success, data?, error? }
+ * - Never throws unhandled exceptions
+ * - Logs all operations
+ */
+
+import sharp from 'sharp';
+import { logger } from './logger';
+import { PHOTO_PROCESSING } from './constants';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProcessedImageVariant {
+  content: Buffer;
+  width: number;
+  height: number;
+  /** Bytes */
+  size: number;
+}
+
+export interface ImageProcessingResult {
+  success: boolean;
+  data?: {
+    /** Always image/jpeg */
+    mimeType: string;
+    web: ProcessedImageVariant;
+    thumbnail: ProcessedImageVariant;
+    /** Format detected from the file's contents */
+    sourceFormat: string;
+  };
+  error?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Replace a file name's extension with .jpg, since every variant is JPEG
+ */
+export function toJpegFileName(fileName: string): string {
+  const base = fileName.replace(/\.[^./\\]*$/, '') || 'photo';
+  return `${base}.jpg`;
+}
+
+function openImage(source: Buffer): sharp.Sharp {
+  // failOn 'error' rejects truncated and corrupt files instead of rendering them partly grey
+  return sharp(source, { failOn: 'error', limitInputPixels: PHOTO_PROCESSING.MAX_INPUT_PIXELS });
+}
+
+async function renderVariant(source: Buffer, maxDimension: number): Promise<ProcessedImageVariant> {
+  // No withMetadata()/keepMetadata(): sharp drops EXIF, XMP, IPTC and ICC by default
+  const { data, info } = await openImage(source)
+    .autoOrient()
+    .resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: PHOTO_PROCESSING.JPEG_QUALITY, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+
+  return { content: data, width: info.width, height: info.height, size: info.size };
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Process an uploaded photo into its stored web and thumbnail sizes
+ *
+ * @param content - The file as uploaded
+ * @returns Both variants with their dimensions, or an error for files that
+ *   are not a readable image
+ */
+export async function processImage(content: Buffer): Promise<ImageProcessingResult> {
+  if (content.length === 0) {
+    return {
+      success: false,
+      error: 'File is empty',
+    };
+  }
+
+  try {
+    const metadata = await openImage(content).metadata();
+
+    if (!metadata.format || !(PHOTO_PROCESSING.ACCEPTED_FORMATS as readonly string[]).includes(metadata.format)) {
+      return {
+        success: false,
+        error: `Unsupported image format: ${metadata.format || 'unknown'}`,
+      };
+    }
+
+    const web = await renderVariant(content, PHOTO_PROCESSING.WEB_MAX_DIMENSION);
+    const thumbnail = await renderVariant(content, PHOTO_PROCESSING.THUMBNAIL_MAX_DIMENSION);
+
+    logger.debug('Image processed', {
+      sourceFormat: metadata.format,
+      sourceBytes: content.length,
+      web: `${web.width}x${web.height}`,
+      thumbnail: `${thumbnail.width}x${thumbnail.height}`,
+    });
+
+    return {
+      success: true,
+      data: {
+        mimeType: 'image/jpeg',
+        web,
+        thumbnail,
+        sourceFormat: metadata.format,
+      },
+    };
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+
+    logger.warn('Image could not be processed', { error: err.message, sourceBytes: content.length });
+
+    return {
+      success: false,
+      error: `File is not a readable image: ${err.message || 'unknown error'}`,
+    };
+  }
+}
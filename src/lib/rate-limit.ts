@@ -256,6 +256,13 @@ export function checkUpdateRequestRateLimit(request: NextRequest): RateLimitErro
   return checkRateLimit(request, RATE_LIMITS.UPDATE_REQUEST, 'update-request');
 }
 
+/**
+ * Rate limiter for magic-link login requests
+ */
+export function checkMagicLinkRateLimit(request: NextRequest): RateLimitError | null {
+  return checkRateLimit(request, RATE_LIMITS.MAGIC_LINK_REQUEST, 'magic-link');
+}
+
 // ============================================================================
 // THROTTLING (TIME-BASED LIMITING)
 // ============================================================================
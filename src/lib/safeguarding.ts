@@ -0,0 +1,534 @@
+/**
+ * Safeguarding check
+ * Child-protection policy says sponsor-facing content must never include
+ * surnames, exact villages, school names, phone numbers or GPS data. Before
+ * an update is published its title, content and sponsor-facing form answers
+ * are scanned with:
+ * - the built-in rules (SAFEGUARDING.RULES)
+ * - active admin rules from safeguarding_rules (terms or regular expressions)
+ * - the child's own children record: full name, surname and school_location
+ *
+ * A flagged update only publishes once the reviewer redacts the matches or
+ * overrides the flags with a reason; either decision is audited.
+ */
+
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import { SAFEGUARDING } from './constants';
+import { ValidationResult, success, failure, sanitizeString } from './validation';
+import { recordAuditEvent, AUDIT_ACTIONS } from './audit';
+import type { AuditContext } from './audit';
+import type { StoredUpdatePayload } from './types/child-update';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SafeguardingCategory = (typeof SAFEGUARDING.CATEGORIES)[number];
+
+export interface SafeguardingRule {
+  id: string;
+  label: string;
+  category: SafeguardingCategory;
+  pattern: string;
+  isRegex: boolean;
+  caseSensitive: boolean;
+  /** built-in, admin-configured, or from the child's record */
+  source: 'built_in' | 'configured' | 'child';
+}
+
+/**
+ * Admin-configured rule as stored in safeguarding_rules
+ */
+export interface ConfiguredSafeguardingRule {
+  id: string;
+  label: string;
+  category: SafeguardingCategory;
+  pattern: string;
+  isRegex: boolean;
+  active: boolean;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface SafeguardingFlag {
+  /** 'title', 'content', or a form answer key such as 'sponsorNarrative' */
+  field: string;
+  ruleId: string;
+  label: string;
+  category: SafeguardingCategory;
+  match: string;
+}
+
+/**
+ * The sponsor-facing parts of an update
+ */
+export interface SafeguardingContent {
+  title: string;
+  content: string;
+  payload: StoredUpdatePayload | null;
+}
+
+/**
+ * How a reviewer resolved the flags on an update
+ */
+export interface SafeguardingDecision {
+  /** Replace every flagged match with SAFEGUARDING.REDACTION before publishing */
+  redact?: boolean;
+  /** Publish as-is; required reason for keeping flagged content */
+  overrideReason?: string;
+}
+
+export type SafeguardingReview =
+  | { allowed: true; flags: SafeguardingFlag[]; content: SafeguardingContent; outcome: 'clear' | 'redacted' | 'overridden' }
+  | { allowed: false; flags: SafeguardingFlag[]; message: string };
+
+export interface SaveSafeguardingRuleInput {
+  id?: string;
+  label: string;
+  category: SafeguardingCategory;
+  pattern: string;
+  isRegex: boolean;
+  active: boolean;
+}
+
+interface SupabaseSafeguardingRuleRow {
+  id: string;
+  label: string;
+  category: SafeguardingCategory;
+  pattern: string;
+  is_regex: boolean;
+  active: boolean;
+  created_by: string;
+  created_at: string;
+}
+
+interface SupabaseChildSafeguardingRow {
+  first_name: string;
+  full_name: string | null;
+  school_location: string | null;
+}
+
+const RULE_COLUMNS = 'id, label, category, pattern, is_regex, active, created_by, created_at';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toConfiguredRule(row: SupabaseSafeguardingRuleRow): ConfiguredSafeguardingRule {
+  return {
+    id: row.id,
+    label: row.label,
+    category: row.category,
+    pattern: row.pattern,
+    isRegex: row.is_regex,
+    active: row.active,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile a rule; terms match as whole words, ignoring case
+ * @returns The expression, or null if a configured pattern does not compile
+ */
+function compileRule(rule: SafeguardingRule): RegExp | null {
+  const source = rule.isRegex ? rule.pattern : `(?<![\\p{L}\\p{N}])${escapeRegExp(rule.pattern)}(?![\\p{L}\\p{N}])`;
+  try {
+    return new RegExp(source, `gu${rule.caseSensitive ? '' : 'i'}`);
+  } catch {
+    logger.warn('Skipping safeguarding rule that does not compile', { ruleId: rule.id });
+    return null;
+  }
+}
+
+/**
+ * Check that a configured pattern is usable
+ * @returns An error message, or null if the pattern is valid
+ */
+export function validateSafeguardingPattern(pattern: string, isRegex: boolean): string | null {
+  if (!pattern.trim()) return 'pattern is required';
+  if (!isRegex) return null;
+
+  try {
+    const expression = new RegExp(pattern, 'gui');
+    if (expression.test('')) return 'pattern must not match empty text';
+    return null;
+  } catch (error) {
+    return `pattern is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Read a reviewer's safeguarding decision from a request body
+ */
+export function parseSafeguardingDecision(value: unknown): ValidationResult<SafeguardingDecision | undefined> {
+  if (value === undefined || value === null) {
+    return success(undefined);
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return failure('safeguarding must be an object');
+  }
+
+  const obj = value as Record<string, unknown>;
+  if (obj.redact !== undefined && typeof obj.redact !== 'boolean') {
+    return failure('safeguarding.redact must be a boolean');
+  }
+
+  const overrideReason = sanitizeString(obj.overrideReason).slice(0, 1000);
+
+  return success({
+    redact: obj.redact === true,
+    overrideReason: overrideReason || undefined,
+  });
+}
+
+/**
+ * The text fields of an update that reach sponsors, keyed by field name
+ */
+function scannedFields(content: SafeguardingContent): Array<[string, string]> {
+  const fields: Array<[string, string]> = [
+    ['title', content.title],
+    ['content', content.content],
+  ];
+
+  const answers = content.payload?.fields as Record<string, unknown> | undefined;
+  for (const key of SAFEGUARDING.SCANNED_FIELDS) {
+    const value = answers?.[key];
+    if (typeof value === 'string' && value) fields.push([key, value]);
+  }
+
+  return fields;
+}
+
+/**
+ * Rules built from the child's own record
+ */
+function childRules(childId: string, child: SupabaseChildSafeguardingRow): SafeguardingRule[] {
+  const rules: SafeguardingRule[] = [];
+  const add = (id: string, label: string, category: SafeguardingCategory, pattern: string) =>
+    rules.push({ id: `child:${childId}:${id}`, label, category, pattern, isRegex: false, caseSensitive: false, source: 'child' });
+
+  const fullName = child.full_name?.trim();
+  if (fullName) {
+    add('full-name', "Child's full name", 'surname', fullName);
+
+    const firstNames = child.first_name.toLowerCase().split(/\s+/);
+    fullName
+      .split(/\s+/)
+      .filter((part) => part.length > 1 && !firstNames.includes(part.toLowerCase()))
+      .forEach((part, index) => add(`surname-${index}`, "Child's surname", 'surname', part));
+  }
+
+  const schoolLocation = child.school_location?.trim();
+  if (schoolLocation) {
+    add('school-location', "Child's school or location", 'school', schoolLocation);
+    schoolLocation
+      .split(/\s*[,/;–-]\s*/)
+      .map((part) => part.trim())
+      .filter((part) => part.length >= 4 && part !== schoolLocation)
+      .forEach((part, index) => add(`school-location-${index}`, "Child's school or location", 'school', part));
+  }
+
+  return rules;
+}
+
+// ============================================================================
+// SCAN
+// ============================================================================
+
+/**
+ * Scan an update's sponsor-facing text
+ * Each distinct match is flagged once per field.
+ */
+export function scanForSafeguarding(content: SafeguardingContent, rules: SafeguardingRule[]): SafeguardingFlag[] {
+  const flags: SafeguardingFlag[] = [];
+  const seen = new Set<string>();
+
+  for (const rule of rules) {
+    const expression = compileRule(rule);
+    if (!expression) continue;
+
+    for (const [field, text] of scannedFields(content)) {
+      for (const found of text.matchAll(expression)) {
+        const match = found[0].trim();
+        const key = `${field}|${rule.id}|${match.toLowerCase()}`;
+        if (!match || seen.has(key)) continue;
+        seen.add(key);
+        flags.push({ field, ruleId: rule.id, label: rule.label, category: rule.category, match });
+      }
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Replace every match of the rules with SAFEGUARDING.REDACTION
+ */
+export function redactForSafeguarding(content: SafeguardingContent, rules: SafeguardingRule[]): SafeguardingContent {
+  const expressions = rules.map(compileRule).filter((expression): expression is RegExp => !!expression);
+  const redact = (text: string) =>
+    expressions.reduce((current, expression) => current.replace(expression, SAFEGUARDING.REDACTION), text);
+
+  let payload = content.payload;
+  if (payload) {
+    const answers: Record<string, unknown> = { ...payload.fields };
+    for (const key of SAFEGUARDING.SCANNED_FIELDS) {
+      if (typeof answers[key] === 'string') answers[key] = redact(answers[key] as string);
+    }
+    payload = { ...payload, fields: answers as StoredUpdatePayload['fields'] };
+  }
+
+  return {
+    title: redact(content.title),
+    content: redact(content.content),
+    payload,
+  };
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * List admin-configured rules, active first
+ */
+export async function listSafeguardingRules(): Promise<ConfiguredSafeguardingRule[]> {
+  logger.dbQuery('safeguarding_rules', 'list', {});
+
+  const timer = startTimer('listSafeguardingRules');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('safeguarding_rules')
+      .select(RULE_COLUMNS)
+      .order('active', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('safeguarding_rules', 'list', error);
+      throw new DatabaseError('Failed to list safeguarding rules');
+    }
+
+    return (data || []).map((row) => toConfiguredRule(row as SupabaseSafeguardingRuleRow));
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('safeguarding_rules', 'list', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Every rule that applies to a child's updates
+ * Built-in rules, active configured rules, and the child's own record when
+ * there is one. Read failures throw so nothing publishes unchecked.
+ */
+export async function loadSafeguardingRules(childId: string): Promise<SafeguardingRule[]> {
+  logger.dbQuery('safeguarding_rules', 'loadForChild', { childId });
+
+  const timer = startTimer('loadSafeguardingRules');
+
+  try {
+    const supabase = getSupabaseClient();
+    const [configured, child] = await Promise.all([
+      supabase.from('safeguarding_rules').select(RULE_COLUMNS).eq('active', true),
+      supabase.from('children').select('first_name, full_name, school_location').eq('child_id', childId).maybeSingle(),
+    ]);
+
+    timer.end();
+
+    if (configured.error || child.error) {
+      logger.dbError('safeguarding_rules', 'loadForChild', configured.error || child.error);
+      throw new DatabaseError('Failed to load safeguarding rules');
+    }
+
+    const rules: SafeguardingRule[] = SAFEGUARDING.RULES.map((rule) => ({
+      id: rule.id,
+      label: rule.label,
+      category: rule.category,
+      pattern: rule.pattern,
+      isRegex: true,
+      caseSensitive: rule.caseSensitive,
+      source: 'built_in' as const,
+    }));
+
+    for (const row of (configured.data || []) as SupabaseSafeguardingRuleRow[]) {
+      rules.push({
+        id: row.id,
+        label: row.label,
+        category: row.category,
+        pattern: row.pattern,
+        isRegex: row.is_regex,
+        caseSensitive: false,
+        source: 'configured',
+      });
+    }
+
+    if (child.data) {
+      rules.push(...childRules(childId, child.data as SupabaseChildSafeguardingRow));
+    }
+
+    return rules;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('safeguarding_rules', 'loadForChild', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Create a configured rule, or update one when an id is given
+ * Rules are deactivated rather than deleted.
+ * @returns The saved rule, or null if there is no rule with the given id
+ */
+export async function saveSafeguardingRule(
+  input: SaveSafeguardingRuleInput,
+  audit: AuditContext
+): Promise<ConfiguredSafeguardingRule | null> {
+  logger.dbQuery('safeguarding_rules', input.id ? 'update' : 'create', { ruleId: input.id, actor: audit.actor });
+
+  const timer = startTimer('saveSafeguardingRule');
+
+  try {
+    const supabase = getSupabaseClient();
+    const values = {
+      label: input.label,
+      category: input.category,
+      pattern: input.pattern,
+      is_regex: input.isRegex,
+      active: input.active,
+    };
+
+    let before: Record<string, unknown> | null = null;
+    if (input.id) {
+      const { data: existing } = await supabase.from('safeguarding_rules').select(RULE_COLUMNS).eq('id', input.id).maybeSingle();
+      before = (existing as Record<string, unknown> | null) || null;
+    }
+
+    const { data, error } = input.id
+      ? await supabase.from('safeguarding_rules').update(values).eq('id', input.id).select(RULE_COLUMNS).maybeSingle()
+      : await supabase
+          .from('safeguarding_rules')
+          .insert({ ...values, created_by: audit.actor })
+          .select(RULE_COLUMNS)
+          .single();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('safeguarding_rules', 'save', error);
+      throw new DatabaseError('Failed to save safeguarding rule');
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const rule = toConfiguredRule(data as SupabaseSafeguardingRuleRow);
+
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.SAFEGUARDING_RULE_SAVED,
+        targetTable: 'safeguarding_rules',
+        targetId: rule.id,
+        before,
+        after: data as Record<string, unknown>,
+      },
+      audit
+    );
+
+    return rule;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('safeguarding_rules', 'save', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// PUBLISH GATE
+// ============================================================================
+
+/**
+ * Check an update before it is published
+ *
+ * Clear content passes unchanged. Flagged content passes only with a
+ * decision: redacted content is returned for the caller to publish, an
+ * override needs a reason. Redactions and overrides are audited.
+ */
+export async function reviewSafeguarding(
+  target: { updateId: string; childId: string; sponsorCode?: string | null },
+  content: SafeguardingContent,
+  decision: SafeguardingDecision | undefined,
+  audit?: AuditContext
+): Promise<SafeguardingReview> {
+  const rules = await loadSafeguardingRules(target.childId);
+  const flags = scanForSafeguarding(content, rules);
+
+  if (flags.length === 0) {
+    return { allowed: true, flags, content, outcome: 'clear' };
+  }
+
+  const overrideReason = decision?.overrideReason?.trim();
+  if (!decision?.redact && !overrideReason) {
+    logger.warn('Safeguarding check flagged update', {
+      updateId: target.updateId,
+      childId: target.childId,
+      flagCount: flags.length,
+      categories: [...new Set(flags.map((flag) => flag.category))],
+    });
+
+    return {
+      allowed: false,
+      flags,
+      message: `Safeguarding check flagged ${flags.length} item(s); redact them or override with a reason to publish`,
+    };
+  }
+
+  if (!decision?.redact && overrideReason!.length < SAFEGUARDING.MIN_OVERRIDE_REASON_LENGTH) {
+    return {
+      allowed: false,
+      flags,
+      message: `Override reason must be at least ${SAFEGUARDING.MIN_OVERRIDE_REASON_LENGTH} characters`,
+    };
+  }
+
+  const outcome = decision?.redact ? 'redacted' : 'overridden';
+  const reviewed = decision?.redact ? redactForSafeguarding(content, rules) : content;
+
+  await recordAuditEvent(
+    {
+      action: AUDIT_ACTIONS.UPDATE_SAFEGUARDING_REVIEWED,
+      targetTable: 'updates',
+      targetId: target.updateId,
+      childId: target.childId,
+      sponsorCode: target.sponsorCode,
+      metadata: {
+        outcome,
+        reason: overrideReason || null,
+        // Matches are kept out of the log; they are the sensitive text
+        flags: flags.map(({ field, ruleId, label, category }) => ({ field, ruleId, label, category })),
+      },
+    },
+    audit
+  );
+
+  return { allowed: true, flags, content: reviewed, outcome };
+}
@@ -0,0 +1,384 @@
+/**
+ * Stripe event ledger
+ * Records every webhook event received so redeliveries are processed once,
+ * and failures can be listed and replayed by an admin.
+ *
+ * Lifecycle: processing -> processed | failed. A failed event (or one stuck in
+ * processing past STALE_PROCESSING_MS) can be claimed again by a Stripe retry
+ * or an admin replay; a processed event is never applied twice.
+ */
+
+import { createHash } from 'crypto';
+import type Stripe from 'stripe';
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const STRIPE_EVENT_STATUS = {
+  PROCESSING: 'processing',
+  PROCESSED: 'processed',
+  FAILED: 'failed',
+} as const;
+
+export type StripeEventStatus = (typeof STRIPE_EVENT_STATUS)[keyof typeof STRIPE_EVENT_STATUS];
+
+/**
+ * A delivery still marked processing after this long is assumed to have
+ * crashed (e.g. a function timeout) and may be claimed again.
+ */
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 200;
+
+export interface StripeEventRecord {
+  id: string;
+  type: string;
+  payloadHash: string;
+  status: StripeEventStatus;
+  error: string | null;
+  attempts: number;
+  receivedAt: string;
+  lastAttemptAt: string;
+  processedAt: string | null;
+}
+
+export interface StripeEventClaim {
+  /** True if the caller now owns processing of this event */
+  claimed: boolean;
+  /** Ledger status at the time of the claim attempt */
+  status: StripeEventStatus;
+}
+
+export interface StripeEventFilters {
+  status?: StripeEventStatus;
+  type?: string;
+  limit?: number;
+}
+
+interface SupabaseStripeEventRow {
+  id: string;
+  type: string;
+  payload?: Stripe.Event;
+  payload_hash: string;
+  status: StripeEventStatus;
+  error: string | null;
+  attempts: number;
+  received_at: string;
+  last_attempt_at: string;
+  processed_at: string | null;
+}
+
+const SUMMARY_COLUMNS =
+  'id, type, payload_hash, status, error, attempts, received_at, last_attempt_at, processed_at';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * SHA-256 of the raw webhook body, for spotting altered redeliveries
+ */
+export function hashStripePayload(rawBody: string): string {
+  return createHash('sha256').update(rawBody, 'utf8').digest('hex');
+}
+
+function toStripeEventRecord(row: SupabaseStripeEventRow): StripeEventRecord {
+  return {
+    id: row.id,
+    type: row.type,
+    payloadHash: row.payload_hash,
+    status: row.status,
+    error: row.error,
+    attempts: row.attempts,
+    receivedAt: row.received_at,
+    lastAttemptAt: row.last_attempt_at,
+    processedAt: row.processed_at,
+  };
+}
+
+function isReclaimable(row: Pick<SupabaseStripeEventRow, 'status' | 'last_attempt_at'>): boolean {
+  if (row.status === STRIPE_EVENT_STATUS.FAILED) {
+    return true;
+  }
+
+  return (
+    row.status === STRIPE_EVENT_STATUS.PROCESSING &&
+    Date.now() - new Date(row.last_attempt_at).getTime() > STALE_PROCESSING_MS
+  );
+}
+
+/**
+ * Take over an existing event for another attempt
+ * The attempts check makes this a compare-and-swap, so two concurrent
+ * retries cannot both claim the event.
+ */
+async function reclaimStripeEvent(
+  row: Pick<SupabaseStripeEventRow, 'id' | 'status' | 'attempts' | 'last_attempt_at'>
+): Promise<StripeEventClaim> {
+  if (!isReclaimable(row)) {
+    return { claimed: false, status: row.status };
+  }
+
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('stripe_events')
+    .update({
+      status: STRIPE_EVENT_STATUS.PROCESSING,
+      attempts: row.attempts + 1,
+      last_attempt_at: new Date().toISOString(),
+      error: null,
+    })
+    .eq('id', row.id)
+    .eq('attempts', row.attempts)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    logger.dbError('stripe_events', 'reclaim', error);
+    throw new DatabaseError('Failed to claim Stripe event');
+  }
+
+  return data
+    ? { claimed: true, status: STRIPE_EVENT_STATUS.PROCESSING }
+    : { claimed: false, status: STRIPE_EVENT_STATUS.PROCESSING };
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Record a received webhook event and claim it for processing
+ *
+ * New events are inserted as processing. Redeliveries of processed events,
+ * or of events another delivery is still working on, are not claimed.
+ */
+export async function claimStripeEvent(
+  event: Stripe.Event,
+  payloadHash: string
+): Promise<StripeEventClaim> {
+  logger.dbQuery('stripe_events', 'claim', { eventId: event.id, type: event.type });
+
+  const timer = startTimer('claimStripeEvent');
+  const now = new Date().toISOString();
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase.from('stripe_events').insert({
+      id: event.id,
+      type: event.type,
+      payload: event,
+      payload_hash: payloadHash,
+      status: STRIPE_EVENT_STATUS.PROCESSING,
+      attempts: 1,
+      received_at: now,
+      last_attempt_at: now,
+    });
+
+    if (!error) {
+      timer.end();
+      return { claimed: true, status: STRIPE_EVENT_STATUS.PROCESSING };
+    }
+
+    // 23505 = unique_violation: this event has been received before
+    if (error.code !== '23505') {
+      timer.end();
+      logger.dbError('stripe_events', 'claim', error);
+      throw new DatabaseError('Failed to record Stripe event');
+    }
+
+    const { data: existing, error: findError } = await supabase
+      .from('stripe_events')
+      .select('id, status, attempts, last_attempt_at, payload_hash')
+      .eq('id', event.id)
+      .single();
+
+    if (findError || !existing) {
+      timer.end();
+      logger.dbError('stripe_events', 'claim', findError);
+      throw new DatabaseError('Failed to read Stripe event');
+    }
+
+    if (existing.payload_hash !== payloadHash) {
+      logger.warn('Stripe event redelivered with a different payload', { eventId: event.id });
+    }
+
+    const claim = await reclaimStripeEvent(existing as SupabaseStripeEventRow);
+    timer.end();
+    return claim;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('stripe_events', 'claim', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Claim a previously failed event for an admin replay
+ *
+ * @returns The stored event payload, or null if the event is not in a
+ *          replayable state (already processed or currently processing)
+ */
+export async function claimStripeEventForReplay(eventId: string): Promise<Stripe.Event | null> {
+  logger.dbQuery('stripe_events', 'claimForReplay', { eventId });
+
+  const timer = startTimer('claimStripeEventForReplay');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('stripe_events')
+      .select('id, status, attempts, last_attempt_at, payload')
+      .eq('id', eventId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      timer.end();
+      logger.dbError('stripe_events', 'claimForReplay', error);
+      throw new DatabaseError('Failed to read Stripe event');
+    }
+
+    if (!data) {
+      timer.end();
+      return null;
+    }
+
+    const row = data as SupabaseStripeEventRow;
+    const claim = await reclaimStripeEvent(row);
+    timer.end();
+
+    return claim.claimed && row.payload ? row.payload : null;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('stripe_events', 'claimForReplay', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Mark a claimed event as successfully processed
+ */
+export async function completeStripeEvent(eventId: string): Promise<void> {
+  await finishStripeEvent(eventId, {
+    status: STRIPE_EVENT_STATUS.PROCESSED,
+    processed_at: new Date().toISOString(),
+    error: null,
+  });
+}
+
+/**
+ * Mark a claimed event as failed, keeping the error for the admin list
+ */
+export async function failStripeEvent(eventId: string, errorMessage: string): Promise<void> {
+  await finishStripeEvent(eventId, {
+    status: STRIPE_EVENT_STATUS.FAILED,
+    error: errorMessage,
+  });
+}
+
+async function finishStripeEvent(eventId: string, updates: Record<string, unknown>): Promise<void> {
+  logger.dbQuery('stripe_events', 'finish', { eventId, status: updates.status });
+
+  const timer = startTimer('finishStripeEvent');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('stripe_events')
+      .update(updates)
+      .eq('id', eventId);
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('stripe_events', 'finish', error);
+      throw new DatabaseError('Failed to update Stripe event');
+    }
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('stripe_events', 'finish', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * List recorded events, newest first (payloads are not included)
+ */
+export async function findStripeEvents(filters: StripeEventFilters = {}): Promise<StripeEventRecord[]> {
+  logger.dbQuery('stripe_events', 'find', { status: filters.status, type: filters.type });
+
+  const timer = startTimer('findStripeEvents');
+  const limit = Math.min(filters.limit || DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT);
+
+  try {
+    const supabase = getSupabaseClient();
+    let query = supabase
+      .from('stripe_events')
+      .select(SUMMARY_COLUMNS)
+      .order('received_at', { ascending: false })
+      .limit(limit);
+
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.type) query = query.eq('type', filters.type);
+
+    const { data, error } = await query;
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('stripe_events', 'find', error);
+      throw new DatabaseError('Failed to query Stripe events');
+    }
+
+    return (data || []).map((row) => toStripeEventRecord(row as SupabaseStripeEventRow));
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('stripe_events', 'find', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Get a single recorded event (without its payload)
+ */
+export async function findStripeEventById(eventId: string): Promise<StripeEventRecord | null> {
+  logger.dbQuery('stripe_events', 'findById', { eventId });
+
+  const timer = startTimer('findStripeEventById');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('stripe_events')
+      .select(SUMMARY_COLUMNS)
+      .eq('id', eventId)
+      .single();
+
+    timer.end();
+
+    if (error && error.code !== 'PGRST116') {
+      logger.dbError('stripe_events', 'findById', error);
+      throw new DatabaseError('Failed to read Stripe event');
+    }
+
+    return data ? toStripeEventRecord(data as SupabaseStripeEventRow) : null;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('stripe_events', 'findById', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
@@ -0,0 +1,1696 @@
+/**
+ * Stripe webhook event handling
+ * Applies Stripe events to donor/donation records. Called by the webhook
+ * route for live deliveries and by the admin replay endpoint for events
+ * that previously failed.
+ */
+
+import type Stripe from 'stripe';
+import { recordAuditEvent, AUDIT_ACTIONS } from './audit';
+import type { AuditContext } from './audit';
+import { findSponsorshipsBySubscriptionId, updateSponsorshipStatus } from './database';
+import { toDonationFund } from './funds';
+import type { DonationFund } from './funds';
+import {
+  findDonorRecordId,
+  syncDonorRecord,
+  syncDonorRecurringStatus,
+  syncDonationRecord,
+  syncDonationStatus,
+} from './donation-records';
+import {
+  sendSponsorshipCheckoutUnavailableEmail,
+  sendSponsorshipStatusAlertEmail,
+  sendTributeNotificationEmail,
+} from './email';
+import { PAYMENT_STATUS, DONOR_RECURRING_STATUS, SPONSORSHIP_STATUS, STRIPE, TRIBUTE_TYPES, DONATION_SOURCE, OFFLINE_PAYMENT_METHODS } from './constants';
+import { formatCurrencyAmount, fromMinorUnits, toBaseAmount } from './currency';
+import { escapeForAirtable } from './validation';
+import type { TributeRequest } from './validation';
+
+// Initialize Stripe lazily
+export async function getStripe() {
+  const StripeModule = (await import('stripe')).default;
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    console.error('[Webhook] STRIPE_SECRET_KEY is not set');
+    throw new Error('Payment system configuration error');
+  }
+  return new StripeModule(secretKey, {
+    apiVersion: '2025-12-15.clover',
+  });
+}
+
+// Rate limiter for Airtable API (5 requests per second)
+class RateLimiter {
+  private queue: Array<() => void> = [];
+  private tokens: number;
+  private maxTokens: number;
+  private refillRate: number; // tokens per second
+
+  constructor(maxTokens: number, perSeconds: number = 1) {
+    this.maxTokens = maxTokens;
+    this.tokens = maxTokens;
+    this.refillRate = maxTokens / perSeconds;
+    this.startRefill();
+  }
+
+  private startRefill() {
+    setInterval(() => {
+      this.tokens = Math.min(this.maxTokens, this.tokens + this.refillRate / 10);
+      this.processQueue();
+    }, 100); // Check every 100ms
+  }
+
+  private processQueue() {
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      const resolve = this.queue.shift();
+      if (resolve) resolve();
+    }
+  }
+
+  async removeTokens(count: number): Promise<void> {
+    return new Promise((resolve) => {
+      for (let i = 0; i < count; i++) {
+        this.queue.push(resolve);
+      }
+      this.processQueue();
+    });
+  }
+}
+
+const airtableRateLimiter = new RateLimiter(5, 1);
+
+// Airtable API helper with retry logic
+async function airtableAPICall<T>(
+  operation: () => Promise<T>,
+  maxRetries: number = 3
+): Promise<T> {
+  await airtableRateLimiter.removeTokens(1);
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await operation();
+    } catch (error: any) {
+      if (attempt === maxRetries) throw error;
+      
+      // Exponential backoff
+      const delay = Math.pow(2, attempt) * 1000;
+      console.log(`[Airtable] Retry attempt ${attempt} after ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+  throw new Error('Max retries exceeded');
+}
+
+// Airtable API configuration
+const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+const AIRTABLE_DONORS_TABLE = process.env.AIRTABLE_DONORS_TABLE || 'Donors';
+const AIRTABLE_DONATIONS_TABLE = process.env.AIRTABLE_DONATIONS_TABLE || 'Donations';
+const AIRTABLE_COMMUNICATIONS_TABLE = process.env.AIRTABLE_COMMUNICATIONS_TABLE || 'Communications';
+
+function getAirtableHeaders() {
+  return {
+    Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+// Copy a donor to Supabase, where the reports read donors, and return its
+// Airtable ID
+async function withDonorRecord(
+  airtableRecordId: string,
+  stripeCustomerId: string | null,
+  donorData: { name: string; organization?: string; email: string; phone?: string; address?: string }
+): Promise<string> {
+  await syncDonorRecord({
+    airtableRecordId,
+    name: donorData.name,
+    email: donorData.email || null,
+    organization: donorData.organization,
+    phone: donorData.phone,
+    mailingAddress: donorData.address,
+    stripeCustomerId,
+  });
+  return airtableRecordId;
+}
+
+// Find or create donor with deduplication
+// Also used for offline gifts entered by an admin
+export async function findOrCreateDonor(
+  stripeCustomerId: string | null,
+  email: string | null,
+  donorData: {
+    name: string;
+    organization?: string;
+    email: string;
+    phone?: string;
+    address?: string;
+  },
+  audit: AuditContext
+): Promise<string> {
+  if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+    throw new Error('Airtable credentials not configured');
+  }
+
+  // Step 1: Search by Stripe Customer ID first
+  if (stripeCustomerId) {
+    const formula = `{Stripe Customer ID} = "${stripeCustomerId}"`;
+    const response = await airtableAPICall(() =>
+      fetch(
+        `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONORS_TABLE}?filterByFormula=${encodeURIComponent(formula)}`,
+        {
+          headers: getAirtableHeaders(),
+        }
+      )
+    );
+
+    if (response.ok) {
+      const data = await response.json();
+      if (data.records && data.records.length > 0) {
+        console.log('[Airtable] Found donor by Stripe Customer ID:', data.records[0].id);
+        return withDonorRecord(data.records[0].id, stripeCustomerId, donorData);
+      }
+    }
+  }
+
+  // Step 2: Search by email if no Stripe ID match
+  if (email) {
+    const formula = `{Email Address} = "${escapeForAirtable(email)}"`;
+    const response = await airtableAPICall(() =>
+      fetch(
+        `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONORS_TABLE}?filterByFormula=${encodeURIComponent(formula)}`,
+        {
+          headers: getAirtableHeaders(),
+        }
+      )
+    );
+
+    if (response.ok) {
+      const data = await response.json();
+      if (data.records && data.records.length > 0) {
+        const donorId = data.records[0].id;
+        const previousCustomerId = data.records[0].fields?.['Stripe Customer ID'] || null;
+        console.log('[Airtable] Found donor by email:', donorId);
+        
+        // Update with Stripe Customer ID if we have it
+        if (stripeCustomerId && stripeCustomerId !== previousCustomerId) {
+          await airtableAPICall(() =>
+            fetch(
+              `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONORS_TABLE}/${donorId}`,
+              {
+                method: 'PATCH',
+                headers: getAirtableHeaders(),
+                body: JSON.stringify({
+                  fields: {
+                    'Stripe Customer ID': stripeCustomerId,
+                  },
+                }),
+              }
+            )
+          );
+
+          await recordAuditEvent(
+            {
+              action: AUDIT_ACTIONS.DONOR_UPDATED,
+              targetTable: 'donors',
+              targetId: donorId,
+              before: { 'Stripe Customer ID': previousCustomerId },
+              after: { 'Stripe Customer ID': stripeCustomerId },
+            },
+            audit
+          );
+        }
+        
+        return withDonorRecord(donorId, stripeCustomerId, donorData);
+      }
+    }
+  }
+
+  // Step 3: Create new donor if no matches
+  const newDonorFields: any = {
+    'Donor Name': donorData.name,
+    'Email Address': donorData.email,
+  };
+
+  if (donorData.organization) {
+    newDonorFields['Organization Name'] = donorData.organization;
+  }
+  if (donorData.phone) {
+    newDonorFields['Phone Number'] = donorData.phone;
+  }
+  if (donorData.address) {
+    newDonorFields['Mailing Address'] = donorData.address;
+  }
+  if (stripeCustomerId) {
+    newDonorFields['Stripe Customer ID'] = stripeCustomerId;
+  }
+
+  const response = await airtableAPICall(() =>
+    fetch(
+      `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONORS_TABLE}`,
+      {
+        method: 'POST',
+        headers: getAirtableHeaders(),
+        body: JSON.stringify({
+          fields: newDonorFields,
+        }),
+      }
+    )
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Airtable API error: ${error}`);
+  }
+
+  const data = await response.json();
+  console.log('[Airtable] Created new donor:', data.id);
+
+  await recordAuditEvent(
+    {
+      action: AUDIT_ACTIONS.DONOR_CREATED,
+      targetTable: 'donors',
+      targetId: data.id,
+      before: null,
+      after: newDonorFields,
+    },
+    audit
+  );
+
+  return withDonorRecord(data.id, stripeCustomerId, donorData);
+}
+
+// Look up a donor by Airtable record ID (offline gifts entered against an
+// existing donor). Returns null if there is no such donor.
+export async function findDonorById(
+  donorId: string
+): Promise<{ id: string; name: string; email: string } | null> {
+  if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+    throw new Error('Airtable credentials not configured');
+  }
+
+  const response = await airtableAPICall(() =>
+    fetch(
+      `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONORS_TABLE}/${encodeURIComponent(donorId)}`,
+      {
+        headers: getAirtableHeaders(),
+      }
+    )
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Airtable API error: ${error}`);
+  }
+
+  const data = await response.json();
+  return {
+    id: data.id,
+    name: data.fields?.['Donor Name'] || '',
+    email: data.fields?.['Email Address'] || '',
+  };
+}
+
+// A donation as the webhook and offline gift entry record it
+interface DonationData {
+  sessionId: string | null;
+  customerId: string | null;
+  donorId: string;
+  amount: number;
+  currency: string;
+  donationDate: string;
+  isRecurring: boolean;
+  subscriptionId: string | null;
+  status: string;
+  email: string;
+  name: string;
+  fund: DonationFund;
+  campaign?: string;
+  tribute?: TributeRequest;
+  source?: (typeof DONATION_SOURCE)[keyof typeof DONATION_SOURCE];
+  paymentMethod?: (typeof OFFLINE_PAYMENT_METHODS)[keyof typeof OFFLINE_PAYMENT_METHODS];
+  referenceNumber?: string;
+  depositBatch?: string;
+  /** Stripe processing fee in the payout currency, when known */
+  stripeFee?: number | null;
+  /** Processing fee the donor paid on top of the gift */
+  coveredFee?: number;
+  /** Rate Stripe converted the payment to the base currency at; 1 when charged in it */
+  exchangeRate?: number;
+  organization?: string;
+  address?: any;
+}
+
+// Create or update donation record (idempotent)
+// Offline gifts pass a generated offline_ key in place of the payment intent.
+// `created` is false when the donation was already recorded.
+export async function upsertDonation(
+  paymentIntentId: string,
+  donationData: DonationData,
+  audit: AuditContext
+): Promise<{ id: string; created: boolean }> {
+  if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+    throw new Error('Airtable credentials not configured');
+  }
+
+  // Check if donation already exists (idempotency)
+  const formula = `{Stripe Payment Intent ID} = "${escapeForAirtable(paymentIntentId)}"`;
+  const searchResponse = await airtableAPICall(() =>
+    fetch(
+      `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONATIONS_TABLE}?filterByFormula=${encodeURIComponent(formula)}`,
+      {
+        headers: getAirtableHeaders(),
+      }
+    )
+  );
+
+  if (searchResponse.ok) {
+    const searchData = await searchResponse.json();
+    if (searchData.records && searchData.records.length > 0) {
+      console.log('[Airtable] Donation already exists:', searchData.records[0].id);
+      // A replay still fills in a Supabase copy an earlier run failed to write
+      await syncDonation(paymentIntentId, donationData);
+      return { id: searchData.records[0].id, created: false };
+    }
+  }
+
+  // Create new donation record
+  const donationFields: any = {
+    'Stripe Payment Intent ID': paymentIntentId,
+    'Stripe Checkout Session ID': donationData.sessionId || '',
+    'Stripe Customer ID': donationData.customerId || '',
+    'Donation Amount': donationData.amount,
+    'Currency': donationData.currency.toUpperCase(),
+    'Donation Date': donationData.donationDate,
+    'Payment Status': donationData.status,
+    'Recurring Donation': donationData.isRecurring,
+    'Donor': [donationData.donorId], // Link to donor record
+    'Donor Email at Donation': donationData.email,
+    'Donation Source': donationData.source || DONATION_SOURCE.WEBSITE,
+    'Fund': donationData.fund,
+  };
+
+  if (donationData.campaign) {
+    donationFields['Campaign'] = donationData.campaign;
+  }
+  if (donationData.tribute) {
+    donationFields['Tribute Type'] = donationData.tribute.type;
+    donationFields['Honoree Name'] = donationData.tribute.honoreeName;
+    if (donationData.tribute.notifyName) {
+      donationFields['Tribute Notify Name'] = donationData.tribute.notifyName;
+    }
+    if (donationData.tribute.notifyEmail) {
+      donationFields['Tribute Notify Email'] = donationData.tribute.notifyEmail;
+    }
+    if (donationData.tribute.message) {
+      donationFields['Tribute Message'] = donationData.tribute.message;
+    }
+  }
+  if (donationData.subscriptionId) {
+    donationFields['Subscription ID'] = donationData.subscriptionId;
+  }
+  if (donationData.paymentMethod) {
+    donationFields['Payment Method'] = donationData.paymentMethod;
+  }
+  if (donationData.referenceNumber) {
+    donationFields['Reference Number'] = donationData.referenceNumber;
+  }
+  if (donationData.depositBatch) {
+    donationFields['Deposit Batch'] = donationData.depositBatch;
+  }
+  if (donationData.stripeFee != null) {
+    donationFields['Stripe Fee'] = donationData.stripeFee;
+  }
+  if (donationData.coveredFee) {
+    donationFields['Covered Fee'] = donationData.coveredFee;
+  }
+  if (donationData.exchangeRate != null) {
+    donationFields['Exchange Rate'] = donationData.exchangeRate;
+    donationFields['Base Amount'] = toBaseAmount(donationData.amount, donationData.exchangeRate);
+  }
+  if (donationData.organization) {
+    donationFields['Organization Name'] = donationData.organization;
+  }
+  if (donationData.address) {
+    if (donationData.address.line1) {
+      donationFields['Address Line 1'] = donationData.address.line1;
+    }
+    if (donationData.address.city) {
+      donationFields['City'] = donationData.address.city;
+    }
+    if (donationData.address.state) {
+      donationFields['State'] = donationData.address.state;
+    }
+    if (donationData.address.postal_code) {
+      donationFields['Postal Code'] = donationData.address.postal_code;
+    }
+    if (donationData.address.country) {
+      donationFields['Country'] = donationData.address.country;
+    }
+  }
+
+  const response = await airtableAPICall(() =>
+    fetch(
+      `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONATIONS_TABLE}`,
+      {
+        method: 'POST',
+        headers: getAirtableHeaders(),
+        body: JSON.stringify({
+          fields: donationFields,
+        }),
+      }
+    )
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Airtable API error: ${error}`);
+  }
+
+  const data = await response.json();
+  console.log('[Airtable] Created donation record:', data.id);
+
+  await recordAuditEvent(
+    {
+      action: AUDIT_ACTIONS.DONATION_CREATED,
+      targetTable: 'donations',
+      targetId: data.id,
+      before: null,
+      after: donationFields,
+    },
+    audit
+  );
+
+  await syncDonation(paymentIntentId, donationData);
+  return { id: data.id, created: true };
+}
+
+// Copy a donation (and its donor) to Supabase, where the fund ledger and
+// other reports read gifts
+async function syncDonation(paymentIntentId: string, donationData: DonationData): Promise<void> {
+  const donorId = await syncDonorRecord({
+    airtableRecordId: donationData.donorId,
+    name: donationData.name,
+    email: donationData.email || null,
+    organization: donationData.organization,
+    stripeCustomerId: donationData.customerId,
+  });
+
+  await syncDonationRecord({
+    reference: paymentIntentId,
+    sessionId: donationData.sessionId,
+    customerId: donationData.customerId,
+    donorId,
+    amount: donationData.amount,
+    currency: donationData.currency,
+    donationDate: donationData.donationDate,
+    status: donationData.status,
+    isRecurring: donationData.isRecurring,
+    subscriptionId: donationData.subscriptionId,
+    email: donationData.email,
+    source: donationData.source || DONATION_SOURCE.WEBSITE,
+    fund: donationData.fund,
+    campaign: donationData.campaign,
+    tribute: donationData.tribute,
+    coveredFee: donationData.coveredFee,
+    exchangeRate: donationData.exchangeRate,
+    stripeFee: donationData.stripeFee,
+    paymentMethod: donationData.paymentMethod,
+    referenceNumber: donationData.referenceNumber,
+    depositBatch: donationData.depositBatch,
+    address: donationData.address,
+  });
+}
+
+// Create communication record
+async function createCommunicationRecord(
+  donationId: string,
+  donorId: string,
+  emailData: {
+    email: string;
+    subject: string;
+    body: string;
+    status: string;
+  }
+): Promise<string> {
+  if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+    throw new Error('Airtable credentials not configured');
+  }
+
+  const communicationFields: any = {
+    'Subject': emailData.subject,
+    'Email Body': emailData.body,
+    'Send Date': new Date().toISOString(),
+    'Recipient Email': emailData.email,
+    'Status': emailData.status,
+    'Email Type': 'Thank You',
+    'Related Donation': [donationId],
+    'Related Donor': [donorId],
+  };
+
+  const response = await airtableAPICall(() =>
+    fetch(
+      `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_COMMUNICATIONS_TABLE}`,
+      {
+        method: 'POST',
+        headers: getAirtableHeaders(),
+        body: JSON.stringify({
+          fields: communicationFields,
+        }),
+      }
+    )
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Airtable API error: ${error}`);
+  }
+
+  const data = await response.json();
+  console.log('[Airtable] Created communication record:', data.id);
+  return data.id;
+}
+
+// Send thank-you email via SendGrid
+async function sendThankYouEmail(donationData: {
+  email: string;
+  name: string;
+  amount: number;
+  coveredFee: number;
+  currency: string;
+  isRecurring: boolean;
+  donationDate: string;
+}): Promise<void> {
+  const sendGridApiKey = process.env.SENDGRID_API_KEY;
+  const fromEmail = process.env.SENDGRID_FROM_EMAIL || 'Kevin@beanumber.org';
+
+  if (!sendGridApiKey) {
+    console.log('[Webhook] SendGrid API key not set, skipping email');
+    return;
+  }
+
+  if (!donationData.email) {
+    console.log('[Webhook] No customer email, skipping thank-you email');
+    return;
+  }
+
+  const emailBody = {
+    personalizations: [
+      {
+        to: [{ email: donationData.email, name: donationData.name }],
+        subject: 'Thank You for Your Donation to Be A Number, International',
+      },
+    ],
+    from: { email: fromEmail, name: 'Be A Number, International' },
+    content: [
+      {
+        type: 'text/html',
+        value: `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <meta charset="utf-8">
+              <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            </head>
+            <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <div style="text-align: center; margin-bottom: 30px;">
+                <h1 style="color: #1a1a1a; margin-bottom: 10px;">Thank You for Your Donation!</h1>
+              </div>
+              
+              <p>Dear ${donationData.name},</p>
+              
+              <p>Thank you for your ${donationData.isRecurring ? 'monthly ' : ''}donation of ${formatCurrencyAmount(donationData.amount, donationData.currency)} to Be A Number, International. Your contribution directly supports sustainable community systems in Northern Uganda.</p>
+              
+              <p><strong>Your donation details:</strong></p>
+              <ul>
+                <li>Amount: ${formatCurrencyAmount(donationData.amount, donationData.currency)} ${donationData.currency}</li>
+                ${donationData.coveredFee > 0 ? `<li>Processing fees you covered: ${formatCurrencyAmount(donationData.coveredFee, donationData.currency)} ${donationData.currency}</li>` : ''}
+                <li>Type: ${donationData.isRecurring ? 'Monthly recurring' : 'One-time'}</li>
+                <li>Date: ${new Date(donationData.donationDate).toLocaleDateString()}</li>
+              </ul>
+              
+              <p>You will receive a tax-deductible receipt via email shortly. Be A Number, International is a registered 501(c)(3) organization (EIN: 93-1948872).</p>
+              
+              <p>Your support enables us to:</p>
+              <ul>
+                <li>Provide healthcare services to 700+ patients annually</li>
+                <li>Train women and men in vocational skills</li>
+                <li>Support education for children in Northern Uganda</li>
+                <li>Build sustainable community infrastructure</li>
+              </ul>
+              
+              <p>To learn more about our impact, visit <a href="https://www.beanumber.org/impact" style="color: #1a1a1a;">www.beanumber.org/impact</a></p>
+              
+              <p>With gratitude,<br>
+              <strong>Kevin C. Hershock</strong><br>
+              Founder & Executive Director<br>
+              Be A Number, International</p>
+              
+              <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+              
+              <p style="font-size: 12px; color: #666;">
+                Be A Number, International | EIN: 93-1948872<br>
+                <a href="https://www.beanumber.org" style="color: #666;">www.beanumber.org</a> | 
+                <a href="mailto:Kevin@beanumber.org" style="color: #666;">Kevin@beanumber.org</a>
+              </p>
+            </body>
+          </html>
+        `,
+      },
+    ],
+  };
+
+  const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${sendGridApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(emailBody),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`SendGrid API error: ${error}`);
+  }
+
+  console.log('[Webhook] Thank-you email sent to:', donationData.email);
+}
+
+// What Stripe settled a charge for
+interface Settlement {
+  /** Processing fee in the payout currency */
+  fee: number | null;
+  /** Rate the charge was converted to the base currency at; 1 when charged in it */
+  exchangeRate: number | null;
+}
+
+const UNSETTLED: Settlement = { fee: null, exchangeRate: null };
+
+// The fee and exchange rate from a charge's balance transaction. Unsettled
+// until the charge settles (e.g. bank debits) or if the balance transaction
+// was not expanded.
+function getBalanceTransactionSettlement(charge: string | Stripe.Charge | null | undefined): Settlement {
+  if (!charge || typeof charge === 'string') return UNSETTLED;
+  const balanceTransaction = charge.balance_transaction;
+  if (!balanceTransaction || typeof balanceTransaction === 'string') return UNSETTLED;
+  return {
+    fee: fromMinorUnits(balanceTransaction.fee, balanceTransaction.currency),
+    // Stripe leaves exchange_rate empty when no conversion was needed
+    exchangeRate: balanceTransaction.currency === STRIPE.CURRENCY ? balanceTransaction.exchange_rate ?? 1 : null,
+  };
+}
+
+// The exchange rate to record for a payment. A payment in another currency
+// cannot be added to the reports without one, so the event fails and can be
+// replayed once the charge has settled.
+function requireExchangeRate(currency: string, settlement: Settlement, reference: string): number {
+  if (currency.toLowerCase() === STRIPE.CURRENCY) return 1;
+  if (settlement.exchangeRate === null) {
+    throw new Error(`No ${STRIPE.CURRENCY.toUpperCase()} exchange rate available yet for ${reference}`);
+  }
+  return settlement.exchangeRate;
+}
+
+// The fee and exchange rate for a paid invoice. A failed lookup is logged
+// and the gift is recorded without a fee (see requireExchangeRate for the
+// rate).
+async function getInvoiceSettlement(invoiceId: string | null): Promise<Settlement> {
+  if (!invoiceId) return UNSETTLED;
+
+  try {
+    const stripe = await getStripe();
+    const payments = await stripe.invoicePayments.list({
+      invoice: invoiceId,
+      status: 'paid',
+      expand: ['data.payment.payment_intent.latest_charge.balance_transaction'],
+    });
+
+    const paymentIntent = payments.data[0]?.payment.payment_intent;
+    if (!paymentIntent || typeof paymentIntent === 'string') return UNSETTLED;
+    return getBalanceTransactionSettlement(paymentIntent.latest_charge);
+  } catch (error) {
+    console.error('[Webhook] Failed to look up Stripe settlement for invoice:', invoiceId, error);
+    return UNSETTLED;
+  }
+}
+
+// The processing fee the donor chose to cover (create-checkout stores it in
+// the metadata), never more than the amount charged
+function getCoveredFee(metadata: Record<string, string> | null | undefined, charged: number): number {
+  const fee = Number(metadata?.covered_fee);
+  return Number.isFinite(fee) && fee > 0 ? Math.min(fee, charged) : 0;
+}
+
+// Read the tribute create-checkout stored in the session metadata
+function getSessionTribute(session: Stripe.Checkout.Session): TributeRequest | undefined {
+  const metadata = session.metadata || {};
+  const type = metadata.tribute_type;
+
+  if ((type !== TRIBUTE_TYPES.HONOR && type !== TRIBUTE_TYPES.MEMORY) || !metadata.tribute_honoree) {
+    return undefined;
+  }
+
+  return {
+    type,
+    honoreeName: metadata.tribute_honoree,
+    notifyName: metadata.tribute_notify_name || undefined,
+    notifyEmail: metadata.tribute_notify_email || undefined,
+    message: metadata.tribute_message || undefined,
+  };
+}
+
+// Handle successful checkout session
+async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session, audit: AuditContext) {
+  console.log('[Webhook] Processing checkout session:', session.id);
+
+  try {
+    // Get payment intent for full details
+    const paymentIntentId = session.payment_intent as string;
+    let paymentIntent: Stripe.PaymentIntent | null = null;
+    let customer: Stripe.Customer | null = null;
+
+    if (paymentIntentId) {
+      const stripe = await getStripe();
+      paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId, {
+        expand: ['latest_charge.balance_transaction'],
+      });
+      
+      if (paymentIntent.customer) {
+        customer = await stripe.customers.retrieve(paymentIntent.customer as string) as Stripe.Customer;
+      }
+    }
+
+    // Extract donor information
+    const email = session.customer_email || session.customer_details?.email || customer?.email || '';
+    const name = session.customer_details?.name || session.metadata?.donor_name || customer?.name || 'Anonymous';
+    const organization = session.custom_fields?.find(f => f.key === 'organization')?.text?.value || '';
+    const phone = session.customer_details?.phone || customer?.phone || '';
+    const address = session.customer_details?.address || customer?.address || null;
+    
+    // Format address as single string
+    const addressString = address
+      ? `${address.line1 || ''}${address.line2 ? ', ' + address.line2 : ''}, ${address.city || ''}, ${address.state || ''} ${address.postal_code || ''}, ${address.country || ''}`
+      : undefined;
+
+    const stripeCustomerId = session.customer as string || customer?.id || null;
+    // The donation amount is the gift itself; a fee the donor chose to cover
+    // was charged on top and is recorded separately
+    const currency = session.currency || 'usd';
+    const charged = session.amount_total ? fromMinorUnits(session.amount_total, currency) : 0;
+    const coveredFee = getCoveredFee(session.metadata, charged);
+    const amount = Math.round((charged - coveredFee) * 100) / 100;
+    const isRecurring = session.mode === 'subscription';
+    const subscriptionId = session.subscription as string | null;
+    const donationDate = new Date().toISOString();
+    // Subscription checkouts have no payment intent; the session says whether the first invoice was paid
+    const status =
+      paymentIntent?.status === 'succeeded' || session.payment_status === 'paid'
+        ? PAYMENT_STATUS.SUCCEEDED
+        : PAYMENT_STATUS.PENDING;
+    const tribute = getSessionTribute(session);
+    // Subscription checkouts are paid through their first invoice
+    const settlement = paymentIntent
+      ? getBalanceTransactionSettlement(paymentIntent.latest_charge)
+      : await getInvoiceSettlement(refId(session.invoice));
+    const exchangeRate = requireExchangeRate(currency, settlement, session.id);
+
+    // Step 1: Find or create donor
+    const donorId = await findOrCreateDonor(stripeCustomerId, email, {
+      name,
+      organization: organization || undefined,
+      email,
+      phone: phone || undefined,
+      address: addressString,
+    }, audit);
+
+    // Step 2: Create donation record (idempotent)
+    const { id: donationId } = await upsertDonation(paymentIntentId || session.id, {
+      sessionId: session.id,
+      customerId: stripeCustomerId,
+      donorId,
+      amount,
+      currency,
+      donationDate,
+      isRecurring,
+      subscriptionId,
+      status,
+      email,
+      name,
+      fund: toDonationFund(session.metadata?.fund),
+      campaign: session.metadata?.campaign || undefined,
+      tribute,
+      stripeFee: settlement.fee,
+      coveredFee,
+      exchangeRate,
+      organization: organization || undefined,
+      address,
+    }, audit);
+
+    // Step 3: Assign the child held by a sponsorship checkout
+    if (session.metadata?.sponsorship_record_id) {
+      await completeSponsorshipCheckout(session, email, name, subscriptionId, audit);
+    }
+
+    // Step 4: Send thank-you email
+    let emailStatus = 'Sent';
+    try {
+      await sendThankYouEmail({
+        email,
+        name,
+        amount,
+        coveredFee,
+        currency,
+        isRecurring,
+        donationDate,
+      });
+    } catch (error: any) {
+      console.error('[Webhook] Failed to send email:', error);
+      emailStatus = 'Failed';
+    }
+
+    // Step 5: Create communication record
+    try {
+      await createCommunicationRecord(donationId, donorId, {
+        email,
+        subject: 'Thank You for Your Donation to Be A Number, International',
+        body: `Thank you for your ${isRecurring ? 'monthly ' : ''}donation of ${formatCurrencyAmount(amount, currency)}.`,
+        status: emailStatus,
+      });
+    } catch (error) {
+      console.error('[Webhook] Failed to create communication record:', error);
+      // Don't fail the whole process if communication record fails
+    }
+
+    // Step 6: Send the tribute card once the gift has been paid
+    if (tribute?.notifyEmail && session.payment_status === 'paid') {
+      const tributeResult = await sendTributeNotificationEmail({
+        recipientEmail: tribute.notifyEmail,
+        recipientName: tribute.notifyName,
+        donorName: name,
+        type: tribute.type,
+        honoreeName: tribute.honoreeName,
+        message: tribute.message,
+      });
+      if (!tributeResult.success) {
+        // The gift is recorded; the card can be resent by hand
+        console.error('[Webhook] Failed to send tribute notification:', tributeResult.error);
+      }
+    }
+
+    console.log('[Webhook] Successfully processed donation:', {
+      sessionId: session.id,
+      donorId,
+      donationId,
+    });
+
+    return { donorId, donationId };
+  } catch (error: any) {
+    console.error('[Webhook] Error processing checkout session:', error);
+    throw error;
+  }
+}
+
+// Assign the sponsor to the child their checkout held and send the welcome
+// email. Throws on failure so the event can be replayed; a replay skips the
+// assignment if it was already applied.
+async function completeSponsorshipCheckout(
+  session: Stripe.Checkout.Session,
+  email: string,
+  name: string,
+  subscriptionId: string | null,
+  audit: AuditContext
+) {
+  const { completeSponsorshipCheckoutTool } = await import('./tools');
+  const result = await completeSponsorshipCheckoutTool({
+    recordId: session.metadata?.sponsorship_record_id,
+    holdId: session.metadata?.checkout_hold_id,
+    stripeSubscriptionId: subscriptionId,
+    sponsorEmail: email,
+    sponsorName: name === 'Anonymous' ? undefined : name,
+  }, audit);
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to complete sponsorship checkout');
+  }
+
+  if (result.data?.status === 'unavailable') {
+    // Stop the monthly charge; an admin refunds the first payment or offers another child
+    let subscriptionCanceled = false;
+    if (subscriptionId) {
+      try {
+        const stripe = await getStripe();
+        await stripe.subscriptions.cancel(subscriptionId);
+        subscriptionCanceled = true;
+      } catch (error) {
+        console.error('[Webhook] Failed to cancel subscription for unavailable child:', subscriptionId, error);
+      }
+    }
+
+    console.error('[Webhook] Sponsored child no longer available, needs admin follow-up:', {
+      sessionId: session.id,
+      childId: result.data.childId,
+      subscriptionId,
+      subscriptionCanceled,
+    });
+
+    // A failed alert must not fail the event: the subscription is already canceled
+    try {
+      const emailResult = await sendSponsorshipCheckoutUnavailableEmail({
+        sponsorEmail: email,
+        sponsorName: name === 'Anonymous' ? undefined : name,
+        childId: result.data.childId,
+        childDisplayName: result.data.childName,
+        sessionId: session.id,
+        subscriptionId,
+        subscriptionCanceled,
+      });
+
+      if (!emailResult.success) {
+        console.error('[Webhook] Failed to send unavailable child alert:', emailResult.error);
+      }
+    } catch (error) {
+      console.error('[Webhook] Failed to send unavailable child alert:', error);
+    }
+  } else {
+    console.log('[Webhook] Sponsorship checkout processed:', {
+      sessionId: session.id,
+      status: result.data?.status,
+      childId: result.data?.childId,
+      welcomeEmailSent: result.data?.welcomeEmailSent,
+    });
+  }
+}
+
+// Release the child held by a sponsorship checkout that expired unpaid
+async function handleCheckoutSessionExpired(session: Stripe.Checkout.Session) {
+  console.log('[Webhook] Checkout session expired:', session.id);
+
+  if (!session.metadata?.sponsorship_record_id) {
+    return;
+  }
+
+  const { releaseSponsorshipCheckoutTool } = await import('./tools');
+  const result = await releaseSponsorshipCheckoutTool({
+    recordId: session.metadata.sponsorship_record_id,
+    holdId: session.metadata.checkout_hold_id,
+    sessionId: session.id,
+  });
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to release sponsorship checkout hold');
+  }
+}
+
+// Stripe fields that may arrive as an ID or an expanded object
+type StripeRef = string | { id: string } | null | undefined;
+
+function refId(ref: StripeRef): string | null {
+  if (!ref) return null;
+  return typeof ref === 'string' ? ref : ref.id;
+}
+
+// Invoice fields used by the billing handlers. The subscription moved under
+// `parent.subscription_details` in newer API versions, so both are read.
+interface InvoiceEventObject {
+  id?: string;
+  customer?: StripeRef;
+  customer_email?: string | null;
+  customer_name?: string | null;
+  subscription?: StripeRef;
+  parent?: {
+    subscription_details?: { subscription?: StripeRef; metadata?: Record<string, string> | null } | null;
+  } | null;
+  subscription_details?: { metadata?: Record<string, string> | null } | null;
+  amount_due?: number;
+  currency?: string;
+  attempt_count?: number;
+  next_payment_attempt?: number | null;
+  created?: number;
+}
+
+function getInvoiceSubscriptionId(invoice: InvoiceEventObject): string | null {
+  return refId(invoice.subscription) || refId(invoice.parent?.subscription_details?.subscription);
+}
+
+// The fund chosen at checkout, copied by Stripe from the subscription's
+// metadata onto each invoice
+function getInvoiceFund(invoice: InvoiceEventObject): DonationFund {
+  return toDonationFund(
+    invoice.parent?.subscription_details?.metadata?.fund || invoice.subscription_details?.metadata?.fund
+  );
+}
+
+// The campaign a monthly gift was started from, carried on each renewal the
+// same way
+function getInvoiceCampaign(invoice: InvoiceEventObject): string | undefined {
+  return (
+    invoice.parent?.subscription_details?.metadata?.campaign || invoice.subscription_details?.metadata?.campaign || undefined
+  );
+}
+
+// The covered fee within an invoice amount, read from the subscription's
+// metadata the same way
+function getInvoiceCoveredFee(invoice: InvoiceEventObject, charged: number): number {
+  return getCoveredFee(
+    invoice.parent?.subscription_details?.metadata || invoice.subscription_details?.metadata,
+    charged
+  );
+}
+
+// Find a donation by its payment reference: the payment intent ID for
+// one-time gifts, or the invoice ID for recurring payments
+async function findDonationByReference(
+  references: string[]
+): Promise<{ id: string; fields: Record<string, unknown> } | null> {
+  if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+    throw new Error('Airtable credentials not configured');
+  }
+
+  if (references.length === 0) {
+    return null;
+  }
+
+  const formula = `OR(${references.map((ref) => `{Stripe Payment Intent ID} = "${ref}"`).join(', ')})`;
+  const response = await airtableAPICall(() =>
+    fetch(
+      `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONATIONS_TABLE}?filterByFormula=${encodeURIComponent(formula)}&maxRecords=1`,
+      {
+        headers: getAirtableHeaders(),
+      }
+    )
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Airtable API error: ${error}`);
+  }
+
+  const data = await response.json();
+  return data.records && data.records.length > 0 ? data.records[0] : null;
+}
+
+// Every reference a payment's donation may be recorded under: the payment
+// intent for one-time gifts, the invoice for renewals, and the checkout
+// session for the first payment of a subscription. Charges and disputes do
+// not carry the invoice, so it is found through the invoice's payments.
+async function getPaymentReferences(paymentIntentId: string | null): Promise<string[]> {
+  if (!paymentIntentId) return [];
+
+  const stripe = await getStripe();
+  const payments = await stripe.invoicePayments.list({
+    payment: { type: 'payment_intent', payment_intent: paymentIntentId },
+    expand: ['data.invoice'],
+  });
+
+  const invoice = payments.data[0]?.invoice;
+  if (!invoice) return [paymentIntentId];
+  if (typeof invoice === 'string') return [paymentIntentId, invoice];
+  if ('deleted' in invoice) return [paymentIntentId, invoice.id];
+
+  const references = [paymentIntentId, invoice.id];
+  const subscriptionId = refId(invoice.parent?.subscription_details?.subscription);
+  if (invoice.billing_reason === 'subscription_create' && subscriptionId) {
+    const sessions = await stripe.checkout.sessions.list({ subscription: subscriptionId, limit: 1 });
+    if (sessions.data[0]) {
+      references.push(sessions.data[0].id);
+    }
+  }
+
+  return references;
+}
+
+// Set a donation's payment status (no-op if it already has that status),
+// with the refund date for refunds. The Supabase copy is updated first and
+// every time, so a replay catches it up even if Airtable already changed.
+async function updateDonationPaymentStatus(
+  donation: { id: string; fields: Record<string, unknown> },
+  status: string,
+  audit: AuditContext,
+  metadata: Record<string, unknown>,
+  refundedOn?: string
+): Promise<void> {
+  const previousStatus = donation.fields['Payment Status'] || null;
+  const reference = String(donation.fields['Stripe Payment Intent ID'] || '');
+  const copied = await syncDonationStatus(reference, {
+    status,
+    // A replay keeps the refund date already recorded
+    refundedOn: previousStatus === status ? (donation.fields['Refund Date'] as string | undefined) : refundedOn,
+  });
+  if (!copied) {
+    console.log('[Webhook] No Supabase copy of donation, status not copied:', reference);
+  }
+
+  const fields: Record<string, unknown> = refundedOn ? { 'Refund Date': refundedOn } : {};
+  if (previousStatus === status) {
+    console.log('[Airtable] Donation already has status:', donation.id, status);
+    return;
+  }
+
+  const response = await airtableAPICall(() =>
+    fetch(
+      `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONATIONS_TABLE}/${donation.id}`,
+      {
+        method: 'PATCH',
+        headers: getAirtableHeaders(),
+        body: JSON.stringify({
+          fields: {
+            ...fields,
+            'Payment Status': status,
+          },
+        }),
+      }
+    )
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Airtable API error: ${error}`);
+  }
+
+  console.log('[Airtable] Updated donation status:', donation.id, previousStatus, '->', status);
+
+  await recordAuditEvent(
+    {
+      action: AUDIT_ACTIONS.DONATION_UPDATED,
+      targetTable: 'donations',
+      targetId: donation.id,
+      before: { 'Payment Status': previousStatus },
+      after: { ...fields, 'Payment Status': status },
+      metadata,
+    },
+    audit
+  );
+}
+
+// Set a donor's recurring status by Stripe customer ID
+async function setDonorRecurringStatus(
+  stripeCustomerId: string,
+  status: string,
+  audit: AuditContext
+): Promise<void> {
+  if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
+    throw new Error('Airtable credentials not configured');
+  }
+
+  // The donor portal reads the status from Supabase; copied first so a replay fills it in
+  await syncDonorRecurringStatus(stripeCustomerId, status);
+
+  const formula = `{Stripe Customer ID} = "${stripeCustomerId}"`;
+  const response = await airtableAPICall(() =>
+    fetch(
+      `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONORS_TABLE}?filterByFormula=${encodeURIComponent(formula)}&maxRecords=1`,
+      {
+        headers: getAirtableHeaders(),
+      }
+    )
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Airtable API error: ${error}`);
+  }
+
+  const data = await response.json();
+  const donor = data.records?.[0];
+  if (!donor) {
+    console.log('[Airtable] No donor found for customer, skipping recurring status:', stripeCustomerId);
+    return;
+  }
+
+  const previousStatus = donor.fields?.['Recurring Status'] || null;
+  if (previousStatus === status) {
+    return;
+  }
+
+  const updateResponse = await airtableAPICall(() =>
+    fetch(
+      `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONORS_TABLE}/${donor.id}`,
+      {
+        method: 'PATCH',
+        headers: getAirtableHeaders(),
+        body: JSON.stringify({
+          fields: {
+            'Recurring Status': status,
+          },
+        }),
+      }
+    )
+  );
+
+  if (!updateResponse.ok) {
+    const error = await updateResponse.text();
+    throw new Error(`Airtable API error: ${error}`);
+  }
+
+  console.log('[Airtable] Updated donor recurring status:', donor.id, previousStatus, '->', status);
+
+  await recordAuditEvent(
+    {
+      action: AUDIT_ACTIONS.DONOR_UPDATED,
+      targetTable: 'donors',
+      targetId: donor.id,
+      before: { 'Recurring Status': previousStatus },
+      after: { 'Recurring Status': status },
+    },
+    audit
+  );
+}
+
+// Move sponsorships funded by a subscription to a new status.
+// Only sponsorships currently in one of `fromStatuses` change, so redelivered
+// or out-of-order events do not re-notify or undo a later transition.
+async function transitionFundedSponsorships(
+  subscriptionId: string,
+  fromStatuses: string[],
+  toStatus: 'Active' | 'Paused' | 'Ended',
+  reason: string,
+  audit: AuditContext,
+  notifyAdmin: boolean
+): Promise<void> {
+  const sponsorships = await findSponsorshipsBySubscriptionId(subscriptionId);
+
+  for (const sponsorship of sponsorships) {
+    const previousStatus = sponsorship.fields.Status || SPONSORSHIP_STATUS.ACTIVE;
+    if (!fromStatuses.includes(previousStatus)) {
+      continue;
+    }
+
+    await updateSponsorshipStatus(sponsorship.id, toStatus, audit, { subscriptionId, reason });
+    console.log('[Webhook] Sponsorship status changed:', sponsorship.fields.SponsorCode, previousStatus, '->', toStatus);
+
+    if (!notifyAdmin) {
+      continue;
+    }
+
+    // A failed alert must not fail the event: the status change is already saved
+    // and a replay would not resend it
+    try {
+      const emailResult = await sendSponsorshipStatusAlertEmail({
+        sponsorCode: sponsorship.fields.SponsorCode,
+        sponsorEmail: sponsorship.fields.SponsorEmail,
+        childId: sponsorship.fields.ChildID,
+        childDisplayName: sponsorship.fields.ChildDisplayName,
+        previousStatus,
+        newStatus: toStatus,
+        reason,
+        subscriptionId,
+      });
+
+      if (!emailResult.success) {
+        console.error('[Webhook] Failed to send sponsorship alert:', emailResult.error);
+      }
+    } catch (error) {
+      console.error('[Webhook] Failed to send sponsorship alert:', error);
+    }
+  }
+}
+
+// Handle a refunded charge: mark the donation Refunded once fully refunded
+async function handleChargeRefunded(charge: Stripe.Charge, audit: AuditContext) {
+  console.log('[Webhook] Processing refund:', charge.id);
+
+  if (!charge.refunded) {
+    // Partial refunds leave the donation Succeeded; Stripe holds the refund detail
+    console.log('[Webhook] Partial refund, donation status unchanged:', {
+      chargeId: charge.id,
+      amountRefunded: charge.amount_refunded,
+    });
+    return;
+  }
+
+  const references = await getPaymentReferences(refId(charge.payment_intent));
+  const donation = await findDonationByReference(references);
+
+  if (!donation) {
+    console.log('[Webhook] No donation found for refunded charge:', charge.id);
+    return;
+  }
+
+  await updateDonationPaymentStatus(
+    donation,
+    PAYMENT_STATUS.REFUNDED,
+    audit,
+    {
+      chargeId: charge.id,
+      amountRefunded: fromMinorUnits(charge.amount_refunded, charge.currency),
+    },
+    new Date().toISOString().slice(0, 10)
+  );
+}
+
+// Handle a new dispute: mark the donation Disputed; Stripe withdraws the funds
+// now, so that date is recorded as the refund date for the books
+async function handleDisputeCreated(dispute: Stripe.Dispute, audit: AuditContext) {
+  console.log('[Webhook] Processing dispute:', dispute.id);
+
+  const references = await getPaymentReferences(refId(dispute.payment_intent));
+  const donation = await findDonationByReference(references);
+
+  if (!donation) {
+    console.log('[Webhook] No donation found for disputed charge:', refId(dispute.charge));
+    return;
+  }
+
+  await updateDonationPaymentStatus(
+    donation,
+    PAYMENT_STATUS.DISPUTED,
+    audit,
+    {
+      disputeId: dispute.id,
+      chargeId: refId(dispute.charge),
+      reason: dispute.reason,
+      amount: fromMinorUnits(dispute.amount, dispute.currency),
+    },
+    new Date().toISOString().slice(0, 10)
+  );
+}
+
+// Handle the first payment of a subscription: the checkout recorded it under
+// the session ID, Pending if the invoice was not paid yet
+async function handleFirstSubscriptionPayment(invoiceId: string, subscriptionId: string, audit: AuditContext) {
+  const stripe = await getStripe();
+  const sessions = await stripe.checkout.sessions.list({ subscription: subscriptionId, limit: 1 });
+  const session = sessions.data[0];
+  const donation = session ? await findDonationByReference([session.id]) : null;
+
+  if (!donation) {
+    // The checkout event records it as Succeeded once it arrives
+    console.log('[Webhook] No donation yet for first subscription payment:', invoiceId);
+    return;
+  }
+
+  await updateDonationPaymentStatus(donation, PAYMENT_STATUS.SUCCEEDED, audit, { invoiceId, subscriptionId });
+}
+
+// Handle a failed subscription payment: record it, pause funded sponsorships
+// and start emailing the sponsor. Stripe retries the same invoice, so a later
+// success flips the donation and sponsorships back and stops the emails.
+async function handleInvoicePaymentFailed(invoice: InvoiceEventObject, audit: AuditContext) {
+  const invoiceId = invoice.id || '';
+  const subscriptionId = getInvoiceSubscriptionId(invoice);
+  console.log('[Webhook] Invoice payment failed:', invoiceId, subscriptionId);
+
+  if (!subscriptionId) {
+    console.log('[Webhook] Invoice has no subscription, skipping:', invoiceId);
+    return;
+  }
+
+  const metadata = {
+    invoiceId,
+    attemptCount: invoice.attempt_count,
+    nextPaymentAttempt: invoice.next_payment_attempt
+      ? new Date(invoice.next_payment_attempt * 1000).toISOString()
+      : null,
+  };
+
+  const donation = await findDonationByReference([invoiceId]);
+  if (donation) {
+    await updateDonationPaymentStatus(donation, PAYMENT_STATUS.FAILED, audit, metadata);
+  } else {
+    await createFailedRecurringDonation(invoice, invoiceId, subscriptionId, audit);
+  }
+
+  await transitionFundedSponsorships(
+    subscriptionId,
+    [SPONSORSHIP_STATUS.ACTIVE],
+    SPONSORSHIP_STATUS.PAUSED,
+    'a subscription payment failed',
+    audit,
+    true
+  );
+
+  if (!invoice.customer_email) {
+    console.log('[Webhook] Invoice has no customer email, skipping dunning:', invoiceId);
+    return;
+  }
+
+  // Email the sponsor a link to update their card (repeat failures of the same
+  // invoice keep the existing sequence)
+  const { startPaymentDunningTool } = await import('./tools');
+  const dunningResult = await startPaymentDunningTool({
+    invoiceId,
+    subscriptionId,
+    customerId: refId(invoice.customer) || '',
+    email: invoice.customer_email,
+    name: invoice.customer_name || 'Supporter',
+    amountCents: invoice.amount_due || 0,
+    currency: invoice.currency || 'usd',
+  });
+
+  if (!dunningResult.success) {
+    throw new Error(dunningResult.error || 'Failed to start payment dunning');
+  }
+}
+
+// Stop the payment-failed email sequence for a subscription
+async function stopDunning(subscriptionId: string, reason: 'recovered' | 'canceled') {
+  const { stopPaymentDunningTool } = await import('./tools');
+  const result = await stopPaymentDunningTool({ subscriptionId, reason });
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to stop payment dunning');
+  }
+}
+
+// Record a failed renewal as a donation row keyed by invoice ID, so the
+// failure is visible and a later successful retry updates the same row
+async function createFailedRecurringDonation(
+  invoice: InvoiceEventObject,
+  invoiceId: string,
+  subscriptionId: string,
+  audit: AuditContext
+) {
+  const charged = fromMinorUnits(invoice.amount_due || 0, invoice.currency || 'usd');
+  const coveredFee = getInvoiceCoveredFee(invoice, charged);
+  const donationFields: Record<string, unknown> = {
+    'Stripe Payment Intent ID': invoiceId,
+    'Stripe Customer ID': refId(invoice.customer) || '',
+    'Donation Amount': Math.round((charged - coveredFee) * 100) / 100,
+    'Currency': (invoice.currency || 'usd').toUpperCase(),
+    'Donation Date': new Date((invoice.created || Date.now() / 1000) * 1000).toISOString(),
+    'Payment Status': PAYMENT_STATUS.FAILED,
+    'Recurring Donation': true,
+    'Subscription ID': subscriptionId,
+    'Donor Email at Donation': invoice.customer_email || '',
+    'Donation Source': 'Website - Recurring',
+    'Fund': getInvoiceFund(invoice),
+  };
+
+  const campaign = getInvoiceCampaign(invoice);
+  if (campaign) {
+    donationFields['Campaign'] = campaign;
+  }
+  if (coveredFee) {
+    donationFields['Covered Fee'] = coveredFee;
+  }
+
+  const response = await airtableAPICall(() =>
+    fetch(
+      `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONATIONS_TABLE}`,
+      {
+        method: 'POST',
+        headers: getAirtableHeaders(),
+        body: JSON.stringify({
+          fields: donationFields,
+        }),
+      }
+    )
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Airtable API error: ${error}`);
+  }
+
+  const data = await response.json();
+  console.log('[Airtable] Recorded failed recurring donation:', data.id);
+
+  await syncDonationRecord({
+    reference: invoiceId,
+    sessionId: null,
+    customerId: refId(invoice.customer),
+    donorId: await findDonorRecordId({ stripeCustomerId: refId(invoice.customer), email: invoice.customer_email }),
+    amount: donationFields['Donation Amount'] as number,
+    currency: invoice.currency || 'usd',
+    donationDate: donationFields['Donation Date'] as string,
+    status: PAYMENT_STATUS.FAILED,
+    isRecurring: true,
+    subscriptionId,
+    email: invoice.customer_email || '',
+    source: 'Website - Recurring',
+    fund: getInvoiceFund(invoice),
+    campaign,
+    coveredFee,
+  });
+
+  await recordAuditEvent(
+    {
+      action: AUDIT_ACTIONS.DONATION_CREATED,
+      targetTable: 'donations',
+      targetId: data.id,
+      before: null,
+      after: donationFields,
+      metadata: { invoiceId },
+    },
+    audit
+  );
+}
+
+// Handle a canceled subscription: lapse the donor and end funded sponsorships
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription, audit: AuditContext) {
+  console.log('[Webhook] Subscription canceled:', subscription.id);
+
+  const customerId = refId(subscription.customer);
+  if (customerId) {
+    await setDonorRecurringStatus(customerId, DONOR_RECURRING_STATUS.LAPSED, audit);
+  }
+
+  await transitionFundedSponsorships(
+    subscription.id,
+    [SPONSORSHIP_STATUS.ACTIVE, SPONSORSHIP_STATUS.PAUSED],
+    SPONSORSHIP_STATUS.ENDED,
+    'the Stripe subscription was canceled',
+    audit,
+    true
+  );
+
+  await stopDunning(subscription.id, 'canceled');
+}
+
+/**
+ * Apply a verified Stripe event
+ * Throws if processing fails so the caller can record the failure.
+ */
+export async function handleStripeEvent(event: Stripe.Event, audit: AuditContext): Promise<void> {
+  // Handle different event types
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      await handleCheckoutSessionCompleted(session, audit);
+      break;
+    }
+
+    case 'checkout.session.expired': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      await handleCheckoutSessionExpired(session);
+      break;
+    }
+
+    case 'customer.subscription.created': {
+      const subscription = event.data.object as Stripe.Subscription;
+      console.log('[Webhook] Subscription event:', event.type, subscription.id);
+      // A new subscription makes the donor an active recurring donor again
+      const customerId = refId(subscription.customer);
+      if (customerId) {
+        await setDonorRecurringStatus(customerId, DONOR_RECURRING_STATUS.ACTIVE, audit);
+      }
+      break;
+    }
+
+    case 'customer.subscription.updated': {
+      const subscription = event.data.object as Stripe.Subscription;
+      console.log('[Webhook] Subscription event:', event.type, subscription.id);
+      // You can add subscription-specific handling here if needed
+      break;
+    }
+
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription;
+      await handleSubscriptionDeleted(subscription, audit);
+      break;
+    }
+
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      await handleChargeRefunded(charge, audit);
+      break;
+    }
+
+    case 'charge.dispute.created': {
+      const dispute = event.data.object as Stripe.Dispute;
+      await handleDisputeCreated(dispute, audit);
+      break;
+    }
+
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as InvoiceEventObject;
+      await handleInvoicePaymentFailed(invoice, audit);
+      break;
+    }
+
+    case 'invoice.payment_succeeded': {
+      // Cast to any to access all invoice properties (Stripe types can be restrictive)
+      const invoice = event.data.object as Record<string, any>;
+      console.log('[Webhook] Invoice payment succeeded:', invoice.id);
+
+      // Import the recurring payment tool dynamically to avoid circular deps
+      const { processRecurringPaymentTool } = await import('./tools');
+      const settlement = await getInvoiceSettlement(invoice.id || null);
+
+      // Process recurring subscription payments
+      const result = await processRecurringPaymentTool({
+        invoiceId: invoice.id || '',
+        subscriptionId: getInvoiceSubscriptionId(invoice) || '',
+        customerId: (typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id) || '',
+        email: invoice.customer_email || '',
+        name: invoice.customer_name || 'Supporter',
+        amountCents: invoice.amount_paid || 0,
+        currency: invoice.currency || 'usd',
+        paymentDate: new Date((invoice.created || Date.now() / 1000) * 1000).toISOString(),
+        billingReason: invoice.billing_reason || 'unknown',
+        fund: getInvoiceFund(invoice),
+        campaign: getInvoiceCampaign(invoice),
+        coveredFee: getInvoiceCoveredFee(invoice, fromMinorUnits(invoice.amount_paid || 0, invoice.currency || 'usd')),
+        stripeFee: settlement.fee,
+        exchangeRate: settlement.exchangeRate,
+      }, audit);
+
+      if (result.success) {
+        if (result.data?.skipped) {
+          console.log('[Webhook] Invoice skipped:', result.data.skipReason);
+        } else {
+          console.log('[Webhook] Recurring payment processed:', {
+            invoiceId: invoice.id,
+            donationId: result.data?.donationId,
+            emailSent: result.data?.emailSent,
+          });
+        }
+      } else {
+        console.error('[Webhook] Failed to process recurring payment:', result.error);
+        // Surface the failure so the event is recorded as failed and can be replayed
+        throw new Error(result.error || 'Failed to process recurring payment');
+      }
+
+      const subscriptionId = getInvoiceSubscriptionId(invoice);
+      if (subscriptionId && invoice.billing_reason === 'subscription_create') {
+        await handleFirstSubscriptionPayment(invoice.id || '', subscriptionId, audit);
+      }
+
+      // A successful retry resumes sponsorships paused by an earlier failure
+      if (subscriptionId) {
+        await transitionFundedSponsorships(
+          subscriptionId,
+          [SPONSORSHIP_STATUS.PAUSED],
+          SPONSORSHIP_STATUS.ACTIVE,
+          'a subscription payment succeeded',
+          audit,
+          false
+        );
+
+        await stopDunning(subscriptionId, 'recovered');
+      }
+      break;
+    }
+
+    default:
+      console.log('[Webhook] Unhandled event type:', event.type);
+  }
+}
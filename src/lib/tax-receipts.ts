@@ -0,0 +1,368 @@
+/**
+ * Year-end tax receipts
+ * Aggregates each donor's succeeded donations for a tax year and renders the
+ * consolidated giving statement as a PDF. Single-gift receipts for the donor
+ * portal use the same layout.
+ *
+ * Only donations still marked Succeeded count: refunded, disputed, failed
+ * and pending gifts are left off the statement.
+ */
+
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFPage } from 'pdf-lib';
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import { ORGANIZATION, PAYMENT_STATUS } from './constants';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StatementGift {
+  date: string;
+  /** The gift itself */
+  amount: number;
+  /** Processing fees the donor chose to cover on top of the gift */
+  coveredFee: number;
+  currency: string;
+  recurring: boolean;
+  /** Stripe payment intent or invoice ID */
+  reference: string;
+}
+
+export interface StatementTotal {
+  currency: string;
+  amount: number;
+}
+
+export interface YearEndStatement {
+  taxYear: number;
+  donorId: string | null;
+  donorName: string;
+  /** Null when neither the donor nor any gift has an email address */
+  email: string | null;
+  mailingAddress: string | null;
+  gifts: StatementGift[];
+  /** One total per currency given in */
+  totals: StatementTotal[];
+}
+
+interface SupabaseReceiptDonationRow {
+  id: string;
+  stripe_payment_intent_id: string;
+  donation_amount: number | string;
+  covered_fee: number | string | null;
+  currency: string;
+  donation_date: string;
+  recurring_donation: boolean | null;
+  donor_id: string | null;
+  donor_email_at_donation: string | null;
+  donors: {
+    donor_name: string;
+    email_address: string | null;
+    mailing_address: string | null;
+  } | null;
+}
+
+const PAGE_SIZE = 1000;
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * Load every succeeded donation dated within the tax year, oldest first
+ */
+async function findSucceededDonationsForYear(taxYear: number): Promise<SupabaseReceiptDonationRow[]> {
+  logger.dbQuery('donations', 'findSucceededForYear', { taxYear });
+
+  const timer = startTimer('findSucceededDonationsForYear');
+  const rows: SupabaseReceiptDonationRow[] = [];
+
+  try {
+    const supabase = getSupabaseClient();
+
+    // PostgREST caps each response, so read the year in pages
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('donations')
+        .select(
+          'id, stripe_payment_intent_id, donation_amount, covered_fee, currency, donation_date, recurring_donation, ' +
+            'donor_id, donor_email_at_donation, donors(donor_name, email_address, mailing_address)'
+        )
+        .eq('payment_status', PAYMENT_STATUS.SUCCEEDED)
+        .gte('donation_date', `${taxYear}-01-01`)
+        .lte('donation_date', `${taxYear}-12-31`)
+        .order('donation_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        timer.end();
+        logger.dbError('donations', 'findSucceededForYear', error);
+        throw new DatabaseError('Failed to query donations');
+      }
+
+      const page = (data || []) as unknown as SupabaseReceiptDonationRow[];
+      rows.push(...page);
+
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    timer.end();
+    return rows;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('donations', 'findSucceededForYear', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Total gifts per currency, rounded once at the end so per-gift float error
+ * does not accumulate. Covered fees are part of the contribution, so they
+ * count towards the total.
+ */
+function totalByCurrency(gifts: StatementGift[]): StatementTotal[] {
+  const totals: StatementTotal[] = [];
+
+  for (const gift of gifts) {
+    const amount = gift.amount + gift.coveredFee;
+    const total = totals.find((candidate) => candidate.currency === gift.currency);
+    if (total) {
+      total.amount += amount;
+    } else {
+      totals.push({ currency: gift.currency, amount });
+    }
+  }
+
+  return totals.map((total) => ({ ...total, amount: Math.round(total.amount * 100) / 100 }));
+}
+
+/**
+ * Build a statement from gifts that are already known to belong to one donor
+ * Used by the donor portal, which has the donor's gifts in hand.
+ */
+export function buildStatement(
+  taxYear: number,
+  donor: Pick<YearEndStatement, 'donorId' | 'donorName' | 'email' | 'mailingAddress'>,
+  gifts: StatementGift[]
+): YearEndStatement {
+  return {
+    taxYear,
+    ...donor,
+    gifts,
+    totals: totalByCurrency(gifts),
+  };
+}
+
+/**
+ * Build one statement per donor for a tax year
+ *
+ * Gifts are grouped by donor record; gifts with no linked donor are grouped
+ * by the email they were made with.
+ */
+export async function buildYearEndStatements(taxYear: number): Promise<YearEndStatement[]> {
+  const rows = await findSucceededDonationsForYear(taxYear);
+  const statements = new Map<string, YearEndStatement>();
+
+  for (const row of rows) {
+    const giftEmail = row.donor_email_at_donation?.trim().toLowerCase() || null;
+    const key = row.donor_id ? `donor:${row.donor_id}` : `email:${giftEmail || row.id}`;
+
+    let statement = statements.get(key);
+    if (!statement) {
+      statement = {
+        taxYear,
+        donorId: row.donor_id,
+        donorName: row.donors?.donor_name || 'Friend of Be A Number',
+        email: row.donors?.email_address?.trim().toLowerCase() || giftEmail,
+        mailingAddress: row.donors?.mailing_address || null,
+        gifts: [],
+        totals: [],
+      };
+      statements.set(key, statement);
+    }
+
+    if (!statement.email && giftEmail) {
+      statement.email = giftEmail;
+    }
+
+    statement.gifts.push({
+      date: row.donation_date,
+      amount: Number(row.donation_amount),
+      coveredFee: Number(row.covered_fee || 0),
+      currency: (row.currency || 'usd').toUpperCase(),
+      recurring: !!row.recurring_donation,
+      reference: row.stripe_payment_intent_id,
+    });
+  }
+
+  for (const statement of statements.values()) {
+    statement.totals = totalByCurrency(statement.gifts);
+  }
+
+  return [...statements.values()].sort((a, b) => a.donorName.localeCompare(b.donorName));
+}
+
+// ============================================================================
+// PDF RENDERING
+// ============================================================================
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 56;
+const LINE_HEIGHT = 16;
+
+export function formatStatementAmount(amount: number, currency: string): string {
+  return `${currency === 'USD' ? '$' : ''}${amount.toFixed(2)} ${currency}`;
+}
+
+/**
+ * Keep text within the standard PDF fonts' WinAnsi character set
+ */
+function toPdfText(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+/**
+ * Render a donor's year-end statement as a PDF
+ */
+export async function renderYearEndStatementPdf(statement: YearEndStatement): Promise<Buffer> {
+  return renderGivingPdf(statement, {
+    title: `${statement.taxYear} Giving Statement`,
+    heading: `${statement.taxYear} Annual Giving Statement`,
+    totalLabel: `Total contributions in ${statement.taxYear}`,
+  });
+}
+
+/**
+ * Render a receipt for a single gift as a PDF
+ * The statement must hold exactly the one gift being receipted.
+ */
+export async function renderDonationReceiptPdf(statement: YearEndStatement): Promise<Buffer> {
+  if (statement.gifts.length !== 1) {
+    throw new Error('A donation receipt covers exactly one gift');
+  }
+
+  return renderGivingPdf(statement, {
+    title: 'Donation Receipt',
+    heading: 'Donation Receipt',
+    totalLabel: 'Total contribution',
+  });
+}
+
+async function renderGivingPdf(
+  statement: YearEndStatement,
+  labels: { title: string; heading: string; totalLabel: string }
+): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${labels.title} - ${ORGANIZATION.LEGAL_NAME}`);
+  pdf.setAuthor(ORGANIZATION.LEGAL_NAME);
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const draw = (text: string, x: number, options: { font?: PDFFont; size?: number } = {}) => {
+    page.drawText(toPdfText(text), {
+      x,
+      y,
+      font: options.font || font,
+      size: options.size || 11,
+      color: rgb(0.1, 0.1, 0.1),
+    });
+  };
+
+  const drawRight = (text: string, rightX: number, options: { font?: PDFFont; size?: number } = {}) => {
+    const width = (options.font || font).widthOfTextAtSize(toPdfText(text), options.size || 11);
+    draw(text, rightX - width, options);
+  };
+
+  // Start a new page when the next line would fall into the bottom margin
+  const nextLine = (lines = 1) => {
+    y -= LINE_HEIGHT * lines;
+    if (y < MARGIN) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  // Header
+  draw(ORGANIZATION.LEGAL_NAME, MARGIN, { font: bold, size: 16 });
+  nextLine();
+  draw(`${ORGANIZATION.TAX_STATUS} Nonprofit | EIN ${ORGANIZATION.EIN} | ${ORGANIZATION.WEBSITE}`, MARGIN, { size: 9 });
+  nextLine(2);
+  draw(labels.heading, MARGIN, { font: bold, size: 14 });
+  nextLine();
+  draw(`Issued ${new Date().toISOString().split('T')[0]}`, MARGIN, { size: 9 });
+  nextLine(2);
+
+  // Donor
+  draw(statement.donorName, MARGIN, { font: bold });
+  nextLine();
+  for (const line of (statement.mailingAddress || '').split(/\r?\n/).filter(Boolean)) {
+    draw(line, MARGIN);
+    nextLine();
+  }
+  if (statement.email) {
+    draw(statement.email, MARGIN, { size: 9 });
+    nextLine();
+  }
+  nextLine();
+
+  // Gifts
+  const amountX = PAGE_WIDTH - MARGIN;
+  draw('Date', MARGIN, { font: bold, size: 10 });
+  draw('Gift', MARGIN + 90, { font: bold, size: 10 });
+  draw('Reference', MARGIN + 190, { font: bold, size: 10 });
+  drawRight('Amount', amountX, { font: bold, size: 10 });
+  nextLine();
+
+  for (const gift of statement.gifts) {
+    draw(gift.date, MARGIN, { size: 10 });
+    draw(gift.recurring ? 'Monthly' : 'One-time', MARGIN + 90, { size: 10 });
+    draw(gift.reference, MARGIN + 190, { size: 8 });
+    drawRight(formatStatementAmount(gift.amount, gift.currency), amountX, { size: 10 });
+    nextLine();
+    if (gift.coveredFee > 0) {
+      draw('Processing fees covered', MARGIN + 90, { size: 9 });
+      drawRight(formatStatementAmount(gift.coveredFee, gift.currency), amountX, { size: 9 });
+      nextLine();
+    }
+  }
+
+  nextLine();
+  for (const total of statement.totals) {
+    draw(labels.totalLabel, MARGIN, { font: bold });
+    drawRight(formatStatementAmount(total.amount, total.currency), amountX, { font: bold });
+    nextLine();
+  }
+  nextLine();
+
+  // Acknowledgment required for the donor's deduction
+  const acknowledgment = [
+    `${ORGANIZATION.LEGAL_NAME} is a ${ORGANIZATION.TAX_STATUS} tax-exempt organization (EIN ${ORGANIZATION.EIN}).`,
+    `No goods or services were provided in exchange for ${statement.gifts.length === 1 ? 'this contribution' : 'these contributions'}.`,
+    'Your contributions are tax-deductible to the fullest extent allowed by law.',
+    `Please keep this ${statement.gifts.length === 1 ? 'receipt' : 'statement'} for your tax records.`,
+  ];
+  for (const line of acknowledgment) {
+    draw(line, MARGIN, { size: 10 });
+    nextLine();
+  }
+  nextLine();
+  draw(`Questions? Email ${ORGANIZATION.CONTACT_EMAIL}`, MARGIN, { size: 9 });
+
+  return Buffer.from(await pdf.save());
+}
@@ -42,6 +42,27 @@ function isValidRoleEmail(email: string): email is RoleActorEmail {
   return Object.values(ROLE_EMAILS).includes(email as RoleActorEmail);
 }
 
+/**
+ * Title of the Updates record for a submission
+ */
+export function buildUpdateTitle(sourceType: SourceType, periodOrTerm: string): string {
+  return `${sourceType === SOURCE_TYPE.FIELD ? 'Field' : 'Academic'} Update - ${periodOrTerm}`;
+}
+
+/**
+ * Content of the Updates record: the sponsor narrative, or a summary of an
+ * academic update
+ */
+export function buildUpdateContent(fields: { sponsorNarrative?: string; attendancePercent?: number }): string {
+  if (fields.sponsorNarrative) {
+    return fields.sponsorNarrative;
+  }
+  if (fields.attendancePercent !== undefined) {
+    return `Academic Update - Attendance: ${fields.attendancePercent}%`;
+  }
+  return 'Update submitted';
+}
+
 /**
  * Generate the computed Update ID
  */
@@ -72,6 +93,7 @@ export async function createChildUpdateRecordTool(
     period: input.period,
     academicTerm: input.academicTerm,
     submittedBy: input.submittedBy,
+    intakeSource: input.intakeSource,
   });
 
   // =========================================================================
@@ -182,23 +204,22 @@ export async function createChildUpdateRecordTool(
         ? UPDATE_TYPES.PROGRESS_REPORT
         : UPDATE_TYPES.PHOTO_UPDATE;
 
-    // Build content from fields
-    let content = '';
-    if (input.fields.sponsorNarrative) {
-      content = input.fields.sponsorNarrative;
-    } else if (input.fields.attendancePercent !== undefined) {
-      content = `Academic Update - Attendance: ${input.fields.attendancePercent}%`;
-    } else {
-      content = 'Update submitted';
-    }
-
-    // Create the record using existing function
+    // Create the record using existing function. The form answers are kept
+    // as the payload so a reviewer can send the update back for correction.
     const record = await submitUpdate({
       childId: input.childId,
       updateType,
-      title: `${input.sourceType === SOURCE_TYPE.FIELD ? 'Field' : 'Academic'} Update - ${periodOrTerm}`,
-      content,
+      title: buildUpdateTitle(input.sourceType, periodOrTerm),
+      content: buildUpdateContent(input.fields),
       submittedBy: input.submittedBy,
+      intakeSource: input.intakeSource,
+      payload: {
+        sourceType: input.sourceType,
+        periodOrTerm,
+        fields: input.fields,
+        drive: input.drive,
+      },
+      photos: input.photos,
     });
 
     logger.info('createChildUpdateRecord: Created', {
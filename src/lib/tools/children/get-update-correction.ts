@@ -0,0 +1,137 @@
+/**
+ * Tool: getUpdateCorrection
+ *
+ * Looks up the correction request behind a resubmission link, with the
+ * submission to prefill and the update's earlier correction requests.
+ * Does not use up the link.
+ *
+ * WAT-compliant tool:
+ * - Single responsibility
+ * - Structured output { success, data?, error? }
+ * - Logging via logger.ts
+ */
+
+import { logger } from '../../logger';
+import { hashResubmissionToken } from '../../auth';
+import { findOpenUpdateCorrection, listUpdateCorrections } from '../../update-corrections';
+import { UPDATE_STATUS } from '../../constants';
+import type { ToolResult, IntakeUpdateFields, SourceType } from '../../types/child-update';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GetUpdateCorrectionInput {
+  token: string;
+}
+
+export interface GetUpdateCorrectionOutput {
+  updateRecordId: string;
+  childId: string;
+  sourceType: SourceType;
+  periodOrTerm: string;
+  /** Current answers, to prefill the form */
+  fields: IntakeUpdateFields;
+  notes: string;
+  requestedAt: string;
+  expiresAt: string;
+  /** Every correction requested for the update, oldest first */
+  history: Array<{
+    notes: string;
+    requestedAt: string;
+    resubmittedAt: string | null;
+  }>;
+}
+
+// ============================================================================
+// TOOL IMPLEMENTATION
+// ============================================================================
+
+/**
+ * Get the correction request for a resubmission token
+ *
+ * @param input - Contains the token from the emailed link
+ * @returns The submission and reviewer notes, or invalid_link
+ */
+export async function getUpdateCorrectionTool(
+  input: GetUpdateCorrectionInput
+): Promise<ToolResult<GetUpdateCorrectionOutput>> {
+  logger.info('getUpdateCorrection: Starting', {});
+
+  // =========================================================================
+  // VALIDATION
+  // =========================================================================
+
+  if (!input.token) {
+    return {
+      success: false,
+      error: {
+        code: 'invalid_args',
+        message: 'token is required',
+      },
+    };
+  }
+
+  // =========================================================================
+  // FETCH
+  // =========================================================================
+
+  try {
+    const open = await findOpenUpdateCorrection(hashResubmissionToken(input.token));
+
+    if (!open || open.update.status !== UPDATE_STATUS.NEEDS_CORRECTION || !open.update.payload) {
+      logger.warn('getUpdateCorrection: Invalid or used link', {
+        updateRecordId: open?.update.id,
+        status: open?.update.status,
+      });
+
+      return {
+        success: false,
+        error: {
+          code: 'invalid_link',
+          message: 'Resubmission link is invalid, expired, or already used',
+        },
+      };
+    }
+
+    const history = await listUpdateCorrections(open.update.id);
+    const { payload } = open.update;
+
+    logger.info('getUpdateCorrection: Found', {
+      updateRecordId: open.update.id,
+      childId: open.update.childId,
+      correctionCount: history.length,
+    });
+
+    return {
+      success: true,
+      data: {
+        updateRecordId: open.update.id,
+        childId: open.update.childId,
+        sourceType: payload.sourceType,
+        periodOrTerm: payload.periodOrTerm,
+        fields: payload.fields,
+        notes: open.correction.notes,
+        requestedAt: open.correction.requestedAt,
+        expiresAt: open.correction.expiresAt,
+        history: history.map((correction) => ({
+          notes: correction.notes,
+          requestedAt: correction.requestedAt,
+          resubmittedAt: correction.resubmittedAt,
+        })),
+      },
+    };
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+
+    logger.error('getUpdateCorrection: Failed', error, {});
+
+    return {
+      success: false,
+      error: {
+        code: 'airtable_error',
+        message: err.message || 'Failed to look up correction request',
+      },
+    };
+  }
+}
@@ -43,3 +43,16 @@ export {
   type UpdateStatusInput,
   type UpdateStatusOutput,
 } from './update-status';
+
+// Correction round trip
+export {
+  getUpdateCorrectionTool,
+  type GetUpdateCorrectionInput,
+  type GetUpdateCorrectionOutput,
+} from './get-update-correction';
+
+export {
+  resubmitChildUpdateTool,
+  type ResubmitChildUpdateInput,
+  type ResubmitChildUpdateOutput,
+} from './resubmit-child-update';
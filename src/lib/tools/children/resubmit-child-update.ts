@@ -0,0 +1,233 @@
+/**
+ * Tool: resubmitChildUpdate
+ *
+ * Resubmits an update that a reviewer sent back for correction, through the
+ * single-use link emailed to the submitting role. The corrected answers
+ * replace the update's payload and the update returns to Pending Review;
+ * the earlier version stays in the correction history.
+ *
+ * WAT-compliant tool:
+ * - Single responsibility
+ * - Structured output { success, data?, error? }
+ * - Logging via logger.ts
+ * - Input validation
+ */
+
+import { logger } from '../../logger';
+import { hashResubmissionToken } from '../../auth';
+import { findOpenUpdateCorrection, resubmitUpdateCorrection } from '../../update-corrections';
+import { sanitizeString } from '../../validation';
+import { SOURCE_TYPE, UPDATE_STATUS, CHILD_UPDATE_STATUS, WELLBEING_OPTIONS, ENGAGEMENT_OPTIONS } from '../../constants';
+import { buildUpdateTitle, buildUpdateContent } from './create-child-update';
+import type { ToolResult, ChildUpdateStatus, IntakeUpdateFields, SourceType } from '../../types/child-update';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ResubmitChildUpdateInput {
+  token: string;
+  fields: Record<string, unknown>;
+}
+
+export interface ResubmitChildUpdateOutput {
+  updateRecordId: string;
+  childId: string;
+  status: ChildUpdateStatus;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const MAX_TEXT_LENGTH = 5000;
+
+const FIELD_TEXT_KEYS = [
+  'physicalNotes',
+  'emotionalNotes',
+  'engagementNotes',
+  'sponsorNarrative',
+  'positiveHighlight',
+  'challenge',
+] as const;
+
+const ACADEMIC_NUMBER_KEYS = [
+  'attendancePercent',
+  'englishGrade',
+  'mathGrade',
+  'scienceGrade',
+  'socialStudiesGrade',
+] as const;
+
+/**
+ * Keep the answers that belong to the update's form, trimmed and checked
+ * @returns The answers, or an error message naming the first bad answer
+ */
+export function normalizeIntakeFields(
+  sourceType: SourceType,
+  raw: Record<string, unknown>
+): { fields: IntakeUpdateFields } | { error: string } {
+  const fields: IntakeUpdateFields = {};
+
+  if (sourceType === SOURCE_TYPE.FIELD) {
+    const selects: Array<['physicalWellbeing' | 'emotionalWellbeing' | 'schoolEngagement', readonly string[]]> = [
+      ['physicalWellbeing', WELLBEING_OPTIONS],
+      ['emotionalWellbeing', WELLBEING_OPTIONS],
+      ['schoolEngagement', ENGAGEMENT_OPTIONS],
+    ];
+    for (const [key, options] of selects) {
+      const value = sanitizeString(raw[key]);
+      if (!value) continue;
+      if (!options.includes(value)) {
+        return { error: `${key} must be one of: ${options.join(', ')}` };
+      }
+      fields[key] = value;
+    }
+
+    for (const key of FIELD_TEXT_KEYS) {
+      const value = sanitizeString(raw[key]).slice(0, MAX_TEXT_LENGTH);
+      if (value) fields[key] = value;
+    }
+
+    return { fields };
+  }
+
+  for (const key of ACADEMIC_NUMBER_KEYS) {
+    if (raw[key] === undefined || raw[key] === null || raw[key] === '') continue;
+    const value = Number(raw[key]);
+    if (!Number.isFinite(value) || value < 0 || (key === 'attendancePercent' && value > 100)) {
+      return { error: `${key} must be a number${key === 'attendancePercent' ? ' from 0 to 100' : ' of 0 or more'}` };
+    }
+    fields[key] = value;
+  }
+
+  const teacherComment = sanitizeString(raw.teacherComment).slice(0, MAX_TEXT_LENGTH);
+  if (teacherComment) fields.teacherComment = teacherComment;
+
+  return { fields };
+}
+
+// ============================================================================
+// TOOL IMPLEMENTATION
+// ============================================================================
+
+/**
+ * Resubmit a corrected update
+ *
+ * @param input - Contains the token from the emailed link and the corrected answers
+ * @returns The update, now back in Pending Review
+ */
+export async function resubmitChildUpdateTool(
+  input: ResubmitChildUpdateInput
+): Promise<ToolResult<ResubmitChildUpdateOutput>> {
+  logger.info('resubmitChildUpdate: Starting', {});
+
+  // =========================================================================
+  // VALIDATION
+  // =========================================================================
+
+  if (!input.token) {
+    return {
+      success: false,
+      error: {
+        code: 'invalid_args',
+        message: 'token is required',
+      },
+    };
+  }
+
+  if (!input.fields || typeof input.fields !== 'object' || Array.isArray(input.fields)) {
+    return {
+      success: false,
+      error: {
+        code: 'invalid_args',
+        message: 'fields must be an object',
+      },
+    };
+  }
+
+  try {
+    // =========================================================================
+    // FETCH CORRECTION REQUEST
+    // =========================================================================
+
+    const tokenHash = hashResubmissionToken(input.token);
+    const open = await findOpenUpdateCorrection(tokenHash);
+
+    if (!open || open.update.status !== UPDATE_STATUS.NEEDS_CORRECTION || !open.update.payload) {
+      logger.warn('resubmitChildUpdate: Invalid or used link', {
+        updateRecordId: open?.update.id,
+        status: open?.update.status,
+      });
+
+      return {
+        success: false,
+        error: {
+          code: 'invalid_link',
+          message: 'Resubmission link is invalid, expired, or already used',
+        },
+      };
+    }
+
+    const { payload } = open.update;
+    const normalized = normalizeIntakeFields(payload.sourceType, input.fields);
+
+    if ('error' in normalized) {
+      return {
+        success: false,
+        error: {
+          code: 'invalid_args',
+          message: normalized.error,
+        },
+      };
+    }
+
+    // =========================================================================
+    // RESUBMIT
+    // =========================================================================
+
+    const resubmitted = await resubmitUpdateCorrection(tokenHash, {
+      payload: { ...payload, fields: normalized.fields },
+      title: buildUpdateTitle(payload.sourceType, payload.periodOrTerm),
+      content: buildUpdateContent(normalized.fields),
+    });
+
+    if (!resubmitted) {
+      return {
+        success: false,
+        error: {
+          code: 'invalid_link',
+          message: 'Resubmission link is invalid, expired, or already used',
+        },
+      };
+    }
+
+    logger.info('resubmitChildUpdate: Resubmitted', {
+      updateRecordId: open.update.id,
+      childId: open.update.childId,
+      correctionId: resubmitted.id,
+      submittedBy: open.update.submittedBy,
+    });
+
+    return {
+      success: true,
+      data: {
+        updateRecordId: open.update.id,
+        childId: open.update.childId,
+        status: CHILD_UPDATE_STATUS.PENDING_REVIEW as ChildUpdateStatus,
+      },
+    };
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+
+    logger.error('resubmitChildUpdate: Failed', error, {});
+
+    return {
+      success: false,
+      error: {
+        code: 'airtable_error',
+        message: err.message || 'Failed to resubmit update',
+      },
+    };
+  }
+}
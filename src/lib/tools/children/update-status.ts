@@ -4,21 +4,36 @@
  * Updates the status of a child update record.
  * Enforces governance rules:
  * - Published records are immutable
- * - Only admin can set Published/Rejected
- * - Only admin can set Needs Correction
+ * - Only admin (or an owner/reviewer admin user) can set Published/Rejected
+ * - Only admin (or an owner/reviewer admin user) can set Needs Correction
+ * - Needs Correction requires notes and emails the submitting role a
+ *   single-use link to correct and resubmit the update
+ * - Published requires a clear safeguarding check, or a redaction or
+ *   override decision for the flags
  *
  * WAT-compliant tool:
  * - Single responsibility
  * - Structured output { success, data?, error? }
  * - Logging via logger.ts
+ * - Every status change is recorded in the audit log
  */
 
 import { logger } from '../../logger';
 import { getUpdateById, publishUpdate, rejectUpdate } from '../../database';
 import { airtableClient } from '../../database';
-import { ROLE_EMAILS, CHILD_UPDATE_STATUS, AIRTABLE_FIELDS, UPDATE_STATUS } from '../../constants';
+import { ROLE_EMAILS, ADMIN_ROLES, CHILD_UPDATE_STATUS, AIRTABLE_FIELDS, UPDATE_STATUS, RESUBMISSION_LINK } from '../../constants';
 import type { ToolResult, ChildUpdateStatus, RoleActorEmail } from '../../types/child-update';
+import { ROLE_ACTOR_EMAILS } from '../../types/child-update';
+import type { AirtableUpdateRecord } from '../../types/airtable';
+import type { AdminRole } from '../../types/admin';
 import { getAirtableConfig } from '../../env';
+import { recordAuditEvent, AUDIT_ACTIONS } from '../../audit';
+import type { AuditContext } from '../../audit';
+import { generateResubmissionToken } from '../../auth';
+import { requestUpdateCorrection } from '../../update-corrections';
+import { sendUpdateCorrectionRequestEmail } from '../../email';
+import { reviewSafeguarding } from '../../safeguarding';
+import type { SafeguardingDecision } from '../../safeguarding';
 
 // ============================================================================
 // TYPES
@@ -28,13 +43,23 @@ export interface UpdateStatusInput {
   updateRecordId: string;
   nextStatus: ChildUpdateStatus;
   actorEmail: string;
+  /** Role of the authenticated admin user acting (if any) */
+  actorRole?: AdminRole;
+  /** Request ID for correlating the audit event */
+  requestId?: string;
   notes?: string;
+  /** For Published: how to resolve safeguarding flags */
+  safeguarding?: SafeguardingDecision;
 }
 
 export interface UpdateStatusOutput {
   updateRecordId: string;
   status: ChildUpdateStatus;
   previousStatus: ChildUpdateStatus;
+  /** Set for Needs Correction: whether the submitting role was emailed the link */
+  correctionEmailSent?: boolean;
+  /** Set for Published */
+  safeguardingOutcome?: 'clear' | 'redacted' | 'overridden';
 }
 
 // ============================================================================
@@ -62,6 +87,11 @@ const ADMIN_ONLY_STATUSES: ChildUpdateStatus[] = [
   CHILD_UPDATE_STATUS.NEEDS_CORRECTION as ChildUpdateStatus,
 ];
 
+/**
+ * Admin user roles allowed to make admin-only status changes
+ */
+const REVIEW_ROLES: AdminRole[] = [ADMIN_ROLES.OWNER, ADMIN_ROLES.REVIEWER];
+
 /**
  * Map child update status to legacy Updates table status
  */
@@ -69,8 +99,9 @@ function mapToLegacyStatus(status: ChildUpdateStatus): string {
   switch (status) {
     case CHILD_UPDATE_STATUS.DRAFT:
     case CHILD_UPDATE_STATUS.PENDING_REVIEW:
-    case CHILD_UPDATE_STATUS.NEEDS_CORRECTION:
       return UPDATE_STATUS.PENDING_REVIEW;
+    case CHILD_UPDATE_STATUS.NEEDS_CORRECTION:
+      return UPDATE_STATUS.NEEDS_CORRECTION;
     case CHILD_UPDATE_STATUS.PUBLISHED:
       return UPDATE_STATUS.PUBLISHED;
     case CHILD_UPDATE_STATUS.REJECTED:
@@ -91,11 +122,59 @@ function mapFromLegacyStatus(status: string): ChildUpdateStatus {
       return CHILD_UPDATE_STATUS.PUBLISHED as ChildUpdateStatus;
     case UPDATE_STATUS.REJECTED:
       return CHILD_UPDATE_STATUS.REJECTED as ChildUpdateStatus;
+    case UPDATE_STATUS.NEEDS_CORRECTION:
+      return CHILD_UPDATE_STATUS.NEEDS_CORRECTION as ChildUpdateStatus;
     default:
       return CHILD_UPDATE_STATUS.PENDING_REVIEW as ChildUpdateStatus;
   }
 }
 
+/**
+ * Role address that submitted the update, if it came from a role form
+ */
+function getSubmitterRoleEmail(record: AirtableUpdateRecord): RoleActorEmail | null {
+  const submittedBy = record.fields.SubmittedBy;
+  const roleEmails: string[] = [ROLE_ACTOR_EMAILS.FIELD_UPDATES, ROLE_ACTOR_EMAILS.ACADEMICS];
+  return submittedBy && roleEmails.includes(submittedBy) ? (submittedBy as RoleActorEmail) : null;
+}
+
+/**
+ * Send an update back for correction and email the submitting role a
+ * single-use resubmission link
+ *
+ * @returns Whether the email was sent; the status change stands either way
+ */
+async function sendBackForCorrection(
+  record: AirtableUpdateRecord,
+  submitterEmail: RoleActorEmail,
+  notes: string,
+  audit: AuditContext
+): Promise<boolean> {
+  const { token, tokenHash, expiresAt } = generateResubmissionToken();
+
+  await requestUpdateCorrection({ updateId: record.id, notes, tokenHash, expiresAt }, audit);
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org';
+  const emailResult = await sendUpdateCorrectionRequestEmail({
+    toRoleEmail: submitterEmail,
+    childId: record.fields.ChildID,
+    periodOrTerm: record.fields.Payload?.periodOrTerm || record.fields.Title,
+    notes,
+    resubmitUrl: `${siteUrl}${RESUBMISSION_LINK.PATH}?token=${encodeURIComponent(token)}`,
+    expiresInDays: RESUBMISSION_LINK.TTL_DAYS,
+  });
+
+  if (!emailResult.success) {
+    logger.warn('updateChildUpdateStatus: Correction email failed', {
+      updateRecordId: record.id,
+      submitterEmail,
+      error: emailResult.error,
+    });
+  }
+
+  return emailResult.success;
+}
+
 // ============================================================================
 // TOOL IMPLEMENTATION
 // ============================================================================
@@ -113,12 +192,13 @@ function mapFromLegacyStatus(status: string): ChildUpdateStatus {
 export async function updateChildUpdateStatusTool(
   input: UpdateStatusInput
 ): Promise<ToolResult<UpdateStatusOutput>> {
-  const { updateRecordId, nextStatus, actorEmail, notes } = input;
+  const { updateRecordId, nextStatus, actorEmail, actorRole, requestId, notes, safeguarding } = input;
 
   logger.info('updateChildUpdateStatus: Starting', {
     updateRecordId,
     nextStatus,
     actorEmail,
+    actorRole,
   });
 
   // =========================================================================
@@ -155,22 +235,34 @@ export async function updateChildUpdateStatusTool(
     };
   }
 
+  const correctionNotes = notes?.trim();
+  if (nextStatus === CHILD_UPDATE_STATUS.NEEDS_CORRECTION && !correctionNotes) {
+    return {
+      success: false,
+      error: {
+        code: 'invalid_args',
+        message: 'notes are required when requesting a correction',
+      },
+    };
+  }
+
   // Check if admin-only status change
-  if (
-    ADMIN_ONLY_STATUSES.includes(nextStatus) &&
-    actorEmail !== ROLE_EMAILS.ADMIN
-  ) {
+  const isReviewer =
+    actorEmail === ROLE_EMAILS.ADMIN || (!!actorRole && REVIEW_ROLES.includes(actorRole));
+
+  if (ADMIN_ONLY_STATUSES.includes(nextStatus) && !isReviewer) {
     logger.warn('updateChildUpdateStatus: Non-admin attempted admin action', {
       updateRecordId,
       nextStatus,
       actorEmail,
+      actorRole,
     });
 
     return {
       success: false,
       error: {
         code: 'forbidden',
-        message: `Only ${ROLE_EMAILS.ADMIN} can set status to ${nextStatus}`,
+        message: `Only ${ROLE_EMAILS.ADMIN} or an admin with the ${REVIEW_ROLES.join('/')} role can set status to ${nextStatus}`,
       },
     };
   }
@@ -226,18 +318,58 @@ export async function updateChildUpdateStatusTool(
       };
     }
 
+    // Corrections go back to the role that submitted through a form, which
+    // needs the stored form answers to prefill the resubmission
+    const submitterEmail = getSubmitterRoleEmail(record);
+    if (
+      nextStatus === CHILD_UPDATE_STATUS.NEEDS_CORRECTION &&
+      (!submitterEmail || !record.fields.Payload)
+    ) {
+      return {
+        success: false,
+        error: {
+          code: 'not_correctable',
+          message: 'Only updates submitted through the field or academic forms can be sent back for correction',
+        },
+      };
+    }
+
     // =========================================================================
     // PERFORM UPDATE
     // =========================================================================
 
-    // Use existing functions for publish/reject
+    const audit: AuditContext = { actor: actorEmail, actorRole, requestId };
+    let correctionEmailSent: boolean | undefined;
+    let safeguardingOutcome: UpdateStatusOutput['safeguardingOutcome'];
+
+    // Use existing functions for publish/reject/correction (these record their own audit events)
     if (nextStatus === CHILD_UPDATE_STATUS.PUBLISHED) {
-      await publishUpdate(updateRecordId);
+      const review = await reviewSafeguarding(
+        { updateId: updateRecordId, childId: record.fields.ChildID, sponsorCode: record.fields.SponsorCode },
+        { title: record.fields.Title, content: record.fields.Content, payload: record.fields.Payload || null },
+        safeguarding,
+        audit
+      );
+
+      if (!review.allowed) {
+        return {
+          success: false,
+          error: {
+            code: 'safeguarding_flagged',
+            message: review.message,
+            details: review.flags,
+          },
+        };
+      }
+
+      await publishUpdate(updateRecordId, audit, review.outcome === 'redacted' ? review.content : undefined);
+      safeguardingOutcome = review.outcome;
     } else if (nextStatus === CHILD_UPDATE_STATUS.REJECTED) {
-      await rejectUpdate(updateRecordId);
+      await rejectUpdate(updateRecordId, audit);
+    } else if (nextStatus === CHILD_UPDATE_STATUS.NEEDS_CORRECTION) {
+      correctionEmailSent = await sendBackForCorrection(record, submitterEmail!, correctionNotes!, audit);
     } else {
       // For other status changes, update directly
-      // This would need to be implemented for needs_correction
       const config = getAirtableConfig();
       await airtableClient.updateRecord(
         config.tables.updates,
@@ -246,6 +378,20 @@ export async function updateChildUpdateStatusTool(
           [AIRTABLE_FIELDS.UPDATES.STATUS]: mapToLegacyStatus(nextStatus),
         }
       );
+
+      await recordAuditEvent(
+        {
+          action: AUDIT_ACTIONS.UPDATE_STATUS_CHANGED,
+          targetTable: 'updates',
+          targetId: updateRecordId,
+          childId: record.fields.ChildID,
+          sponsorCode: record.fields.SponsorCode,
+          before: { status: currentStatus },
+          after: { status: nextStatus },
+          metadata: notes ? { notes } : undefined,
+        },
+        audit
+      );
     }
 
     logger.info('updateChildUpdateStatus: Completed', {
@@ -261,6 +407,8 @@ export async function updateChildUpdateStatusTool(
         updateRecordId,
         status: nextStatus,
         previousStatus: currentStatus,
+        correctionEmailSent,
+        safeguardingOutcome,
       },
     };
   } catch (error: unknown) {
@@ -0,0 +1,156 @@
+/**
+ * Accounting Export Tool
+ *
+ * WAT-compliant tool for the bookkeeper's imports.
+ * Builds journal entries for website gifts, offline gifts and refunds from
+ * the donations table and renders them as a journal CSV, QuickBooks IIF or
+ * CSV, or a Xero bank statement CSV.
+ */
+
+import { logger } from '../../logger';
+import { ValidationResult, success, failure, isValidDateString } from '../../validation';
+import { buildDonationJournal, renderAccountingExport } from '../../accounting-export';
+import type { AccountingExportFilter, AccountingExportFormat } from '../../accounting-export';
+import { isDonationFund } from '../../funds';
+import type { DonationFund } from '../../funds';
+import { ACCOUNTING, ACCOUNTING_EXPORT_FORMATS, DONATION_FUNDS } from '../../constants';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Input schema for an accounting export
+ */
+export interface ExportAccountingInput {
+  /** journal, quickbooks_iif, quickbooks_csv or xero */
+  format: AccountingExportFormat;
+  /** First day to include (YYYY-MM-DD) */
+  from: string;
+  /** Last day to include (YYYY-MM-DD) */
+  to: string;
+  /** Only export gifts to this fund */
+  fund?: DonationFund;
+}
+
+/**
+ * Output schema
+ */
+export interface ExportAccountingOutput {
+  success: boolean;
+  data?: {
+    filename: string;
+    contentType: string;
+    content: string;
+    entryCount: number;
+  };
+  error?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isAccountingExportFormat(value: unknown): value is AccountingExportFormat {
+  return typeof value === 'string' && (Object.values(ACCOUNTING_EXPORT_FORMATS) as string[]).includes(value);
+}
+
+/**
+ * Validate tool input
+ */
+function validateInput(
+  input: unknown
+): ValidationResult<AccountingExportFilter & { format: AccountingExportFormat }> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (!isAccountingExportFormat(obj.format)) {
+    return failure(`Invalid input: format must be one of: ${Object.values(ACCOUNTING_EXPORT_FORMATS).join(', ')}`);
+  }
+  if (!isValidDateString(obj.from)) {
+    return failure('Invalid input: from must be a date (YYYY-MM-DD)');
+  }
+  if (!isValidDateString(obj.to)) {
+    return failure('Invalid input: to must be a date (YYYY-MM-DD)');
+  }
+  if (obj.from > obj.to) {
+    return failure('Invalid input: from must not be after to');
+  }
+
+  const days = (Date.parse(`${obj.to}T00:00:00Z`) - Date.parse(`${obj.from}T00:00:00Z`)) / DAY_MS + 1;
+  if (days > ACCOUNTING.MAX_RANGE_DAYS) {
+    return failure(`Invalid input: range must be at most ${ACCOUNTING.MAX_RANGE_DAYS} days`);
+  }
+
+  if (obj.fund !== undefined && !isDonationFund(obj.fund)) {
+    return failure(`Invalid input: fund must be one of: ${Object.values(DONATION_FUNDS).join(', ')}`);
+  }
+
+  return success({
+    format: obj.format,
+    from: obj.from,
+    to: obj.to,
+    fund: obj.fund as DonationFund | undefined,
+  });
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTION
+// ============================================================================
+
+/**
+ * Export donations for the accounting system
+ *
+ * This tool:
+ * 1. Validates input
+ * 2. Builds journal entries for gifts and refunds in the range
+ * 3. Renders them in the requested format
+ *
+ * @param input - Format, date range and optional fund
+ * @returns File name, content type and content
+ */
+export async function exportAccountingTool(input: unknown): Promise<ExportAccountingOutput> {
+  // 1. Validate input
+  const validated = validateInput(input);
+  if (!validated.success) {
+    logger.warn('export-accounting validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { format, ...filter } = validated.data!;
+
+  try {
+    // 2. Build the journal
+    const entries = await buildDonationJournal(filter);
+
+    // 3. Render the file
+    const file = renderAccountingExport(entries, format, filter);
+
+    // 4. Log result
+    logger.info('Accounting export generated', { format, ...filter, entries: file.entryCount });
+
+    // 5. Return structured output
+    return {
+      success: true,
+      data: file,
+    };
+  } catch (error) {
+    // 6. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('export-accounting failed', error, { format, ...filter });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
@@ -0,0 +1,443 @@
+/**
+ * Campaign Tools
+ *
+ * WAT-compliant tools for fundraising campaigns.
+ * Creates and edits campaigns, and reports each campaign's progress toward
+ * its goal for the public landing page and the admin list.
+ */
+
+import { logger } from '../../logger';
+import { ValidationResult, success, failure, isValidDateString } from '../../validation';
+import {
+  createCampaign,
+  updateCampaign,
+  findCampaignBySlug,
+  listCampaigns,
+  getCampaignProgress,
+} from '../../campaigns';
+import type { Campaign, CampaignChanges, CampaignInput, CampaignProgress } from '../../campaigns';
+import type { AuditContext } from '../../audit';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Input schema for a campaign's progress
+ */
+export interface GetCampaignProgressInput {
+  slug: string;
+}
+
+/**
+ * Output schema for a campaign's progress
+ */
+export interface GetCampaignProgressOutput {
+  success: boolean;
+  data?: {
+    campaign: Campaign;
+    progress: CampaignProgress;
+  };
+  error?: string;
+}
+
+/**
+ * Output schema for the campaign list
+ */
+export interface ListCampaignsOutput {
+  success: boolean;
+  data?: {
+    campaigns: Array<Campaign & { progress: CampaignProgress }>;
+  };
+  error?: string;
+}
+
+/**
+ * Input schema for creating a campaign
+ */
+export interface CreateCampaignInput {
+  /** Lowercase words joined by hyphens, e.g. "giving-tuesday-2026" */
+  slug: string;
+  title: string;
+  description?: string | null;
+  /** Goal in major units (e.g. dollars) */
+  goalAmount: number;
+  /** ISO currency code (default 'usd') */
+  currency?: string;
+  /** First day gifts are accepted (YYYY-MM-DD) */
+  startsOn: string;
+  /** Last day gifts are accepted (YYYY-MM-DD, inclusive) */
+  endsOn: string;
+  /** Matching pledge cap in major units */
+  matchAmount?: number | null;
+  /** Who pledged the match */
+  matchSponsor?: string | null;
+}
+
+/**
+ * Input schema for editing a campaign (slug identifies it and cannot change)
+ */
+export type UpdateCampaignInput = { slug: string } & Partial<Omit<CreateCampaignInput, 'slug'>>;
+
+/**
+ * Output schema for creating or editing a campaign
+ */
+export interface SaveCampaignOutput {
+  success: boolean;
+  data?: {
+    campaign: Campaign;
+  };
+  error?: string;
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const MAX_SLUG_LENGTH = 60;
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_SPONSOR_LENGTH = 120;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function validateSlug(value: unknown): ValidationResult<string> {
+  if (typeof value !== 'string' || !SLUG_PATTERN.test(value) || value.length > MAX_SLUG_LENGTH) {
+    return failure(
+      `Invalid input: slug must be lowercase letters, numbers and hyphens (at most ${MAX_SLUG_LENGTH} characters)`
+    );
+  }
+  return success(value);
+}
+
+/**
+ * Validate the editable fields that are present
+ * Required fields are enforced by the caller.
+ */
+function validateCampaignFields(obj: Record<string, unknown>): ValidationResult<CampaignChanges> {
+  const changes: CampaignChanges = {};
+
+  if (obj.title !== undefined) {
+    if (typeof obj.title !== 'string' || !obj.title.trim() || obj.title.trim().length > MAX_TITLE_LENGTH) {
+      return failure(`Invalid input: title must be 1-${MAX_TITLE_LENGTH} characters`);
+    }
+    changes.title = obj.title.trim();
+  }
+
+  if (obj.description !== undefined) {
+    if (obj.description !== null && (typeof obj.description !== 'string' || obj.description.length > MAX_DESCRIPTION_LENGTH)) {
+      return failure(`Invalid input: description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    changes.description = typeof obj.description === 'string' && obj.description.trim() ? obj.description.trim() : null;
+  }
+
+  if (obj.goalAmount !== undefined) {
+    if (typeof obj.goalAmount !== 'number' || !Number.isFinite(obj.goalAmount) || obj.goalAmount <= 0) {
+      return failure('Invalid input: goalAmount must be a positive number');
+    }
+    changes.goalAmount = Math.round(obj.goalAmount * 100) / 100;
+  }
+
+  if (obj.currency !== undefined) {
+    if (typeof obj.currency !== 'string' || !/^[a-zA-Z]{3}$/.test(obj.currency)) {
+      return failure('Invalid input: currency must be a three-letter currency code');
+    }
+    changes.currency = obj.currency.toLowerCase();
+  }
+
+  if (obj.startsOn !== undefined) {
+    if (!isValidDateString(obj.startsOn)) {
+      return failure('Invalid input: startsOn must be a date (YYYY-MM-DD)');
+    }
+    changes.startsOn = obj.startsOn;
+  }
+
+  if (obj.endsOn !== undefined) {
+    if (!isValidDateString(obj.endsOn)) {
+      return failure('Invalid input: endsOn must be a date (YYYY-MM-DD)');
+    }
+    changes.endsOn = obj.endsOn;
+  }
+
+  if (obj.matchAmount !== undefined) {
+    if (obj.matchAmount !== null && (typeof obj.matchAmount !== 'number' || !Number.isFinite(obj.matchAmount) || obj.matchAmount <= 0)) {
+      return failure('Invalid input: matchAmount must be a positive number or null');
+    }
+    changes.matchAmount = obj.matchAmount === null ? null : Math.round(obj.matchAmount * 100) / 100;
+  }
+
+  if (obj.matchSponsor !== undefined) {
+    if (obj.matchSponsor !== null && (typeof obj.matchSponsor !== 'string' || obj.matchSponsor.length > MAX_SPONSOR_LENGTH)) {
+      return failure(`Invalid input: matchSponsor must be at most ${MAX_SPONSOR_LENGTH} characters`);
+    }
+    changes.matchSponsor = typeof obj.matchSponsor === 'string' && obj.matchSponsor.trim() ? obj.matchSponsor.trim() : null;
+  }
+
+  return success(changes);
+}
+
+/**
+ * Validate create input
+ */
+function validateCreateInput(input: unknown): ValidationResult<CampaignInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  const slugResult = validateSlug(obj.slug);
+  if (!slugResult.success) {
+    return failure(slugResult.error!);
+  }
+
+  for (const field of ['title', 'goalAmount', 'startsOn', 'endsOn']) {
+    if (obj[field] === undefined) {
+      return failure(`Invalid input: ${field} is required`);
+    }
+  }
+
+  const fieldsResult = validateCampaignFields(obj);
+  if (!fieldsResult.success) {
+    return failure(fieldsResult.error!);
+  }
+
+  const fields = fieldsResult.data!;
+  if (fields.endsOn! < fields.startsOn!) {
+    return failure('Invalid input: endsOn must not be before startsOn');
+  }
+
+  return success({
+    slug: slugResult.data!,
+    title: fields.title!,
+    description: fields.description ?? null,
+    goalAmount: fields.goalAmount!,
+    currency: fields.currency || 'usd',
+    startsOn: fields.startsOn!,
+    endsOn: fields.endsOn!,
+    matchAmount: fields.matchAmount ?? null,
+    matchSponsor: fields.matchSponsor ?? null,
+  });
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTIONS
+// ============================================================================
+
+/**
+ * Get a campaign and its progress toward the goal
+ *
+ * @param input - Campaign slug
+ * @returns The campaign and its progress
+ */
+export async function getCampaignProgressTool(input: unknown): Promise<GetCampaignProgressOutput> {
+  // 1. Validate input
+  const obj = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const slugResult = validateSlug(obj.slug);
+  if (!slugResult.success) {
+    logger.warn('get-campaign-progress validation failed', { error: slugResult.error });
+    return {
+      success: false,
+      error: slugResult.error,
+    };
+  }
+
+  try {
+    // 2. Find the campaign
+    const campaign = await findCampaignBySlug(slugResult.data!);
+    if (!campaign) {
+      return {
+        success: false,
+        error: 'Campaign not found',
+      };
+    }
+
+    // 3. Total its gifts
+    const progress = await getCampaignProgress(campaign);
+
+    // 4. Return structured output
+    return {
+      success: true,
+      data: { campaign, progress },
+    };
+  } catch (error) {
+    // 5. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('get-campaign-progress failed', error, { slug: slugResult.data });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * List every campaign with its progress
+ *
+ * @returns Campaigns, most recently started first
+ */
+export async function listCampaignsTool(): Promise<ListCampaignsOutput> {
+  try {
+    // 1. Load campaigns
+    const campaigns = await listCampaigns();
+
+    // 2. Total each campaign's gifts
+    const withProgress = [];
+    for (const campaign of campaigns) {
+      withProgress.push({ ...campaign, progress: await getCampaignProgress(campaign) });
+    }
+
+    // 3. Return structured output
+    return {
+      success: true,
+      data: { campaigns: withProgress },
+    };
+  } catch (error) {
+    // 4. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('list-campaigns failed', error);
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Create a campaign
+ *
+ * @param input - Slug, title, goal, dates and optional matching pledge
+ * @param audit - Admin creating the campaign
+ * @returns The new campaign
+ */
+export async function createCampaignTool(input: unknown, audit: AuditContext): Promise<SaveCampaignOutput> {
+  // 1. Validate input
+  const validated = validateCreateInput(input);
+  if (!validated.success) {
+    logger.warn('create-campaign validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { slug } = validated.data!;
+
+  try {
+    // 2. Create the campaign (audited)
+    const campaign = await createCampaign(validated.data!, audit);
+    if (!campaign) {
+      return {
+        success: false,
+        error: `A campaign with slug "${slug}" already exists`,
+      };
+    }
+
+    // 3. Log result
+    logger.info('Campaign created', { slug, goalAmount: campaign.goalAmount, admin: audit.actor });
+
+    // 4. Return structured output
+    return {
+      success: true,
+      data: { campaign },
+    };
+  } catch (error) {
+    // 5. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('create-campaign failed', error, { slug });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Edit a campaign's title, goal, dates or matching pledge
+ *
+ * @param input - Slug plus the fields to change
+ * @param audit - Admin editing the campaign
+ * @returns The updated campaign
+ */
+export async function updateCampaignTool(input: unknown, audit: AuditContext): Promise<SaveCampaignOutput> {
+  // 1. Validate input
+  if (!input || typeof input !== 'object') {
+    return {
+      success: false,
+      error: 'Invalid input: expected an object',
+    };
+  }
+
+  const obj = input as Record<string, unknown>;
+  const slugResult = validateSlug(obj.slug);
+  const fieldsResult = slugResult.success ? validateCampaignFields(obj) : failure<CampaignChanges>(slugResult.error!);
+
+  if (!fieldsResult.success) {
+    logger.warn('update-campaign validation failed', { error: fieldsResult.error });
+    return {
+      success: false,
+      error: fieldsResult.error,
+    };
+  }
+
+  const slug = slugResult.data!;
+  const changes = fieldsResult.data!;
+
+  if (Object.keys(changes).length === 0) {
+    return {
+      success: false,
+      error: 'Invalid input: nothing to update',
+    };
+  }
+
+  try {
+    // 2. Check the dates still make sense together
+    const existing = await findCampaignBySlug(slug);
+    if (!existing) {
+      return {
+        success: false,
+        error: 'Campaign not found',
+      };
+    }
+
+    if ((changes.endsOn ?? existing.endsOn) < (changes.startsOn ?? existing.startsOn)) {
+      return {
+        success: false,
+        error: 'Invalid input: endsOn must not be before startsOn',
+      };
+    }
+
+    // 3. Save the changes (audited)
+    const campaign = await updateCampaign(slug, changes, audit);
+    if (!campaign) {
+      return {
+        success: false,
+        error: 'Campaign not found',
+      };
+    }
+
+    // 4. Log result
+    logger.info('Campaign updated', { slug, fields: Object.keys(changes), admin: audit.actor });
+
+    // 5. Return structured output
+    return {
+      success: true,
+      data: { campaign },
+    };
+  } catch (error) {
+    // 6. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('update-campaign failed', error, { slug });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Donor Analytics Tools
+ *
+ * WAT-compliant tools for the board pack.
+ * Reports first-gift cohorts, year-over-year retention, lapsed donors,
+ * average gift, lifetime value and monthly-donor churn, as JSON or as one
+ * CSV table at a time.
+ */
+
+import { logger } from '../../logger';
+import { ValidationResult, success, failure, isValidDateString } from '../../validation';
+import { buildDonorAnalytics, renderDonorAnalyticsCsv } from '../../donor-analytics';
+import type {
+  DonorAnalyticsFile,
+  DonorAnalyticsOptions,
+  DonorAnalyticsReport,
+  DonorAnalyticsTable,
+} from '../../donor-analytics';
+import { DONOR_ANALYTICS, DONOR_ANALYTICS_TABLES } from '../../constants';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Input schema for a donor analytics report
+ */
+export interface GetDonorAnalyticsInput {
+  /** Report date, YYYY-MM-DD (default today) */
+  asOf?: string;
+  /** Calendar years to report, ending with the as-of year (default 5) */
+  years?: number;
+}
+
+/**
+ * Output schema for a donor analytics report
+ */
+export interface GetDonorAnalyticsOutput {
+  success: boolean;
+  data?: DonorAnalyticsReport;
+  error?: string;
+}
+
+/**
+ * Input schema for a CSV download
+ */
+export interface ExportDonorAnalyticsInput extends GetDonorAnalyticsInput {
+  /** retention, cohorts or lapsed */
+  table: DonorAnalyticsTable;
+}
+
+/**
+ * Output schema for a CSV download
+ */
+export interface ExportDonorAnalyticsOutput {
+  success: boolean;
+  data?: DonorAnalyticsFile;
+  error?: string;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isDonorAnalyticsTable(value: unknown): value is DonorAnalyticsTable {
+  return typeof value === 'string' && (Object.values(DONOR_ANALYTICS_TABLES) as string[]).includes(value);
+}
+
+/**
+ * Validate report options, filling in defaults
+ */
+function validateOptions(obj: Record<string, unknown>): ValidationResult<DonorAnalyticsOptions> {
+  if (obj.asOf !== undefined && !isValidDateString(obj.asOf)) {
+    return failure('Invalid input: asOf must be a date (YYYY-MM-DD)');
+  }
+  if (
+    obj.years !== undefined &&
+    (typeof obj.years !== 'number' ||
+      !Number.isInteger(obj.years) ||
+      obj.years < 1 ||
+      obj.years > DONOR_ANALYTICS.MAX_YEARS)
+  ) {
+    return failure(`Invalid input: years must be a whole number from 1 to ${DONOR_ANALYTICS.MAX_YEARS}`);
+  }
+
+  return success({
+    asOf: (obj.asOf as string | undefined) || new Date().toISOString().slice(0, 10),
+    years: (obj.years as number | undefined) ?? DONOR_ANALYTICS.DEFAULT_YEARS,
+  });
+}
+
+/**
+ * Validate report input
+ */
+function validateInput(input: unknown): ValidationResult<DonorAnalyticsOptions> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  return validateOptions(input as Record<string, unknown>);
+}
+
+/**
+ * Validate CSV download input
+ */
+function validateExportInput(
+  input: unknown
+): ValidationResult<DonorAnalyticsOptions & { table: DonorAnalyticsTable }> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (!isDonorAnalyticsTable(obj.table)) {
+    return failure(`Invalid input: table must be one of: ${Object.values(DONOR_ANALYTICS_TABLES).join(', ')}`);
+  }
+
+  const options = validateOptions(obj);
+  if (!options.success) {
+    return failure(options.error!);
+  }
+
+  return success({ ...options.data!, table: obj.table });
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTIONS
+// ============================================================================
+
+/**
+ * Build a donor analytics report
+ *
+ * This tool:
+ * 1. Validates input
+ * 2. Reads every succeeded gift up to the as-of date, in the base currency
+ * 3. Computes the summary, retention by year, cohorts and lapsed donors
+ *
+ * @param input - Optional as-of date and number of years
+ * @returns The report
+ */
+export async function getDonorAnalyticsTool(input: unknown): Promise<GetDonorAnalyticsOutput> {
+  // 1. Validate input
+  const validated = validateInput(input);
+  if (!validated.success) {
+    logger.warn('get-donor-analytics validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const options = validated.data!;
+
+  try {
+    // 2-3. Build the report
+    const report = await buildDonorAnalytics(options);
+
+    // 4. Log result
+    logger.info('Donor analytics generated', { ...options, donors: report.summary.donorCount });
+
+    // 5. Return structured output
+    return {
+      success: true,
+      data: report,
+    };
+  } catch (error) {
+    // 6. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('get-donor-analytics failed', error, { ...options });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Download one table of the donor analytics report as CSV
+ *
+ * This tool:
+ * 1. Validates input
+ * 2. Builds the report
+ * 3. Renders the requested table (retention, cohorts or lapsed)
+ *
+ * @param input - Table, plus the report options
+ * @returns File name, content type and content
+ */
+export async function exportDonorAnalyticsTool(input: unknown): Promise<ExportDonorAnalyticsOutput> {
+  // 1. Validate input
+  const validated = validateExportInput(input);
+  if (!validated.success) {
+    logger.warn('export-donor-analytics validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { table, ...options } = validated.data!;
+
+  try {
+    // 2. Build the report
+    const report = await buildDonorAnalytics(options);
+
+    // 3. Render the table
+    const file = renderDonorAnalyticsCsv(report, table);
+
+    // 4. Log result
+    logger.info('Donor analytics exported', { ...options, table });
+
+    // 5. Return structured output
+    return {
+      success: true,
+      data: file,
+    };
+  } catch (error) {
+    // 6. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('export-donor-analytics failed', error, { ...options, table });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
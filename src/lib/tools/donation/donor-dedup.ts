@@ -0,0 +1,409 @@
+/**
+ * Donor Deduplication Tools
+ *
+ * WAT-compliant tools for cleaning up duplicate donor records.
+ * Lists likely duplicates with both records side by side, merges a
+ * duplicate into the record to keep, and undoes a merge.
+ */
+
+import { logger } from '../../logger';
+import { ValidationResult, success, failure } from '../../validation';
+import {
+  findDuplicateDonors,
+  findDonorsByIds,
+  findDonorMerge,
+  listDonorMerges,
+  mergeDonors,
+  undoDonorMerge,
+} from '../../donor-merge';
+import type { DonorMerge, DuplicateDonorCandidate } from '../../donor-merge';
+import type { AuditContext } from '../../audit';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Input schema for the duplicate list
+ */
+export interface FindDuplicateDonorsInput {
+  /** Lowest match score to include, 0-1 (default 0.5) */
+  minScore?: number;
+  /** Most pairs to return (default 50, max 200) */
+  limit?: number;
+}
+
+/**
+ * Output schema for the duplicate list
+ */
+export interface FindDuplicateDonorsOutput {
+  success: boolean;
+  data?: {
+    candidates: DuplicateDonorCandidate[];
+  };
+  error?: string;
+}
+
+/**
+ * Input schema for a merge
+ */
+export interface MergeDonorsInput {
+  /** Donor record to keep */
+  survivorId: string;
+  /** Duplicate folded into the survivor */
+  mergedId: string;
+  /** Match score shown when the pair was picked, kept with the merge */
+  score?: number;
+}
+
+/**
+ * Input schema for undoing a merge
+ */
+export interface UndoDonorMergeInput {
+  mergeId: string;
+}
+
+/**
+ * Output schema for a merge or an undo
+ */
+export interface DonorMergeOutput {
+  success: boolean;
+  data?: {
+    merge: DonorMerge;
+  };
+  error?: string;
+}
+
+/**
+ * Output schema for the merge history
+ */
+export interface ListDonorMergesOutput {
+  success: boolean;
+  data?: {
+    merges: DonorMerge[];
+  };
+  error?: string;
+}
+
+const DEFAULT_MIN_SCORE = 0.5;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const MERGE_HISTORY_LIMIT = 50;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate duplicate list input
+ */
+function validateFindInput(input: unknown): ValidationResult<Required<FindDuplicateDonorsInput>> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (obj.minScore !== undefined && (typeof obj.minScore !== 'number' || obj.minScore < 0 || obj.minScore > 1)) {
+    return failure('Invalid input: minScore must be between 0 and 1');
+  }
+  if (
+    obj.limit !== undefined &&
+    (typeof obj.limit !== 'number' || !Number.isInteger(obj.limit) || obj.limit < 1 || obj.limit > MAX_LIMIT)
+  ) {
+    return failure(`Invalid input: limit must be a whole number from 1 to ${MAX_LIMIT}`);
+  }
+
+  return success({
+    minScore: (obj.minScore as number | undefined) ?? DEFAULT_MIN_SCORE,
+    limit: (obj.limit as number | undefined) ?? DEFAULT_LIMIT,
+  });
+}
+
+/**
+ * Validate merge input
+ */
+function validateMergeInput(input: unknown): ValidationResult<MergeDonorsInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (typeof obj.survivorId !== 'string' || !UUID_PATTERN.test(obj.survivorId)) {
+    return failure('Invalid input: survivorId must be a donor ID');
+  }
+  if (typeof obj.mergedId !== 'string' || !UUID_PATTERN.test(obj.mergedId)) {
+    return failure('Invalid input: mergedId must be a donor ID');
+  }
+  if (obj.survivorId === obj.mergedId) {
+    return failure('Invalid input: a donor cannot be merged into itself');
+  }
+  if (obj.score !== undefined && (typeof obj.score !== 'number' || obj.score < 0 || obj.score > 1)) {
+    return failure('Invalid input: score must be between 0 and 1');
+  }
+
+  return success({
+    survivorId: obj.survivorId,
+    mergedId: obj.mergedId,
+    score: obj.score as number | undefined,
+  });
+}
+
+/**
+ * Validate undo input
+ */
+function validateUndoInput(input: unknown): ValidationResult<UndoDonorMergeInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (typeof obj.mergeId !== 'string' || !UUID_PATTERN.test(obj.mergeId)) {
+    return failure('Invalid input: mergeId must be a merge ID');
+  }
+
+  return success({ mergeId: obj.mergeId });
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTIONS
+// ============================================================================
+
+/**
+ * List likely duplicate donors
+ *
+ * This tool:
+ * 1. Compares donors that share an email, email username, phone, surname
+ *    and initial, or street address
+ * 2. Scores each pair on email, phone, fuzzy name and fuzzy address
+ * 3. Returns the best pairs with each donor's giving, older record first
+ *
+ * @param input - Optional minimum score and limit
+ * @returns Candidate pairs, best match first
+ */
+export async function findDuplicateDonorsTool(input: unknown): Promise<FindDuplicateDonorsOutput> {
+  // 1. Validate input
+  const validated = validateFindInput(input);
+  if (!validated.success) {
+    logger.warn('find-duplicate-donors validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { minScore, limit } = validated.data!;
+
+  try {
+    // 2. Find and score candidate pairs
+    const candidates = await findDuplicateDonors(minScore, limit);
+
+    // 3. Log result
+    logger.info('Duplicate donors listed', { minScore, limit, candidates: candidates.length });
+
+    // 4. Return structured output
+    return {
+      success: true,
+      data: { candidates },
+    };
+  } catch (error) {
+    // 5. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('find-duplicate-donors failed', error, { minScore, limit });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Merge a duplicate donor into the record to keep
+ *
+ * This tool:
+ * 1. Validates input
+ * 2. Checks both donors exist and neither has already been merged away
+ * 3. Re-points the duplicate's donations, fills the survivor's empty contact
+ *    fields and marks the duplicate as merged (audited)
+ *
+ * @param input - Survivor and duplicate donor IDs
+ * @param audit - Admin performing the merge
+ * @returns The merge record (its ID is needed to undo)
+ */
+export async function mergeDonorsTool(input: unknown, audit: AuditContext): Promise<DonorMergeOutput> {
+  // 1. Validate input
+  const validated = validateMergeInput(input);
+  if (!validated.success) {
+    logger.warn('merge-donors validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { survivorId, mergedId, score } = validated.data!;
+
+  try {
+    // 2. Check both donors
+    const donors = await findDonorsByIds([survivorId, mergedId]);
+    const survivor = donors.find((donor) => donor.id === survivorId);
+    const duplicate = donors.find((donor) => donor.id === mergedId);
+
+    if (!survivor || !duplicate) {
+      return {
+        success: false,
+        error: 'Donor not found',
+      };
+    }
+    if (survivor.mergedIntoDonorId) {
+      return {
+        success: false,
+        error: 'Invalid input: the donor to keep has itself been merged into another donor',
+      };
+    }
+    if (duplicate.mergedIntoDonorId) {
+      return {
+        success: false,
+        error: 'Invalid input: the duplicate has already been merged',
+      };
+    }
+
+    // 3. Merge (audited)
+    const merge = await mergeDonors(survivor, duplicate, score ?? null, audit);
+
+    // 4. Log result
+    logger.info('Donors merged', {
+      mergeId: merge.id,
+      survivorId,
+      mergedId,
+      movedDonations: merge.movedDonationIds.length,
+      admin: audit.actor,
+    });
+
+    // 5. Return structured output
+    return {
+      success: true,
+      data: { merge },
+    };
+  } catch (error) {
+    // 6. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('merge-donors failed', error, { survivorId, mergedId });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Undo a donor merge
+ *
+ * This tool:
+ * 1. Validates input
+ * 2. Checks the merge exists, is not already undone, and the survivor has
+ *    not since been merged into another donor (undo that merge first)
+ * 3. Moves the donations back and reinstates the duplicate (audited)
+ *
+ * @param input - Merge ID
+ * @param audit - Admin undoing the merge
+ * @returns The updated merge record
+ */
+export async function undoDonorMergeTool(input: unknown, audit: AuditContext): Promise<DonorMergeOutput> {
+  // 1. Validate input
+  const validated = validateUndoInput(input);
+  if (!validated.success) {
+    logger.warn('undo-donor-merge validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { mergeId } = validated.data!;
+
+  try {
+    // 2. Check the merge can be undone
+    const merge = await findDonorMerge(mergeId);
+    if (!merge) {
+      return {
+        success: false,
+        error: 'Merge not found',
+      };
+    }
+    if (merge.undoneAt) {
+      return {
+        success: false,
+        error: 'Invalid input: this merge has already been undone',
+      };
+    }
+
+    const [survivor] = await findDonorsByIds([merge.survivorDonorId]);
+    if (survivor?.mergedIntoDonorId) {
+      return {
+        success: false,
+        error: 'Invalid input: the kept donor was merged again later; undo that merge first',
+      };
+    }
+
+    // 3. Undo (audited)
+    const undone = await undoDonorMerge(merge, audit);
+
+    // 4. Log result
+    logger.info('Donor merge undone', {
+      mergeId,
+      survivorId: merge.survivorDonorId,
+      mergedId: merge.mergedDonorId,
+      admin: audit.actor,
+    });
+
+    // 5. Return structured output
+    return {
+      success: true,
+      data: { merge: undone },
+    };
+  } catch (error) {
+    // 6. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('undo-donor-merge failed', error, { mergeId });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * List recent merges, newest first, so one can be undone
+ *
+ * @returns Up to 50 merges, including undone ones
+ */
+export async function listDonorMergesTool(): Promise<ListDonorMergesOutput> {
+  try {
+    const merges = await listDonorMerges(MERGE_HISTORY_LIMIT);
+
+    return {
+      success: true,
+      data: { merges },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('list-donor-merges failed', error);
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
@@ -0,0 +1,567 @@
+/**
+ * Donor Portal Tools
+ *
+ * WAT-compliant tools behind the donor self-service portal. Each tool acts on
+ * the donor account for a verified email (see src/lib/donor-portal.ts): giving
+ * history, PDF receipts and statements, mailing address, and a Stripe billing
+ * portal session for changing or canceling a recurring gift.
+ */
+
+import { logger } from '../../logger';
+import { ValidationResult, success, failure } from '../../validation';
+import { findDonorAccount, findDonorGifts, updateDonorMailingAddress } from '../../donor-portal';
+import type { DonorAccount, DonorGift } from '../../donor-portal';
+import { buildStatement, renderDonationReceiptPdf, renderYearEndStatementPdf } from '../../tax-receipts';
+import type { StatementGift } from '../../tax-receipts';
+import { getStripe } from '../../stripe-webhook';
+import { PAYMENT_STATUS, VALIDATION } from '../../constants';
+import type { AuditContext } from '../../audit';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Input schema for loading a donor's giving
+ */
+export interface GetDonorGivingInput {
+  /** Verified donor email (from the donor session) */
+  email: string;
+}
+
+/**
+ * Output schema for a donor's giving
+ */
+export interface GetDonorGivingOutput {
+  success: boolean;
+  data?: {
+    donor: {
+      email: string;
+      name: string | null;
+      mailingAddress: string | null;
+      recurringStatus: string | null;
+      /** Whether a Stripe customer exists to open the billing portal for */
+      canManageRecurring: boolean;
+      /** Whether there is a donor record to store a mailing address on */
+      canUpdateAddress: boolean;
+    };
+    gifts: DonorGift[];
+    /** Years with at least one completed gift, newest first */
+    statementYears: number[];
+  };
+  error?: string;
+}
+
+/**
+ * Input schema for downloading a receipt or statement (exactly one of
+ * donationId or taxYear)
+ */
+export interface GetDonorReceiptInput {
+  email: string;
+  /** Receipt for a single gift */
+  donationId?: string;
+  /** Statement for every completed gift in a year */
+  taxYear?: number;
+}
+
+/**
+ * Output schema for a receipt or statement
+ */
+export interface GetDonorReceiptOutput {
+  success: boolean;
+  data?: {
+    filename: string;
+    pdf: Buffer;
+  };
+  error?: string;
+}
+
+/**
+ * Input schema for updating the mailing address
+ */
+export interface UpdateDonorAddressInput {
+  email: string;
+  mailingAddress: string;
+}
+
+/**
+ * Output schema for updating the mailing address
+ */
+export interface UpdateDonorAddressOutput {
+  success: boolean;
+  data?: {
+    mailingAddress: string;
+    donorRecordsUpdated: number;
+  };
+  error?: string;
+}
+
+/**
+ * Input schema for opening the Stripe billing portal
+ */
+export interface CreateDonorBillingPortalInput {
+  email: string;
+  /** Where Stripe sends the donor back to */
+  returnUrl: string;
+}
+
+/**
+ * Output schema for opening the Stripe billing portal
+ */
+export interface CreateDonorBillingPortalOutput {
+  success: boolean;
+  data?: {
+    url: string;
+  };
+  error?: string;
+}
+
+const MAX_ADDRESS_LENGTH = 500;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function validateEmailField(obj: Record<string, unknown>): string | null {
+  if (typeof obj.email !== 'string' || !VALIDATION.EMAIL_REGEX.test(obj.email.trim())) {
+    return null;
+  }
+  return obj.email.trim().toLowerCase();
+}
+
+/**
+ * Validate input carrying only the donor email
+ */
+function validateGivingInput(input: unknown): ValidationResult<GetDonorGivingInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const email = validateEmailField(input as Record<string, unknown>);
+  if (!email) {
+    return failure('Invalid input: email must be a valid email address');
+  }
+
+  return success({ email });
+}
+
+/**
+ * Validate receipt input
+ */
+function validateReceiptInput(input: unknown): ValidationResult<GetDonorReceiptInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+  const email = validateEmailField(obj);
+  if (!email) {
+    return failure('Invalid input: email must be a valid email address');
+  }
+
+  const hasDonation = obj.donationId !== undefined;
+  const hasYear = obj.taxYear !== undefined;
+
+  if (hasDonation === hasYear) {
+    return failure('Invalid input: provide either donationId or taxYear');
+  }
+  if (hasDonation && (typeof obj.donationId !== 'string' || !obj.donationId.trim())) {
+    return failure('Invalid input: donationId must be a non-empty string');
+  }
+  if (hasYear && (typeof obj.taxYear !== 'number' || !Number.isInteger(obj.taxYear) || obj.taxYear < 2000)) {
+    return failure('Invalid input: taxYear must be a four-digit year');
+  }
+
+  return success({
+    email,
+    donationId: hasDonation ? (obj.donationId as string).trim() : undefined,
+    taxYear: hasYear ? (obj.taxYear as number) : undefined,
+  });
+}
+
+/**
+ * Validate mailing address input
+ */
+function validateAddressInput(input: unknown): ValidationResult<UpdateDonorAddressInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+  const email = validateEmailField(obj);
+  if (!email) {
+    return failure('Invalid input: email must be a valid email address');
+  }
+
+  if (typeof obj.mailingAddress !== 'string' || !obj.mailingAddress.trim()) {
+    return failure('Invalid input: mailingAddress is required');
+  }
+
+  // Keep line breaks (statements print the address line by line) but drop
+  // other control characters and blank lines
+  const mailingAddress = obj.mailingAddress
+    .replace(/[^\S\n]+/g, ' ')
+    .split('\n')
+    .map((line) => line.replace(/[\x00-\x1F\x7F]/g, '').trim())
+    .filter(Boolean)
+    .join('\n');
+
+  if (!mailingAddress || mailingAddress.length > MAX_ADDRESS_LENGTH) {
+    return failure(`Invalid input: mailingAddress must be 1-${MAX_ADDRESS_LENGTH} characters`);
+  }
+
+  return success({ email, mailingAddress });
+}
+
+/**
+ * Validate billing portal input
+ */
+function validateBillingPortalInput(input: unknown): ValidationResult<CreateDonorBillingPortalInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+  const email = validateEmailField(obj);
+  if (!email) {
+    return failure('Invalid input: email must be a valid email address');
+  }
+
+  if (typeof obj.returnUrl !== 'string' || !/^https?:\/\//.test(obj.returnUrl)) {
+    return failure('Invalid input: returnUrl must be an absolute URL');
+  }
+
+  return success({ email, returnUrl: obj.returnUrl });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isCompleted(gift: DonorGift): boolean {
+  return gift.status === PAYMENT_STATUS.SUCCEEDED;
+}
+
+function toStatementGift(gift: DonorGift): StatementGift {
+  return {
+    date: gift.date,
+    amount: gift.amount,
+    coveredFee: gift.coveredFee,
+    currency: gift.currency,
+    recurring: gift.recurring,
+    reference: gift.reference,
+  };
+}
+
+function toStatementDonor(account: DonorAccount) {
+  return {
+    donorId: account.donorIds[0] || null,
+    donorName: account.name || 'Friend of Be A Number',
+    email: account.email,
+    mailingAddress: account.mailingAddress,
+  };
+}
+
+/**
+ * Load the account for a verified email, failing if it has no giving on record
+ */
+async function requireDonorAccount(email: string): Promise<DonorAccount> {
+  const account = await findDonorAccount(email);
+  if (!account) {
+    throw new Error('No gifts are recorded under this email');
+  }
+  return account;
+}
+
+// Subscription statuses a donor can still change or cancel
+const MANAGEABLE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due', 'unpaid'];
+
+/**
+ * The Stripe customer that owns the donor's recurring gift
+ * Each subscription checkout may create its own customer, so the newest
+ * customer with a live subscription is used, falling back to the newest
+ * customer for a donor with none.
+ */
+async function findRecurringGiftCustomer(customerIds: string[]): Promise<string | null> {
+  const stripe = await getStripe();
+
+  for (const customerId of customerIds) {
+    const subscriptions = await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 10 });
+    if (subscriptions.data.some((subscription) => MANAGEABLE_SUBSCRIPTION_STATUSES.includes(subscription.status))) {
+      return customerId;
+    }
+  }
+
+  return customerIds[0] || null;
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTIONS
+// ============================================================================
+
+/**
+ * Load a donor's profile and full giving history
+ *
+ * @param input - Verified donor email
+ * @returns Donor details, every gift (newest first) and the years a
+ *          statement is available for
+ */
+export async function getDonorGivingTool(input: unknown): Promise<GetDonorGivingOutput> {
+  // 1. Validate input
+  const validated = validateGivingInput(input);
+  if (!validated.success) {
+    logger.warn('get-donor-giving validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { email } = validated.data!;
+
+  try {
+    // 2. Load the account and gifts
+    const account = await requireDonorAccount(email);
+    const gifts = await findDonorGifts(account);
+
+    const statementYears = [
+      ...new Set(gifts.filter(isCompleted).map((gift) => Number(gift.date.slice(0, 4)))),
+    ].sort((a, b) => b - a);
+
+    // 3. Return structured output
+    return {
+      success: true,
+      data: {
+        donor: {
+          email: account.email,
+          name: account.name,
+          mailingAddress: account.mailingAddress,
+          recurringStatus: account.recurringStatus,
+          canManageRecurring: account.stripeCustomerIds.length > 0,
+          canUpdateAddress: account.donorIds.length > 0,
+        },
+        gifts,
+        statementYears,
+      },
+    };
+  } catch (error) {
+    // 4. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('get-donor-giving failed', error, { email: logger.maskEmail(email) });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Render a receipt for one gift, or a statement for a year, as a PDF
+ *
+ * Only completed gifts are receipted: refunded, disputed, failed and pending
+ * gifts are left off.
+ *
+ * @param input - Verified donor email and either donationId or taxYear
+ * @returns The PDF and a download filename
+ */
+export async function getDonorReceiptTool(input: unknown): Promise<GetDonorReceiptOutput> {
+  // 1. Validate input
+  const validated = validateReceiptInput(input);
+  if (!validated.success) {
+    logger.warn('get-donor-receipt validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { email, donationId, taxYear } = validated.data!;
+
+  try {
+    // 2. Load the donor's completed gifts
+    const account = await requireDonorAccount(email);
+    const gifts = (await findDonorGifts(account)).filter(isCompleted);
+
+    // 3. Render the receipt or statement
+    if (donationId) {
+      const gift = gifts.find((candidate) => candidate.id === donationId);
+      if (!gift) {
+        return {
+          success: false,
+          error: 'No completed gift found for this receipt',
+        };
+      }
+
+      const statement = buildStatement(
+        Number(gift.date.slice(0, 4)),
+        toStatementDonor(account),
+        [toStatementGift(gift)]
+      );
+
+      return {
+        success: true,
+        data: {
+          filename: `BeANumber-Receipt-${gift.date}.pdf`,
+          pdf: await renderDonationReceiptPdf(statement),
+        },
+      };
+    }
+
+    const yearGifts = gifts
+      .filter((gift) => gift.date.startsWith(`${taxYear}-`))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    if (yearGifts.length === 0) {
+      return {
+        success: false,
+        error: `No completed gifts in ${taxYear}`,
+      };
+    }
+
+    const statement = buildStatement(taxYear!, toStatementDonor(account), yearGifts.map(toStatementGift));
+
+    // 4. Return structured output
+    return {
+      success: true,
+      data: {
+        filename: `BeANumber-Giving-Statement-${taxYear}.pdf`,
+        pdf: await renderYearEndStatementPdf(statement),
+      },
+    };
+  } catch (error) {
+    // 5. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('get-donor-receipt failed', error, {
+      email: logger.maskEmail(email),
+      donationId,
+      taxYear,
+    });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Update the mailing address printed on the donor's receipts and statements
+ *
+ * @param input - Verified donor email and new address
+ * @param audit - Who is making the change (recorded in the audit log)
+ * @returns The saved address
+ */
+export async function updateDonorAddressTool(
+  input: unknown,
+  audit?: AuditContext
+): Promise<UpdateDonorAddressOutput> {
+  // 1. Validate input
+  const validated = validateAddressInput(input);
+  if (!validated.success) {
+    logger.warn('update-donor-address validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { email, mailingAddress } = validated.data!;
+
+  try {
+    // 2. Update every donor record for the email
+    const account = await requireDonorAccount(email);
+    if (account.donorIds.length === 0) {
+      return {
+        success: false,
+        error: 'There is no donor record to save an address to yet. Please contact us.',
+      };
+    }
+
+    const donorRecordsUpdated = await updateDonorMailingAddress(account, mailingAddress, audit);
+
+    // 3. Log result
+    logger.info('Donor mailing address updated', {
+      email: logger.maskEmail(email),
+      donorRecordsUpdated,
+    });
+
+    // 4. Return structured output
+    return {
+      success: true,
+      data: { mailingAddress, donorRecordsUpdated },
+    };
+  } catch (error) {
+    // 5. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('update-donor-address failed', error, { email: logger.maskEmail(email) });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Open a Stripe billing portal session where the donor can change the amount
+ * or card of a recurring gift, or cancel it
+ *
+ * Opens for the Stripe customer that owns the donor's recurring gift.
+ *
+ * @param input - Verified donor email and return URL
+ * @returns The portal session URL (valid for a few minutes)
+ */
+export async function createDonorBillingPortalTool(input: unknown): Promise<CreateDonorBillingPortalOutput> {
+  // 1. Validate input
+  const validated = validateBillingPortalInput(input);
+  if (!validated.success) {
+    logger.warn('create-donor-billing-portal validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { email, returnUrl } = validated.data!;
+
+  try {
+    // 2. Find the donor's Stripe customer
+    const account = await requireDonorAccount(email);
+    const customerId = await findRecurringGiftCustomer(account.stripeCustomerIds);
+    if (!customerId) {
+      return {
+        success: false,
+        error: 'No recurring gift is set up for this email',
+      };
+    }
+
+    // 3. Create the portal session
+    const stripe = await getStripe();
+    const session = await stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: returnUrl,
+    });
+
+    logger.info('Donor billing portal session created', { email: logger.maskEmail(email), customerId });
+
+    // 4. Return structured output
+    return {
+      success: true,
+      data: { url: session.url },
+    };
+  } catch (error) {
+    // 5. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('create-donor-billing-portal failed', error, { email: logger.maskEmail(email) });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
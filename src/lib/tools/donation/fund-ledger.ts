@@ -0,0 +1,259 @@
+/**
+ * Fund Ledger Tools
+ *
+ * WAT-compliant tools for restricted-gift accounting.
+ * Reports what each designated fund has received vs. allocated, and records
+ * allocations made by finance.
+ */
+
+import { logger } from '../../logger';
+import { ValidationResult, success, failure, isValidDateString } from '../../validation';
+import { buildFundLedger, createFundAllocation, listFundAllocations, isDonationFund } from '../../funds';
+import type { DonationFund, FundAllocation, FundLedgerLine, FundLedgerRange } from '../../funds';
+import { DONATION_FUNDS } from '../../constants';
+import type { AuditContext } from '../../audit';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Input schema for the fund ledger report
+ */
+export interface GetFundLedgerInput {
+  /** First day to include (YYYY-MM-DD); omit for all time */
+  from?: string;
+  /** Last day to include (YYYY-MM-DD) */
+  to?: string;
+  /** Also list the allocations in the range */
+  includeAllocations?: boolean;
+}
+
+/**
+ * Output schema for the fund ledger report
+ */
+export interface GetFundLedgerOutput {
+  success: boolean;
+  data?: {
+    from: string | null;
+    to: string | null;
+    funds: FundLedgerLine[];
+    allocations?: FundAllocation[];
+  };
+  error?: string;
+}
+
+/**
+ * Input schema for recording an allocation
+ */
+export interface RecordFundAllocationInput {
+  fund: DonationFund;
+  /** Amount in major units (e.g. dollars); negative to reverse an allocation */
+  amount: number;
+  /** ISO currency code (default 'usd') */
+  currency?: string;
+  /** Date the money was spent or committed (YYYY-MM-DD, default today) */
+  allocatedOn?: string;
+  /** What the money went to, e.g. "March medical camp supplies" */
+  description: string;
+}
+
+/**
+ * Output schema for recording an allocation
+ */
+export interface RecordFundAllocationOutput {
+  success: boolean;
+  data?: {
+    allocation: FundAllocation;
+  };
+  error?: string;
+}
+
+const MAX_DESCRIPTION_LENGTH = 500;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate ledger input
+ */
+function validateLedgerInput(input: unknown): ValidationResult<FundLedgerRange & { includeAllocations: boolean }> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (obj.from !== undefined && !isValidDateString(obj.from)) {
+    return failure('Invalid input: from must be a date (YYYY-MM-DD)');
+  }
+  if (obj.to !== undefined && !isValidDateString(obj.to)) {
+    return failure('Invalid input: to must be a date (YYYY-MM-DD)');
+  }
+  if (obj.from && obj.to && (obj.from as string) > (obj.to as string)) {
+    return failure('Invalid input: from must not be after to');
+  }
+  if (obj.includeAllocations !== undefined && typeof obj.includeAllocations !== 'boolean') {
+    return failure('Invalid input: includeAllocations must be a boolean');
+  }
+
+  return success({
+    from: obj.from as string | undefined,
+    to: obj.to as string | undefined,
+    includeAllocations: obj.includeAllocations === true,
+  });
+}
+
+/**
+ * Validate allocation input
+ */
+function validateAllocationInput(input: unknown): ValidationResult<Required<RecordFundAllocationInput>> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (!isDonationFund(obj.fund)) {
+    return failure(`Invalid input: fund must be one of: ${Object.values(DONATION_FUNDS).join(', ')}`);
+  }
+  if (typeof obj.amount !== 'number' || !Number.isFinite(obj.amount) || Math.round(obj.amount * 100) === 0) {
+    return failure('Invalid input: amount must be a non-zero number');
+  }
+  if (obj.currency !== undefined && (typeof obj.currency !== 'string' || !/^[a-zA-Z]{3}$/.test(obj.currency))) {
+    return failure('Invalid input: currency must be a three-letter currency code');
+  }
+  if (obj.allocatedOn !== undefined && !isValidDateString(obj.allocatedOn)) {
+    return failure('Invalid input: allocatedOn must be a date (YYYY-MM-DD)');
+  }
+  if (typeof obj.description !== 'string' || !obj.description.trim()) {
+    return failure('Invalid input: description is required');
+  }
+  if (obj.description.trim().length > MAX_DESCRIPTION_LENGTH) {
+    return failure(`Invalid input: description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+
+  return success({
+    fund: obj.fund,
+    amount: Math.round(obj.amount * 100) / 100,
+    currency: ((obj.currency as string | undefined) || 'usd').toLowerCase(),
+    allocatedOn: (obj.allocatedOn as string | undefined) || new Date().toISOString().slice(0, 10),
+    description: obj.description.trim(),
+  });
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTIONS
+// ============================================================================
+
+/**
+ * Report received vs. allocated per fund
+ *
+ * This tool:
+ * 1. Totals succeeded donations per fund and currency in the range
+ * 2. Totals allocations per fund and currency in the range
+ * 3. Returns one ledger line per fund and currency with the balance
+ *
+ * @param input - Optional date range
+ * @returns Ledger lines, plus the allocations when requested
+ */
+export async function getFundLedgerTool(input: unknown): Promise<GetFundLedgerOutput> {
+  // 1. Validate input
+  const validated = validateLedgerInput(input);
+  if (!validated.success) {
+    logger.warn('get-fund-ledger validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { from, to, includeAllocations } = validated.data!;
+
+  try {
+    // 2. Build the ledger
+    const funds = await buildFundLedger({ from, to });
+
+    // 3. Load the allocations behind it when asked
+    const allocations = includeAllocations ? await listFundAllocations({ from, to }) : undefined;
+
+    // 4. Log result
+    logger.info('Fund ledger generated', { from, to, lines: funds.length });
+
+    // 5. Return structured output
+    return {
+      success: true,
+      data: {
+        from: from || null,
+        to: to || null,
+        funds,
+        ...(allocations ? { allocations } : {}),
+      },
+    };
+  } catch (error) {
+    // 6. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('get-fund-ledger failed', error, { from, to });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Record money spent or committed from a fund
+ *
+ * Allocations are permanent; reverse a mistake with a negative amount.
+ *
+ * @param input - Fund, amount, date and description
+ * @param audit - Admin recording the allocation
+ * @returns The recorded allocation
+ */
+export async function recordFundAllocationTool(
+  input: unknown,
+  audit: AuditContext
+): Promise<RecordFundAllocationOutput> {
+  // 1. Validate input
+  const validated = validateAllocationInput(input);
+  if (!validated.success) {
+    logger.warn('record-fund-allocation validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  try {
+    // 2. Record the allocation (audited)
+    const allocation = await createFundAllocation(validated.data!, audit);
+
+    // 3. Log result
+    logger.info('Fund allocation recorded', {
+      allocationId: allocation.id,
+      fund: allocation.fund,
+      amount: allocation.amount,
+      currency: allocation.currency,
+      admin: audit.actor,
+    });
+
+    // 4. Return structured output
+    return {
+      success: true,
+      data: { allocation },
+    };
+  } catch (error) {
+    // 5. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('record-fund-allocation failed', error, { fund: validated.data!.fund });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
@@ -17,3 +17,94 @@ export {
   type SubscriptionMismatch,
   type MismatchType,
 } from './reconcile-subscriptions';
+
+export {
+  startPaymentDunningTool,
+  runPaymentDunningTool,
+  stopPaymentDunningTool,
+  type StartPaymentDunningInput,
+  type StartPaymentDunningOutput,
+  type RunPaymentDunningInput,
+  type RunPaymentDunningOutput,
+  type StopPaymentDunningInput,
+  type StopPaymentDunningOutput,
+  type DunningCaseResult,
+} from './payment-dunning';
+
+export {
+  sendYearEndStatementsTool,
+  type SendYearEndStatementsInput,
+  type SendYearEndStatementsOutput,
+  type YearEndStatementResult,
+} from './send-year-end-statements';
+
+export {
+  getDonorGivingTool,
+  getDonorReceiptTool,
+  updateDonorAddressTool,
+  createDonorBillingPortalTool,
+  type GetDonorGivingInput,
+  type GetDonorGivingOutput,
+  type GetDonorReceiptInput,
+  type GetDonorReceiptOutput,
+  type UpdateDonorAddressInput,
+  type UpdateDonorAddressOutput,
+  type CreateDonorBillingPortalInput,
+  type CreateDonorBillingPortalOutput,
+} from './donor-portal';
+
+export {
+  getFundLedgerTool,
+  recordFundAllocationTool,
+  type GetFundLedgerInput,
+  type GetFundLedgerOutput,
+  type RecordFundAllocationInput,
+  type RecordFundAllocationOutput,
+} from './fund-ledger';
+
+export {
+  getCampaignProgressTool,
+  listCampaignsTool,
+  createCampaignTool,
+  updateCampaignTool,
+  type GetCampaignProgressInput,
+  type GetCampaignProgressOutput,
+  type ListCampaignsOutput,
+  type CreateCampaignInput,
+  type UpdateCampaignInput,
+  type SaveCampaignOutput,
+} from './campaigns';
+
+export {
+  recordOfflineGiftTool,
+  type RecordOfflineGiftInput,
+  type RecordOfflineGiftOutput,
+} from './record-offline-gift';
+
+export {
+  exportAccountingTool,
+  type ExportAccountingInput,
+  type ExportAccountingOutput,
+} from './accounting-export';
+
+export {
+  findDuplicateDonorsTool,
+  mergeDonorsTool,
+  undoDonorMergeTool,
+  listDonorMergesTool,
+  type FindDuplicateDonorsInput,
+  type FindDuplicateDonorsOutput,
+  type MergeDonorsInput,
+  type UndoDonorMergeInput,
+  type DonorMergeOutput,
+  type ListDonorMergesOutput,
+} from './donor-dedup';
+
+export {
+  getDonorAnalyticsTool,
+  exportDonorAnalyticsTool,
+  type GetDonorAnalyticsInput,
+  type GetDonorAnalyticsOutput,
+  type ExportDonorAnalyticsInput,
+  type ExportDonorAnalyticsOutput,
+} from './donor-analytics';
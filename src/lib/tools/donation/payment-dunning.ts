@@ -0,0 +1,507 @@
+/**
+ * Payment Dunning Tools
+ *
+ * WAT-compliant tools for chasing failed monthly sponsorship payments.
+ * Emails the sponsor on a schedule (DUNNING_SCHEDULE_DAYS, default day 0, 3
+ * and 7) with a link to update their card in the Stripe billing portal,
+ * stops when a payment succeeds, and escalates to the admin after the final
+ * email.
+ */
+
+import { logger } from '../../logger';
+import { ValidationResult, success, failure } from '../../validation';
+import { sendPaymentFailedEmail } from '../../email';
+import { getDunningScheduleDays } from '../../env';
+import { createBillingPortalToken } from '../../auth';
+import { findSponsorshipsBySubscriptionId } from '../../database';
+import {
+  openDunningCase,
+  claimDunningEmail,
+  releaseDunningEmail,
+  closeDunningCases,
+  markDunningCaseEscalated,
+  findDueDunningCases,
+  getDaysSinceDunningStarted,
+} from '../../dunning';
+import type { DunningCase } from '../../dunning';
+import { DUNNING, DUNNING_STATUS, ROUTES } from '../../constants';
+import { fromMinorUnits } from '../../currency';
+import { sendEscalationNoticeTool } from '../email';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Input schema for starting dunning on a failed invoice
+ */
+export interface StartPaymentDunningInput {
+  /** Stripe invoice ID */
+  invoiceId: string;
+  /** Stripe subscription ID */
+  subscriptionId: string;
+  /** Stripe customer ID */
+  customerId: string;
+  /** Customer email */
+  email: string;
+  /** Customer name */
+  name: string;
+  /** Amount due in the currency's smallest unit (cents; whole shillings for UGX) */
+  amountCents: number;
+  /** Currency (e.g., 'usd') */
+  currency: string;
+}
+
+/**
+ * Input schema for a scheduled dunning run
+ */
+export interface RunPaymentDunningInput {
+  /** Maximum cases to process (default DUNNING.BATCH_SIZE) */
+  limit?: number;
+}
+
+/**
+ * Input schema for stopping dunning on a subscription
+ */
+export interface StopPaymentDunningInput {
+  /** Stripe subscription ID */
+  subscriptionId: string;
+  /** Why dunning stops: a payment succeeded, or the subscription was canceled */
+  reason: 'recovered' | 'canceled';
+}
+
+/**
+ * What happened to one dunning case during a run
+ */
+export interface DunningCaseResult {
+  dunningCaseId: string;
+  invoiceId: string;
+  emailsSent: number;
+  totalEmails: number;
+  emailSent: boolean;
+  escalated: boolean;
+  error?: string;
+}
+
+/**
+ * Output schemas
+ */
+export interface StartPaymentDunningOutput {
+  success: boolean;
+  data?: DunningCaseResult & {
+    /** False when the invoice already had a dunning case (a Stripe retry failed) */
+    created: boolean;
+  };
+  error?: string;
+}
+
+export interface RunPaymentDunningOutput {
+  success: boolean;
+  data?: {
+    processed: number;
+    emailsSent: number;
+    escalated: number;
+    failed: number;
+    results: DunningCaseResult[];
+  };
+  error?: string;
+}
+
+export interface StopPaymentDunningOutput {
+  success: boolean;
+  data?: {
+    subscriptionId: string;
+    closed: number;
+  };
+  error?: string;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate start input
+ */
+function validateStartInput(input: unknown): ValidationResult<StartPaymentDunningInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (typeof obj.invoiceId !== 'string' || !obj.invoiceId) {
+    return failure('Invalid input: invoiceId is required');
+  }
+  if (typeof obj.subscriptionId !== 'string' || !obj.subscriptionId) {
+    return failure('Invalid input: subscriptionId is required');
+  }
+  if (typeof obj.customerId !== 'string' || !obj.customerId) {
+    return failure('Invalid input: customerId is required');
+  }
+  if (typeof obj.email !== 'string' || !obj.email) {
+    return failure('Invalid input: email is required');
+  }
+  if (typeof obj.name !== 'string') {
+    return failure('Invalid input: name is required');
+  }
+  if (typeof obj.amountCents !== 'number' || obj.amountCents < 0) {
+    return failure('Invalid input: amountCents must be a positive number');
+  }
+  if (typeof obj.currency !== 'string' || !obj.currency) {
+    return failure('Invalid input: currency is required');
+  }
+
+  return success({
+    invoiceId: obj.invoiceId,
+    subscriptionId: obj.subscriptionId,
+    customerId: obj.customerId,
+    email: obj.email,
+    name: obj.name || 'Supporter',
+    amountCents: obj.amountCents,
+    currency: obj.currency,
+  });
+}
+
+/**
+ * Validate stop input
+ */
+function validateStopInput(input: unknown): ValidationResult<StopPaymentDunningInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (typeof obj.subscriptionId !== 'string' || !obj.subscriptionId) {
+    return failure('Invalid input: subscriptionId is required');
+  }
+  if (obj.reason !== 'recovered' && obj.reason !== 'canceled') {
+    return failure('Invalid input: reason must be "recovered" or "canceled"');
+  }
+
+  return success({
+    subscriptionId: obj.subscriptionId,
+    reason: obj.reason,
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Emailed link that opens a fresh Stripe billing portal session for the case
+ */
+function getBillingPortalUrl(dunningCase: DunningCase): string {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org';
+  const token = createBillingPortalToken(dunningCase.id);
+
+  return `${siteUrl}${ROUTES.API.BILLING_PORTAL}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Alert the admin that the final email went out and payment is still failing
+ */
+async function escalateDunningCase(dunningCase: DunningCase, now: Date): Promise<string | null> {
+  const sponsorships = await findSponsorshipsBySubscriptionId(dunningCase.subscriptionId);
+
+  const result = await sendEscalationNoticeTool({
+    kind: 'failed_payment',
+    invoiceId: dunningCase.invoiceId,
+    subscriptionId: dunningCase.subscriptionId,
+    customerId: dunningCase.customerId,
+    sponsorEmail: dunningCase.email,
+    sponsorName: dunningCase.name || undefined,
+    amountCents: dunningCase.amountCents,
+    currency: dunningCase.currency,
+    emailsSent: dunningCase.emailsSent,
+    daysOverdue: getDaysSinceDunningStarted(dunningCase, now),
+    sponsorCodes: sponsorships.map((sponsorship) => sponsorship.fields.SponsorCode),
+  });
+
+  if (!result.success) {
+    return result.error.message;
+  }
+
+  await markDunningCaseEscalated(dunningCase.id);
+  return null;
+}
+
+/**
+ * Send the case's next email, and escalate once the final email has gone out
+ *
+ * An email that fails to send is released so the next run retries it; an
+ * escalation that fails leaves the case due so the next run retries it.
+ */
+async function advanceDunningCase(dunningCase: DunningCase, now: Date): Promise<DunningCaseResult> {
+  const totalEmails = dunningCase.scheduleDays.length;
+  const result: DunningCaseResult = {
+    dunningCaseId: dunningCase.id,
+    invoiceId: dunningCase.invoiceId,
+    emailsSent: dunningCase.emailsSent,
+    totalEmails,
+    emailSent: false,
+    escalated: false,
+  };
+
+  let current = dunningCase;
+
+  if (current.emailsSent < totalEmails) {
+    const claimed = await claimDunningEmail(current, now);
+    if (!claimed) {
+      // Another run sent this email (or the case closed) in the meantime
+      return result;
+    }
+
+    let errorMessage: string | undefined;
+    try {
+      const emailResult = await sendPaymentFailedEmail({
+        donorEmail: claimed.email,
+        donorName: claimed.name || 'Supporter',
+        amount: fromMinorUnits(claimed.amountCents, claimed.currency),
+        currency: claimed.currency,
+        billingPortalUrl: getBillingPortalUrl(claimed),
+        attempt: claimed.emailsSent,
+        totalAttempts: totalEmails,
+      });
+
+      if (!emailResult.success) {
+        errorMessage = emailResult.error || 'Failed to send payment-failed email';
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    if (errorMessage) {
+      logger.warn('Payment-failed email not sent, will retry', {
+        dunningCaseId: claimed.id,
+        attempt: claimed.emailsSent,
+        error: errorMessage,
+      });
+      await releaseDunningEmail(claimed, current);
+      return { ...result, error: errorMessage };
+    }
+
+    logger.info('Payment-failed email sent', {
+      dunningCaseId: claimed.id,
+      invoiceId: claimed.invoiceId,
+      attempt: claimed.emailsSent,
+      totalEmails,
+      email: logger.maskEmail(claimed.email),
+    });
+
+    current = claimed;
+    result.emailsSent = claimed.emailsSent;
+    result.emailSent = true;
+
+    if (current.emailsSent < totalEmails) {
+      return result;
+    }
+  }
+
+  const escalationError = await escalateDunningCase(current, now);
+  if (escalationError) {
+    logger.warn('Dunning escalation not sent, will retry', {
+      dunningCaseId: current.id,
+      error: escalationError,
+    });
+    return { ...result, error: escalationError };
+  }
+
+  logger.info('Dunning case escalated', { dunningCaseId: current.id, invoiceId: current.invoiceId });
+  return { ...result, escalated: true };
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTIONS
+// ============================================================================
+
+/**
+ * Start dunning for a failed subscription invoice
+ *
+ * Called from invoice.payment_failed. Opens a case using the current
+ * schedule and sends the first email straight away when it is due on day 0.
+ * A repeat failure of the same invoice does not restart the sequence.
+ *
+ * @param input - Failed invoice details from Stripe
+ * @returns The case and whether an email was sent
+ */
+export async function startPaymentDunningTool(input: unknown): Promise<StartPaymentDunningOutput> {
+  const validated = validateStartInput(input);
+  if (!validated.success) {
+    logger.warn('payment-dunning start validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const data = validated.data!;
+
+  try {
+    const now = new Date();
+    const { dunningCase, created } = await openDunningCase({
+      ...data,
+      scheduleDays: getDunningScheduleDays(),
+    });
+
+    const isDue =
+      dunningCase.status === DUNNING_STATUS.ACTIVE &&
+      dunningCase.emailsSent === 0 &&
+      !!dunningCase.nextSendAt &&
+      new Date(dunningCase.nextSendAt) <= now;
+
+    const result: DunningCaseResult = isDue
+      ? await advanceDunningCase(dunningCase, now)
+      : {
+          dunningCaseId: dunningCase.id,
+          invoiceId: dunningCase.invoiceId,
+          emailsSent: dunningCase.emailsSent,
+          totalEmails: dunningCase.scheduleDays.length,
+          emailSent: false,
+          escalated: false,
+        };
+
+    logger.info('Started payment dunning', {
+      invoiceId: data.invoiceId,
+      dunningCaseId: dunningCase.id,
+      created,
+      emailSent: result.emailSent,
+    });
+
+    return {
+      success: true,
+      data: { ...result, created },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('payment-dunning start failed', error, {
+      invoiceId: data.invoiceId,
+    });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Send every dunning email (and escalation) that is now due
+ *
+ * Called by the daily dunning cron. One case failing does not stop the run.
+ *
+ * @param input - Optional batch limit
+ * @returns Per-case results and totals
+ */
+export async function runPaymentDunningTool(input: unknown = {}): Promise<RunPaymentDunningOutput> {
+  const obj = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const limit =
+    typeof obj.limit === 'number' && Number.isInteger(obj.limit) && obj.limit > 0
+      ? obj.limit
+      : DUNNING.BATCH_SIZE;
+
+  try {
+    const now = new Date();
+    const dueCases = await findDueDunningCases(now, limit);
+    const results: DunningCaseResult[] = [];
+
+    for (const dunningCase of dueCases) {
+      try {
+        results.push(await advanceDunningCase(dunningCase, now));
+      } catch (error) {
+        logger.error('Dunning case failed', error, { dunningCaseId: dunningCase.id });
+        results.push({
+          dunningCaseId: dunningCase.id,
+          invoiceId: dunningCase.invoiceId,
+          emailsSent: dunningCase.emailsSent,
+          totalEmails: dunningCase.scheduleDays.length,
+          emailSent: false,
+          escalated: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const summary = {
+      processed: results.length,
+      emailsSent: results.filter((result) => result.emailSent).length,
+      escalated: results.filter((result) => result.escalated).length,
+      failed: results.filter((result) => result.error).length,
+    };
+
+    logger.info('Payment dunning run complete', summary);
+
+    return {
+      success: true,
+      data: { ...summary, results },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('payment-dunning run failed', error);
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Stop dunning for a subscription
+ *
+ * Called from invoice.payment_succeeded (reason 'recovered') and
+ * customer.subscription.deleted (reason 'canceled').
+ *
+ * @param input - Subscription ID and reason
+ * @returns Number of cases closed
+ */
+export async function stopPaymentDunningTool(input: unknown): Promise<StopPaymentDunningOutput> {
+  const validated = validateStopInput(input);
+  if (!validated.success) {
+    logger.warn('payment-dunning stop validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const data = validated.data!;
+
+  try {
+    const closed = await closeDunningCases(
+      data.subscriptionId,
+      data.reason === 'recovered' ? DUNNING_STATUS.RECOVERED : DUNNING_STATUS.CANCELED
+    );
+
+    if (closed > 0) {
+      logger.info('Stopped payment dunning', {
+        subscriptionId: data.subscriptionId,
+        reason: data.reason,
+        closed,
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        subscriptionId: data.subscriptionId,
+        closed,
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('payment-dunning stop failed', error, {
+      subscriptionId: data.subscriptionId,
+    });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
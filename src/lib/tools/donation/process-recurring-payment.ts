@@ -2,12 +2,20 @@
  * Process Recurring Payment Tool
  *
  * WAT-compliant tool for processing recurring subscription payments.
- * Records the payment in Airtable and sends a follow-up thank-you email.
+ * Records the payment in Airtable (copied to Supabase for the reports) and
+ * sends a follow-up thank-you email.
  */
 
 import { logger } from '../../logger';
 import { ValidationResult, success, failure } from '../../validation';
 import { sendRecurringDonationThankYouEmail, EmailSendResult } from '../../email';
+import { recordAuditEvent, AUDIT_ACTIONS } from '../../audit';
+import type { AuditContext } from '../../audit';
+import { isDonationFund } from '../../funds';
+import type { DonationFund } from '../../funds';
+import { DONATION_FUNDS, STRIPE } from '../../constants';
+import { fromMinorUnits, toBaseAmount } from '../../currency';
+import { findDonorRecordId, syncDonationRecord, syncDonationStatus } from '../../donation-records';
 
 // ============================================================================
 // INPUT/OUTPUT INTERFACES
@@ -27,7 +35,7 @@ export interface ProcessRecurringPaymentInput {
   email: string;
   /** Customer name */
   name: string;
-  /** Payment amount in cents */
+  /** Payment amount in the currency's smallest unit (cents; whole shillings for UGX) */
   amountCents: number;
   /** Currency (e.g., 'usd') */
   currency: string;
@@ -35,6 +43,16 @@ export interface ProcessRecurringPaymentInput {
   paymentDate: string;
   /** Billing reason from Stripe */
   billingReason: string;
+  /** Designated fund from the subscription metadata (default general) */
+  fund?: DonationFund;
+  /** Campaign slug from the subscription metadata, when the gift was started from a campaign */
+  campaign?: string;
+  /** Stripe processing fee in the payout currency, when known */
+  stripeFee?: number | null;
+  /** Part of the payment the donor added to cover processing fees, in the payment currency */
+  coveredFee?: number;
+  /** Rate Stripe converted the payment to the base currency at; required unless charged in it */
+  exchangeRate?: number | null;
 }
 
 /**
@@ -95,6 +113,24 @@ function validateInput(input: unknown): ValidationResult<ProcessRecurringPayment
   if (typeof obj.billingReason !== 'string' || !obj.billingReason) {
     return failure('Invalid input: billingReason is required');
   }
+  if (obj.fund !== undefined && !isDonationFund(obj.fund)) {
+    return failure(`Invalid input: fund must be one of: ${Object.values(DONATION_FUNDS).join(', ')}`);
+  }
+  if (obj.campaign !== undefined && typeof obj.campaign !== 'string') {
+    return failure('Invalid input: campaign must be a string');
+  }
+  if (obj.stripeFee != null && (typeof obj.stripeFee !== 'number' || obj.stripeFee < 0)) {
+    return failure('Invalid input: stripeFee must be a non-negative number');
+  }
+  if (
+    obj.coveredFee !== undefined &&
+    (typeof obj.coveredFee !== 'number' || obj.coveredFee < 0 || obj.coveredFee > fromMinorUnits(obj.amountCents, obj.currency))
+  ) {
+    return failure('Invalid input: coveredFee must be between zero and the payment amount');
+  }
+  if (obj.exchangeRate != null && (typeof obj.exchangeRate !== 'number' || obj.exchangeRate <= 0)) {
+    return failure('Invalid input: exchangeRate must be a positive number');
+  }
 
   return success({
     invoiceId: obj.invoiceId,
@@ -106,6 +142,11 @@ function validateInput(input: unknown): ValidationResult<ProcessRecurringPayment
     currency: obj.currency,
     paymentDate: obj.paymentDate,
     billingReason: obj.billingReason,
+    fund: obj.fund || DONATION_FUNDS.GENERAL,
+    campaign: (obj.campaign as string | undefined) || undefined,
+    stripeFee: (obj.stripeFee as number | null | undefined) ?? null,
+    coveredFee: (obj.coveredFee as number | undefined) ?? 0,
+    exchangeRate: (obj.exchangeRate as number | null | undefined) ?? null,
   });
 }
 
@@ -113,10 +154,47 @@ function validateInput(input: unknown): ValidationResult<ProcessRecurringPayment
 // AIRTABLE HELPERS
 // ============================================================================
 
+/**
+ * The gift itself: the payment less any processing fee the donor covered
+ */
+function giftAmount(data: ProcessRecurringPaymentInput): number {
+  return Math.round((fromMinorUnits(data.amountCents, data.currency) - (data.coveredFee || 0)) * 100) / 100;
+}
+
+/**
+ * Rate to the base currency: 1 when charged in it, otherwise the rate Stripe
+ * reported (null until the charge settles)
+ */
+function exchangeRateFor(data: ProcessRecurringPaymentInput): number | null {
+  return data.currency.toLowerCase() === STRIPE.CURRENCY ? 1 : data.exchangeRate ?? null;
+}
+
+/**
+ * Fields Stripe's settlement fills in: the fee, and the exchange rate and
+ * base-currency amount
+ */
+function settlementFields(data: ProcessRecurringPaymentInput): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const exchangeRate = exchangeRateFor(data);
+
+  if (data.stripeFee != null) {
+    fields['Stripe Fee'] = data.stripeFee;
+  }
+  if (exchangeRate !== null) {
+    fields['Exchange Rate'] = exchangeRate;
+    fields['Base Amount'] = toBaseAmount(giftAmount(data), exchangeRate);
+  }
+
+  return fields;
+}
+
 /**
  * Record recurring donation in Airtable
  */
-async function recordRecurringDonation(data: ProcessRecurringPaymentInput): Promise<string | null> {
+async function recordRecurringDonation(
+  data: ProcessRecurringPaymentInput,
+  audit?: AuditContext
+): Promise<string | null> {
   const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
   const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
   const AIRTABLE_DONATIONS_TABLE = process.env.AIRTABLE_DONATIONS_TABLE || 'Donations';
@@ -141,8 +219,24 @@ async function recordRecurringDonation(data: ProcessRecurringPaymentInput): Prom
   if (searchResponse.ok) {
     const searchData = await searchResponse.json();
     if (searchData.records && searchData.records.length > 0) {
-      logger.info('Recurring donation already recorded', { invoiceId: data.invoiceId });
-      return searchData.records[0].id;
+      const existing = searchData.records[0];
+      const previousStatus = existing.fields?.['Payment Status'] || null;
+
+      // A retry that succeeds after invoice.payment_failed updates the Failed row
+      if (previousStatus !== 'Succeeded') {
+        await markDonationSucceeded(existing.id, previousStatus, data.invoiceId, settlementFields(data), audit);
+      } else {
+        logger.info('Recurring donation already recorded', { invoiceId: data.invoiceId });
+      }
+
+      // The Supabase copy may still be the Failed row
+      await syncRecurringDonation(data, existing.fields?.['Donor']?.[0] || null);
+      await syncDonationStatus(data.invoiceId, {
+        status: 'Succeeded',
+        stripeFee: data.stripeFee,
+        exchangeRate: exchangeRateFor(data),
+      });
+      return existing.id;
     }
   }
 
@@ -171,7 +265,7 @@ async function recordRecurringDonation(data: ProcessRecurringPaymentInput): Prom
   const donationFields: Record<string, unknown> = {
     'Stripe Payment Intent ID': data.invoiceId, // Use invoice ID for recurring
     'Stripe Customer ID': data.customerId,
-    'Donation Amount': data.amountCents / 100,
+    'Donation Amount': giftAmount(data),
     'Currency': data.currency.toUpperCase(),
     'Donation Date': data.paymentDate,
     'Payment Status': 'Succeeded',
@@ -179,11 +273,19 @@ async function recordRecurringDonation(data: ProcessRecurringPaymentInput): Prom
     'Subscription ID': data.subscriptionId,
     'Donor Email at Donation': data.email,
     'Donation Source': 'Website - Recurring',
+    'Fund': data.fund || DONATION_FUNDS.GENERAL,
+    ...settlementFields(data),
   };
 
   if (donorId) {
     donationFields['Donor'] = [donorId];
   }
+  if (data.campaign) {
+    donationFields['Campaign'] = data.campaign;
+  }
+  if (data.coveredFee) {
+    donationFields['Covered Fee'] = data.coveredFee;
+  }
 
   const createResponse = await fetch(
     `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONATIONS_TABLE}`,
@@ -203,9 +305,106 @@ async function recordRecurringDonation(data: ProcessRecurringPaymentInput): Prom
   }
 
   const createData = await createResponse.json();
+
+  await recordAuditEvent(
+    {
+      action: AUDIT_ACTIONS.DONATION_CREATED,
+      targetTable: 'donations',
+      targetId: createData.id,
+      before: null,
+      after: donationFields,
+      metadata: { invoiceId: data.invoiceId },
+    },
+    audit
+  );
+
+  await syncRecurringDonation(data, donorId);
   return createData.id;
 }
 
+/**
+ * Copy a recurring donation to Supabase, where the reports read gifts
+ * (an existing copy is left as it is)
+ */
+async function syncRecurringDonation(
+  data: ProcessRecurringPaymentInput,
+  airtableDonorId: string | null
+): Promise<void> {
+  const donorId = await findDonorRecordId({
+    airtableRecordId: airtableDonorId,
+    stripeCustomerId: data.customerId,
+    email: data.email,
+  });
+
+  await syncDonationRecord({
+    reference: data.invoiceId,
+    sessionId: null,
+    customerId: data.customerId,
+    donorId,
+    amount: giftAmount(data),
+    currency: data.currency,
+    donationDate: data.paymentDate,
+    status: 'Succeeded',
+    isRecurring: true,
+    subscriptionId: data.subscriptionId,
+    email: data.email,
+    source: 'Website - Recurring',
+    fund: data.fund || DONATION_FUNDS.GENERAL,
+    campaign: data.campaign,
+    coveredFee: data.coveredFee,
+    exchangeRate: exchangeRateFor(data),
+    stripeFee: data.stripeFee,
+  });
+}
+
+/**
+ * Mark an existing recurring donation (recorded as Failed) as Succeeded
+ */
+async function markDonationSucceeded(
+  donationId: string,
+  previousStatus: string | null,
+  invoiceId: string,
+  settled: Record<string, unknown>,
+  audit?: AuditContext
+): Promise<void> {
+  const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
+  const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
+  const AIRTABLE_DONATIONS_TABLE = process.env.AIRTABLE_DONATIONS_TABLE || 'Donations';
+
+  const fields: Record<string, unknown> = { 'Payment Status': 'Succeeded', ...settled };
+
+  const response = await fetch(
+    `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${AIRTABLE_DONATIONS_TABLE}/${donationId}`,
+    {
+      method: 'PATCH',
+      headers: {
+        Authorization: `Bearer ${AIRTABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ fields }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to update donation record: ${error}`);
+  }
+
+  logger.info('Recurring donation recovered after failed payment', { invoiceId, donationId });
+
+  await recordAuditEvent(
+    {
+      action: AUDIT_ACTIONS.DONATION_UPDATED,
+      targetTable: 'donations',
+      targetId: donationId,
+      before: { 'Payment Status': previousStatus },
+      after: fields,
+      metadata: { invoiceId },
+    },
+    audit
+  );
+}
+
 // ============================================================================
 // MAIN TOOL FUNCTION
 // ============================================================================
@@ -215,14 +414,16 @@ async function recordRecurringDonation(data: ProcessRecurringPaymentInput): Prom
  *
  * This tool:
  * 1. Validates the payment is a subscription renewal (not initial payment)
- * 2. Records the donation in Airtable
+ * 2. Records the donation in Airtable, with its base-currency amount
  * 3. Sends a follow-up thank-you email
  *
  * @param input - Payment details from Stripe invoice
+ * @param audit - Source of the payment event (recorded in the audit log)
  * @returns Processing result
  */
 export async function processRecurringPaymentTool(
-  input: unknown
+  input: unknown,
+  audit?: AuditContext
 ): Promise<ProcessRecurringPaymentOutput> {
   // 1. Validate input
   const validated = validateInput(input);
@@ -254,19 +455,29 @@ export async function processRecurringPaymentTool(
     };
   }
 
-  // 3. Execute action
+  // 3. A payment in another currency needs Stripe's exchange rate before it
+  // can be recorded; failing lets the webhook event be replayed once it settles
+  if (exchangeRateFor(data) === null) {
+    logger.warn('No exchange rate for recurring payment', { invoiceId: data.invoiceId, currency: data.currency });
+    return {
+      success: false,
+      error: `No ${STRIPE.CURRENCY.toUpperCase()} exchange rate available yet for ${data.invoiceId}`,
+    };
+  }
+
+  // 4. Execute action
   try {
     logger.debug('Processing recurring payment', {
       invoiceId: data.invoiceId,
       subscriptionId: data.subscriptionId,
-      amount: data.amountCents / 100,
+      amount: giftAmount(data),
       email: logger.maskEmail(data.email),
     });
 
     // Record in Airtable
     let donationId: string | null = null;
     try {
-      donationId = await recordRecurringDonation(data);
+      donationId = await recordRecurringDonation(data, audit);
     } catch (error) {
       logger.error('Failed to record recurring donation', error, {
         invoiceId: data.invoiceId,
@@ -282,7 +493,7 @@ export async function processRecurringPaymentTool(
       const emailResult: EmailSendResult = await sendRecurringDonationThankYouEmail(
         data.email,
         data.name,
-        data.amountCents / 100,
+        giftAmount(data),
         data.currency
       );
 
@@ -298,7 +509,7 @@ export async function processRecurringPaymentTool(
       logger.error('Email send threw exception', error);
     }
 
-    // 4. Log success
+    // 5. Log success
     logger.info('Processed recurring payment', {
       invoiceId: data.invoiceId,
       donationId,
@@ -306,7 +517,7 @@ export async function processRecurringPaymentTool(
       emailProvider,
     });
 
-    // 5. Return structured output
+    // 6. Return structured output
     return {
       success: true,
       data: {
@@ -317,7 +528,7 @@ export async function processRecurringPaymentTool(
       },
     };
   } catch (error) {
-    // 6. Handle errors gracefully
+    // 7. Handle errors gracefully
     const errorMessage = error instanceof Error ? error.message : String(error);
 
     logger.error('process-recurring-payment failed', error, {
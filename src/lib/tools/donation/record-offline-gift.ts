@@ -0,0 +1,404 @@
+/**
+ * Record Offline Gift Tool
+ *
+ * WAT-compliant tool for gifts that never pass through Stripe: checks,
+ * cash and bank transfers. Records the donation in Airtable against an
+ * existing or new donor (same dedup as the Stripe webhook) and emails
+ * the donor a receipt.
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '../../logger';
+import {
+  ValidationResult,
+  success,
+  failure,
+  isValidDateString,
+  validateDonationAmount,
+  validateEmail,
+  validateEnum,
+  validateOptionalString,
+  validateRequiredString,
+} from '../../validation';
+import { findOrCreateDonor, findDonorById, upsertDonation } from '../../stripe-webhook';
+import { sendDonationReceiptEmail } from '../../email';
+import { findCampaignBySlug } from '../../campaigns';
+import { isDonationFund } from '../../funds';
+import type { DonationFund } from '../../funds';
+import type { AuditContext } from '../../audit';
+import {
+  DONATION_FUNDS,
+  DONATION_SOURCE,
+  OFFLINE_PAYMENT_METHODS,
+  PAYMENT_STATUS,
+  STRIPE,
+} from '../../constants';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+type OfflinePaymentMethod = (typeof OFFLINE_PAYMENT_METHODS)[keyof typeof OFFLINE_PAYMENT_METHODS];
+
+/**
+ * Input schema for recording an offline gift
+ * Give either `donorId` (existing donor) or `donor` (found by email or created).
+ */
+export interface RecordOfflineGiftInput {
+  /** Airtable record ID of an existing donor */
+  donorId?: string;
+  /** Donor details; matched by email like a website gift */
+  donor?: {
+    name: string;
+    email?: string;
+    organization?: string;
+    phone?: string;
+    address?: string;
+  };
+  /** Amount in dollars */
+  amount: number;
+  /** Date on the check or transfer (YYYY-MM-DD, default today) */
+  giftDate?: string;
+  paymentMethod: OfflinePaymentMethod;
+  /** Check number or bank transfer reference */
+  referenceNumber?: string;
+  /** Bank deposit the gift was paid in with */
+  depositBatch?: string;
+  /** Designated fund (default general) */
+  fund?: DonationFund;
+  /** Campaign slug to credit the gift to */
+  campaign?: string;
+  /** Email the donor a receipt (default true; needs a donor email) */
+  sendReceipt?: boolean;
+}
+
+/**
+ * Output schema
+ */
+export interface RecordOfflineGiftOutput {
+  success: boolean;
+  data?: {
+    donorId: string;
+    donationId: string;
+    /** False when the same gift had already been recorded */
+    created: boolean;
+    receiptSent: boolean;
+    receiptSkipReason?: string;
+  };
+  error?: string;
+}
+
+interface ValidatedOfflineGift {
+  donorId?: string;
+  donor?: {
+    name: string;
+    email?: string;
+    organization?: string;
+    phone?: string;
+    address?: string;
+  };
+  amountCents: number;
+  giftDate: string;
+  paymentMethod: OfflinePaymentMethod;
+  referenceNumber?: string;
+  depositBatch?: string;
+  fund: DonationFund;
+  campaign?: string;
+  sendReceipt: boolean;
+}
+
+const AIRTABLE_RECORD_ID_PATTERN = /^rec[A-Za-z0-9]{14}$/;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate donor details for a new or email-matched donor
+ */
+function validateDonorDetails(input: unknown): ValidationResult<NonNullable<ValidatedOfflineGift['donor']>> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: donorId or donor details are required');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  const nameResult = validateRequiredString(obj.name, 'Donor name', 1, 200);
+  if (!nameResult.success) {
+    return failure(`Invalid input: ${nameResult.error}`);
+  }
+
+  let email: string | undefined;
+  if (obj.email) {
+    const emailResult = validateEmail(obj.email);
+    if (!emailResult.success) {
+      return failure(`Invalid input: ${emailResult.error}`);
+    }
+    email = emailResult.data;
+  }
+
+  const organizationResult = validateOptionalString(obj.organization, 200);
+  const phoneResult = validateOptionalString(obj.phone, 50);
+  const addressResult = validateOptionalString(obj.address, 500);
+  if (!organizationResult.success || !phoneResult.success || !addressResult.success) {
+    return failure('Invalid input: donor organization, phone or address is too long');
+  }
+
+  return success({
+    name: nameResult.data!,
+    email,
+    organization: organizationResult.data,
+    phone: phoneResult.data,
+    address: addressResult.data,
+  });
+}
+
+/**
+ * Validate tool input
+ */
+function validateInput(input: unknown): ValidationResult<ValidatedOfflineGift> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  let donorId: string | undefined;
+  let donor: ValidatedOfflineGift['donor'];
+  if (obj.donorId !== undefined && obj.donorId !== '') {
+    if (typeof obj.donorId !== 'string' || !AIRTABLE_RECORD_ID_PATTERN.test(obj.donorId)) {
+      return failure('Invalid input: donorId must be an Airtable donor record ID');
+    }
+    donorId = obj.donorId;
+  } else {
+    const donorResult = validateDonorDetails(obj.donor);
+    if (!donorResult.success) {
+      return failure(donorResult.error!);
+    }
+    donor = donorResult.data;
+  }
+
+  const amountResult = validateDonationAmount(obj.amount);
+  if (!amountResult.success) {
+    return failure(`Invalid input: ${amountResult.error}`);
+  }
+
+  if (obj.giftDate !== undefined && !isValidDateString(obj.giftDate)) {
+    return failure('Invalid input: giftDate must be a date (YYYY-MM-DD)');
+  }
+  const giftDate = (obj.giftDate as string | undefined) || new Date().toISOString().slice(0, 10);
+  if (giftDate > new Date().toISOString().slice(0, 10)) {
+    return failure('Invalid input: giftDate cannot be in the future');
+  }
+
+  const methodResult = validateEnum(obj.paymentMethod, Object.values(OFFLINE_PAYMENT_METHODS), 'Payment method');
+  if (!methodResult.success) {
+    return failure(`Invalid input: ${methodResult.error}`);
+  }
+
+  const referenceResult = validateOptionalString(obj.referenceNumber, 100);
+  if (!referenceResult.success) {
+    return failure('Invalid input: referenceNumber must be at most 100 characters');
+  }
+
+  const batchResult = validateOptionalString(obj.depositBatch, 100);
+  if (!batchResult.success) {
+    return failure('Invalid input: depositBatch must be at most 100 characters');
+  }
+
+  if (obj.fund !== undefined && !isDonationFund(obj.fund)) {
+    return failure(`Invalid input: fund must be one of: ${Object.values(DONATION_FUNDS).join(', ')}`);
+  }
+
+  if (obj.campaign !== undefined && obj.campaign !== '' && typeof obj.campaign !== 'string') {
+    return failure('Invalid input: campaign must be a campaign slug');
+  }
+
+  if (obj.sendReceipt !== undefined && typeof obj.sendReceipt !== 'boolean') {
+    return failure('Invalid input: sendReceipt must be a boolean');
+  }
+
+  return success({
+    donorId,
+    donor,
+    amountCents: amountResult.data!,
+    giftDate,
+    paymentMethod: methodResult.data!,
+    referenceNumber: referenceResult.data,
+    depositBatch: batchResult.data,
+    fund: (obj.fund as DonationFund | undefined) || DONATION_FUNDS.GENERAL,
+    campaign: (obj.campaign as string | undefined) || undefined,
+    sendReceipt: obj.sendReceipt !== false,
+  });
+}
+
+/**
+ * Key stored in the Stripe Payment Intent ID field (the Donations primary
+ * field). A referenced gift gets a stable key so entering the same check
+ * twice does not create a second donation.
+ */
+function offlineDonationKey(gift: ValidatedOfflineGift, donorId: string): string {
+  if (!gift.referenceNumber) {
+    return `offline_${randomUUID()}`;
+  }
+
+  const reference = gift.referenceNumber.replace(/[^A-Za-z0-9-]/g, '');
+  const method = gift.paymentMethod.toLowerCase().replace(/\s+/g, '_');
+  return `offline_${method}_${reference}_${donorId}`;
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTION
+// ============================================================================
+
+/**
+ * Record a check, cash or bank transfer gift
+ *
+ * This tool:
+ * 1. Validates input
+ * 2. Resolves the donor (by record ID, or find-or-create by email)
+ * 3. Records the donation as a Succeeded manual entry (idempotent by reference)
+ * 4. Emails the donor a receipt
+ *
+ * @param input - Donor, amount, payment method, reference and deposit batch
+ * @param audit - Admin entering the gift
+ * @returns Donor and donation record IDs and whether a receipt was sent
+ */
+export async function recordOfflineGiftTool(
+  input: unknown,
+  audit: AuditContext
+): Promise<RecordOfflineGiftOutput> {
+  // 1. Validate input
+  const validated = validateInput(input);
+  if (!validated.success) {
+    logger.warn('record-offline-gift validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const gift = validated.data!;
+
+  try {
+    if (gift.campaign && !(await findCampaignBySlug(gift.campaign))) {
+      return {
+        success: false,
+        error: 'Invalid input: campaign not found',
+      };
+    }
+
+    // 2. Resolve the donor
+    let donorId: string;
+    let donorName: string;
+    let donorEmail: string;
+
+    if (gift.donorId) {
+      const existing = await findDonorById(gift.donorId);
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Donor not found',
+        };
+      }
+      donorId = existing.id;
+      donorName = existing.name;
+      donorEmail = existing.email;
+    } else {
+      const donor = gift.donor!;
+      donorId = await findOrCreateDonor(null, donor.email || null, {
+        name: donor.name,
+        email: donor.email || '',
+        organization: donor.organization,
+        phone: donor.phone,
+        address: donor.address,
+      }, audit);
+      donorName = donor.name;
+      donorEmail = donor.email || '';
+    }
+
+    // 3. Record the donation (audited)
+    const { id: donationId, created } = await upsertDonation(offlineDonationKey(gift, donorId), {
+      sessionId: null,
+      customerId: null,
+      donorId,
+      amount: gift.amountCents / 100,
+      // Offline gifts are banked in the base currency
+      currency: STRIPE.CURRENCY,
+      exchangeRate: 1,
+      donationDate: gift.giftDate,
+      isRecurring: false,
+      subscriptionId: null,
+      status: PAYMENT_STATUS.SUCCEEDED,
+      email: donorEmail,
+      name: donorName,
+      fund: gift.fund,
+      campaign: gift.campaign,
+      source: DONATION_SOURCE.MANUAL_ENTRY,
+      paymentMethod: gift.paymentMethod,
+      referenceNumber: gift.referenceNumber,
+      depositBatch: gift.depositBatch,
+    }, audit);
+
+    // 4. Send the receipt (once: re-entering the same check does not send another)
+    let receiptSent = false;
+    let receiptSkipReason: string | undefined;
+
+    if (!created) {
+      receiptSkipReason = 'Gift was already recorded';
+    } else if (!gift.sendReceipt) {
+      receiptSkipReason = 'Receipt not requested';
+    } else if (!donorEmail) {
+      receiptSkipReason = 'Donor has no email address';
+    } else {
+      const receiptResult = await sendDonationReceiptEmail(
+        donorEmail,
+        donorName || 'Friend',
+        gift.amountCents,
+        'one-time',
+        gift.referenceNumber ? `${gift.paymentMethod} ${gift.referenceNumber}` : donationId,
+        gift.giftDate
+      );
+      receiptSent = receiptResult.success;
+      if (!receiptResult.success) {
+        // The gift is recorded either way; the receipt can be resent
+        receiptSkipReason = receiptResult.error || 'Failed to send receipt';
+        logger.warn('Offline gift receipt failed', { donationId, error: receiptResult.error });
+      }
+    }
+
+    // 5. Log result
+    logger.info('Offline gift recorded', {
+      donationId,
+      donorId,
+      created,
+      amountCents: gift.amountCents,
+      paymentMethod: gift.paymentMethod,
+      depositBatch: gift.depositBatch,
+      receiptSent,
+      admin: audit.actor,
+    });
+
+    // 6. Return structured output
+    return {
+      success: true,
+      data: {
+        donorId,
+        donationId,
+        created,
+        receiptSent,
+        ...(receiptSkipReason ? { receiptSkipReason } : {}),
+      },
+    };
+  } catch (error) {
+    // 7. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('record-offline-gift failed', error, { paymentMethod: gift.paymentMethod });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Send Year-End Statements Tool
+ *
+ * WAT-compliant tool for sending consolidated annual tax receipts.
+ * Aggregates each donor's succeeded donations for a tax year, renders a PDF
+ * statement and emails it. Dry-run mode only reports who would receive one.
+ */
+
+import { logger } from '../../logger';
+import { ValidationResult, success, failure } from '../../validation';
+import { sendYearEndStatementEmail } from '../../email';
+import {
+  buildYearEndStatements,
+  renderYearEndStatementPdf,
+  formatStatementAmount,
+} from '../../tax-receipts';
+import type { StatementTotal } from '../../tax-receipts';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Input schema for sending year-end statements
+ */
+export interface SendYearEndStatementsInput {
+  /** Calendar year the statements cover */
+  taxYear: number;
+  /** List recipients and totals without rendering or sending anything */
+  dryRun?: boolean;
+  /** Only this donor's statement (e.g. to retry a failed send) */
+  donorEmail?: string;
+}
+
+/**
+ * Per-donor outcome
+ */
+export interface YearEndStatementResult {
+  donorId: string | null;
+  donorName: string;
+  email: string | null;
+  giftCount: number;
+  totals: StatementTotal[];
+  status: 'would_send' | 'sent' | 'failed' | 'skipped_no_email';
+  error?: string;
+}
+
+/**
+ * Output schema
+ */
+export interface SendYearEndStatementsOutput {
+  success: boolean;
+  data?: {
+    taxYear: number;
+    dryRun: boolean;
+    donorCount: number;
+    giftCount: number;
+    sent: number;
+    failed: number;
+    skipped: number;
+    /** Sum across all donors, one per currency */
+    totals: StatementTotal[];
+    statements: YearEndStatementResult[];
+  };
+  error?: string;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate tool input
+ * Only completed years may be sent, so a statement is never issued for a
+ * year that can still receive gifts.
+ */
+function validateInput(input: unknown): ValidationResult<SendYearEndStatementsInput & { dryRun: boolean }> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+  const currentYear = new Date().getFullYear();
+
+  if (typeof obj.taxYear !== 'number' || !Number.isInteger(obj.taxYear) || obj.taxYear < 2000) {
+    return failure('Invalid input: taxYear must be a four-digit year');
+  }
+  if (obj.dryRun !== undefined && typeof obj.dryRun !== 'boolean') {
+    return failure('Invalid input: dryRun must be a boolean');
+  }
+  if (obj.donorEmail !== undefined && (typeof obj.donorEmail !== 'string' || !obj.donorEmail.trim())) {
+    return failure('Invalid input: donorEmail must be a non-empty string');
+  }
+
+  const dryRun = obj.dryRun === true;
+
+  if (obj.taxYear > currentYear || (!dryRun && obj.taxYear === currentYear)) {
+    return failure(`Invalid input: statements for ${obj.taxYear} can only be sent after the year ends (dry runs are allowed)`);
+  }
+
+  return success({
+    taxYear: obj.taxYear,
+    dryRun,
+    donorEmail: typeof obj.donorEmail === 'string' ? obj.donorEmail.trim().toLowerCase() : undefined,
+  });
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTION
+// ============================================================================
+
+/**
+ * Send (or preview) year-end statements for a tax year
+ *
+ * This tool:
+ * 1. Aggregates succeeded donations per donor for the year
+ * 2. In dry-run mode, returns the recipients and totals
+ * 3. Otherwise renders each statement as a PDF and emails it
+ *
+ * A failed send does not stop the run; re-running sends every statement again.
+ *
+ * @param input - Tax year, dry-run flag and optional single donor
+ * @returns Per-donor results and overall totals
+ */
+export async function sendYearEndStatementsTool(input: unknown): Promise<SendYearEndStatementsOutput> {
+  // 1. Validate input
+  const validated = validateInput(input);
+  if (!validated.success) {
+    logger.warn('send-year-end-statements validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { taxYear, dryRun, donorEmail } = validated.data!;
+
+  try {
+    // 2. Aggregate donations
+    const statements = (await buildYearEndStatements(taxYear)).filter(
+      (statement) => !donorEmail || statement.email === donorEmail
+    );
+    const results: YearEndStatementResult[] = [];
+
+    // 3. Render and send each statement
+    for (const statement of statements) {
+      const result: YearEndStatementResult = {
+        donorId: statement.donorId,
+        donorName: statement.donorName,
+        email: statement.email,
+        giftCount: statement.gifts.length,
+        totals: statement.totals,
+        status: dryRun ? 'would_send' : 'sent',
+      };
+
+      if (!statement.email) {
+        results.push({ ...result, status: 'skipped_no_email' });
+        continue;
+      }
+
+      if (dryRun) {
+        results.push(result);
+        continue;
+      }
+
+      try {
+        const pdf = await renderYearEndStatementPdf(statement);
+        const emailResult = await sendYearEndStatementEmail(
+          statement.email,
+          statement.donorName,
+          taxYear,
+          statement.totals.map((total) => formatStatementAmount(total.amount, total.currency)),
+          pdf
+        );
+
+        results.push(
+          emailResult.success
+            ? result
+            : { ...result, status: 'failed', error: emailResult.error || 'Failed to send email' }
+        );
+      } catch (error) {
+        logger.error('Failed to send year-end statement', error, {
+          taxYear,
+          email: logger.maskEmail(statement.email),
+        });
+        results.push({
+          ...result,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const totals: StatementTotal[] = [];
+    for (const statement of statements) {
+      for (const total of statement.totals) {
+        const existing = totals.find((candidate) => candidate.currency === total.currency);
+        if (existing) {
+          existing.amount = Math.round((existing.amount + total.amount) * 100) / 100;
+        } else {
+          totals.push({ ...total });
+        }
+      }
+    }
+
+    const summary = {
+      taxYear,
+      dryRun,
+      donorCount: statements.length,
+      giftCount: statements.reduce((count, statement) => count + statement.gifts.length, 0),
+      sent: results.filter((result) => result.status === 'sent').length,
+      failed: results.filter((result) => result.status === 'failed').length,
+      skipped: results.filter((result) => result.status === 'skipped_no_email').length,
+      totals,
+    };
+
+    // 4. Log result
+    logger.info('Year-end statements processed', summary);
+
+    // 5. Return structured output
+    return {
+      success: true,
+      data: { ...summary, statements: results },
+    };
+  } catch (error) {
+    // 6. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('send-year-end-statements failed', error, { taxYear });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
@@ -33,4 +33,6 @@ export {
   sendEscalationNoticeTool,
   type SendEscalationNoticeInput,
   type SendEscalationNoticeOutput,
+  type OverdueUpdatesEscalationInput,
+  type FailedPaymentEscalationInput,
 } from './send-escalation-notice';
@@ -1,8 +1,9 @@
 /**
  * Tool: sendEscalationNotice
  *
- * Sends escalation notice to admin when updates remain missing after deadline.
- * This tool is called by the compliance automation when overdue items are detected.
+ * Sends escalation notice to admin when updates remain missing after deadline,
+ * or when a sponsor's payment is still failing after the last dunning email.
+ * Called by the compliance automation and the payment dunning tool.
  *
  * WAT-compliant tool:
  * - Single responsibility
@@ -19,7 +20,11 @@ import type { ToolResult, RoleActorEmail, SourceType } from '../../types/child-u
 // TYPES
 // ============================================================================
 
-export interface SendEscalationNoticeInput {
+/**
+ * Updates still missing after the deadline (compliance automation)
+ */
+export interface OverdueUpdatesEscalationInput {
+  kind?: 'overdue_updates';
   periodOrTerm: string;
   sourceType: SourceType;
   responsibleRole: RoleActorEmail;
@@ -28,10 +33,33 @@ export interface SendEscalationNoticeInput {
   daysOverdue: number;
 }
 
+/**
+ * A subscription payment still failing after the final dunning email
+ */
+export interface FailedPaymentEscalationInput {
+  kind: 'failed_payment';
+  invoiceId: string;
+  subscriptionId: string;
+  customerId: string;
+  sponsorEmail: string;
+  sponsorName?: string;
+  amountCents: number;
+  currency: string;
+  /** Payment-failed emails already sent to the sponsor */
+  emailsSent: number;
+  /** Days since the first failed payment */
+  daysOverdue: number;
+  /** Sponsorships funded by the subscription */
+  sponsorCodes: string[];
+}
+
+export type SendEscalationNoticeInput = OverdueUpdatesEscalationInput | FailedPaymentEscalationInput;
+
 export interface SendEscalationNoticeOutput {
   messageId?: string;
   escalatedTo: string;
-  missingCount: number;
+  /** Missing updates (overdue update escalations only) */
+  missingCount?: number;
   daysOverdue: number;
 }
 
@@ -39,7 +67,7 @@ export interface SendEscalationNoticeOutput {
 // EMAIL TEMPLATE
 // ============================================================================
 
-function generateEscalationHtml(input: SendEscalationNoticeInput): string {
+function generateEscalationHtml(input: OverdueUpdatesEscalationInput): string {
   const { periodOrTerm, sourceType, responsibleRole, missingCount, missingChildIds, daysOverdue } = input;
 
   const updateTypeName = sourceType === SOURCE_TYPE.FIELD ? 'Field' : 'Academic';
@@ -115,7 +143,7 @@ function generateEscalationHtml(input: SendEscalationNoticeInput): string {
 `;
 }
 
-function generateEscalationText(input: SendEscalationNoticeInput): string {
+function generateEscalationText(input: OverdueUpdatesEscalationInput): string {
   const { periodOrTerm, sourceType, responsibleRole, missingCount, missingChildIds, daysOverdue } = input;
 
   const updateTypeName = sourceType === SOURCE_TYPE.FIELD ? 'Field' : 'Academic';
@@ -147,22 +175,228 @@ Generated: ${new Date().toISOString()}
 `.trim();
 }
 
+function formatAmount(amountCents: number, currency: string): string {
+  return `${(amountCents / 100).toFixed(2)} ${currency.toUpperCase()}`;
+}
+
+function generatePaymentEscalationHtml(input: FailedPaymentEscalationInput): string {
+  const { invoiceId, subscriptionId, customerId, sponsorEmail, sponsorName, amountCents, currency, emailsSent, daysOverdue, sponsorCodes } = input;
+
+  const urgencyColor = '#dc2626';
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: ${urgencyColor}; color: white; padding: 20px; text-align: center; }
+    .content { padding: 20px; background-color: #f9f9f9; }
+    .stats-box { background-color: white; padding: 15px; margin: 15px 0; border: 2px solid ${urgencyColor}; }
+    .stat { display: inline-block; text-align: center; padding: 10px 20px; }
+    .stat-value { font-size: 32px; font-weight: bold; color: ${urgencyColor}; }
+    .stat-label { font-size: 12px; color: #666; text-transform: uppercase; }
+    .child-list { background-color: white; padding: 15px; margin: 15px 0; border-left: 4px solid ${urgencyColor}; }
+    .child-id { font-family: monospace; background-color: #f0f0f0; padding: 2px 6px; margin: 2px; display: inline-block; font-size: 12px; }
+    .footer { padding: 20px; font-size: 12px; color: #666; text-align: center; }
+    .action-item { background-color: #fff3cd; border: 1px solid #ffc107; padding: 10px; margin: 10px 0; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>⚠️ ESCALATION NOTICE</h1>
+      <h2>Sponsor Payment Still Failing</h2>
+    </div>
+    <div class="content">
+      <div class="stats-box">
+        <div class="stat">
+          <div class="stat-value">${emailsSent}</div>
+          <div class="stat-label">Emails Sent</div>
+        </div>
+        <div class="stat">
+          <div class="stat-value">${daysOverdue}</div>
+          <div class="stat-label">Days Since Failure</div>
+        </div>
+      </div>
+
+      <p>
+        <strong>Sponsor:</strong> ${sponsorName || 'Unknown'} (${sponsorEmail})<br>
+        <strong>Amount:</strong> ${formatAmount(amountCents, currency)}<br>
+        <strong>Invoice:</strong> ${invoiceId}<br>
+        <strong>Subscription:</strong> ${subscriptionId}<br>
+        <strong>Customer:</strong> ${customerId}
+      </p>
+
+      <div class="action-item">
+        <strong>Action Required:</strong> Contact the sponsor personally about their payment method, or decide whether to end the sponsorship.
+      </div>
+
+      ${sponsorCodes.length > 0 ? `
+      <p>Sponsorships funded by this subscription:</p>
+
+      <div class="child-list">
+        ${sponsorCodes.map(code => `<span class="child-id">${code}</span>`).join(' ')}
+      </div>
+      ` : ''}
+
+      <p style="font-size: 14px; color: #666;">
+        This escalation was triggered automatically after the final payment-failed email.
+        The sponsor has already received ${emailsSent} emails with a link to update their card.
+      </p>
+    </div>
+    <div class="footer">
+      <p>Be A Number, International</p>
+      <p>Donations - Payment Escalation</p>
+      <p>Generated: ${new Date().toISOString()}</p>
+    </div>
+  </div>
+</body>
+</html>
+`;
+}
+
+function generatePaymentEscalationText(input: FailedPaymentEscalationInput): string {
+  const { invoiceId, subscriptionId, customerId, sponsorEmail, sponsorName, amountCents, currency, emailsSent, daysOverdue, sponsorCodes } = input;
+
+  return `
+⚠️ ESCALATION NOTICE - SPONSOR PAYMENT STILL FAILING
+${'='.repeat(60)}
+
+EMAILS SENT: ${emailsSent}
+DAYS SINCE FAILURE: ${daysOverdue}
+
+Sponsor: ${sponsorName || 'Unknown'} (${sponsorEmail})
+Amount: ${formatAmount(amountCents, currency)}
+Invoice: ${invoiceId}
+Subscription: ${subscriptionId}
+Customer: ${customerId}
+
+ACTION REQUIRED:
+Contact the sponsor personally about their payment method, or decide whether to end the sponsorship.
+
+SPONSORSHIPS (${sponsorCodes.length}):
+${sponsorCodes.length > 0 ? sponsorCodes.join(', ') : 'None linked to this subscription'}
+
+This escalation was triggered automatically after the final payment-failed email.
+The sponsor has already received ${emailsSent} emails with a link to update their card.
+
+--
+Be A Number, International
+Donations - Payment Escalation
+Generated: ${new Date().toISOString()}
+`.trim();
+}
+
 // ============================================================================
 // TOOL IMPLEMENTATION
 // ============================================================================
 
+/**
+ * Send a failed-payment escalation to admin
+ */
+async function sendFailedPaymentEscalation(
+  input: FailedPaymentEscalationInput
+): Promise<ToolResult<SendEscalationNoticeOutput>> {
+  const { invoiceId, subscriptionId, sponsorEmail, amountCents, currency, daysOverdue } = input;
+
+  logger.info('sendEscalationNotice: Starting failed payment escalation', {
+    invoiceId,
+    subscriptionId,
+    sponsorEmail: logger.maskEmail(sponsorEmail),
+    daysOverdue,
+  });
+
+  if (!invoiceId || !subscriptionId || !sponsorEmail) {
+    return {
+      success: false,
+      error: {
+        code: 'invalid_args',
+        message: 'invoiceId, subscriptionId and sponsorEmail are required',
+      },
+    };
+  }
+
+  if (daysOverdue < 0) {
+    return {
+      success: false,
+      error: {
+        code: 'invalid_args',
+        message: 'daysOverdue must not be negative',
+      },
+    };
+  }
+
+  try {
+    const subject = `🚨 ESCALATION: Sponsor payment still failing (${daysOverdue} days) - ${formatAmount(amountCents, currency)}`;
+
+    // Always send to admin
+    const result = await sendEmail({
+      to: { email: ROLE_EMAILS.ADMIN, name: 'Be A Number Admin' },
+      subject,
+      html: generatePaymentEscalationHtml(input),
+      text: generatePaymentEscalationText(input),
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: 'gmail_error',
+          message: result.error || 'Failed to send email',
+        },
+      };
+    }
+
+    logger.info('sendEscalationNotice: Sent', {
+      escalatedTo: ROLE_EMAILS.ADMIN,
+      invoiceId,
+      daysOverdue,
+      messageId: result.data?.messageId,
+    });
+
+    return {
+      success: true,
+      data: {
+        messageId: result.data?.messageId,
+        escalatedTo: ROLE_EMAILS.ADMIN,
+        daysOverdue,
+      },
+    };
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+
+    logger.error('sendEscalationNotice: Failed', error, { invoiceId });
+
+    return {
+      success: false,
+      error: {
+        code: 'gmail_error',
+        message: err.message || 'Failed to send escalation notice',
+      },
+    };
+  }
+}
+
 /**
  * Send an escalation notice to admin
  *
- * Called when updates remain missing after the deadline.
+ * Called when updates remain missing after the deadline, or (kind
+ * 'failed_payment') when the payment dunning sequence has run out.
  * Always sends to admin@beanumber.org.
  *
- * @param input - Contains period, responsible role, missing count, and details
+ * @param input - Overdue update details, or the failed payment details
  * @returns Message ID and escalation details
  */
 export async function sendEscalationNoticeTool(
   input: SendEscalationNoticeInput
 ): Promise<ToolResult<SendEscalationNoticeOutput>> {
+  if (input.kind === 'failed_payment') {
+    return sendFailedPaymentEscalation(input);
+  }
+
   const { periodOrTerm, sourceType, responsibleRole, missingCount, missingChildIds, daysOverdue } = input;
 
   logger.info('sendEscalationNotice: Starting', {
@@ -18,6 +18,16 @@ export {
   publishUpdateTool,
   type PublishUpdateInput,
   type PublishUpdateOutput,
+  publishUpdateVersionTool,
+  type PublishUpdateVersionToolInput,
+  type PublishUpdateVersionOutput,
+  getUpdateVersionsTool,
+  type GetUpdateVersionsInput,
+  type GetUpdateVersionsOutput,
+  listSafeguardingRulesTool,
+  saveSafeguardingRuleTool,
+  type ListSafeguardingRulesOutput,
+  type SaveSafeguardingRuleOutput,
   listOverdueTool,
   type ListOverdueInput,
   type ListOverdueOutput,
@@ -60,6 +70,15 @@ export {
   createSponsorshipTool,
   type CreateSponsorshipInput,
   type CreateSponsorshipOutput,
+  startSponsorshipCheckoutTool,
+  type StartSponsorshipCheckoutInput,
+  type StartSponsorshipCheckoutOutput,
+  completeSponsorshipCheckoutTool,
+  type CompleteSponsorshipCheckoutInput,
+  type CompleteSponsorshipCheckoutOutput,
+  releaseSponsorshipCheckoutTool,
+  type ReleaseSponsorshipCheckoutInput,
+  type ReleaseSponsorshipCheckoutOutput,
 } from './sponsors';
 
 // Donation tools
@@ -72,6 +91,70 @@ export {
   type ReconcileSubscriptionsOutput,
   type SubscriptionMismatch,
   type MismatchType,
+  startPaymentDunningTool,
+  type StartPaymentDunningInput,
+  type StartPaymentDunningOutput,
+  runPaymentDunningTool,
+  type RunPaymentDunningInput,
+  type RunPaymentDunningOutput,
+  stopPaymentDunningTool,
+  type StopPaymentDunningInput,
+  type StopPaymentDunningOutput,
+  type DunningCaseResult,
+  sendYearEndStatementsTool,
+  type SendYearEndStatementsInput,
+  type SendYearEndStatementsOutput,
+  type YearEndStatementResult,
+  getDonorGivingTool,
+  type GetDonorGivingInput,
+  type GetDonorGivingOutput,
+  getDonorReceiptTool,
+  type GetDonorReceiptInput,
+  type GetDonorReceiptOutput,
+  updateDonorAddressTool,
+  type UpdateDonorAddressInput,
+  type UpdateDonorAddressOutput,
+  createDonorBillingPortalTool,
+  type CreateDonorBillingPortalInput,
+  type CreateDonorBillingPortalOutput,
+  getFundLedgerTool,
+  type GetFundLedgerInput,
+  type GetFundLedgerOutput,
+  recordFundAllocationTool,
+  type RecordFundAllocationInput,
+  type RecordFundAllocationOutput,
+  getCampaignProgressTool,
+  type GetCampaignProgressInput,
+  type GetCampaignProgressOutput,
+  listCampaignsTool,
+  type ListCampaignsOutput,
+  createCampaignTool,
+  type CreateCampaignInput,
+  updateCampaignTool,
+  type UpdateCampaignInput,
+  type SaveCampaignOutput,
+  recordOfflineGiftTool,
+  type RecordOfflineGiftInput,
+  type RecordOfflineGiftOutput,
+  exportAccountingTool,
+  type ExportAccountingInput,
+  type ExportAccountingOutput,
+  findDuplicateDonorsTool,
+  type FindDuplicateDonorsInput,
+  type FindDuplicateDonorsOutput,
+  mergeDonorsTool,
+  type MergeDonorsInput,
+  undoDonorMergeTool,
+  type UndoDonorMergeInput,
+  type DonorMergeOutput,
+  listDonorMergesTool,
+  type ListDonorMergesOutput,
+  getDonorAnalyticsTool,
+  type GetDonorAnalyticsInput,
+  type GetDonorAnalyticsOutput,
+  exportDonorAnalyticsTool,
+  type ExportDonorAnalyticsInput,
+  type ExportDonorAnalyticsOutput,
 } from './donation';
 
 // Media tools
@@ -104,6 +187,12 @@ export {
   updateChildUpdateStatusTool,
   type UpdateStatusInput,
   type UpdateStatusOutput,
+  getUpdateCorrectionTool,
+  type GetUpdateCorrectionInput,
+  type GetUpdateCorrectionOutput,
+  resubmitChildUpdateTool,
+  type ResubmitChildUpdateInput,
+  type ResubmitChildUpdateOutput,
 } from './children';
 
 // Compliance tools
@@ -3,11 +3,17 @@
  *
  * WAT-compliant tool for uploading media files to Google Drive.
  * Organizes files by child ID in folder structure.
+ *
+ * Images are never stored as uploaded: they are auto-oriented, stripped of
+ * metadata (including GPS) and stored as a web-size JPEG plus a thumbnail.
+ * Image files that cannot be decoded are rejected.
  */
 
 import { logger } from '../../logger';
 import { ValidationResult, success, failure } from '../../validation';
-import { uploadFileToDrive, isDriveConfigured, DriveUploadResult } from '../../googledrive';
+import { uploadFileToDrive, deleteFileFromDrive, isDriveConfigured, DriveUploadResult } from '../../googledrive';
+import { processImage, toJpegFileName } from '../../image-processing';
+import { PHOTO_PROCESSING } from '../../constants';
 
 // ============================================================================
 // INPUT/OUTPUT INTERFACES
@@ -40,6 +46,21 @@ export interface UploadToDriveOutput {
     webViewLink?: string;
     webContentLink?: string;
     folderId: string;
+    /** MIME type as stored (image/jpeg for processed images) */
+    mimeType: string;
+    /** Stored size in bytes */
+    size: number;
+    /** Set for images: processed dimensions */
+    width?: number;
+    height?: number;
+    /** Set for images */
+    thumbnail?: {
+      fileId: string;
+      fileName: string;
+      webContentLink?: string;
+      width: number;
+      height: number;
+    };
   };
   error?: string;
 }
@@ -168,12 +189,64 @@ export async function uploadToDriveTool(
       contentBuffer = content;
     }
 
-    // Upload to Drive
+    // Non-image media is stored as uploaded
+    if (!mimeType.startsWith('image/')) {
+      const result: DriveUploadResult = await uploadFileToDrive({
+        childId,
+        fileName,
+        mimeType,
+        content: contentBuffer,
+        description,
+      });
+
+      if (!result.success) {
+        logger.error('Drive upload failed', { error: result.error });
+        return {
+          success: false,
+          error: result.error,
+        };
+      }
+
+      // 4. Log success
+      logger.info('File uploaded to Drive', {
+        fileId: result.data?.fileId,
+        fileName: result.data?.fileName,
+        childId,
+      });
+
+      // 5. Return structured output
+      return {
+        success: true,
+        data: {
+          fileId: result.data!.fileId,
+          fileName: result.data!.fileName,
+          webViewLink: result.data?.webViewLink,
+          webContentLink: result.data?.webContentLink,
+          folderId: result.data!.parentFolderId,
+          mimeType,
+          size: contentBuffer.length,
+        },
+      };
+    }
+
+    // Images: strip metadata, orient and resize before anything is stored
+    const processed = await processImage(contentBuffer);
+    if (!processed.success) {
+      logger.warn('upload-to-drive rejected image', { childId, fileName, error: processed.error });
+      return {
+        success: false,
+        error: processed.error,
+      };
+    }
+
+    const { web, thumbnail } = processed.data!;
+    const storedName = toJpegFileName(fileName);
+
     const result: DriveUploadResult = await uploadFileToDrive({
       childId,
-      fileName,
-      mimeType,
-      content: contentBuffer,
+      fileName: storedName,
+      mimeType: processed.data!.mimeType,
+      content: web.content,
       description,
     });
 
@@ -185,10 +258,32 @@ export async function uploadToDriveTool(
       };
     }
 
+    const thumbnailResult: DriveUploadResult = await uploadFileToDrive({
+      childId,
+      fileName: `${PHOTO_PROCESSING.THUMBNAIL_PREFIX}${storedName}`,
+      mimeType: processed.data!.mimeType,
+      content: thumbnail.content,
+      description: description ? `Thumbnail: ${description}` : undefined,
+    });
+
+    if (!thumbnailResult.success) {
+      // Don't leave a photo without its thumbnail
+      logger.error('Drive thumbnail upload failed', { error: thumbnailResult.error });
+      await deleteFileFromDrive(result.data!.fileId);
+      return {
+        success: false,
+        error: thumbnailResult.error,
+      };
+    }
+
     // 4. Log success
-    logger.info('File uploaded to Drive', {
+    logger.info('Image processed and uploaded to Drive', {
       fileId: result.data?.fileId,
+      thumbnailFileId: thumbnailResult.data?.fileId,
       fileName: result.data?.fileName,
+      sourceFormat: processed.data!.sourceFormat,
+      originalBytes: contentBuffer.length,
+      storedBytes: web.size,
       childId,
     });
 
@@ -201,6 +296,17 @@ export async function uploadToDriveTool(
         webViewLink: result.data?.webViewLink,
         webContentLink: result.data?.webContentLink,
         folderId: result.data!.parentFolderId,
+        mimeType: processed.data!.mimeType,
+        size: web.size,
+        width: web.width,
+        height: web.height,
+        thumbnail: {
+          fileId: thumbnailResult.data!.fileId,
+          fileName: thumbnailResult.data!.fileName,
+          webContentLink: thumbnailResult.data?.webContentLink,
+          width: thumbnail.width,
+          height: thumbnail.height,
+        },
       },
     };
   } catch (error) {
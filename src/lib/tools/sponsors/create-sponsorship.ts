@@ -9,6 +9,7 @@ import { logger } from '../../logger';
 import { ValidationResult, success, failure } from '../../validation';
 import { assignSponsorToChild, getSponsorshipById } from '../../database';
 import { VALIDATION, SPONSOR_CODE_PATTERN, SPONSORSHIP_STATUS } from '../../constants';
+import type { AuditContext } from '../../audit';
 
 // ============================================================================
 // INPUT/OUTPUT INTERFACES
@@ -24,6 +25,8 @@ export interface CreateSponsorshipInput {
   sponsorEmail: string;
   /** Sponsor's full name */
   sponsorName?: string;
+  /** Stripe subscription that funds this sponsorship (enables pause/end on billing events) */
+  stripeSubscriptionId?: string;
 }
 
 /**
@@ -76,17 +79,26 @@ function validateInput(input: unknown): ValidationResult<CreateSponsorshipInput>
     return failure('Invalid input: sponsorName must be a string');
   }
 
+  // Validate optional stripeSubscriptionId
+  if (
+    obj.stripeSubscriptionId !== undefined &&
+    (typeof obj.stripeSubscriptionId !== 'string' || !obj.stripeSubscriptionId.startsWith('sub_'))
+  ) {
+    return failure('Invalid input: stripeSubscriptionId must be a Stripe subscription ID (sub_...)');
+  }
+
   return success({
     recordId: obj.recordId.trim(),
     sponsorEmail: obj.sponsorEmail.trim().toLowerCase(),
     sponsorName: obj.sponsorName ? (obj.sponsorName as string).trim() : undefined,
+    stripeSubscriptionId: obj.stripeSubscriptionId as string | undefined,
   });
 }
 
 /**
  * Generate a unique sponsor code
  */
-function generateSponsorCode(): string {
+export function generateSponsorCode(): string {
   const year = new Date().getFullYear();
   const randomNum = Math.floor(Math.random() * 900) + 100; // 100-999
   return `BAN-${year}-${randomNum}`;
@@ -100,6 +112,7 @@ function generateSponsorCode(): string {
  * Create a sponsorship by assigning a sponsor to an available child
  *
  * @param input - Sponsorship details
+ * @param audit - Who is creating the sponsorship (recorded in the audit log)
  * @returns Created sponsorship information including sponsor code
  *
  * @example
@@ -110,7 +123,8 @@ function generateSponsorCode(): string {
  * });
  */
 export async function createSponsorshipTool(
-  input: unknown
+  input: unknown,
+  audit?: AuditContext
 ): Promise<CreateSponsorshipOutput> {
   // 1. Validate input
   const validated = validateInput(input);
@@ -122,7 +136,7 @@ export async function createSponsorshipTool(
     };
   }
 
-  const { recordId, sponsorEmail, sponsorName } = validated.data!;
+  const { recordId, sponsorEmail, sponsorName, stripeSubscriptionId } = validated.data!;
 
   // 2. Execute action
   try {
@@ -149,6 +163,15 @@ export async function createSponsorshipTool(
       };
     }
 
+    // Check if a sponsor is paying for this child in Stripe Checkout right now
+    const holdExpiresAt = existingRecord.fields.CheckoutHoldExpiresAt;
+    if (holdExpiresAt && new Date(holdExpiresAt) > new Date()) {
+      return {
+        success: false,
+        error: `This child is held for a checkout in progress until ${holdExpiresAt}`,
+      };
+    }
+
     // Generate unique sponsor code
     const sponsorCode = generateSponsorCode();
 
@@ -157,7 +180,8 @@ export async function createSponsorshipTool(
       sponsorEmail,
       sponsorName,
       sponsorCode,
-    });
+      stripeSubscriptionId,
+    }, audit);
 
     // 3. Log success
     logger.info('Sponsorship created', {
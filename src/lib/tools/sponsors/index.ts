@@ -16,3 +16,15 @@ export {
   type CreateSponsorshipInput,
   type CreateSponsorshipOutput,
 } from './create-sponsorship';
+
+export {
+  startSponsorshipCheckoutTool,
+  type StartSponsorshipCheckoutInput,
+  type StartSponsorshipCheckoutOutput,
+  completeSponsorshipCheckoutTool,
+  type CompleteSponsorshipCheckoutInput,
+  type CompleteSponsorshipCheckoutOutput,
+  releaseSponsorshipCheckoutTool,
+  type ReleaseSponsorshipCheckoutInput,
+  type ReleaseSponsorshipCheckoutOutput,
+} from './sponsorship-checkout';
@@ -0,0 +1,572 @@
+/**
+ * Sponsorship Checkout Tools
+ *
+ * WAT-compliant tools for sponsoring a specific child through Stripe Checkout.
+ * Starting a checkout holds the child for the length of the session so no one
+ * else can choose them; a completed checkout assigns the sponsor and sends the
+ * welcome email, and an expired or abandoned one releases the hold.
+ */
+
+import type Stripe from 'stripe';
+import { logger } from '../../logger';
+import { ValidationResult, success, failure } from '../../validation';
+import {
+  getSponsorshipById,
+  holdChildForCheckout,
+  setChildCheckoutHoldExpiry,
+  releaseChildCheckoutHold,
+  assignSponsorToChild,
+} from '../../database';
+import { getStripe } from '../../stripe-webhook';
+import { getSponsorshipMonthlyAmountCents } from '../../env';
+import {
+  DONATION_FUNDS,
+  ERROR_MESSAGES,
+  ORGANIZATION,
+  ROUTES,
+  SPONSORSHIP_CHECKOUT,
+  SPONSORSHIP_STATUS,
+  STRIPE,
+  VALIDATION,
+} from '../../constants';
+import type { AuditContext } from '../../audit';
+import { sendSponsorWelcomeTool } from '../email';
+import { generateSponsorCode } from './create-sponsorship';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Input schema for starting a sponsorship checkout
+ */
+export interface StartSponsorshipCheckoutInput {
+  /** Record ID of the child's placeholder sponsorship */
+  recordId: string;
+  /** Prefills the checkout email; Stripe asks for it otherwise */
+  sponsorEmail?: string;
+}
+
+/**
+ * Output schema for starting a sponsorship checkout
+ */
+export interface StartSponsorshipCheckoutOutput {
+  success: boolean;
+  data?: {
+    sessionId: string;
+    url: string;
+    childName: string;
+    amountCents: number;
+    holdExpiresAt: string;
+  };
+  error?: string;
+}
+
+/**
+ * Input schema for completing a sponsorship checkout
+ */
+export interface CompleteSponsorshipCheckoutInput {
+  /** Record ID of the child's placeholder sponsorship */
+  recordId: string;
+  /** Hold taken when the checkout started */
+  holdId: string;
+  /** Stripe subscription created by the checkout */
+  stripeSubscriptionId: string;
+  /** Sponsor's email address */
+  sponsorEmail: string;
+  /** Sponsor's full name */
+  sponsorName?: string;
+}
+
+/**
+ * Output schema for completing a sponsorship checkout
+ *
+ * `unavailable` means the child was sponsored by someone else after this
+ * checkout's hold lapsed; the subscription is left running for an admin to
+ * resolve.
+ */
+export interface CompleteSponsorshipCheckoutOutput {
+  success: boolean;
+  data?: {
+    status: 'assigned' | 'already_assigned' | 'unavailable';
+    childId: string;
+    childName: string;
+    sponsorCode?: string;
+    welcomeEmailSent: boolean;
+  };
+  error?: string;
+}
+
+/**
+ * Input schema for releasing a checkout hold
+ */
+export interface ReleaseSponsorshipCheckoutInput {
+  /** Record ID of the child's placeholder sponsorship */
+  recordId: string;
+  /** Hold taken when the checkout started */
+  holdId: string;
+  /** The abandoned Checkout session; expired so it can no longer be paid */
+  sessionId: string;
+}
+
+/**
+ * Output schema for releasing a checkout hold
+ */
+export interface ReleaseSponsorshipCheckoutOutput {
+  success: boolean;
+  data?: {
+    /** False if the hold had already ended or been replaced, or the checkout was paid */
+    released: boolean;
+  };
+  error?: string;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate input for starting a checkout
+ */
+function validateStartInput(input: unknown): ValidationResult<StartSponsorshipCheckoutInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (typeof obj.recordId !== 'string' || !obj.recordId.trim()) {
+    return failure('Invalid input: recordId is required');
+  }
+
+  if (obj.sponsorEmail !== undefined && obj.sponsorEmail !== '') {
+    if (typeof obj.sponsorEmail !== 'string' || !VALIDATION.EMAIL_REGEX.test(obj.sponsorEmail.trim())) {
+      return failure('Invalid input: sponsorEmail must be a valid email address');
+    }
+  }
+
+  return success({
+    recordId: obj.recordId.trim(),
+    sponsorEmail: obj.sponsorEmail ? (obj.sponsorEmail as string).trim().toLowerCase() : undefined,
+  });
+}
+
+/**
+ * Validate input for completing a checkout
+ */
+function validateCompleteInput(input: unknown): ValidationResult<CompleteSponsorshipCheckoutInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (typeof obj.recordId !== 'string' || !obj.recordId.trim()) {
+    return failure('Invalid input: recordId is required');
+  }
+  if (typeof obj.holdId !== 'string' || !obj.holdId.trim()) {
+    return failure('Invalid input: holdId is required');
+  }
+  if (typeof obj.stripeSubscriptionId !== 'string' || !obj.stripeSubscriptionId.startsWith('sub_')) {
+    return failure('Invalid input: stripeSubscriptionId must be a Stripe subscription ID (sub_...)');
+  }
+  if (typeof obj.sponsorEmail !== 'string' || !VALIDATION.EMAIL_REGEX.test(obj.sponsorEmail.trim())) {
+    return failure('Invalid input: sponsorEmail must be a valid email address');
+  }
+  if (obj.sponsorName !== undefined && typeof obj.sponsorName !== 'string') {
+    return failure('Invalid input: sponsorName must be a string');
+  }
+
+  return success({
+    recordId: obj.recordId.trim(),
+    holdId: obj.holdId.trim(),
+    stripeSubscriptionId: obj.stripeSubscriptionId,
+    sponsorEmail: obj.sponsorEmail.trim().toLowerCase(),
+    sponsorName: obj.sponsorName ? (obj.sponsorName as string).trim() || undefined : undefined,
+  });
+}
+
+/**
+ * Validate input for releasing a hold
+ */
+function validateReleaseInput(input: unknown): ValidationResult<ReleaseSponsorshipCheckoutInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (typeof obj.recordId !== 'string' || !obj.recordId.trim()) {
+    return failure('Invalid input: recordId is required');
+  }
+  if (typeof obj.holdId !== 'string' || !obj.holdId.trim()) {
+    return failure('Invalid input: holdId is required');
+  }
+  if (typeof obj.sessionId !== 'string' || !obj.sessionId.trim()) {
+    return failure('Invalid input: sessionId is required');
+  }
+
+  return success({
+    recordId: obj.recordId.trim(),
+    holdId: obj.holdId.trim(),
+    sessionId: obj.sessionId.trim(),
+  });
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTIONS
+// ============================================================================
+
+/**
+ * Hold a child and open a monthly sponsorship checkout for them
+ *
+ * This tool:
+ * 1. Holds the child, failing if they are sponsored or already held
+ * 2. Creates a Stripe Checkout subscription session that expires with the hold
+ * 3. Releases the hold again if the session cannot be created
+ *
+ * The hold outlives the session by SPONSORSHIP_CHECKOUT.HOLD_GRACE_MINUTES so
+ * a completion that is processed late still finds it.
+ *
+ * @param input - The child to sponsor and optional sponsor email
+ * @returns The Checkout URL to redirect the sponsor to
+ */
+export async function startSponsorshipCheckoutTool(input: unknown): Promise<StartSponsorshipCheckoutOutput> {
+  // 1. Validate input
+  const validated = validateStartInput(input);
+  if (!validated.success) {
+    logger.warn('start-sponsorship-checkout validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { recordId, sponsorEmail } = validated.data!;
+
+  try {
+    // 2. Hold the child; the expiry is moved to match the session once it exists
+    const holdMinutes = SPONSORSHIP_CHECKOUT.SESSION_MINUTES + SPONSORSHIP_CHECKOUT.HOLD_GRACE_MINUTES;
+    const holdId = await holdChildForCheckout(recordId, new Date(Date.now() + holdMinutes * 60 * 1000));
+    if (!holdId) {
+      return {
+        success: false,
+        error: ERROR_MESSAGES.CHILD_NOT_AVAILABLE,
+      };
+    }
+
+    const record = await getSponsorshipById(recordId);
+    if (!record) {
+      await releaseChildCheckoutHold(recordId, holdId);
+      return {
+        success: false,
+        error: ERROR_MESSAGES.CHILD_NOT_AVAILABLE,
+      };
+    }
+
+    const childName = record.fields.ChildDisplayName;
+    const amountCents = getSponsorshipMonthlyAmountCents();
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.beanumber.org';
+
+    // Identifies the child and hold on the completed or expired session
+    const metadata = {
+      donation_type: 'sponsorship',
+      fund: DONATION_FUNDS.CHILD_SPONSORSHIP,
+      sponsorship_record_id: recordId,
+      checkout_hold_id: holdId,
+      child_id: record.fields.ChildID,
+    };
+
+    // 3. Create the Checkout session
+    let session: Stripe.Checkout.Session;
+    try {
+      const stripe = await getStripe();
+      // Taken last: Stripe rejects sessions that expire in under 30 minutes
+      const sessionExpiresAt = Date.now() + SPONSORSHIP_CHECKOUT.SESSION_MINUTES * 60 * 1000;
+      session = await stripe.checkout.sessions.create({
+        mode: STRIPE.PAYMENT_MODES.SUBSCRIPTION,
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price_data: {
+              currency: STRIPE.CURRENCY,
+              product_data: {
+                name: `Monthly Sponsorship of ${childName}`,
+                description: `Your monthly sponsorship provides ${childName} with education, healthcare and daily meals through ${ORGANIZATION.LEGAL_NAME}.`,
+              },
+              unit_amount: amountCents,
+              recurring: { interval: 'month' },
+            },
+            quantity: 1,
+          },
+        ],
+        customer_email: sponsorEmail,
+        billing_address_collection: 'required', // Require billing address for tax receipts
+        expires_at: Math.floor(sessionExpiresAt / 1000),
+        success_url: `${siteUrl}${ROUTES.SPONSORSHIP}?checkout=success`,
+        // The session is expired before the hold is released, so it cannot be paid afterwards
+        cancel_url: `${siteUrl}${ROUTES.SPONSORSHIP}?checkout=canceled&child=${encodeURIComponent(recordId)}&hold=${holdId}&session={CHECKOUT_SESSION_ID}`,
+        metadata,
+        subscription_data: { metadata },
+      });
+    } catch (error) {
+      await releaseChildCheckoutHold(recordId, holdId);
+      throw error;
+    }
+
+    if (!session.url) {
+      await releaseChildCheckoutHold(recordId, holdId);
+      throw new Error('Stripe did not return a checkout URL');
+    }
+
+    const holdExpiresAt = new Date(
+      (session.expires_at + SPONSORSHIP_CHECKOUT.HOLD_GRACE_MINUTES * 60) * 1000
+    );
+    await setChildCheckoutHoldExpiry(recordId, holdId, holdExpiresAt);
+
+    // 4. Log result
+    logger.info('Sponsorship checkout started', {
+      recordId,
+      childId: record.fields.ChildID,
+      sessionId: session.id,
+      holdExpiresAt: holdExpiresAt.toISOString(),
+    });
+
+    // 5. Return structured output
+    return {
+      success: true,
+      data: {
+        sessionId: session.id,
+        url: session.url,
+        childName,
+        amountCents,
+        holdExpiresAt: holdExpiresAt.toISOString(),
+      },
+    };
+  } catch (error) {
+    // 6. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('start-sponsorship-checkout failed', error, { recordId });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Assign the sponsor to the child held by a completed checkout
+ *
+ * This tool:
+ * 1. Skips checkouts already applied (Stripe may deliver the event twice)
+ * 2. Assigns the sponsor unless another sponsor took the child after the hold
+ *    lapsed
+ * 3. Sends the sponsor welcome email
+ *
+ * A welcome email that fails to send does not fail the tool.
+ *
+ * @param input - The held child and the sponsor from the checkout
+ * @param audit - Who is creating the sponsorship (recorded in the audit log)
+ * @returns Assignment outcome and sponsor code
+ */
+export async function completeSponsorshipCheckoutTool(
+  input: unknown,
+  audit?: AuditContext
+): Promise<CompleteSponsorshipCheckoutOutput> {
+  // 1. Validate input
+  const validated = validateCompleteInput(input);
+  if (!validated.success) {
+    logger.warn('complete-sponsorship-checkout validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { recordId, holdId, stripeSubscriptionId, sponsorEmail, sponsorName } = validated.data!;
+
+  try {
+    const record = await getSponsorshipById(recordId);
+    if (!record) {
+      return {
+        success: false,
+        error: 'Child record not found',
+      };
+    }
+
+    const { fields } = record;
+
+    // 2. Skip a checkout that was already applied
+    if (fields.StripeSubscriptionId === stripeSubscriptionId) {
+      logger.info('Sponsorship checkout already applied', { recordId, stripeSubscriptionId });
+      return {
+        success: true,
+        data: {
+          status: 'already_assigned',
+          childId: fields.ChildID,
+          childName: fields.ChildDisplayName,
+          sponsorCode: fields.SponsorCode,
+          welcomeEmailSent: false,
+        },
+      };
+    }
+
+    // 3. Make sure the child is still ours to assign
+    const heldByOther =
+      !!fields.CheckoutHoldId &&
+      fields.CheckoutHoldId !== holdId &&
+      !!fields.CheckoutHoldExpiresAt &&
+      new Date(fields.CheckoutHoldExpiresAt) > new Date();
+
+    if (fields.Status !== SPONSORSHIP_STATUS.AWAITING_SPONSOR || heldByOther) {
+      logger.error('Sponsorship checkout completed for a child who is no longer available', undefined, {
+        recordId,
+        childId: fields.ChildID,
+        stripeSubscriptionId,
+        email: logger.maskEmail(sponsorEmail),
+      });
+      return {
+        success: true,
+        data: {
+          status: 'unavailable',
+          childId: fields.ChildID,
+          childName: fields.ChildDisplayName,
+          welcomeEmailSent: false,
+        },
+      };
+    }
+
+    // 4. Assign the sponsor (also clears the hold)
+    const sponsorCode = generateSponsorCode();
+    const updatedRecord = await assignSponsorToChild(recordId, {
+      sponsorEmail,
+      sponsorName,
+      sponsorCode,
+      stripeSubscriptionId,
+    }, audit);
+
+    // 5. Send the welcome email
+    const welcomeResult = await sendSponsorWelcomeTool({
+      sponsorEmail,
+      sponsorName: sponsorName || 'Sponsor',
+      childName: updatedRecord.fields.ChildDisplayName,
+      sponsorCode,
+    });
+
+    if (!welcomeResult.success) {
+      logger.warn('Sponsor welcome email not sent after checkout', {
+        sponsorCode: logger.maskSponsorCode(sponsorCode),
+        error: welcomeResult.error,
+      });
+    }
+
+    // 6. Log success
+    logger.info('Sponsorship checkout completed', {
+      sponsorCode: logger.maskSponsorCode(sponsorCode),
+      childId: updatedRecord.fields.ChildID,
+      stripeSubscriptionId,
+      welcomeEmailSent: welcomeResult.success,
+    });
+
+    // 7. Return structured output
+    return {
+      success: true,
+      data: {
+        status: 'assigned',
+        childId: updatedRecord.fields.ChildID,
+        childName: updatedRecord.fields.ChildDisplayName,
+        sponsorCode,
+        welcomeEmailSent: welcomeResult.success,
+      },
+    };
+  } catch (error) {
+    // 8. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('complete-sponsorship-checkout failed', error, {
+      recordId,
+      stripeSubscriptionId,
+    });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Release the hold taken by an expired or abandoned checkout
+ *
+ * An abandoned session is expired first, so the sponsor cannot go back and
+ * pay for a child who has been freed. A session that was paid keeps its hold.
+ *
+ * Only the matching hold is released, so releasing a stale hold never frees a
+ * child that a newer checkout is holding.
+ *
+ * @param input - The held child, hold ID and Checkout session
+ * @returns Whether a hold was released
+ */
+export async function releaseSponsorshipCheckoutTool(input: unknown): Promise<ReleaseSponsorshipCheckoutOutput> {
+  // 1. Validate input
+  const validated = validateReleaseInput(input);
+  if (!validated.success) {
+    logger.warn('release-sponsorship-checkout validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { recordId, holdId, sessionId } = validated.data!;
+
+  try {
+    // 2. Close the session, which must be the one that took this hold
+    const stripe = await getStripe();
+    const session = await stripe.checkout.sessions.retrieve(sessionId);
+
+    if (
+      session.metadata?.sponsorship_record_id !== recordId ||
+      session.metadata?.checkout_hold_id !== holdId
+    ) {
+      return {
+        success: false,
+        error: 'Checkout session does not match the hold',
+      };
+    }
+
+    if (session.status === 'open') {
+      await stripe.checkout.sessions.expire(sessionId);
+    } else if (session.status === 'complete') {
+      logger.info('Sponsorship checkout was paid, hold kept', { recordId, sessionId });
+      return {
+        success: true,
+        data: { released: false },
+      };
+    }
+
+    // 3. Release the hold
+    const released = await releaseChildCheckoutHold(recordId, holdId);
+
+    // 4. Log result
+    logger.info('Sponsorship checkout hold release', { recordId, sessionId, released });
+
+    // 5. Return structured output
+    return {
+      success: true,
+      data: { released },
+    };
+  } catch (error) {
+    // 6. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('release-sponsorship-checkout failed', error, { recordId, sessionId });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
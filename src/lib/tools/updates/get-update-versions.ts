@@ -0,0 +1,119 @@
+/**
+ * Get Update Versions Tool
+ *
+ * WAT-compliant tool for reviewing the history of a corrected update.
+ * Returns every version of the update, oldest first, each with the fields
+ * that changed from the version before it.
+ */
+
+import { logger } from '../../logger';
+import { ValidationResult, success, failure, validateRequiredString } from '../../validation';
+import { listUpdateVersions, diffUpdateVersions } from '../../update-versions';
+import type { UpdateVersion, UpdateVersionChange } from '../../update-versions';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Input schema for get-update-versions tool
+ */
+export interface GetUpdateVersionsInput {
+  /** ID of any version of the update */
+  updateId: string;
+}
+
+/**
+ * Output schema for get-update-versions tool
+ */
+export interface GetUpdateVersionsOutput {
+  success: boolean;
+  data?: {
+    versions: Array<UpdateVersion & { changes: UpdateVersionChange[] }>;
+  };
+  error?: string;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate tool input
+ * @param input - Raw input to validate
+ * @returns Validated input or error
+ */
+function validateInput(input: unknown): ValidationResult<GetUpdateVersionsInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  const updateIdResult = validateRequiredString(obj.updateId, 'updateId', 1, 100);
+  if (!updateIdResult.success) {
+    return failure(updateIdResult.error!);
+  }
+
+  return success({
+    updateId: updateIdResult.data!,
+  });
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTION
+// ============================================================================
+
+/**
+ * Get every version of an update with the changes between them
+ *
+ * @param input - The ID of any version
+ * @returns Structured result with the versions, oldest first
+ */
+export async function getUpdateVersionsTool(input: unknown): Promise<GetUpdateVersionsOutput> {
+  const validated = validateInput(input);
+  if (!validated.success) {
+    logger.warn('get-update-versions-tool validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { updateId } = validated.data!;
+
+  try {
+    const versions = await listUpdateVersions(updateId);
+
+    if (versions.length === 0) {
+      return {
+        success: false,
+        error: `Update not found: ${updateId}`,
+      };
+    }
+
+    logger.info('get-update-versions-tool completed successfully', {
+      updateId,
+      versionCount: versions.length,
+    });
+
+    return {
+      success: true,
+      data: {
+        versions: versions.map((version, index) => ({
+          ...version,
+          changes: index === 0 ? [] : diffUpdateVersions(versions[index - 1], version),
+        })),
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('get-update-versions-tool unexpected error', error, { updateId });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
@@ -10,6 +10,25 @@ export {
   type PublishUpdateOutput,
 } from './publish-update';
 
+export {
+  publishUpdateVersionTool,
+  type PublishUpdateVersionToolInput,
+  type PublishUpdateVersionOutput,
+} from './publish-update-version';
+
+export {
+  getUpdateVersionsTool,
+  type GetUpdateVersionsInput,
+  type GetUpdateVersionsOutput,
+} from './get-update-versions';
+
+export {
+  listSafeguardingRulesTool,
+  saveSafeguardingRuleTool,
+  type ListSafeguardingRulesOutput,
+  type SaveSafeguardingRuleOutput,
+} from './safeguarding-rules';
+
 export {
   listOverdueTool,
   type ListOverdueInput,
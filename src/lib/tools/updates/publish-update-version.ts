@@ -0,0 +1,315 @@
+/**
+ * Publish Update Version Tool
+ *
+ * WAT-compliant tool for fixing a Published update (a wrong grade, a
+ * mislabeled photo). Publishes a corrected version that supersedes the
+ * original; the original is hidden from sponsors but kept unchanged. The
+ * corrected text goes through the same safeguarding check as publishing.
+ *
+ * Usage in workflows:
+ * - Agent reads workflow instructions
+ * - Agent calls this tool with the update ID and the corrections
+ * - Tool executes deterministically and returns structured result
+ */
+
+import { logger } from '../../logger';
+import {
+  ValidationResult,
+  success,
+  failure,
+  sanitizeString,
+  validateRequiredString,
+  validateUpdateTitle,
+  validateUpdateContent,
+} from '../../validation';
+import { getUpdateById } from '../../database';
+import { publishUpdateVersion } from '../../update-versions';
+import { reviewSafeguarding, parseSafeguardingDecision } from '../../safeguarding';
+import { UPDATE_STATUS } from '../../constants';
+import { normalizeIntakeFields } from '../children/resubmit-child-update';
+import { buildUpdateContent } from '../children/create-child-update';
+import type { UpdatePhoto } from '../../update-versions';
+import type { SafeguardingDecision, SafeguardingFlag } from '../../safeguarding';
+import type { AuditContext } from '../../audit';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Input schema for publish-update-version tool
+ * Anything left out is carried over from the current version.
+ */
+export interface PublishUpdateVersionToolInput {
+  /** The current published version being corrected */
+  updateId: string;
+  title?: string;
+  content?: string;
+  /** The photos to keep, in order, with their labels; URLs must come from the current version */
+  photos?: Array<{ url: string; filename: string }>;
+  /** Corrected form answers (intake updates only); rebuilds the content unless content is given */
+  fields?: Record<string, unknown>;
+  /** How to resolve safeguarding flags: redact the matches or override with a reason */
+  safeguarding?: SafeguardingDecision;
+}
+
+/**
+ * Output schema for publish-update-version tool
+ */
+export interface PublishUpdateVersionOutput {
+  success: boolean;
+  data?: {
+    updateId: string;
+    supersedesUpdateId: string;
+    childId: string;
+    title: string;
+    updatedAt: string;
+    updatedBy: string;
+    safeguardingOutcome: 'clear' | 'redacted' | 'overridden';
+  };
+  error?: string;
+  /** Set when the safeguarding check blocked the correction */
+  safeguardingFlags?: SafeguardingFlag[];
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate tool input
+ * @param input - Raw input to validate
+ * @returns Validated input or error
+ */
+function validateInput(input: unknown): ValidationResult<PublishUpdateVersionToolInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  const updateIdResult = validateRequiredString(obj.updateId, 'updateId', 1, 100);
+  if (!updateIdResult.success) {
+    return failure(updateIdResult.error!);
+  }
+
+  const validated: PublishUpdateVersionToolInput = { updateId: updateIdResult.data! };
+
+  if (obj.title !== undefined) {
+    const titleResult = validateUpdateTitle(obj.title);
+    if (!titleResult.success) {
+      return failure(titleResult.error!);
+    }
+    validated.title = titleResult.data!;
+  }
+
+  if (obj.content !== undefined) {
+    const contentResult = validateUpdateContent(obj.content);
+    if (!contentResult.success) {
+      return failure(contentResult.error!);
+    }
+    validated.content = contentResult.data!;
+  }
+
+  if (obj.photos !== undefined) {
+    if (!Array.isArray(obj.photos)) {
+      return failure('photos must be an array');
+    }
+
+    const photos: Array<{ url: string; filename: string }> = [];
+    for (const photo of obj.photos as Array<Record<string, unknown>>) {
+      const url = sanitizeString(photo?.url);
+      const filename = sanitizeString(photo?.filename);
+      if (!url || !filename) {
+        return failure('Each photo needs a url and a filename');
+      }
+      photos.push({ url, filename: filename.slice(0, 200) });
+    }
+    validated.photos = photos;
+  }
+
+  if (obj.fields !== undefined) {
+    if (!obj.fields || typeof obj.fields !== 'object' || Array.isArray(obj.fields)) {
+      return failure('fields must be an object');
+    }
+    validated.fields = obj.fields as Record<string, unknown>;
+  }
+
+  const safeguardingResult = parseSafeguardingDecision(obj.safeguarding);
+  if (!safeguardingResult.success) {
+    return failure(safeguardingResult.error!);
+  }
+  validated.safeguarding = safeguardingResult.data;
+
+  return success(validated);
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTION
+// ============================================================================
+
+/**
+ * Publish a corrected version of a Published update
+ *
+ * @param input - The update to correct and the corrections
+ * @param audit - Admin publishing the correction (recorded as reviewer and in the audit log)
+ * @returns Structured result with the new version or an error
+ *
+ * @example
+ * const result = await publishUpdateVersionTool(
+ *   { updateId: 'rec123abc', fields: { mathGrade: 72 } },
+ *   { actor: 'reviewer@beanumber.org' }
+ * );
+ */
+export async function publishUpdateVersionTool(
+  input: unknown,
+  audit: AuditContext
+): Promise<PublishUpdateVersionOutput> {
+  // 1. Validate input
+  const validated = validateInput(input);
+  if (!validated.success) {
+    logger.warn('publish-update-version-tool validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { updateId, title, content, photos, fields, safeguarding } = validated.data!;
+
+  // 2. Execute action
+  try {
+    logger.debug('publish-update-version-tool executing', { updateId });
+
+    const current = await getUpdateById(updateId);
+    if (!current) {
+      return {
+        success: false,
+        error: `Update not found: ${updateId}`,
+      };
+    }
+
+    if (current.fields.Status !== UPDATE_STATUS.PUBLISHED || current.fields.SupersededBy) {
+      return {
+        success: false,
+        error: current.fields.SupersededBy
+          ? 'This version has already been corrected; correct the newest version instead'
+          : `Only published updates can be corrected (current status: ${current.fields.Status})`,
+      };
+    }
+
+    // Photos can be relabeled, reordered or dropped, but not added
+    const currentPhotos: UpdatePhoto[] = current.fields.Photos || [];
+    let nextPhotos = currentPhotos;
+    if (photos) {
+      nextPhotos = [];
+      for (const photo of photos) {
+        const existing = currentPhotos.find((candidate) => candidate.url === photo.url);
+        if (!existing) {
+          return {
+            success: false,
+            error: 'Photos must come from the update being corrected',
+          };
+        }
+        nextPhotos.push({ ...existing, filename: photo.filename });
+      }
+    }
+
+    let payload = current.fields.Payload || null;
+    if (fields) {
+      if (!payload) {
+        return {
+          success: false,
+          error: 'This update has no form answers; correct its title and content instead',
+        };
+      }
+
+      const normalized = normalizeIntakeFields(payload.sourceType, fields);
+      if ('error' in normalized) {
+        return {
+          success: false,
+          error: normalized.error,
+        };
+      }
+      payload = { ...payload, fields: normalized.fields };
+    }
+
+    const nextTitle = title ?? current.fields.Title;
+    const nextContent = content ?? (fields && payload ? buildUpdateContent(payload.fields) : current.fields.Content);
+
+    const unchanged =
+      nextTitle === current.fields.Title &&
+      nextContent === current.fields.Content &&
+      JSON.stringify(nextPhotos) === JSON.stringify(currentPhotos) &&
+      JSON.stringify(payload) === JSON.stringify(current.fields.Payload || null);
+
+    if (unchanged) {
+      return {
+        success: false,
+        error: 'No changes to publish',
+      };
+    }
+
+    const review = await reviewSafeguarding(
+      { updateId, childId: current.fields.ChildID, sponsorCode: current.fields.SponsorCode },
+      { title: nextTitle, content: nextContent, payload },
+      safeguarding,
+      audit
+    );
+
+    if (!review.allowed) {
+      return {
+        success: false,
+        error: review.message,
+        safeguardingFlags: review.flags,
+      };
+    }
+
+    const checked = review.outcome === 'redacted' ? review.content : { title: nextTitle, content: nextContent, payload };
+
+    const version = await publishUpdateVersion(
+      updateId,
+      { title: checked.title, content: checked.content, photos: nextPhotos, payload: checked.payload },
+      audit
+    );
+
+    if (!version) {
+      return {
+        success: false,
+        error: 'This update was corrected by someone else or is no longer published; reload and try again',
+      };
+    }
+
+    // 3. Log success
+    logger.info('publish-update-version-tool completed successfully', {
+      updateId: version.id,
+      supersedesUpdateId: updateId,
+      childId: version.childId,
+      updatedBy: audit.actor,
+    });
+
+    // 4. Return structured output
+    return {
+      success: true,
+      data: {
+        updateId: version.id,
+        supersedesUpdateId: updateId,
+        childId: version.childId,
+        title: version.title,
+        updatedAt: version.reviewedAt!,
+        updatedBy: audit.actor,
+        safeguardingOutcome: review.outcome,
+      },
+    };
+  } catch (error) {
+    // 5. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('publish-update-version-tool unexpected error', error, { updateId });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
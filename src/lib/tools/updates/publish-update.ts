@@ -14,7 +14,10 @@
 import { logger } from '../../logger';
 import { ValidationResult, success, failure, validateRequiredString } from '../../validation';
 import { publishUpdate, getUpdateById, findSponsorshipBySponsorCode } from '../../database';
+import { reviewSafeguarding, parseSafeguardingDecision } from '../../safeguarding';
+import type { SafeguardingDecision, SafeguardingFlag } from '../../safeguarding';
 import type { AirtableUpdateRecord, AirtableSponsorshipRecord } from '../../types/airtable';
+import type { AuditContext } from '../../audit';
 
 // ============================================================================
 // INPUT/OUTPUT INTERFACES
@@ -26,6 +29,8 @@ import type { AirtableUpdateRecord, AirtableSponsorshipRecord } from '../../type
 export interface PublishUpdateInput {
   /** The Airtable record ID of the update to publish */
   updateId: string;
+  /** How to resolve safeguarding flags: redact the matches or override with a reason */
+  safeguarding?: SafeguardingDecision;
 }
 
 /**
@@ -41,8 +46,12 @@ export interface PublishUpdateOutput {
     sponsorEmail?: string;
     sponsorName?: string;
     publishedAt: string;
+    publishedBy?: string;
+    safeguardingOutcome: 'clear' | 'redacted' | 'overridden';
   };
   error?: string;
+  /** Set when the safeguarding check blocked publishing */
+  safeguardingFlags?: SafeguardingFlag[];
 }
 
 // ============================================================================
@@ -67,8 +76,14 @@ function validateInput(input: unknown): ValidationResult<PublishUpdateInput> {
     return failure(updateIdResult.error!);
   }
 
+  const safeguardingResult = parseSafeguardingDecision(obj.safeguarding);
+  if (!safeguardingResult.success) {
+    return failure(safeguardingResult.error!);
+  }
+
   return success({
     updateId: updateIdResult.data!,
+    safeguarding: safeguardingResult.data,
   });
 }
 
@@ -79,14 +94,15 @@ function validateInput(input: unknown): ValidationResult<PublishUpdateInput> {
 /**
  * Publish an update
  *
- * This tool validates inputs, publishes the update in Airtable,
- * and returns sponsor info for notification purposes.
+ * This tool validates inputs, runs the safeguarding check, publishes the
+ * update in Airtable, and returns sponsor info for notification purposes.
  *
  * @param input - The update ID to publish
+ * @param audit - Admin publishing the update (recorded as reviewer and in the audit log)
  * @returns Structured result with success/failure and data/error
  *
  * @example
- * const result = await publishUpdateTool({ updateId: 'rec123abc' });
+ * const result = await publishUpdateTool({ updateId: 'rec123abc' }, { actor: 'reviewer@beanumber.org' });
  * if (result.success) {
  *   console.log('Published:', result.data?.title);
  *   // Send notification to result.data?.sponsorEmail
@@ -94,7 +110,10 @@ function validateInput(input: unknown): ValidationResult<PublishUpdateInput> {
  *   console.error('Failed:', result.error);
  * }
  */
-export async function publishUpdateTool(input: unknown): Promise<PublishUpdateOutput> {
+export async function publishUpdateTool(
+  input: unknown,
+  audit?: AuditContext
+): Promise<PublishUpdateOutput> {
   // 1. Validate input
   const validated = validateInput(input);
   if (!validated.success) {
@@ -105,7 +124,7 @@ export async function publishUpdateTool(input: unknown): Promise<PublishUpdateOu
     };
   }
 
-  const { updateId } = validated.data!;
+  const { updateId, safeguarding } = validated.data!;
 
   // 2. Execute action
   try {
@@ -128,8 +147,36 @@ export async function publishUpdateTool(input: unknown): Promise<PublishUpdateOu
       };
     }
 
+    // Sponsor-facing text must pass the safeguarding check
+    const review = await reviewSafeguarding(
+      {
+        updateId,
+        childId: existingUpdate.fields.ChildID,
+        sponsorCode: existingUpdate.fields.SponsorCode,
+      },
+      {
+        title: existingUpdate.fields.Title,
+        content: existingUpdate.fields.Content,
+        payload: existingUpdate.fields.Payload || null,
+      },
+      safeguarding,
+      audit
+    );
+
+    if (!review.allowed) {
+      return {
+        success: false,
+        error: review.message,
+        safeguardingFlags: review.flags,
+      };
+    }
+
     // Publish the update
-    const publishedUpdate = await publishUpdate(updateId);
+    const publishedUpdate = await publishUpdate(
+      updateId,
+      audit,
+      review.outcome === 'redacted' ? review.content : undefined
+    );
 
     // Get sponsor info if sponsor code exists
     let sponsorInfo: AirtableSponsorshipRecord | null = null;
@@ -143,6 +190,7 @@ export async function publishUpdateTool(input: unknown): Promise<PublishUpdateOu
       childId: publishedUpdate.fields.ChildID,
       title: publishedUpdate.fields.Title,
       sponsorCode: publishedUpdate.fields.SponsorCode,
+      publishedBy: audit?.actor,
     });
 
     // 4. Return structured output
@@ -156,6 +204,8 @@ export async function publishUpdateTool(input: unknown): Promise<PublishUpdateOu
         sponsorEmail: sponsorInfo?.fields.SponsorEmail,
         sponsorName: sponsorInfo?.fields.SponsorName,
         publishedAt: publishedUpdate.fields.PublishedAt!,
+        publishedBy: publishedUpdate.fields.ReviewedBy,
+        safeguardingOutcome: review.outcome,
       },
     };
   } catch (error) {
@@ -0,0 +1,198 @@
+/**
+ * Safeguarding Rule Tools
+ *
+ * WAT-compliant tools for the terms and patterns the pre-publish safeguarding
+ * check looks for. Lists the built-in and configured rules, and creates or
+ * edits configured ones (e.g. a village name that keeps appearing).
+ */
+
+import { logger } from '../../logger';
+import { ValidationResult, success, failure } from '../../validation';
+import { SAFEGUARDING } from '../../constants';
+import {
+  listSafeguardingRules,
+  saveSafeguardingRule,
+  validateSafeguardingPattern,
+} from '../../safeguarding';
+import type {
+  ConfiguredSafeguardingRule,
+  SafeguardingCategory,
+  SaveSafeguardingRuleInput,
+} from '../../safeguarding';
+import type { AuditContext } from '../../audit';
+
+// ============================================================================
+// INPUT/OUTPUT INTERFACES
+// ============================================================================
+
+/**
+ * Output schema for the rule list
+ */
+export interface ListSafeguardingRulesOutput {
+  success: boolean;
+  data?: {
+    /** Rules that always apply; not editable */
+    builtIn: Array<{ id: string; label: string; category: SafeguardingCategory }>;
+    configured: ConfiguredSafeguardingRule[];
+  };
+  error?: string;
+}
+
+/**
+ * Output schema for saving a rule
+ */
+export interface SaveSafeguardingRuleOutput {
+  success: boolean;
+  data?: {
+    rule: ConfiguredSafeguardingRule;
+  };
+  error?: string;
+}
+
+const MAX_LABEL_LENGTH = 120;
+const MAX_PATTERN_LENGTH = 500;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate save input
+ * Terms are plain text matched as whole words; isRegex marks a regular expression.
+ */
+function validateSaveInput(input: unknown): ValidationResult<SaveSafeguardingRuleInput> {
+  if (!input || typeof input !== 'object') {
+    return failure('Invalid input: expected an object');
+  }
+
+  const obj = input as Record<string, unknown>;
+
+  if (obj.id !== undefined && (typeof obj.id !== 'string' || !obj.id.trim())) {
+    return failure('Invalid input: id must be a rule id');
+  }
+
+  if (typeof obj.label !== 'string' || !obj.label.trim() || obj.label.trim().length > MAX_LABEL_LENGTH) {
+    return failure(`Invalid input: label must be 1-${MAX_LABEL_LENGTH} characters`);
+  }
+
+  if (typeof obj.category !== 'string' || !(SAFEGUARDING.CATEGORIES as readonly string[]).includes(obj.category)) {
+    return failure(`Invalid input: category must be one of: ${SAFEGUARDING.CATEGORIES.join(', ')}`);
+  }
+
+  if (obj.isRegex !== undefined && typeof obj.isRegex !== 'boolean') {
+    return failure('Invalid input: isRegex must be a boolean');
+  }
+
+  if (obj.active !== undefined && typeof obj.active !== 'boolean') {
+    return failure('Invalid input: active must be a boolean');
+  }
+
+  if (typeof obj.pattern !== 'string' || obj.pattern.length > MAX_PATTERN_LENGTH) {
+    return failure(`Invalid input: pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+  }
+
+  const isRegex = obj.isRegex === true;
+  const pattern = isRegex ? obj.pattern : obj.pattern.trim();
+  const patternError = validateSafeguardingPattern(pattern, isRegex);
+  if (patternError) {
+    return failure(`Invalid input: ${patternError}`);
+  }
+
+  return success({
+    id: typeof obj.id === 'string' ? obj.id.trim() : undefined,
+    label: obj.label.trim(),
+    category: obj.category as SafeguardingCategory,
+    pattern,
+    isRegex,
+    active: obj.active !== false,
+  });
+}
+
+// ============================================================================
+// MAIN TOOL FUNCTIONS
+// ============================================================================
+
+/**
+ * List the built-in and configured safeguarding rules
+ *
+ * @returns Built-in rules, then configured rules with active ones first
+ */
+export async function listSafeguardingRulesTool(): Promise<ListSafeguardingRulesOutput> {
+  try {
+    // 1. Load configured rules
+    const configured = await listSafeguardingRules();
+
+    // 2. Return structured output
+    return {
+      success: true,
+      data: {
+        builtIn: SAFEGUARDING.RULES.map(({ id, label, category }) => ({ id, label, category })),
+        configured,
+      },
+    };
+  } catch (error) {
+    // 3. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('list-safeguarding-rules failed', error);
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Create a safeguarding rule, or edit one when an id is given
+ *
+ * @param input - Label, category, pattern, and whether it is a regular expression or active
+ * @param audit - Admin saving the rule
+ * @returns The saved rule
+ */
+export async function saveSafeguardingRuleTool(
+  input: unknown,
+  audit: AuditContext
+): Promise<SaveSafeguardingRuleOutput> {
+  // 1. Validate input
+  const validated = validateSaveInput(input);
+  if (!validated.success) {
+    logger.warn('save-safeguarding-rule validation failed', { error: validated.error });
+    return {
+      success: false,
+      error: validated.error,
+    };
+  }
+
+  const { id } = validated.data!;
+
+  try {
+    // 2. Save the rule (audited)
+    const rule = await saveSafeguardingRule(validated.data!, audit);
+    if (!rule) {
+      return {
+        success: false,
+        error: 'Safeguarding rule not found',
+      };
+    }
+
+    // 3. Log result
+    logger.info('Safeguarding rule saved', { ruleId: rule.id, created: !id, active: rule.active, admin: audit.actor });
+
+    // 4. Return structured output
+    return {
+      success: true,
+      data: { rule },
+    };
+  } catch (error) {
+    // 5. Handle errors gracefully
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error('save-safeguarding-rule failed', error, { ruleId: id });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
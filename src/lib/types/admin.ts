@@ -0,0 +1,34 @@
+/**
+ * Admin account types
+ * Named admin users replace the single shared ADMIN_API_TOKEN.
+ */
+
+import type { ADMIN_ROLES } from '../constants';
+
+// ============================================================================
+// ROLES
+// ============================================================================
+
+/**
+ * Admin role
+ * - owner: Full access, including every route below
+ * - reviewer: Reviews, publishes and rejects updates; notifies sponsors
+ * - field_coordinator: Submits updates and child update intake
+ * - finance: Reconciliation and sponsorship creation
+ * - read_only: View-only access to admin GET endpoints
+ */
+export type AdminRole = (typeof ADMIN_ROLES)[keyof typeof ADMIN_ROLES];
+
+// ============================================================================
+// ADMIN USERS
+// ============================================================================
+
+/**
+ * Authenticated admin user (token hash is never exposed)
+ */
+export interface AdminUser {
+  id: string;
+  name: string;
+  email: string;
+  role: AdminRole;
+}
@@ -3,6 +3,8 @@
  * These types ensure type safety across the application
  */
 
+import type { StoredUpdatePayload } from './child-update';
+
 // ============================================================================
 // SPONSORSHIPS TABLE
 // ============================================================================
@@ -32,6 +34,9 @@ export interface AirtableSponsorshipRecord {
     VisibleToSponsor: boolean;
     LastRequestAt?: string;
     NextRequestEligibleAt?: string;
+    StripeSubscriptionId?: string;
+    CheckoutHoldId?: string;
+    CheckoutHoldExpiresAt?: string;
   };
   createdTime: string;
 }
@@ -58,14 +63,23 @@ export interface AirtableUpdateRecord {
       type: string;
       width?: number;
       height?: number;
+      /** Set for photos processed on upload */
+      thumbnail?: { id: string; url: string; width: number; height: number };
     }>;
-    Status: 'Pending Review' | 'Published' | 'Rejected';
+    Status: 'Pending Review' | 'Published' | 'Rejected' | 'Needs Correction';
     VisibleToSponsor: boolean;
     RequestedBySponsor?: boolean;
     RequestedAt?: string;
     PublishedAt?: string;
     SubmittedBy?: string;
     SubmittedAt?: string;
+    ReviewedBy?: string;
+    ReviewedAt?: string;
+    IntakeSource?: string;
+    Payload?: StoredUpdatePayload;
+    CorrectionNotes?: string;
+    SupersedesUpdate?: string;
+    SupersededBy?: string;
   };
   createdTime: string;
 }
@@ -85,6 +99,7 @@ export interface AirtableDonorRecord {
     'Phone Number'?: string;
     'Mailing Address'?: string;
     'Stripe Customer ID'?: string;
+    'Recurring Status'?: 'Active' | 'Lapsed';
   };
   createdTime: string;
 }
@@ -115,6 +130,22 @@ export interface AirtableDonationRecord {
     State?: string;
     'Postal Code'?: string;
     Country?: string;
+    'Organization Name'?: string;
+    Fund?: string;
+    Campaign?: string;
+    'Tribute Type'?: 'honor' | 'memory';
+    'Honoree Name'?: string;
+    'Tribute Notify Name'?: string;
+    'Tribute Notify Email'?: string;
+    'Tribute Message'?: string;
+    'Payment Method'?: 'Check' | 'Cash' | 'Bank Transfer';
+    'Reference Number'?: string;
+    'Deposit Batch'?: string;
+    'Stripe Fee'?: number;
+    'Refund Date'?: string;
+    'Covered Fee'?: number;
+    'Exchange Rate'?: number;
+    'Base Amount'?: number;
   };
   createdTime: string;
 }
@@ -180,6 +211,8 @@ export interface SponsorUpdate {
     filename: string;
   }>;
   publishedAt?: string;
+  /** When a corrected version replaced the original; unset for first versions */
+  updatedAt?: string;
   submittedBy?: string;
 }
 
@@ -5,6 +5,8 @@
  * These types define the canonical data structures for child updates.
  */
 
+import type { AirtableUpdateRecord } from './airtable';
+
 // ============================================================================
 // SHARED TOOL TYPES
 // ============================================================================
@@ -37,6 +39,12 @@ export type ToolResult<T> =
  */
 export type SourceType = 'field' | 'academic';
 
+/**
+ * Form bridge that submitted an update through the intake endpoint
+ * Identifies which per-source signing credential authenticated the request.
+ */
+export type IntakeSource = 'field-form' | 'academic-form';
+
 /**
  * Status values for child updates (matches Airtable single select)
  * - Draft: Initial state, not yet reviewed
@@ -186,6 +194,42 @@ export interface DriveFileRefs {
   reportCardFileId?: string;
 }
 
+/**
+ * Form answers as sent by the intake forms and the resubmission page
+ * Field forms fill the wellbeing and narrative keys, academic forms the
+ * attendance, grade and comment keys.
+ */
+export interface IntakeUpdateFields {
+  // Field update fields
+  physicalWellbeing?: string;
+  physicalNotes?: string;
+  emotionalWellbeing?: string;
+  emotionalNotes?: string;
+  schoolEngagement?: string;
+  engagementNotes?: string;
+  sponsorNarrative?: string;
+  positiveHighlight?: string;
+  challenge?: string;
+  // Academic update fields
+  attendancePercent?: number;
+  englishGrade?: number;
+  mathGrade?: number;
+  scienceGrade?: number;
+  socialStudiesGrade?: number;
+  teacherComment?: string;
+}
+
+/**
+ * Submission stored with an update, so it can be sent back for correction
+ * and resubmitted with the form prefilled
+ */
+export interface StoredUpdatePayload {
+  sourceType: SourceType;
+  periodOrTerm: string;
+  fields: IntakeUpdateFields;
+  drive?: DriveFileRefs;
+}
+
 /**
  * Full child update record
  */
@@ -243,6 +287,10 @@ export interface CreateChildUpdateInput {
   status: ChildUpdateStatus;
   fields: Partial<FieldUpdatePayload & AcademicUpdatePayload>;
   drive?: DriveFileRefs;
+  /** Processed photos, stored on the update for display */
+  photos?: NonNullable<AirtableUpdateRecord['fields']['Photos']>;
+  /** Form bridge that sent the submission, when received via intake */
+  intakeSource?: IntakeSource;
 }
 
 /**
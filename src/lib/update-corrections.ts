@@ -0,0 +1,397 @@
+/**
+ * Update corrections
+ * A reviewer can send an intake update back to the role that submitted it.
+ * Each request is kept in update_corrections with the reviewer's notes, the
+ * payload as it stood, and the hash of a single-use resubmission token.
+ *
+ * Lifecycle: Pending Review -> Needs Correction -> Pending Review. The
+ * resubmission replaces the update's payload and returns it to the review
+ * queue; the correction rows keep every earlier version and request.
+ */
+
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import { UPDATE_STATUS } from './constants';
+import { recordAuditEvent, AUDIT_ACTIONS } from './audit';
+import type { AuditContext } from './audit';
+import type { StoredUpdatePayload } from './types/child-update';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UpdateCorrection {
+  id: string;
+  updateId: string;
+  notes: string;
+  requestedBy: string;
+  requestedAt: string;
+  expiresAt: string;
+  /** Payload when the correction was requested */
+  previousPayload: StoredUpdatePayload | null;
+  resubmittedAt: string | null;
+  resubmittedPayload: StoredUpdatePayload | null;
+}
+
+/**
+ * An unused, unexpired correction request with the update it belongs to
+ */
+export interface OpenUpdateCorrection {
+  correction: UpdateCorrection;
+  update: {
+    id: string;
+    childId: string;
+    title: string;
+    status: string;
+    submittedBy: string | null;
+    payload: StoredUpdatePayload | null;
+  };
+}
+
+export interface RequestUpdateCorrectionInput {
+  updateId: string;
+  notes: string;
+  tokenHash: string;
+  expiresAt: string;
+}
+
+export interface ResubmitUpdateInput {
+  payload: StoredUpdatePayload;
+  title: string;
+  content: string;
+}
+
+interface SupabaseUpdateCorrectionRow {
+  id: string;
+  update_id: string;
+  notes: string;
+  requested_by: string;
+  requested_at: string;
+  expires_at: string;
+  previous_payload: StoredUpdatePayload | null;
+  resubmitted_at: string | null;
+  resubmitted_payload: StoredUpdatePayload | null;
+}
+
+// token_hash is never read back
+const CORRECTION_COLUMNS =
+  'id, update_id, notes, requested_by, requested_at, expires_at, previous_payload, resubmitted_at, resubmitted_payload';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toUpdateCorrection(row: SupabaseUpdateCorrectionRow): UpdateCorrection {
+  return {
+    id: row.id,
+    updateId: row.update_id,
+    notes: row.notes,
+    requestedBy: row.requested_by,
+    requestedAt: row.requested_at,
+    expiresAt: row.expires_at,
+    previousPayload: row.previous_payload,
+    resubmittedAt: row.resubmitted_at,
+    resubmittedPayload: row.resubmitted_payload,
+  };
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Send an update back for correction
+ *
+ * Sets the update to Needs Correction with the reviewer's notes and records
+ * the request. The caller generates the token and emails the link.
+ *
+ * @param audit - Who is asking; the actor is recorded as reviewed_by
+ */
+export async function requestUpdateCorrection(
+  input: RequestUpdateCorrectionInput,
+  audit: AuditContext
+): Promise<UpdateCorrection> {
+  logger.dbQuery('update_corrections', 'request', { updateId: input.updateId, actor: audit.actor });
+
+  const timer = startTimer('requestUpdateCorrection');
+  const now = new Date().toISOString();
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data: before, error: readError } = await supabase
+      .from('updates')
+      .select('*')
+      .eq('id', input.updateId)
+      .single();
+
+    if (readError || !before) {
+      timer.end();
+      logger.dbError('updates', 'request', readError);
+      throw new DatabaseError('Failed to read update');
+    }
+
+    const { data: after, error: updateError } = await supabase
+      .from('updates')
+      .update({
+        status: UPDATE_STATUS.NEEDS_CORRECTION,
+        correction_notes: input.notes,
+        reviewed_by: audit.actor,
+        reviewed_at: now,
+      })
+      .eq('id', input.updateId)
+      .select()
+      .single();
+
+    if (updateError) {
+      timer.end();
+      logger.dbError('updates', 'request', updateError);
+      throw new DatabaseError('Failed to update status');
+    }
+
+    const { data, error } = await supabase
+      .from('update_corrections')
+      .insert({
+        update_id: input.updateId,
+        notes: input.notes,
+        requested_by: audit.actor,
+        requested_at: now,
+        token_hash: input.tokenHash,
+        expires_at: input.expiresAt,
+        previous_payload: before.payload ?? null,
+      })
+      .select(CORRECTION_COLUMNS)
+      .single();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('update_corrections', 'request', error);
+      throw new DatabaseError('Failed to record correction request');
+    }
+
+    const correction = toUpdateCorrection(data as SupabaseUpdateCorrectionRow);
+
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.UPDATE_CORRECTION_REQUESTED,
+        targetTable: 'updates',
+        targetId: input.updateId,
+        childId: before.child_id,
+        sponsorCode: before.sponsor_code,
+        before,
+        after,
+        metadata: { correctionId: correction.id, notes: input.notes },
+      },
+      audit
+    );
+
+    return correction;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('update_corrections', 'request', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Resubmit a corrected update through its emailed link
+ *
+ * Marks the request used only if it is unused and unexpired, so the link
+ * works once, then returns the update to Pending Review with the new
+ * payload. Returns null if the link is invalid or the update is no longer
+ * awaiting correction.
+ */
+export async function resubmitUpdateCorrection(
+  tokenHash: string,
+  input: ResubmitUpdateInput
+): Promise<UpdateCorrection | null> {
+  logger.dbQuery('update_corrections', 'resubmit', {});
+
+  const timer = startTimer('resubmitUpdateCorrection');
+  const now = new Date().toISOString();
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data: claimed, error: claimError } = await supabase
+      .from('update_corrections')
+      .update({ resubmitted_at: now, resubmitted_payload: input.payload })
+      .eq('token_hash', tokenHash)
+      .is('resubmitted_at', null)
+      .gt('expires_at', now)
+      .select(CORRECTION_COLUMNS)
+      .maybeSingle();
+
+    if (claimError) {
+      timer.end();
+      logger.dbError('update_corrections', 'resubmit', claimError);
+      throw new DatabaseError('Failed to verify resubmission link');
+    }
+
+    if (!claimed) {
+      timer.end();
+      return null;
+    }
+
+    const correction = toUpdateCorrection(claimed as SupabaseUpdateCorrectionRow);
+
+    const { data: before } = await supabase
+      .from('updates')
+      .select('*')
+      .eq('id', correction.updateId)
+      .single();
+
+    // The status check keeps a late resubmission from reopening an update
+    // the reviewer has since published or rejected
+    const { data: after, error } = await supabase
+      .from('updates')
+      .update({
+        status: UPDATE_STATUS.PENDING_REVIEW,
+        title: input.title,
+        content: input.content,
+        payload: input.payload,
+        submitted_at: now,
+      })
+      .eq('id', correction.updateId)
+      .eq('status', UPDATE_STATUS.NEEDS_CORRECTION)
+      .select()
+      .maybeSingle();
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('updates', 'resubmit', error);
+      throw new DatabaseError('Failed to resubmit update');
+    }
+
+    if (!after) {
+      logger.warn('Resubmission for an update no longer awaiting correction', {
+        updateId: correction.updateId,
+        correctionId: correction.id,
+      });
+      return null;
+    }
+
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.UPDATE_RESUBMITTED,
+        targetTable: 'updates',
+        targetId: correction.updateId,
+        childId: after.child_id,
+        sponsorCode: after.sponsor_code,
+        before,
+        after,
+        metadata: { correctionId: correction.id },
+      },
+      { actor: after.submitted_by || 'unknown' }
+    );
+
+    return correction;
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('update_corrections', 'resubmit', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * Find the unused, unexpired correction request for a resubmission token
+ */
+export async function findOpenUpdateCorrection(tokenHash: string): Promise<OpenUpdateCorrection | null> {
+  logger.dbQuery('update_corrections', 'findOpen', {});
+
+  const timer = startTimer('findOpenUpdateCorrection');
+  const now = new Date().toISOString();
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('update_corrections')
+      .select(CORRECTION_COLUMNS)
+      .eq('token_hash', tokenHash)
+      .is('resubmitted_at', null)
+      .gt('expires_at', now)
+      .maybeSingle();
+
+    if (error) {
+      timer.end();
+      logger.dbError('update_corrections', 'findOpen', error);
+      throw new DatabaseError('Failed to verify resubmission link');
+    }
+
+    if (!data) {
+      timer.end();
+      return null;
+    }
+
+    const correction = toUpdateCorrection(data as SupabaseUpdateCorrectionRow);
+
+    const { data: update, error: updateError } = await supabase
+      .from('updates')
+      .select('id, child_id, title, status, submitted_by, payload')
+      .eq('id', correction.updateId)
+      .single();
+
+    timer.end();
+
+    if (updateError || !update) {
+      logger.dbError('updates', 'findOpen', updateError);
+      throw new DatabaseError('Failed to read update');
+    }
+
+    return {
+      correction,
+      update: {
+        id: update.id,
+        childId: update.child_id,
+        title: update.title,
+        status: update.status,
+        submittedBy: update.submitted_by,
+        payload: update.payload,
+      },
+    };
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('update_corrections', 'findOpen', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+/**
+ * Every correction requested for an update, oldest first
+ */
+export async function listUpdateCorrections(updateId: string): Promise<UpdateCorrection[]> {
+  logger.dbQuery('update_corrections', 'list', { updateId });
+
+  const timer = startTimer('listUpdateCorrections');
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('update_corrections')
+      .select(CORRECTION_COLUMNS)
+      .eq('update_id', updateId)
+      .order('requested_at', { ascending: true });
+
+    timer.end();
+
+    if (error) {
+      logger.dbError('update_corrections', 'list', error);
+      throw new DatabaseError('Failed to list correction requests');
+    }
+
+    return (data || []).map((row) => toUpdateCorrection(row as SupabaseUpdateCorrectionRow));
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('update_corrections', 'list', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * Update versions
+ * A Published update is never edited in place. To fix one (a wrong grade, a
+ * mislabeled photo) a reviewer publishes a corrected version: a new update
+ * row whose supersedes_update points at the original, while the original
+ * gets superseded_by and is hidden from sponsors.
+ *
+ * Sponsors only see the newest version of each chain. The corrected version
+ * keeps the original's published_at so feeds and overdue tracking don't treat
+ * a correction as a new update; its reviewed_at is when it was corrected.
+ */
+
+import { getSupabaseClient } from './supabase';
+import { logger, startTimer } from './logger';
+import { DatabaseError } from './errors';
+import { UPDATE_STATUS } from './constants';
+import { recordAuditEvent, AUDIT_ACTIONS } from './audit';
+import type { AuditContext } from './audit';
+import type { AirtableUpdateRecord } from './types/airtable';
+import type { StoredUpdatePayload } from './types/child-update';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type UpdatePhoto = NonNullable<AirtableUpdateRecord['fields']['Photos']>[number];
+
+export interface UpdateVersion {
+  id: string;
+  childId: string;
+  sponsorCode: string | null;
+  title: string;
+  content: string;
+  photos: UpdatePhoto[];
+  payload: StoredUpdatePayload | null;
+  status: string;
+  visibleToSponsor: boolean;
+  publishedAt: string | null;
+  reviewedBy: string | null;
+  /** For a corrected version, when the correction was published */
+  reviewedAt: string | null;
+  supersedesUpdateId: string | null;
+  supersededById: string | null;
+}
+
+/**
+ * One field that differs between two versions, as display text
+ */
+export interface UpdateVersionChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface PublishUpdateVersionInput {
+  title: string;
+  content: string;
+  photos: UpdatePhoto[];
+  payload: StoredUpdatePayload | null;
+}
+
+interface SupabaseUpdateVersionRow {
+  id: string;
+  child_id: string;
+  sponsor_code: string | null;
+  update_type: string;
+  title: string;
+  content: string;
+  photos: UpdatePhoto[] | null;
+  payload: StoredUpdatePayload | null;
+  status: string;
+  visible_to_sponsor: boolean;
+  requested_by_sponsor: boolean | null;
+  requested_at: string | null;
+  published_at: string | null;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  intake_source: string | null;
+  supersedes_update: string | null;
+  superseded_by: string | null;
+}
+
+const VERSION_COLUMNS =
+  'id, child_id, sponsor_code, update_type, title, content, photos, payload, status, visible_to_sponsor, ' +
+  'requested_by_sponsor, requested_at, published_at, submitted_by, submitted_at, reviewed_by, reviewed_at, ' +
+  'intake_source, supersedes_update, superseded_by';
+
+// Guards the chain walk against bad links
+const MAX_VERSIONS = 50;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toUpdateVersion(row: SupabaseUpdateVersionRow): UpdateVersion {
+  return {
+    id: row.id,
+    childId: row.child_id,
+    sponsorCode: row.sponsor_code,
+    title: row.title,
+    content: row.content,
+    photos: row.photos || [],
+    payload: row.payload,
+    status: row.status,
+    visibleToSponsor: row.visible_to_sponsor,
+    publishedAt: row.published_at,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    supersedesUpdateId: row.supersedes_update,
+    supersededById: row.superseded_by,
+  };
+}
+
+async function fetchVersionRow(id: string): Promise<SupabaseUpdateVersionRow | null> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.from('updates').select(VERSION_COLUMNS).eq('id', id).maybeSingle();
+
+  if (error) {
+    logger.dbError('updates', 'getVersion', error);
+    throw new DatabaseError('Failed to read update version');
+  }
+
+  return (data as unknown as SupabaseUpdateVersionRow) || null;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Compare two versions field by field
+ * Photos are compared as their labels; form answers key by key.
+ */
+export function diffUpdateVersions(older: UpdateVersion, newer: UpdateVersion): UpdateVersionChange[] {
+  const changes: UpdateVersionChange[] = [];
+  const push = (field: string, before: unknown, after: unknown) => {
+    if (formatValue(before) !== formatValue(after)) {
+      changes.push({ field, before: formatValue(before), after: formatValue(after) });
+    }
+  };
+
+  push('Title', older.title, newer.title);
+  push('Content', older.content, newer.content);
+  push(
+    'Photos',
+    older.photos.map((photo) => photo.filename).join('\n'),
+    newer.photos.map((photo) => photo.filename).join('\n')
+  );
+
+  const olderFields: Record<string, unknown> = { ...older.payload?.fields };
+  const newerFields: Record<string, unknown> = { ...newer.payload?.fields };
+  for (const key of new Set([...Object.keys(olderFields), ...Object.keys(newerFields)])) {
+    push(key, olderFields[key], newerFields[key]);
+  }
+
+  return changes;
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Publish a corrected version of a Published update
+ *
+ * Inserts the new version hidden from the sponsor, links and hides the
+ * original, then shows the new version, so the sponsor never sees both. If
+ * the original was corrected concurrently the new row is removed again.
+ *
+ * @param audit - Who is correcting; the actor is recorded as reviewed_by
+ * @returns The new version, or null if the original is not the current published version
+ */
+export async function publishUpdateVersion(
+  originalId: string,
+  input: PublishUpdateVersionInput,
+  audit: AuditContext
+): Promise<UpdateVersion | null> {
+  logger.dbQuery('updates', 'publishVersion', { originalId, actor: audit.actor });
+
+  const timer = startTimer('publishUpdateVersion');
+  const now = new Date().toISOString();
+
+  try {
+    const supabase = getSupabaseClient();
+    const original = await fetchVersionRow(originalId);
+
+    if (!original || original.status !== UPDATE_STATUS.PUBLISHED || original.superseded_by) {
+      timer.end();
+      return null;
+    }
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('updates')
+      .insert({
+        child_id: original.child_id,
+        sponsor_code: original.sponsor_code,
+        update_type: original.update_type,
+        title: input.title,
+        content: input.content,
+        photos: input.photos.length > 0 ? input.photos : null,
+        payload: input.payload,
+        status: UPDATE_STATUS.PUBLISHED,
+        // Shown once the original is hidden
+        visible_to_sponsor: false,
+        requested_by_sponsor: original.requested_by_sponsor,
+        requested_at: original.requested_at,
+        published_at: original.published_at,
+        submitted_by: original.submitted_by,
+        submitted_at: original.submitted_at,
+        reviewed_by: audit.actor,
+        reviewed_at: now,
+        intake_source: original.intake_source,
+        supersedes_update: original.id,
+      })
+      .select(VERSION_COLUMNS)
+      .single();
+
+    if (insertError || !inserted) {
+      timer.end();
+      logger.dbError('updates', 'publishVersion', insertError);
+      throw new DatabaseError('Failed to publish corrected version');
+    }
+
+    let version = inserted as unknown as SupabaseUpdateVersionRow;
+
+    // Only the current version can be superseded
+    const { data: superseded, error: linkError } = await supabase
+      .from('updates')
+      .update({ superseded_by: version.id, visible_to_sponsor: false })
+      .eq('id', original.id)
+      .eq('status', UPDATE_STATUS.PUBLISHED)
+      .is('superseded_by', null)
+      .select(VERSION_COLUMNS)
+      .maybeSingle();
+
+    if (linkError || !superseded) {
+      await supabase.from('updates').delete().eq('id', version.id);
+      timer.end();
+
+      if (linkError) {
+        logger.dbError('updates', 'publishVersion', linkError);
+        throw new DatabaseError('Failed to link corrected version');
+      }
+
+      logger.warn('Update was superseded concurrently', { originalId });
+      return null;
+    }
+
+    if (original.visible_to_sponsor) {
+      const { data: shown, error: showError } = await supabase
+        .from('updates')
+        .update({ visible_to_sponsor: true })
+        .eq('id', version.id)
+        .select(VERSION_COLUMNS)
+        .single();
+
+      if (showError || !shown) {
+        // Put the original back rather than leave the sponsor with neither version
+        await supabase
+          .from('updates')
+          .update({ superseded_by: null, visible_to_sponsor: true })
+          .eq('id', original.id);
+        await supabase.from('updates').delete().eq('id', version.id);
+        timer.end();
+        logger.dbError('updates', 'publishVersion', showError);
+        throw new DatabaseError('Failed to show corrected version');
+      }
+
+      version = shown as unknown as SupabaseUpdateVersionRow;
+    }
+
+    timer.end();
+
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTIONS.UPDATE_SUPERSEDED,
+        targetTable: 'updates',
+        targetId: original.id,
+        childId: original.child_id,
+        sponsorCode: original.sponsor_code,
+        before: original as unknown as Record<string, unknown>,
+        after: superseded as unknown as Record<string, unknown>,
+        metadata: { supersededBy: version.id, title: version.title },
+      },
+      audit
+    );
+
+    return toUpdateVersion(version);
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('updates', 'publishVersion', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * List every version of an update, oldest first
+ * Any version's ID finds the whole chain.
+ */
+export async function listUpdateVersions(updateId: string): Promise<UpdateVersion[]> {
+  logger.dbQuery('updates', 'listVersions', { updateId });
+
+  const timer = startTimer('listUpdateVersions');
+
+  try {
+    const start = await fetchVersionRow(updateId);
+    if (!start) {
+      timer.end();
+      return [];
+    }
+
+    const chain = [start];
+
+    while (chain[0].supersedes_update && chain.length < MAX_VERSIONS) {
+      const previous = await fetchVersionRow(chain[0].supersedes_update);
+      if (!previous) break;
+      chain.unshift(previous);
+    }
+
+    while (chain[chain.length - 1].superseded_by && chain.length < MAX_VERSIONS) {
+      const next = await fetchVersionRow(chain[chain.length - 1].superseded_by!);
+      if (!next) break;
+      chain.push(next);
+    }
+
+    timer.end();
+
+    return chain.map(toUpdateVersion);
+  } catch (error) {
+    timer.end();
+    if (error instanceof DatabaseError) throw error;
+    logger.dbError('updates', 'listVersions', error);
+    throw new DatabaseError('Failed to connect to database');
+  }
+}
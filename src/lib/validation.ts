@@ -3,7 +3,9 @@
  * Provides type-safe validation for all user inputs
  */
 
-import { ERROR_MESSAGES, VALIDATION, SPONSOR_CODE_PATTERN } from './constants';
+import { ERROR_MESSAGES, VALIDATION, SPONSOR_CODE_PATTERN, STRIPE, TRIBUTE_TYPES } from './constants';
+import { toMinorUnits } from './currency';
+import type { DonationCurrency } from './currency';
 
 // ============================================================================
 // VALIDATION RESULT TYPE
@@ -205,27 +207,36 @@ export function validateNumber(
 
 /**
  * Validate donation amount
+ * Returns the amount in the currency's smallest unit (cents for USD)
  */
-export function validateDonationAmount(amount: unknown): ValidationResult<number> {
+export function validateDonationAmount(
+  amount: unknown,
+  currency: DonationCurrency = STRIPE.CURRENCY
+): ValidationResult<number> {
+  const limits = currency === STRIPE.CURRENCY ? VALIDATION.DONATION : VALIDATION.DONATION.BY_CURRENCY[currency];
+  const message = currency === STRIPE.CURRENCY
+    ? ERROR_MESSAGES.INVALID_DONATION_AMOUNT
+    : `Donation amount must be between ${limits.MIN_AMOUNT.toLocaleString('en-US')} and ${limits.MAX_AMOUNT.toLocaleString('en-US')} ${currency.toUpperCase()}.`;
+
   const result = validateNumber(
     amount,
     'Donation amount',
-    VALIDATION.DONATION.MIN_AMOUNT,
-    VALIDATION.DONATION.MAX_AMOUNT
+    limits.MIN_AMOUNT,
+    limits.MAX_AMOUNT
   );
 
   if (!result.success) {
-    return failure(ERROR_MESSAGES.INVALID_DONATION_AMOUNT);
+    return failure(message);
   }
 
-  // Ensure it's a positive integer (cents)
-  const cents = Math.round(result.data! * 100);
+  // Ensure it's a positive integer in the smallest unit
+  const minorUnits = toMinorUnits(result.data!, currency);
 
-  if (cents < VALIDATION.DONATION.MIN_AMOUNT * 100) {
-    return failure(ERROR_MESSAGES.INVALID_DONATION_AMOUNT);
+  if (minorUnits < toMinorUnits(limits.MIN_AMOUNT, currency)) {
+    return failure(message);
   }
 
-  return success(cents);
+  return success(minorUnits);
 }
 
 // ============================================================================
@@ -251,6 +262,22 @@ export function validateBoolean(value: unknown): ValidationResult<boolean> {
   return failure('Value must be true or false.');
 }
 
+// ============================================================================
+// DATE VALIDATION
+// ============================================================================
+
+/**
+ * Check for a real calendar date in YYYY-MM-DD form
+ */
+export function isValidDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
 // ============================================================================
 // ENUM VALIDATION
 // ============================================================================
@@ -383,6 +410,63 @@ export function validateDonationRequest(data: unknown): ValidationResult<Donatio
   });
 }
 
+/**
+ * Validate a tribute (gift in honor or in memory of someone)
+ * The notify email is optional; without it no card is sent.
+ */
+export interface TributeRequest {
+  type: (typeof TRIBUTE_TYPES)[keyof typeof TRIBUTE_TYPES];
+  honoreeName: string;
+  notifyName?: string;
+  notifyEmail?: string;
+  message?: string;
+}
+
+export function validateTribute(data: unknown): ValidationResult<TributeRequest> {
+  if (!data || typeof data !== 'object') {
+    return failure('Invalid tribute details.');
+  }
+
+  const obj = data as Record<string, unknown>;
+
+  const typeResult = validateEnum(obj.type, Object.values(TRIBUTE_TYPES), 'Tribute type');
+  if (!typeResult.success) {
+    return failure(typeResult.error!);
+  }
+
+  const honoreeResult = validateRequiredString(obj.honoreeName, 'Honoree name', 1, VALIDATION.TRIBUTE.NAME_MAX_LENGTH);
+  if (!honoreeResult.success) {
+    return failure(honoreeResult.error!);
+  }
+
+  const notifyNameResult = validateOptionalString(obj.notifyName, VALIDATION.TRIBUTE.NAME_MAX_LENGTH);
+  if (!notifyNameResult.success) {
+    return failure(`Recipient name must be no more than ${VALIDATION.TRIBUTE.NAME_MAX_LENGTH} characters long.`);
+  }
+
+  let notifyEmail: string | undefined;
+  if (obj.notifyEmail) {
+    const emailResult = validateEmail(obj.notifyEmail);
+    if (!emailResult.success) {
+      return failure(emailResult.error!);
+    }
+    notifyEmail = emailResult.data;
+  }
+
+  const messageResult = validateOptionalString(obj.message, VALIDATION.TRIBUTE.MESSAGE_MAX_LENGTH);
+  if (!messageResult.success) {
+    return failure(`Tribute message must be no more than ${VALIDATION.TRIBUTE.MESSAGE_MAX_LENGTH} characters long.`);
+  }
+
+  return success({
+    type: typeResult.data!,
+    honoreeName: honoreeResult.data!,
+    notifyName: notifyNameResult.data,
+    notifyEmail,
+    message: messageResult.data,
+  });
+}
+
 /**
  * Validate update submission
  */
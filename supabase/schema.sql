@@ -25,6 +25,9 @@ CREATE TABLE IF NOT EXISTS sponsorships (
   visible_to_sponsor BOOLEAN NOT NULL DEFAULT true,
   last_request_at TIMESTAMPTZ,
   next_request_eligible_at TIMESTAMPTZ,
+  stripe_subscription_id TEXT, -- Subscription funding this sponsorship; billing events pause/end it
+  checkout_hold_id UUID, -- Set while a sponsor is in Stripe Checkout for this child
+  checkout_hold_expires_at TIMESTAMPTZ, -- The child is listed as available again after this
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -35,6 +38,8 @@ CREATE INDEX IF NOT EXISTS idx_sponsorships_sponsor_email ON sponsorships(sponso
 CREATE INDEX IF NOT EXISTS idx_sponsorships_child_id ON sponsorships(child_id);
 CREATE INDEX IF NOT EXISTS idx_sponsorships_auth_status ON sponsorships(auth_status);
 CREATE INDEX IF NOT EXISTS idx_sponsorships_status ON sponsorships(status);
+CREATE INDEX IF NOT EXISTS idx_sponsorships_stripe_subscription_id ON sponsorships(stripe_subscription_id);
+CREATE INDEX IF NOT EXISTS idx_sponsorships_checkout_hold_id ON sponsorships(checkout_hold_id);
 
 -- ============================================================================
 -- UPDATES TABLE
@@ -46,14 +51,21 @@ CREATE TABLE IF NOT EXISTS updates (
   update_type TEXT NOT NULL CHECK (update_type IN ('Progress Report', 'Photo Update', 'Special Note', 'Holiday Greeting', 'Milestone')),
   title TEXT NOT NULL,
   content TEXT NOT NULL,
-  photos JSONB, -- Array of photo objects [{id, url, filename, size, type, width, height}]
-  status TEXT NOT NULL DEFAULT 'Pending Review' CHECK (status IN ('Pending Review', 'Published', 'Rejected')),
+  photos JSONB, -- Array of photo objects [{id, url, filename, size, type, width, height, thumbnail: {id, url, width, height}}]
+  status TEXT NOT NULL DEFAULT 'Pending Review' CHECK (status IN ('Pending Review', 'Published', 'Rejected', 'Needs Correction')),
   visible_to_sponsor BOOLEAN NOT NULL DEFAULT false,
   requested_by_sponsor BOOLEAN DEFAULT false,
   requested_at TIMESTAMPTZ,
   published_at TIMESTAMPTZ,
   submitted_by TEXT,
   submitted_at TIMESTAMPTZ,
+  reviewed_by TEXT, -- Email of the admin user who published or rejected
+  reviewed_at TIMESTAMPTZ,
+  intake_source TEXT, -- Form bridge that submitted via intake ('field-form', 'academic-form')
+  payload JSONB, -- Intake form answers {sourceType, periodOrTerm, fields, drive}; prefills a resubmission
+  correction_notes TEXT, -- Latest reviewer notes when sent back for correction (history in update_corrections)
+  supersedes_update UUID REFERENCES updates(id), -- Published update this version corrects
+  superseded_by UUID REFERENCES updates(id), -- Newer version that replaced this one for sponsors
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -63,6 +75,26 @@ CREATE INDEX IF NOT EXISTS idx_updates_child_id ON updates(child_id);
 CREATE INDEX IF NOT EXISTS idx_updates_sponsor_code ON updates(sponsor_code);
 CREATE INDEX IF NOT EXISTS idx_updates_status ON updates(status);
 CREATE INDEX IF NOT EXISTS idx_updates_published_at ON updates(published_at DESC);
+CREATE INDEX IF NOT EXISTS idx_updates_supersedes_update ON updates(supersedes_update);
+
+-- ============================================================================
+-- UPDATE CORRECTIONS TABLE (updates sent back to the submitting role)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS update_corrections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  update_id UUID NOT NULL REFERENCES updates(id),
+  notes TEXT NOT NULL,
+  requested_by TEXT NOT NULL, -- Email of the reviewer who asked for the correction
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  token_hash TEXT UNIQUE NOT NULL, -- SHA-256 of the emailed resubmission token; the raw token is never stored
+  expires_at TIMESTAMPTZ NOT NULL,
+  previous_payload JSONB, -- Payload as it stood when the correction was requested
+  resubmitted_at TIMESTAMPTZ, -- Set when the link is used; each link works once
+  resubmitted_payload JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_update_corrections_update_id ON update_corrections(update_id);
 
 -- ============================================================================
 -- CHILDREN TABLE
@@ -72,6 +104,7 @@ CREATE TABLE IF NOT EXISTS children (
   child_id TEXT UNIQUE NOT NULL,
   first_name TEXT NOT NULL,
   last_initial TEXT,
+  full_name TEXT, -- Staff-only; never sponsor-facing. The safeguarding check flags it in updates
   status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive', 'paused', 'archived')),
   school_location TEXT,
   grade_class TEXT,
@@ -87,6 +120,23 @@ CREATE TABLE IF NOT EXISTS children (
 CREATE INDEX IF NOT EXISTS idx_children_child_id ON children(child_id);
 CREATE INDEX IF NOT EXISTS idx_children_status ON children(status);
 
+-- ============================================================================
+-- SAFEGUARDING RULES TABLE (extra terms and patterns the publish check flags)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS safeguarding_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  label TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('surname', 'village', 'school', 'phone', 'gps', 'other')),
+  pattern TEXT NOT NULL, -- A term matched as whole words, or a regular expression when is_regex
+  is_regex BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_safeguarding_rules_active ON safeguarding_rules(active);
+
 -- ============================================================================
 -- CHILD UPDATES TABLE (new canonical update system)
 -- ============================================================================
@@ -156,25 +206,29 @@ CREATE TABLE IF NOT EXISTS donors (
   phone_number TEXT,
   mailing_address TEXT,
   stripe_customer_id TEXT,
+  recurring_status TEXT CHECK (recurring_status IN ('Active', 'Lapsed')), -- NULL for one-time donors
+  merged_into_donor_id UUID REFERENCES donors(id), -- Set when this record was merged into another donor as a duplicate
+  airtable_record_id TEXT UNIQUE, -- Airtable Donors record the webhook and offline gift entry write to
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
 CREATE INDEX IF NOT EXISTS idx_donors_email ON donors(email_address);
 CREATE INDEX IF NOT EXISTS idx_donors_stripe_customer_id ON donors(stripe_customer_id);
+CREATE INDEX IF NOT EXISTS idx_donors_merged_into ON donors(merged_into_donor_id);
 
 -- ============================================================================
 -- DONATIONS TABLE
 -- ============================================================================
 CREATE TABLE IF NOT EXISTS donations (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  stripe_payment_intent_id TEXT UNIQUE NOT NULL,
+  stripe_payment_intent_id TEXT UNIQUE NOT NULL, -- Offline gifts use a generated offline_ key
   stripe_checkout_session_id TEXT,
   stripe_customer_id TEXT,
   donation_amount NUMERIC NOT NULL,
   currency TEXT NOT NULL DEFAULT 'usd',
   donation_date DATE NOT NULL,
-  payment_status TEXT NOT NULL CHECK (payment_status IN ('Succeeded', 'Pending', 'Failed', 'Refunded')),
+  payment_status TEXT NOT NULL CHECK (payment_status IN ('Succeeded', 'Pending', 'Failed', 'Refunded', 'Disputed')),
   recurring_donation BOOLEAN DEFAULT false,
   donor_id UUID REFERENCES donors(id),
   donor_email_at_donation TEXT,
@@ -185,6 +239,21 @@ CREATE TABLE IF NOT EXISTS donations (
   state TEXT,
   postal_code TEXT,
   country TEXT,
+  fund TEXT NOT NULL DEFAULT 'general' CHECK (fund IN ('general', 'medical_outreach', 'womens_training', 'child_sponsorship')), -- Designation chosen by the donor
+  campaign TEXT, -- Slug of the campaign the gift was made through
+  tribute_type TEXT CHECK (tribute_type IN ('honor', 'memory')), -- Set when the gift is made in someone's name
+  honoree_name TEXT,
+  tribute_notify_name TEXT, -- Who receives the tribute card (never shown the amount)
+  tribute_notify_email TEXT,
+  tribute_message TEXT,
+  payment_method TEXT CHECK (payment_method IN ('Check', 'Cash', 'Bank Transfer')), -- Offline gifts only; Stripe gifts leave it NULL
+  reference_number TEXT, -- Check number or bank transfer reference
+  deposit_batch TEXT, -- Bank deposit the gift was paid in with
+  stripe_fee NUMERIC, -- Stripe processing fee in the payout currency; NULL for offline gifts and gifts recorded before fees were captured
+  refunded_on DATE, -- Set when the donation is marked Refunded or Disputed (the date the funds were taken back)
+  covered_fee NUMERIC, -- Added by the donor to cover processing fees; charged on top of donation_amount, which is the gift itself
+  exchange_rate NUMERIC, -- Rate Stripe converted the payment to the base currency (usd) at; 1 when charged in it
+  base_amount NUMERIC, -- donation_amount in the base currency; reports add these up. NULL for gifts recorded before multi-currency, which were all usd
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -192,6 +261,192 @@ CREATE TABLE IF NOT EXISTS donations (
 CREATE INDEX IF NOT EXISTS idx_donations_stripe_payment_intent_id ON donations(stripe_payment_intent_id);
 CREATE INDEX IF NOT EXISTS idx_donations_donor_id ON donations(donor_id);
 CREATE INDEX IF NOT EXISTS idx_donations_donation_date ON donations(donation_date DESC);
+CREATE INDEX IF NOT EXISTS idx_donations_donor_email ON donations(donor_email_at_donation);
+CREATE INDEX IF NOT EXISTS idx_donations_fund ON donations(fund, donation_date);
+CREATE INDEX IF NOT EXISTS idx_donations_campaign ON donations(campaign);
+CREATE INDEX IF NOT EXISTS idx_donations_deposit_batch ON donations(deposit_batch);
+
+-- ============================================================================
+-- CAMPAIGNS TABLE (fundraising appeals with a goal and a landing page)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS campaigns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  slug TEXT UNIQUE NOT NULL CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'), -- Used in /campaigns/<slug>
+  title TEXT NOT NULL,
+  description TEXT,
+  goal_amount NUMERIC NOT NULL CHECK (goal_amount > 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL, -- Last day gifts are accepted (inclusive)
+  match_amount NUMERIC CHECK (match_amount > 0), -- Matching pledge cap; null when there is no match
+  match_sponsor TEXT, -- Who pledged the match, shown on the landing page
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ends_on >= starts_on)
+);
+
+-- ============================================================================
+-- FUND ALLOCATIONS TABLE (money spent or committed from a fund, entered by finance)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS fund_allocations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  fund TEXT NOT NULL CHECK (fund IN ('general', 'medical_outreach', 'womens_training', 'child_sponsorship')),
+  amount NUMERIC NOT NULL CHECK (amount <> 0), -- Negative amounts reverse an earlier allocation
+  currency TEXT NOT NULL DEFAULT 'usd',
+  allocated_on DATE NOT NULL,
+  description TEXT NOT NULL,
+  recorded_by TEXT NOT NULL, -- Admin email
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fund_allocations_fund ON fund_allocations(fund, allocated_on);
+
+-- ============================================================================
+-- DONOR MERGES TABLE (duplicate donors merged by an admin; each merge can be undone)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS donor_merges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  survivor_donor_id UUID NOT NULL REFERENCES donors(id), -- Record that was kept
+  merged_donor_id UUID NOT NULL REFERENCES donors(id), -- Duplicate folded into the survivor
+  moved_donation_ids UUID[] NOT NULL DEFAULT '{}', -- Donations re-pointed from the duplicate to the survivor
+  moved_donor_ids UUID[] NOT NULL DEFAULT '{}', -- Earlier duplicates of the duplicate, re-pointed to the survivor
+  filled_fields JSONB NOT NULL DEFAULT '{}'::jsonb, -- Survivor fields that were empty and copied from the duplicate
+  score NUMERIC, -- Match score when merged from the duplicate list
+  merged_by TEXT NOT NULL, -- Admin email
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  undone_by TEXT,
+  undone_at TIMESTAMPTZ,
+  CHECK (survivor_donor_id <> merged_donor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_donor_merges_merged_at ON donor_merges(merged_at DESC);
+CREATE INDEX IF NOT EXISTS idx_donor_merges_survivor ON donor_merges(survivor_donor_id);
+
+-- ============================================================================
+-- STRIPE EVENTS TABLE (webhook idempotency ledger)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY, -- Stripe event ID (evt_...)
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL, -- Full event as received, used for replays
+  payload_hash TEXT NOT NULL, -- SHA-256 of the raw webhook body
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON stripe_events(status);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_received_at ON stripe_events(received_at DESC);
+
+-- ============================================================================
+-- DUNNING CASES TABLE (payment-failed email sequence per failed invoice)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS dunning_cases (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  invoice_id TEXT UNIQUE NOT NULL, -- Stripe invoice whose payment failed (in_...)
+  subscription_id TEXT NOT NULL,
+  customer_id TEXT NOT NULL,
+  email TEXT NOT NULL,
+  name TEXT,
+  amount_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL,
+  schedule_days INTEGER[] NOT NULL, -- Email schedule in effect when the case opened
+  emails_sent INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'recovered', 'escalated', 'canceled')),
+  next_send_at TIMESTAMPTZ, -- Null once every scheduled email has been sent
+  last_sent_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_dunning_cases_due ON dunning_cases(status, next_send_at);
+CREATE INDEX IF NOT EXISTS idx_dunning_cases_subscription_id ON dunning_cases(subscription_id);
+
+-- ============================================================================
+-- SPONSOR LOGIN TOKENS TABLE (passwordless magic-link login)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS sponsor_login_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email TEXT NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL, -- SHA-256 of the emailed token; the raw token is never stored
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sponsor_login_tokens_email ON sponsor_login_tokens(email);
+CREATE INDEX IF NOT EXISTS idx_sponsor_login_tokens_expires_at ON sponsor_login_tokens(expires_at);
+
+-- ============================================================================
+-- DONOR LOGIN TOKENS TABLE (email verification for the donor portal)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS donor_login_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email TEXT NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL, -- SHA-256 of the emailed token; the raw token is never stored
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donor_login_tokens_email ON donor_login_tokens(email);
+CREATE INDEX IF NOT EXISTS idx_donor_login_tokens_expires_at ON donor_login_tokens(expires_at);
+
+-- ============================================================================
+-- ADMIN USERS TABLE (named admin accounts with roles)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS admin_users (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  email TEXT UNIQUE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'reviewer', 'field_coordinator', 'finance', 'read_only')),
+  token_hash TEXT UNIQUE NOT NULL, -- SHA-256 of the admin's personal API token
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_users_role ON admin_users(role);
+
+-- ============================================================================
+-- INTAKE NONCES TABLE (replay protection for signed intake requests)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS intake_nonces (
+  source TEXT NOT NULL, -- Intake source that signed the request
+  nonce TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL, -- End of the request's signing window
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (source, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_intake_nonces_expires_at ON intake_nonces(expires_at);
+
+-- ============================================================================
+-- AUDIT EVENTS TABLE (append-only log of administrative mutations)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  actor TEXT NOT NULL, -- Admin email, role email, or 'system:<source>'
+  actor_role TEXT,
+  action TEXT NOT NULL, -- e.g. 'update.published', 'sponsorship.sponsor_assigned'
+  target_table TEXT NOT NULL,
+  target_id TEXT NOT NULL,
+  child_id TEXT,
+  sponsor_code TEXT,
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb, -- {field: {before, after}}
+  request_id TEXT,
+  metadata JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_occurred_at ON audit_events(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_child_id ON audit_events(child_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_sponsor_code ON audit_events(sponsor_code);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events(actor);
+CREATE INDEX IF NOT EXISTS idx_audit_events_target ON audit_events(target_table, target_id);
 
 -- ============================================================================
 -- ROW LEVEL SECURITY (RLS) POLICIES
@@ -200,10 +455,22 @@ CREATE INDEX IF NOT EXISTS idx_donations_donation_date ON donations(donation_dat
 -- Enable RLS on all tables
 ALTER TABLE sponsorships ENABLE ROW LEVEL SECURITY;
 ALTER TABLE updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE update_corrections ENABLE ROW LEVEL SECURITY;
 ALTER TABLE children ENABLE ROW LEVEL SECURITY;
+ALTER TABLE safeguarding_rules ENABLE ROW LEVEL SECURITY;
 ALTER TABLE child_updates ENABLE ROW LEVEL SECURITY;
 ALTER TABLE donors ENABLE ROW LEVEL SECURITY;
 ALTER TABLE donations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fund_allocations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE donor_merges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dunning_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sponsor_login_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE donor_login_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE intake_nonces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
 
 -- Service role can do everything (used by server-side API)
 CREATE POLICY "Service role full access on sponsorships" ON sponsorships
@@ -212,9 +479,15 @@ CREATE POLICY "Service role full access on sponsorships" ON sponsorships
 CREATE POLICY "Service role full access on updates" ON updates
   FOR ALL USING (auth.role() = 'service_role');
 
+CREATE POLICY "Service role full access on update_corrections" ON update_corrections
+  FOR ALL USING (auth.role() = 'service_role');
+
 CREATE POLICY "Service role full access on children" ON children
   FOR ALL USING (auth.role() = 'service_role');
 
+CREATE POLICY "Service role full access on safeguarding_rules" ON safeguarding_rules
+  FOR ALL USING (auth.role() = 'service_role');
+
 CREATE POLICY "Service role full access on child_updates" ON child_updates
   FOR ALL USING (auth.role() = 'service_role');
 
@@ -224,6 +497,41 @@ CREATE POLICY "Service role full access on donors" ON donors
 CREATE POLICY "Service role full access on donations" ON donations
   FOR ALL USING (auth.role() = 'service_role');
 
+CREATE POLICY "Service role full access on fund_allocations" ON fund_allocations
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on campaigns" ON campaigns
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on donor_merges" ON donor_merges
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on stripe_events" ON stripe_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on dunning_cases" ON dunning_cases
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on sponsor_login_tokens" ON sponsor_login_tokens
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on donor_login_tokens" ON donor_login_tokens
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on admin_users" ON admin_users
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on intake_nonces" ON intake_nonces
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Audit events are append-only: the service role may insert and read, but
+-- updates and deletes are blocked by the trigger below
+CREATE POLICY "Service role insert on audit_events" ON audit_events
+  FOR INSERT WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role read on audit_events" ON audit_events
+  FOR SELECT USING (auth.role() = 'service_role');
+
 -- ============================================================================
 -- UPDATED_AT TRIGGER FUNCTION
 -- ============================================================================
@@ -252,6 +560,10 @@ CREATE TRIGGER update_child_updates_updated_at
   BEFORE UPDATE ON child_updates
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_safeguarding_rules_updated_at
+  BEFORE UPDATE ON safeguarding_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_donors_updated_at
   BEFORE UPDATE ON donors
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -259,3 +571,25 @@ CREATE TRIGGER update_donors_updated_at
 CREATE TRIGGER update_donations_updated_at
   BEFORE UPDATE ON donations
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_campaigns_updated_at
+  BEFORE UPDATE ON campaigns
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_admin_users_updated_at
+  BEFORE UPDATE ON admin_users
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- AUDIT EVENTS APPEND-ONLY GUARD
+-- ============================================================================
+CREATE OR REPLACE FUNCTION prevent_audit_event_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_mutation();